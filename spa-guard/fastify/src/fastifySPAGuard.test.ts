@@ -487,6 +487,171 @@ describe("fastifySPAGuard", () => {
     });
   });
 
+  describe("user, session, tags and feedback in beacon payload", () => {
+    it("passes sessionId, user, tags and context to onBeacon", async () => {
+      const onBeacon = vi.fn();
+      const app = await buildApp({ onBeacon, path: "/api/beacon" });
+
+      const beaconData = {
+        context: { subscription: { plan: "pro" } },
+        errorMessage: "chunk load failed",
+        sessionId: "session-1",
+        tags: { release: "canary" },
+        user: { id: "42" },
+      };
+
+      await app.inject({
+        headers: { "content-type": "text/plain" },
+        method: "POST",
+        payload: makeBeaconBody(beaconData),
+        url: "/api/beacon",
+      });
+
+      expect(onBeacon).toHaveBeenCalledWith(
+        expect.objectContaining(beaconData),
+        expect.anything(),
+        expect.anything(),
+      );
+      await app.close();
+    });
+
+    it("passes user feedback to onBeacon", async () => {
+      const onBeacon = vi.fn();
+      const app = await buildApp({ onBeacon, path: "/api/beacon" });
+
+      const beaconData = {
+        eventName: "user-feedback",
+        feedback: { email: "jane@example.com", message: "The page stayed blank" },
+        retryId: "abc-123",
+      };
+
+      await app.inject({
+        headers: { "content-type": "text/plain" },
+        method: "POST",
+        payload: makeBeaconBody(beaconData),
+        url: "/api/beacon",
+      });
+
+      expect(onBeacon).toHaveBeenCalledWith(
+        expect.objectContaining(beaconData),
+        expect.anything(),
+        expect.anything(),
+      );
+      await app.close();
+    });
+
+    it("rejects feedback longer than 2000 characters", async () => {
+      const onBeacon = vi.fn();
+      const app = await buildApp({ onBeacon, path: "/api/beacon" });
+
+      const response = await app.inject({
+        headers: { "content-type": "text/plain" },
+        method: "POST",
+        payload: makeBeaconBody({ feedback: { message: "x".repeat(2001) } }),
+        url: "/api/beacon",
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(onBeacon).not.toHaveBeenCalled();
+      await app.close();
+    });
+
+    it("rejects a beacon whose tags are not strings", async () => {
+      const onBeacon = vi.fn();
+      const onUnknownBeacon = vi.fn();
+      const app = await buildApp({ onBeacon, onUnknownBeacon, path: "/api/beacon" });
+
+      const response = await app.inject({
+        headers: { "content-type": "text/plain" },
+        method: "POST",
+        payload: makeBeaconBody({ errorMessage: "test", tags: { beta: true } }),
+        url: "/api/beacon",
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(onBeacon).not.toHaveBeenCalled();
+      expect(onUnknownBeacon).toHaveBeenCalledTimes(1);
+      await app.close();
+    });
+  });
+
+  describe("batched beacons (JSON array payload)", () => {
+    const postBatch = (app: Awaited<ReturnType<typeof buildApp>>, data: unknown) =>
+      app.inject({
+        headers: { "content-type": "text/plain" },
+        method: "POST",
+        payload: makeBeaconBody(data),
+        url: "/api/beacon",
+      });
+
+    it("calls onBeacon once per beacon in the batch", async () => {
+      const onBeacon = vi.fn();
+      const app = await buildApp({ onBeacon, path: "/api/beacon" });
+
+      const response = await postBatch(app, [{ eventName: "first" }, { eventName: "second" }]);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ success: true });
+      expect(onBeacon).toHaveBeenCalledTimes(2);
+      expect(onBeacon.mock.calls[0]?.[0]).toEqual({ eventName: "first" });
+      expect(onBeacon.mock.calls[1]?.[0]).toEqual({ eventName: "second" });
+      await app.close();
+    });
+
+    it("calls onUnknownBeacon for invalid items and onBeacon for valid ones", async () => {
+      const onBeacon = vi.fn();
+      const onUnknownBeacon = vi.fn();
+      const app = await buildApp({ onBeacon, onUnknownBeacon, path: "/api/beacon" });
+
+      const response = await postBatch(app, [{ eventName: "valid" }, { eventName: 123 }]);
+
+      expect(response.statusCode).toBe(200);
+      expect(onBeacon).toHaveBeenCalledTimes(1);
+      expect(onUnknownBeacon).toHaveBeenCalledWith(
+        { eventName: 123 },
+        expect.anything(),
+        expect.anything(),
+      );
+      await app.close();
+    });
+
+    it("returns 400 when every beacon in the batch is invalid", async () => {
+      const app = await buildApp({ path: "/api/beacon" });
+
+      const response = await postBatch(app, [{ eventName: 123 }, "not-a-beacon"]);
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual({ error: "Invalid beacon format" });
+      await app.close();
+    });
+
+    it("returns 400 for an empty batch", async () => {
+      const onBeacon = vi.fn();
+      const app = await buildApp({ onBeacon, path: "/api/beacon" });
+
+      const response = await postBatch(app, []);
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual({ error: "Invalid beacon batch" });
+      expect(onBeacon).not.toHaveBeenCalled();
+      await app.close();
+    });
+
+    it("returns 400 when the batch exceeds 50 beacons", async () => {
+      const onBeacon = vi.fn();
+      const app = await buildApp({ onBeacon, path: "/api/beacon" });
+
+      const response = await postBatch(
+        app,
+        Array.from({ length: 51 }, (_, i) => ({ eventName: `event-${i}` })),
+      );
+
+      expect(response.statusCode).toBe(400);
+      expect(onBeacon).not.toHaveBeenCalled();
+      await app.close();
+    });
+  });
+
   describe("edge cases", () => {
     it("handles missing onBeacon callback (no callback configured)", async () => {
       const app = await buildApp({ path: "/api/beacon" });
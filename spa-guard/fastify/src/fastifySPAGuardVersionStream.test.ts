@@ -0,0 +1,163 @@
+import Fastify from "fastify";
+
+import type { AddressInfo } from "node:net";
+
+import { createHtmlCache } from "@ovineko/spa-guard-node";
+import { get, type IncomingMessage } from "node:http";
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  type FastifySPAGuardVersionStreamOptions,
+  fastifySPAGuardVersionStream,
+  getSpaGuardHtmlCache,
+  reloadSpaGuardHtmlCache,
+  type SpaGuardHandlerOptions,
+} from "./index";
+
+const htmlWithVersion = (version: string) =>
+  `<!DOCTYPE html><html lang="en"><head><script>window.__SPA_GUARD_VERSION__="${version}";</script></head><body></body></html>`;
+
+const buildApp = async (
+  getCache: FastifySPAGuardVersionStreamOptions["getCache"],
+  heartbeatInterval?: number,
+) => {
+  const fastify = Fastify({ logger: false });
+  await fastify.register(fastifySPAGuardVersionStream, {
+    getCache,
+    path: "/api/version/stream",
+    ...(heartbeatInterval !== undefined && { heartbeatInterval }),
+  });
+  await fastify.listen({ host: "127.0.0.1", port: 0 });
+  return fastify;
+};
+
+/** Opens the stream and collects its body as it arrives. */
+const connect = (app: Awaited<ReturnType<typeof buildApp>>) =>
+  new Promise<{ chunks: string[]; response: IncomingMessage }>((resolve, reject) => {
+    const { port } = app.server.address() as AddressInfo;
+    const request = get(`http://127.0.0.1:${port}/api/version/stream`, (response) => {
+      const chunks: string[] = [];
+      response.setEncoding("utf8");
+      response.on("data", (chunk: string) => chunks.push(chunk));
+      // Resolve once the initial event has arrived
+      response.once("data", () => resolve({ chunks, response }));
+    });
+    request.on("error", reject);
+  });
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe("fastifySPAGuardVersionStream", () => {
+  let app: Awaited<ReturnType<typeof buildApp>> | undefined;
+
+  afterEach(async () => {
+    await app?.close();
+    app = undefined;
+  });
+
+  it("responds with an event stream that starts with the current version", async () => {
+    const cache = await createHtmlCache({ html: htmlWithVersion("1.0.0"), languages: ["en"] });
+    app = await buildApp(() => cache);
+
+    const { chunks, response } = await connect(app);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers["content-type"]).toBe("text/event-stream; charset=utf-8");
+    expect(response.headers["cache-control"]).toBe("no-cache, no-transform");
+    expect(chunks.join("")).toBe('event: version\ndata: {"version":"1.0.0"}\n\n');
+    response.destroy();
+  });
+
+  it("sends a comment instead of a version when the HTML has none", async () => {
+    const cache = await createHtmlCache({ html: "<html><body></body></html>", languages: ["en"] });
+    app = await buildApp(() => cache);
+
+    const { chunks, response } = await connect(app);
+
+    expect(chunks.join("")).toBe(": connected\n\n");
+    response.destroy();
+  });
+
+  it("pushes the new version to every client on publish()", async () => {
+    let cache = await createHtmlCache({ html: htmlWithVersion("1.0.0"), languages: ["en"] });
+    app = await buildApp(() => cache);
+    const first = await connect(app);
+    const second = await connect(app);
+
+    cache = await createHtmlCache({ html: htmlWithVersion("2.0.0"), languages: ["en"] });
+    await app.spaGuardVersionStream.publish();
+
+    for (const client of [first, second]) {
+      await waitFor(() => client.chunks.join("").includes('"2.0.0"'));
+      expect(client.chunks.at(-1)).toBe('event: version\ndata: {"version":"2.0.0"}\n\n');
+      client.response.destroy();
+    }
+  });
+
+  it("pushes the new version when the HTML cache is reloaded", async () => {
+    let html = htmlWithVersion("1.0.0");
+    const handlerOptions: SpaGuardHandlerOptions = {
+      getHtml: () => ({ html, languages: ["en"] }),
+    };
+    app = await buildApp(() => getSpaGuardHtmlCache(handlerOptions));
+    const client = await connect(app);
+
+    html = htmlWithVersion("2.0.0");
+    await reloadSpaGuardHtmlCache(app, handlerOptions);
+
+    await waitFor(() => client.chunks.join("").includes('"2.0.0"'));
+    expect(client.chunks.at(-1)).toBe('event: version\ndata: {"version":"2.0.0"}\n\n');
+    client.response.destroy();
+  });
+
+  it("does not push when the version is unchanged", async () => {
+    const cache = await createHtmlCache({ html: htmlWithVersion("1.0.0"), languages: ["en"] });
+    app = await buildApp(() => cache);
+    const client = await connect(app);
+
+    await app.spaGuardVersionStream.publish();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(client.chunks).toHaveLength(1);
+    client.response.destroy();
+  });
+
+  it("tracks connected clients and forgets disconnected ones", async () => {
+    const cache = await createHtmlCache({ html: htmlWithVersion("1.0.0"), languages: ["en"] });
+    app = await buildApp(() => cache);
+    const client = await connect(app);
+
+    expect(app.spaGuardVersionStream.clientCount).toBe(1);
+
+    client.response.destroy();
+
+    const stream = app.spaGuardVersionStream;
+    await waitFor(() => stream.clientCount === 0);
+  });
+
+  it("sends keep-alive comments", async () => {
+    const cache = await createHtmlCache({ html: htmlWithVersion("1.0.0"), languages: ["en"] });
+    app = await buildApp(() => cache, 20);
+    const client = await connect(app);
+
+    await waitFor(() => client.chunks.includes(": ping\n\n"));
+    client.response.destroy();
+  });
+
+  it("closes open streams when the server closes", async () => {
+    const cache = await createHtmlCache({ html: htmlWithVersion("1.0.0"), languages: ["en"] });
+    app = await buildApp(() => cache);
+    const client = await connect(app);
+    const ended = new Promise((resolve) => client.response.on("end", resolve));
+
+    await app.close();
+    app = undefined;
+
+    await expect(ended).resolves.toBeUndefined();
+  });
+});
@@ -1,7 +1,8 @@
-import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
 
 import type { CreateHtmlCacheOptions, HtmlCache } from "@ovineko/spa-guard-node";
 import type { BeaconSchema } from "@ovineko/spa-guard/schema";
+import type { ServerResponse } from "node:http";
 
 import { createHtmlCache } from "@ovineko/spa-guard-node";
 import fp from "fastify-plugin";
@@ -13,6 +14,12 @@ import { parseBeacon } from "@ovineko/spa-guard/schema/parse";
 
 import { name } from "../package.json";
 
+/**
+ * Upper bound on beacons accepted in a single batched request
+ * (the client flushes its offline queue as a JSON array).
+ */
+const MAX_BEACON_BATCH_SIZE = 50;
+
 const parseStringBody = (body: string): unknown => {
   try {
     return JSON.parse(body);
@@ -91,7 +98,11 @@ const handleBeaconRequest = async (params: {
     errorMessage: beacon.errorMessage,
     eventMessage: beacon.eventMessage,
     eventName: beacon.eventName,
+    // The email is left out of the default log, like `user`
+    ...(beacon.feedback && { feedbackMessage: beacon.feedback.message }),
+    ...(beacon.occurrences !== undefined && { occurrences: beacon.occurrences }),
     serialized: beacon.serialized,
+    ...(beacon.sessionId && { sessionId: beacon.sessionId }),
   };
 
   if (options.onBeacon) {
@@ -109,23 +120,28 @@ const handleBeaconRequest = async (params: {
 
 /**
  * SPA Guard plugin for Fastify
- * Registers a POST endpoint to receive beacon data from the client
+ * Registers a POST endpoint to receive beacon data from the client.
+ * Accepts a single beacon object or a batch (JSON array) of beacons;
+ * `onBeacon` / `onUnknownBeacon` are called once per item.
  *
  * @example
  * ```ts
- * import { fastifySPAGuard } from '@ovineko/spa-guard/fastify';
+ * import { BeaconError, fastifySPAGuard } from '@ovineko/spa-guard-fastify';
  *
  * app.register(fastifySPAGuard, {
  *   path: '/api/beacon',
  *   onBeacon: async (beacon, request, reply) => {
  *     // Handle beacon data (e.g., log to Sentry)
- *     const error = new Error(beacon.errorMessage || 'Unknown error');
+ *     const error = new BeaconError(beacon);
  *     Sentry.captureException(error, {
+ *       contexts: error.context,
  *       extra: {
- *         eventName: beacon.eventName,
- *         eventMessage: beacon.eventMessage,
- *         serialized: beacon.serialized,
+ *         eventName: error.eventName,
+ *         eventMessage: error.eventMessage,
+ *         serialized: error.serialized,
  *       },
+ *       tags: { ...error.tags, sessionId: error.sessionId },
+ *       user: error.user,
  *     });
  *
  *     // Skip default logging if you want to handle it yourself
@@ -165,12 +181,35 @@ const fastifySPAGuardPlugin: FastifyPluginAsync<FastifySPAGuardOptions> = async
     }
 
     const body = parseStringBody(request.body);
+    const handlerOptions = {
+      ...(onBeacon !== undefined && { onBeacon }),
+      ...(onUnknownBeacon !== undefined && { onUnknownBeacon }),
+    };
+
+    if (Array.isArray(body)) {
+      if (body.length === 0 || body.length > MAX_BEACON_BATCH_SIZE) {
+        request.log.warn({ batchSize: body.length }, logMessage("Invalid beacon batch size"));
+        return reply.status(400).send({ error: "Invalid beacon batch" });
+      }
+
+      let acceptedCount = 0;
+      for (const item of body) {
+        if (await handleBeaconRequest({ body: item, options: handlerOptions, reply, request })) {
+          acceptedCount++;
+        }
+      }
+
+      if (!reply.sent) {
+        return reply
+          .status(acceptedCount > 0 ? 200 : 400)
+          .send(acceptedCount > 0 ? { success: true } : { error: "Invalid beacon format" });
+      }
+      return reply;
+    }
+
     const success = await handleBeaconRequest({
       body,
-      options: {
-        ...(onBeacon !== undefined && { onBeacon }),
-        ...(onUnknownBeacon !== undefined && { onUnknownBeacon }),
-      },
+      options: handlerOptions,
       reply,
       request,
     });
@@ -188,6 +227,149 @@ export const fastifySPAGuard = fp(fastifySPAGuardPlugin, {
   name: `${name}/fastify`,
 });
 
+export interface FastifySPAGuardVersionStreamOptions {
+  /**
+   * Returns the `HtmlCache` currently being served. Called on every new connection
+   * and on `publish()`, so it can return a cache rebuilt after a deploy.
+   */
+  getCache: () => HtmlCache | Promise<HtmlCache>;
+  /**
+   * Interval in milliseconds between keep-alive comments, which stop proxies
+   * from closing an idle stream.
+   * @default 30000
+   */
+  heartbeatInterval?: number;
+  /**
+   * The route path for the event stream
+   * @example "/api/version/stream"
+   */
+  path: string;
+}
+
+export interface SpaGuardVersionStream {
+  /** Number of connected clients. */
+  readonly clientCount: number;
+  /**
+   * Reads the version from `getCache()` again and pushes it to every connected
+   * client when it changed. `reloadSpaGuardHtmlCache()` calls it for you; call it
+   * yourself after replacing a cache you built with `createHtmlCache`.
+   */
+  publish(): Promise<void>;
+}
+
+declare module "fastify" {
+  interface FastifyInstance {
+    spaGuardVersionStream: SpaGuardVersionStream;
+  }
+}
+
+const formatVersionEvent = (version: string): string =>
+  `event: version\ndata: ${JSON.stringify({ version })}\n\n`;
+
+/**
+ * Server-Sent Events endpoint for `checkVersion.mode: "sse"`.
+ * Registers a `GET` route at `options.path` that sends the current version from
+ * the `HtmlCache` on connect and pushes a `version` event to every client on
+ * `fastify.spaGuardVersionStream.publish()`.
+ *
+ * @example
+ * ```ts
+ * const handlerOptions = { getHtml: async () => ({ html: await readIndexHtml() }) };
+ *
+ * app.register(fastifySPAGuardVersionStream, {
+ *   getCache: () => getSpaGuardHtmlCache(handlerOptions),
+ *   path: '/api/version/stream',
+ * });
+ *
+ * // after a deploy: rebuilds the cache and publishes the new version
+ * await reloadSpaGuardHtmlCache(app, handlerOptions);
+ * ```
+ */
+const fastifySPAGuardVersionStreamPlugin: FastifyPluginAsync<
+  FastifySPAGuardVersionStreamOptions
+> = async (fastify, options) => {
+  const { getCache, heartbeatInterval = 30_000, path } = options;
+  const clients = new Set<ServerResponse>();
+  let heartbeat: null | ReturnType<typeof setInterval> = null;
+  let publishedVersion: null | string = null;
+
+  const stopHeartbeat = () => {
+    if (heartbeat !== null) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+  };
+
+  const removeClient = (client: ServerResponse) => {
+    clients.delete(client);
+    if (clients.size === 0) {
+      stopHeartbeat();
+    }
+  };
+
+  const addClient = (client: ServerResponse) => {
+    clients.add(client);
+    heartbeat ??= setInterval(() => {
+      for (const connected of clients) {
+        connected.write(": ping\n\n");
+      }
+    }, heartbeatInterval);
+    heartbeat.unref?.();
+  };
+
+  const readVersion = async (): Promise<null | string> => (await getCache()).version;
+
+  fastify.decorate("spaGuardVersionStream", {
+    get clientCount() {
+      return clients.size;
+    },
+    async publish() {
+      const version = await readVersion();
+      if (!version || version === publishedVersion) {
+        return;
+      }
+      publishedVersion = version;
+      const message = formatVersionEvent(version);
+      for (const client of clients) {
+        client.write(message);
+      }
+    },
+  });
+
+  fastify.get(path, async (request, reply) => {
+    const version = await readVersion();
+    publishedVersion ??= version;
+
+    reply.hijack();
+    const response = reply.raw;
+    response.writeHead(200, {
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "Content-Type": "text/event-stream; charset=utf-8",
+      // Disable response buffering in nginx
+      "X-Accel-Buffering": "no",
+    });
+    response.write(version ? formatVersionEvent(version) : ": connected\n\n");
+
+    addClient(response);
+    request.raw.on("close", () => removeClient(response));
+  });
+
+  // Open streams would otherwise keep `fastify.close()` waiting forever
+  fastify.addHook("preClose", async () => {
+    stopHeartbeat();
+    for (const client of clients) {
+      client.end();
+    }
+    clients.clear();
+  });
+};
+
+export const fastifySPAGuardVersionStream = fp(fastifySPAGuardVersionStreamPlugin, {
+  fastify: "5.x || 4.x",
+  name: `${name}/fastify-version-stream`,
+});
+
 export interface SpaGuardHandlerOptions {
   /** @internal Promise used to deduplicate concurrent lazy cache creation */
   _cachePromise?: Promise<HtmlCache>;
@@ -195,11 +377,11 @@ export interface SpaGuardHandlerOptions {
   getHtml?: (() => CreateHtmlCacheOptions) | (() => Promise<CreateHtmlCacheOptions>);
 }
 
-export async function spaGuardFastifyHandler(
-  request: FastifyRequest,
-  reply: FastifyReply,
-  options: SpaGuardHandlerOptions,
-): Promise<FastifyReply> {
+/**
+ * Returns the `HtmlCache` served by `spaGuardFastifyHandler` for these options,
+ * building it from `getHtml` on first use.
+ */
+export async function getSpaGuardHtmlCache(options: SpaGuardHandlerOptions): Promise<HtmlCache> {
   const { getHtml } = options;
 
   if (!options.cache && !getHtml) {
@@ -218,7 +400,41 @@ export async function spaGuardFastifyHandler(
     options.cache = await options._cachePromise;
   }
 
-  const cache = options.cache!;
+  return options.cache!;
+}
+
+/**
+ * Rebuilds the HTML cache from `getHtml`, e.g. after a deploy, and pushes the
+ * new version to `fastifySPAGuardVersionStream` clients when that plugin is registered.
+ * Requests keep being served from the previous cache until the new one is ready.
+ */
+export async function reloadSpaGuardHtmlCache(
+  fastify: FastifyInstance,
+  options: SpaGuardHandlerOptions,
+): Promise<HtmlCache> {
+  const { getHtml } = options;
+
+  if (!getHtml) {
+    throw new Error("reloadSpaGuardHtmlCache requires the 'getHtml' option");
+  }
+
+  const cache = await createHtmlCache(await getHtml());
+  options.cache = cache;
+  options._cachePromise = Promise.resolve(cache);
+
+  if (fastify.hasDecorator("spaGuardVersionStream")) {
+    await fastify.spaGuardVersionStream.publish();
+  }
+
+  return cache;
+}
+
+export async function spaGuardFastifyHandler(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  options: SpaGuardHandlerOptions,
+): Promise<FastifyReply> {
+  const cache = await getSpaGuardHtmlCache(options);
 
   const acceptEncoding = request.headers["accept-encoding"] as string | undefined;
   const acceptLanguage = request.headers["accept-language"] as string | undefined;
@@ -3,7 +3,7 @@ import Fastify from "fastify";
 import { createHtmlCache } from "@ovineko/spa-guard-node";
 import { describe, expect, it } from "vitest";
 
-import { spaGuardFastifyHandler } from "./index";
+import { reloadSpaGuardHtmlCache, spaGuardFastifyHandler } from "./index";
 
 const sampleHtml = `<!DOCTYPE html><html lang="en"><head><title>App</title><script>window.__SPA_GUARD_VERSION__="1.0.0";</script></head><body><div id="app"></div></body></html>`;
 
@@ -130,6 +130,32 @@ describe("spaGuardFastifyHandler", () => {
     });
   });
 
+  describe("reloadSpaGuardHtmlCache", () => {
+    it("serves the rebuilt HTML after a reload", async () => {
+      let html = sampleHtml;
+      const handlerOptions = { getHtml: () => ({ html, languages: ["en"] }) };
+      const app = await buildApp(handlerOptions);
+      await app.inject({ method: "GET", url: "/" });
+
+      html = sampleHtml.replace("1.0.0", "2.0.0");
+      await reloadSpaGuardHtmlCache(app, handlerOptions);
+      const response = await app.inject({ method: "GET", url: "/" });
+
+      expect(response.headers.etag).toBe('"2.0.0-en"');
+      await app.close();
+    });
+
+    it("throws without getHtml", async () => {
+      const cache = await createHtmlCache({ html: sampleHtml, languages: ["en"] });
+      const app = await buildApp({ cache });
+
+      await expect(reloadSpaGuardHtmlCache(app, { cache })).rejects.toThrow(
+        "reloadSpaGuardHtmlCache requires the 'getHtml' option",
+      );
+      await app.close();
+    });
+  });
+
   describe("error on missing options", () => {
     it("throws when neither cache nor getHtml is provided", async () => {
       const app = await buildApp({});
@@ -166,6 +166,112 @@ describe("builder", () => {
     });
   });
 
+  describe("fallback templates", () => {
+    it("minifies every category template next to the default content", async () => {
+      const result = await buildSpaGuardScript({
+        html: {
+          fallback: {
+            content: "<div> generic </div>",
+            templates: { "static-asset": "<div> asset </div>" },
+          },
+        },
+        version: "1.0.0",
+      });
+      const optionsMatch = result.scriptContent.match(/window\.__SPA_GUARD_OPTIONS__=(\{.*?\});/);
+      const parsed = JSON.parse(optionsMatch![1]!);
+
+      expect(parsed.html.fallback).toEqual({
+        content: "minified:<div> generic </div>",
+        templates: { "static-asset": "minified:<div> asset </div>" },
+      });
+    });
+  });
+
+  describe("optional default templates", () => {
+    it("leaves the update prompt, feedback and recovery markup out by default", async () => {
+      const result = await buildSpaGuardScript({ version: "1.0.0" });
+
+      expect(result.scriptContent).not.toContain("spa-guard-update-prompt");
+      expect(result.scriptContent).not.toContain('data-spa-guard-section=\\"feedback\\"');
+      expect(result.scriptContent).not.toContain('data-spa-guard-section=\\"recovery\\"');
+    });
+
+    it("inlines the update prompt for onUpdate: 'prompt'", async () => {
+      const result = await buildSpaGuardScript({
+        checkVersion: { onUpdate: "prompt" },
+        version: "1.0.0",
+      });
+
+      expect(result.scriptContent).toContain("spa-guard-update-prompt");
+    });
+
+    it("inlines the fallback with the enabled sections", async () => {
+      const result = await buildSpaGuardScript({
+        fallbackRecovery: { enabled: true },
+        feedback: { enabled: true },
+        version: "1.0.0",
+      });
+
+      expect(result.scriptContent).toContain('data-spa-guard-section=\\"feedback\\"');
+      expect(result.scriptContent).toContain('data-spa-guard-section=\\"recovery\\"');
+    });
+  });
+
+  describe("embedded translations", () => {
+    const parseOptions = (scriptContent: string) =>
+      JSON.parse(scriptContent.match(/window\.__SPA_GUARD_OPTIONS__=(\{.*?\});/)![1]!);
+
+    it("embeds the built-in translations of i18n.languages only", async () => {
+      const result = await buildSpaGuardScript({ i18n: { languages: ["de", "ja"] } });
+      const parsed = parseOptions(result.scriptContent);
+
+      expect(Object.keys(parsed.i18n.translations)).toEqual(["de", "ja"]);
+      expect(parsed.i18n.translations.de.heading).toBe("Etwas ist schief gelaufen"); // cspell:disable-line
+      expect(parsed.i18n.languages).toBeUndefined();
+    });
+
+    it("does not embed translations without i18n.languages", async () => {
+      const result = await buildSpaGuardScript();
+
+      expect(parseOptions(result.scriptContent).i18n).toBeUndefined();
+    });
+
+    it("rejects a language without built-in translations", async () => {
+      await expect(buildSpaGuardScript({ i18n: { languages: ["xx"] } })).rejects.toThrow(
+        'No built-in translations for i18n.languages entry "xx"',
+      );
+    });
+  });
+
+  describe("error matcher validation", () => {
+    it("serializes structured error matchers", async () => {
+      const ignore = [
+        "Script error.",
+        { flags: "i", regex: "^resizeobserver", source: "error" as const },
+      ];
+      const result = await buildSpaGuardScript({
+        errors: { ignore },
+        version: "1.0.0",
+      });
+      const optionsMatch = result.scriptContent.match(/window\.__SPA_GUARD_OPTIONS__=(\{.*?\});/);
+      expect(JSON.parse(optionsMatch![1]!).errors.ignore).toEqual(ignore);
+    });
+
+    it("buildSpaGuardScript rejects an invalid regex", async () => {
+      await expect(buildSpaGuardScript({ errors: { ignore: [{ regex: "([" }] } })).rejects.toThrow(
+        "errors.ignore[0].regex is not a valid regular expression",
+      );
+    });
+
+    it("buildExternalScript rejects an invalid regex before writing the file", async () => {
+      const fsMod = await import("node:fs/promises");
+      await expect(
+        buildExternalScript({ errors: { forceRetry: [{ regex: "+" }] }, outDir: "/tmp/unused" }),
+      ).rejects.toThrow("errors.forceRetry[0].regex is not a valid regular expression");
+      expect(fsMod.default.writeFile).not.toHaveBeenCalled();
+    });
+  });
+
   describe("buildExternalScript", () => {
     let tempDir: string;
 
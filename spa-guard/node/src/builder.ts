@@ -5,7 +5,10 @@ import {
   optionsWindowKey,
   sanitizeCssValue,
   SPINNER_ID,
+  validateErrorMatchers,
+  withOptionalDefaultTemplates,
 } from "@ovineko/spa-guard/_internal";
+import { pickTranslations } from "@ovineko/spa-guard/i18n";
 import { minify } from "html-minifier-terser";
 import crypto from "node:crypto";
 import fsPromise from "node:fs/promises";
@@ -64,13 +67,49 @@ const minifyHtml = async (html: string): Promise<string> => {
   });
 };
 
-/** Resolve and normalise options, generating a version if absent. */
+type FallbackHtmlOptions = NonNullable<NonNullable<Options["html"]>["fallback"]>;
+
+/** Minifies `content` and every category template of `html.fallback`. */
+const minifyFallbackHtml = async (fallback: FallbackHtmlOptions): Promise<FallbackHtmlOptions> => {
+  const templates = fallback.templates
+    ? Object.fromEntries(
+        await Promise.all(
+          Object.entries(fallback.templates).map(async ([category, html]) => [
+            category,
+            html ? await minifyHtml(html) : html,
+          ]),
+        ),
+      )
+    : undefined;
+
+  return {
+    ...fallback,
+    ...(fallback.content && { content: await minifyHtml(fallback.content) }),
+    ...(templates && { templates }),
+  };
+};
+
+/**
+ * Resolve and normalise options, generating a version if absent.
+ * Throws if `errors.ignore` / `errors.forceRetry` contain invalid matchers
+ * or `i18n.languages` lists a language without built-in translations.
+ */
 const resolveFinalOptions = (options: BuildScriptOptions): BuildScriptOptions => {
+  validateErrorMatchers(options.errors);
+
   const finalOptions: BuildScriptOptions = {
-    ...options,
+    ...withOptionalDefaultTemplates(options),
     version: options.version ?? crypto.randomUUID(),
   };
 
+  if (options.i18n?.languages) {
+    const { languages, ...i18n } = options.i18n;
+    finalOptions.i18n = {
+      ...i18n,
+      translations: { ...pickTranslations(languages), ...i18n.translations },
+    };
+  }
+
   const spinnerOpts = options.html?.spinner;
   if (spinnerOpts?.disabled !== true) {
     const spinnerContent = spinnerOpts?.content ?? defaultSpinnerSvg;
@@ -95,13 +134,10 @@ const buildRawScript = async (finalOptions: BuildScriptOptions): Promise<string>
   const processedOptions: BuildScriptOptions = { ...finalOptions };
   delete processedOptions.trace;
 
-  if (processedOptions.html?.fallback?.content) {
+  if (processedOptions.html?.fallback) {
     processedOptions.html = {
       ...processedOptions.html,
-      fallback: {
-        ...processedOptions.html.fallback,
-        content: await minifyHtml(processedOptions.html.fallback.content),
-      },
+      fallback: await minifyFallbackHtml(processedOptions.html.fallback),
     };
   }
 
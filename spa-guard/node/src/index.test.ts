@@ -45,6 +45,72 @@ describe("node", () => {
       expect(result).toContain("문제가 발생했습니다");
     });
 
+    it("includes the keys used by the fallback category templates", () => {
+      const result = patchHtmlI18n({ html: sampleHtml, lang: "de" });
+      const content = result.match(/<meta name="spa-guard-i18n" content="([^"]*)"/)![1]!;
+      const t = JSON.parse(content.replaceAll("&quot;", '"'));
+
+      expect(t).toMatchObject({
+        offlineHeading: "Sie sind offline",
+        staleDeployHeading: "Die App wurde aktualisiert",
+        staticAssetHeading: "Einige Dateien konnten nicht geladen werden",
+      });
+    });
+
+    it("includes the resolved lang and keeps placeholders and plural forms", () => {
+      const nextCheck = {
+        few: "Проверка через {seconds} секунды",
+        many: "Проверка через {seconds} секунд",
+        one: "Проверка через {seconds} секунду",
+        other: "Проверка через {seconds} секунды",
+      };
+      const result = patchHtmlI18n({
+        acceptLanguage: "ru-RU",
+        html: sampleHtml,
+        translations: { ru: { nextCheck } },
+      });
+      const content = result.match(/<meta name="spa-guard-i18n" content="([^"]*)"/)![1]!;
+      const t = JSON.parse(content.replaceAll("&quot;", '"'));
+
+      expect(t).toMatchObject({ lang: "ru", nextCheck, retrying: "Повторная попытка {attempt}" });
+    });
+
+    it("injects custom template keys and falls back to their English text", () => {
+      const customTranslations = {
+        en: { supportHint: "Contact support", supportLink: "Help center" },
+        ko: { supportHint: "고객 지원에 문의하세요" },
+      };
+      const getMeta = (lang: string) => {
+        const result = patchHtmlI18n<"supportHint" | "supportLink">({
+          html: sampleHtml,
+          lang,
+          translations: customTranslations,
+        });
+        const content = result.match(/<meta name="spa-guard-i18n" content="([^"]*)"/)![1]!;
+        return JSON.parse(content.replaceAll("&quot;", '"'));
+      };
+
+      expect(getMeta("ko")).toMatchObject({
+        heading: "문제가 발생했습니다",
+        supportHint: "고객 지원에 문의하세요",
+        supportLink: "Help center",
+      });
+      expect(getMeta("de")).toMatchObject({
+        supportHint: "Contact support",
+        supportLink: "Help center",
+      });
+    });
+
+    it("does not copy built-in English overrides into other languages", () => {
+      const result = patchHtmlI18n({
+        html: sampleHtml,
+        lang: "ko",
+        translations: { en: { heading: "Custom heading", rtl: false } },
+      });
+      expect(result).not.toContain("Custom heading");
+      expect(result).toContain("문제가 발생했습니다");
+    });
+
     it("updates html lang attribute", () => {
       const result = patchHtmlI18n({ html: sampleHtml, lang: "ko" });
       expect(result).toContain('lang="ko"');
@@ -370,6 +436,29 @@ describe("node", () => {
         const response = cache.get({ lang: "th" });
         expect(response.body.toString()).toContain('lang="th"');
       });
+
+      it("falls back to the English text of custom keys", async () => {
+        cache = await createHtmlCache<"supportHint">({
+          html: sampleHtml,
+          languages: ["en", "ja"],
+          translations: { en: { supportHint: "Contact support" } },
+        });
+        expect(cache.get({ lang: "ja" }).body.toString()).toContain(
+          "&quot;supportHint&quot;:&quot;Contact support&quot;",
+        );
+      });
+    });
+
+    describe("version", () => {
+      it("exposes the version from __SPA_GUARD_VERSION__", async () => {
+        cache = await createHtmlCache({ html: sampleHtmlWithVersion, languages: ["en"] });
+        expect(cache.version).toBe("1.2.3");
+      });
+
+      it("is null when the HTML has no version", async () => {
+        cache = await createHtmlCache({ html: sampleHtml, languages: ["en"] });
+        expect(cache.version).toBeNull();
+      });
     });
 
     describe("ETag", () => {
@@ -539,6 +628,35 @@ describe("node", () => {
         expect(response.headers.Vary).toBe("Accept-Language, Accept-Encoding");
       });
 
+      it("sends the version in X-App-Version", async () => {
+        cache = await createHtmlCache({
+          html: sampleHtmlWithVersion,
+          languages: ["en"],
+        });
+        const response = cache.get({ lang: "en" });
+        expect(response.headers["X-App-Version"]).toBe("1.2.3");
+      });
+
+      it("sends the version in a custom versionHeader", async () => {
+        cache = await createHtmlCache({
+          html: sampleHtmlWithVersion,
+          languages: ["en"],
+          versionHeader: "X-Build",
+        });
+        const response = cache.get({ lang: "en" });
+        expect(response.headers["X-Build"]).toBe("1.2.3");
+        expect(response.headers["X-App-Version"]).toBeUndefined();
+      });
+
+      it("omits the version header when the HTML has no version", async () => {
+        cache = await createHtmlCache({
+          html: sampleHtml,
+          languages: ["en"],
+        });
+        const response = cache.get({ lang: "en" });
+        expect(response.headers["X-App-Version"]).toBeUndefined();
+      });
+
       it("omits Content-Encoding for identity (no acceptEncoding)", async () => {
         cache = await createHtmlCache({
           html: sampleHtml,
@@ -1,11 +1,11 @@
-export type { SpaGuardTranslations } from "@ovineko/spa-guard/i18n";
+export type { ExtendedTranslations, SpaGuardTranslations } from "@ovineko/spa-guard/i18n";
 export { matchLang, translations } from "@ovineko/spa-guard/i18n";
 
 import { negotiate } from "@fastify/accept-negotiator";
 
-import type { SpaGuardTranslations } from "@ovineko/spa-guard/i18n";
+import type { ExtendedTranslations, SpaGuardTranslations } from "@ovineko/spa-guard/i18n";
 
-import { extractVersionFromHtml } from "@ovineko/spa-guard/_internal";
+import { DEFAULT_VERSION_HEADER, extractVersionFromHtml } from "@ovineko/spa-guard/_internal";
 import { matchLang, translations } from "@ovineko/spa-guard/i18n";
 import { createHash } from "node:crypto";
 import { promisify } from "node:util";
@@ -16,13 +16,22 @@ const gzipAsync = promisify(gzip);
 const brotliAsync = promisify(brotliCompress);
 const zstdAsync = promisify(zstdCompress);
 
-export interface CreateHtmlCacheOptions {
+export interface CreateHtmlCacheOptions<K extends string = never> {
   /** The HTML string to cache */
   html: string;
   /** Languages to pre-generate (defaults to all keys from built-in + custom translations) */
   languages?: string[];
-  /** Custom translations (deep-merged per-language with built-ins) */
-  translations?: Record<string, Partial<SpaGuardTranslations>>;
+  /**
+   * Custom translations (deep-merged per-language with built-ins). Extra keys `K` translate
+   * custom template elements and fall back to their `en` text in other languages.
+   */
+  translations?: Record<string, Partial<ExtendedTranslations<K>>>;
+  /**
+   * Response header carrying `__SPA_GUARD_VERSION__`, read by `checkVersion.mode: "header"`.
+   * Must match `checkVersion.versionHeader` on the client.
+   * @default "X-App-Version"
+   */
+  versionHeader?: string;
 }
 
 export interface HtmlCache {
@@ -32,6 +41,8 @@ export interface HtmlCache {
     ifNoneMatch?: string;
     lang?: string;
   }): HtmlCacheResponse;
+  /** `__SPA_GUARD_VERSION__` extracted from the HTML, or `null` when the HTML has none. */
+  readonly version: null | string;
 }
 
 export interface HtmlCacheResponse {
@@ -46,15 +57,18 @@ export type HTMLCacheStoreInput<K extends string> =
 
 export type HTMLCacheStoreMap<K extends string> = Record<K, (() => Promise<string>) | string>;
 
-export interface PatchHtmlI18nOptions {
+export interface PatchHtmlI18nOptions<K extends string = never> {
   /** Raw Accept-Language header value */
   acceptLanguage?: string;
   /** The HTML string to patch */
   html: string;
   /** Explicit language override (takes priority over acceptLanguage) */
   lang?: string;
-  /** Custom translations (deep-merged per-language with built-ins) */
-  translations?: Record<string, Partial<SpaGuardTranslations>>;
+  /**
+   * Custom translations (deep-merged per-language with built-ins). Extra keys `K` translate
+   * custom template elements and fall back to their `en` text in other languages.
+   */
+  translations?: Record<string, Partial<ExtendedTranslations<K>>>;
 }
 
 interface CacheEntry {
@@ -71,14 +85,21 @@ interface CacheEntry {
  *
  * At startup, generates all language variants via patchHtmlI18n and
  * pre-compresses each with gzip, brotli, and zstd. ETag is derived from
- * `__SPA_GUARD_VERSION__` in the HTML (falls back to sha256 prefix).
+ * `__SPA_GUARD_VERSION__` in the HTML (falls back to sha256 prefix), and the
+ * version itself is sent in the `versionHeader` header for header-mode version checks.
  *
  * The returned cache's `get()` method resolves language via `matchLang`
  * and negotiates encoding via Accept-Encoding, returning a ready-to-use
  * response with body and headers.
  */
-export async function createHtmlCache(options: CreateHtmlCacheOptions): Promise<HtmlCache> {
-  const { html, translations: customTranslations } = options;
+export async function createHtmlCache<K extends string = never>(
+  options: CreateHtmlCacheOptions<NoInfer<K>>,
+): Promise<HtmlCache> {
+  const {
+    html,
+    translations: customTranslations,
+    versionHeader = DEFAULT_VERSION_HEADER,
+  } = options;
 
   const merged = mergeTranslations(customTranslations);
   const mergedKeys = new Set(Object.keys(merged));
@@ -103,7 +124,7 @@ export async function createHtmlCache(options: CreateHtmlCacheOptions): Promise<
 
   await Promise.all(
     languages.map(async (lang) => {
-      const patched = patchHtmlI18n({
+      const patched = patchHtmlI18n<K>({
         html,
         lang,
         ...(customTranslations !== undefined && { translations: customTranslations }),
@@ -138,6 +159,7 @@ export async function createHtmlCache(options: CreateHtmlCacheOptions): Promise<
         "Content-Type": "text/html; charset=utf-8",
         ETag: entry.etag,
         Vary: "Accept-Language, Accept-Encoding",
+        ...(version && { [versionHeader]: version }),
       };
 
       if (ifNoneMatch && etagWeakMatch(ifNoneMatch, entry.etag)) {
@@ -164,6 +186,7 @@ export async function createHtmlCache(options: CreateHtmlCacheOptions): Promise<
 
       return { body: bodyMap[encoding]!, headers, statusCode: 200 as const };
     },
+    version,
   };
 }
 
@@ -247,11 +270,14 @@ export const createHTMLCacheStore = <K extends string>(
  *
  * Resolves language from `lang` (explicit) or `acceptLanguage` (header),
  * merges translations, and injects a `<meta name="spa-guard-i18n">` tag
- * into `<head>`. Also updates `<html lang="...">`.
+ * into `<head>`, including the resolved `lang` the client picks plural forms for.
+ * Also updates `<html lang="...">`.
  *
  * English without custom translations is a no-op (returns unchanged HTML).
  */
-export function patchHtmlI18n(options: PatchHtmlI18nOptions): string {
+export function patchHtmlI18n<K extends string = never>(
+  options: PatchHtmlI18nOptions<NoInfer<K>>,
+): string {
   const { acceptLanguage, html, lang: langOverride, translations: customTranslations } = options;
 
   const merged = mergeTranslations(customTranslations);
@@ -299,7 +325,8 @@ export function patchHtmlI18n(options: PatchHtmlI18nOptions): string {
   const meta: DefaultTreeAdapterTypes.Element = {
     attrs: [
       { name: "name", value: "spa-guard-i18n" },
-      { name: "content", value: JSON.stringify(t) },
+      // The client selects plural forms for `lang`
+      { name: "content", value: JSON.stringify({ lang: resolvedLang, ...t }) },
     ],
     childNodes: [],
     namespaceURI: parse5Html.NS.HTML,
@@ -342,9 +369,18 @@ function mergeTranslations(
 ): Record<string, SpaGuardTranslations> {
   const merged: Record<string, SpaGuardTranslations> = { ...translations };
   if (customTranslations) {
-    for (const [key, partial] of Object.entries(customTranslations)) {
+    // Keys of custom template elements fall back to English in every language
+    const builtInKeys = new Set([...Object.keys(translations.en ?? {}), "lang", "rtl"]);
+    const customEnglish = Object.fromEntries(
+      Object.entries(customTranslations.en ?? {}).filter(([key]) => !builtInKeys.has(key)),
+    );
+    for (const key of new Set([...Object.keys(customTranslations), ...Object.keys(merged)])) {
       const base = merged[key];
-      merged[key] = { ...(base ?? translations.en), ...partial } as SpaGuardTranslations;
+      merged[key] = {
+        ...(base ?? translations.en),
+        ...customEnglish,
+        ...customTranslations[key],
+      } as SpaGuardTranslations;
     }
   }
   return merged;
@@ -5,6 +5,7 @@ vi.mock("@ovineko/spa-guard/_internal", async (importOriginal) => {
   const actual = await importOriginal<Record<string, unknown>>();
   return {
     ...actual,
+    clearCacheAndReload: vi.fn(),
     getOptions: vi.fn().mockReturnValue({}),
   };
 });
@@ -12,6 +13,7 @@ vi.mock("@ovineko/spa-guard/_internal", async (importOriginal) => {
 import type { SpaGuardState } from "@ovineko/spa-guard/runtime";
 
 import {
+  clearCacheAndReload,
   defaultErrorFallbackHtml,
   defaultLoadingFallbackHtml,
   getOptions,
@@ -245,8 +247,8 @@ describe("DefaultErrorFallback", () => {
         />,
       );
 
-      const attemptEl = container.querySelector('[data-spa-guard-content="attempt"]');
-      expect(attemptEl?.textContent).toBe("2");
+      const retryingEl = container.querySelector('[data-spa-guard-content="retrying"]');
+      expect(retryingEl?.textContent).toBe("Retry attempt 2");
     });
 
     it("shows retrying section when retrying", () => {
@@ -276,7 +278,7 @@ describe("DefaultErrorFallback", () => {
       );
 
       const retryingLabel = container.querySelector('[data-spa-guard-content="retrying"]');
-      expect(retryingLabel?.textContent).toBe("Retry attempt");
+      expect(retryingLabel?.textContent).toBe("Retry attempt 1");
     });
   });
 
@@ -317,6 +319,21 @@ describe("DefaultErrorFallback", () => {
       expect(reloadBtn).not.toHaveAttribute("onclick");
     });
 
+    it("clears caches when the clear-cache button is clicked", () => {
+      const { container } = render(
+        <DefaultErrorFallback
+          error={new Error("test")}
+          isChunkError={false}
+          isRetrying={false}
+          spaGuardState={defaultState}
+        />,
+      );
+
+      fireEvent.click(container.querySelector('[data-spa-guard-action="clear-cache"]')!);
+
+      expect(clearCacheAndReload).toHaveBeenCalledOnce();
+    });
+
     it("includes Error ID span with spa-guard-retry-id class", () => {
       const { container } = render(
         <DefaultErrorFallback
@@ -405,7 +422,7 @@ describe("DefaultErrorFallback", () => {
       expect(section.style.display).toBe("block");
     });
 
-    it("patches attempt number via data-spa-guard-content attribute", () => {
+    it("interpolates the attempt number into the retrying text", () => {
       const { container } = render(
         <DefaultErrorFallback
           error={new Error("test")}
@@ -415,8 +432,8 @@ describe("DefaultErrorFallback", () => {
         />,
       );
 
-      const attemptEl = container.querySelector('[data-spa-guard-content="attempt"]');
-      expect(attemptEl?.textContent).toBe("5");
+      const retryingEl = container.querySelector('[data-spa-guard-content="retrying"]');
+      expect(retryingEl?.textContent).toBe("Retry attempt 5");
     });
   });
 
@@ -1,13 +1,16 @@
 import { useLayoutEffect, useMemo, useRef } from "react";
 
+import type { TranslationParams } from "@ovineko/spa-guard/_internal";
 import type { SpaGuardState } from "@ovineko/spa-guard/runtime";
 
 import {
   applyI18n,
+  clearCacheAndReload,
   defaultErrorFallbackHtml,
   defaultLoadingFallbackHtml,
   getI18n,
   getOptions,
+  resolveDelays,
 } from "@ovineko/spa-guard/_internal";
 
 interface DefaultErrorFallbackProps {
@@ -26,6 +29,7 @@ const escapeHtml = (str: string): string =>
     .replaceAll('"', "&quot;");
 
 const reloadHandler = () => location.reload();
+const clearCacheHandler = () => void clearCacheAndReload();
 
 /**
  * Build final HTML by parsing the template in a virtual container
@@ -37,6 +41,7 @@ function buildHtml(
   patches: {
     actions?: Record<string, boolean>;
     content?: Record<string, string>;
+    params?: TranslationParams;
     sections?: Record<string, boolean>;
     spinnerHtml?: string;
   },
@@ -78,10 +83,7 @@ function buildHtml(
     }
   }
 
-  const t = getI18n();
-  if (t) {
-    applyI18n(container, t);
-  }
+  applyI18n(container, getI18n(), patches.params);
 
   return container.innerHTML;
 }
@@ -109,8 +111,9 @@ export const DefaultErrorFallback: React.FC<DefaultErrorFallbackProps> = ({
       const loadingTemplate = opts.html?.loading?.content ?? defaultLoadingFallbackHtml;
       const spinnerContent = opts.html?.spinner?.content;
       return buildHtml(loadingTemplate, {
-        content: {
-          attempt: String(spaGuardState.currentAttempt),
+        params: {
+          attempt: spaGuardState.currentAttempt,
+          total: resolveDelays(opts.reloadDelays ?? [], false).length,
         },
         sections: {
           retrying: true,
@@ -144,6 +147,9 @@ export const DefaultErrorFallback: React.FC<DefaultErrorFallbackProps> = ({
     const reloadBtn = el.querySelector('[data-spa-guard-action="reload"]');
     reloadBtn?.addEventListener("click", reloadHandler);
 
+    const clearCacheBtn = el.querySelector('[data-spa-guard-action="clear-cache"]');
+    clearCacheBtn?.addEventListener("click", clearCacheHandler);
+
     const tryAgainHandler = onReset ? () => onReset() : null;
     const tryAgainBtn = onReset ? el.querySelector('[data-spa-guard-action="try-again"]') : null;
     if (tryAgainHandler && tryAgainBtn) {
@@ -152,6 +158,7 @@ export const DefaultErrorFallback: React.FC<DefaultErrorFallbackProps> = ({
 
     return () => {
       reloadBtn?.removeEventListener("click", reloadHandler);
+      clearCacheBtn?.removeEventListener("click", clearCacheHandler);
       if (tryAgainHandler && tryAgainBtn) {
         tryAgainBtn.removeEventListener("click", tryAgainHandler);
       }
@@ -465,8 +465,7 @@ describe("ErrorBoundary", () => {
       );
 
       expect(screen.getByText("Loading...")).toBeInTheDocument();
-      expect(screen.getByText("Retry attempt")).toBeInTheDocument();
-      expect(screen.getByText("1")).toBeInTheDocument();
+      expect(screen.getByText("Retry attempt 1")).toBeInTheDocument();
     });
 
     it("renders DefaultFallback with error message when not retrying", () => {
@@ -6,10 +6,12 @@ import { getState, subscribeToState } from "@ovineko/spa-guard/runtime";
 export { DefaultErrorFallback } from "../DefaultErrorFallback";
 export { DebugSyncErrorTrigger } from "./DebugSyncErrorTrigger";
 export { lazyWithRetry } from "./lazyWithRetry";
+export { prefetchOnIdle } from "./prefetchOnIdle";
 export { Spinner } from "./Spinner";
-export type { LazyRetryOptions } from "./types";
+export type { LazyRetryOptions, LazyWithRetryComponent } from "./types";
 export { useSPAGuardChunkError } from "./useSPAGuardChunkError";
 export { useSPAGuardEvents } from "./useSPAGuardEvents";
+export { useVersionStale } from "./useVersionStale";
 export { ForceRetryError } from "@ovineko/spa-guard";
 export type { SpaGuardState } from "@ovineko/spa-guard/runtime";
 
@@ -19,6 +21,7 @@ export const useSpaGuardState = () => {
       return {
         currentAttempt: 0,
         isFallbackShown: false,
+        isOffline: false,
         isWaiting: false,
       };
     }
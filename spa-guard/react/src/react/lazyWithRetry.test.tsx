@@ -300,4 +300,97 @@ describe("lazyWithRetry", () => {
 
     consoleError.mockRestore();
   });
+
+  describe("preload", () => {
+    it("imports without page reload on failure and tags the retry events", async () => {
+      mockGetOptions({ callReloadOnFailure: true, retryDelays: [500] });
+      vi.mocked(retryImport).mockResolvedValue({ default: GenericComponent });
+
+      const mockImportFn = vi.fn();
+      const LazyComponent = lazyWithRetry(mockImportFn);
+      await LazyComponent.preload();
+
+      expect(retryImport).toHaveBeenCalledWith(mockImportFn, [500], {
+        callReloadOnFailure: false,
+        preload: true,
+      });
+    });
+
+    it("renders a preloaded component without suspending", async () => {
+      mockGetOptions();
+      vi.mocked(retryImport).mockResolvedValue({ default: LoadedSuccessfullyComponent });
+
+      const LazyComponent = lazyWithRetry(vi.fn());
+      await LazyComponent.preload();
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <LazyComponent />
+        </Suspense>,
+      );
+
+      expect(screen.queryByText("Loading...")).not.toBeInTheDocument();
+      expect(screen.getByText("Loaded Successfully")).toBeInTheDocument();
+      expect(retryImport).toHaveBeenCalledOnce();
+    });
+
+    it("shares an in-flight preload with the render", async () => {
+      mockGetOptions();
+      vi.mocked(retryImport).mockResolvedValue({ default: LoadedSuccessfullyComponent });
+
+      const LazyComponent = lazyWithRetry(vi.fn());
+      const preload = LazyComponent.preload();
+      void LazyComponent.preload();
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <LazyComponent />
+        </Suspense>,
+      );
+      await preload;
+
+      await waitFor(() => {
+        expect(screen.getByText("Loaded Successfully")).toBeInTheDocument();
+      });
+      expect(retryImport).toHaveBeenCalledOnce();
+    });
+
+    it("resolves after a failed preload and lets the render import with reload", async () => {
+      mockGetOptions({ callReloadOnFailure: true, retryDelays: [500] });
+      vi.mocked(retryImport)
+        .mockRejectedValueOnce(new Error("Failed to fetch dynamically imported module"))
+        .mockResolvedValueOnce({ default: LoadedAfterRetryComponent });
+
+      const mockImportFn = vi.fn();
+      const LazyComponent = lazyWithRetry(mockImportFn);
+      await expect(LazyComponent.preload()).resolves.toBeUndefined();
+
+      render(
+        <Suspense fallback={<div>Loading...</div>}>
+          <LazyComponent />
+        </Suspense>,
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText("Loaded After Retry")).toBeInTheDocument();
+      });
+      expect(retryImport).toHaveBeenLastCalledWith(mockImportFn, [500], {
+        callReloadOnFailure: true,
+      });
+    });
+
+    it("retries on the next preload after a failure", async () => {
+      mockGetOptions();
+      vi.mocked(retryImport)
+        .mockRejectedValueOnce(new Error("Failed to fetch dynamically imported module"))
+        .mockResolvedValueOnce({ default: GenericComponent });
+
+      const LazyComponent = lazyWithRetry(vi.fn());
+      await LazyComponent.preload();
+      await LazyComponent.preload();
+      await LazyComponent.preload();
+
+      expect(retryImport).toHaveBeenCalledTimes(2);
+    });
+  });
 });
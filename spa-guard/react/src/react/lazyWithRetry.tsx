@@ -1,10 +1,10 @@
-import { type ComponentType, lazy, type LazyExoticComponent } from "react";
+import { type ComponentType, lazy } from "react";
 
 import { getOptions, retryImport } from "@ovineko/spa-guard/_internal";
 
-import type { LazyRetryOptions } from "./types";
+import type { LazyRetryOptions, LazyWithRetryComponent } from "./types";
 
-export type { LazyRetryOptions } from "./types";
+export type { LazyRetryOptions, LazyWithRetryComponent } from "./types";
 
 /**
  * Creates a lazy-loaded React component with automatic retry on chunk load failures.
@@ -33,22 +33,62 @@ export type { LazyRetryOptions } from "./types";
  *   () => import('./widgets/Optional'),
  *   { retryDelays: [1000], callReloadOnFailure: false }
  * );
+ *
+ * @example
+ * // Warm the chunk on hover so the page renders without a loading state
+ * <Link to="/settings" onMouseEnter={() => LazySettings.preload()}>Settings</Link>
  */
 export const lazyWithRetry = <T extends ComponentType<any>>(
   importFn: () => Promise<{ default: T }>,
   options?: LazyRetryOptions,
-): LazyExoticComponent<T> => {
-  return lazy(() => {
+): LazyWithRetryComponent<T> => {
+  let loadedModule: undefined | { default: T };
+  let preloading: Promise<{ default: T }> | undefined;
+
+  // A preload never reloads the page and tags its lazy-retry events with `preload: true`
+  const importWithRetry = (preload = false) => {
     const globalLazyRetry = getOptions().lazyRetry ?? {};
 
     const retryDelays = options?.retryDelays ?? globalLazyRetry.retryDelays ?? [1000, 2000];
     const callReloadOnFailure =
-      options?.callReloadOnFailure ?? globalLazyRetry.callReloadOnFailure ?? true;
+      !preload && (options?.callReloadOnFailure ?? globalLazyRetry.callReloadOnFailure ?? true);
     const signal = options?.signal;
 
     return retryImport(importFn, retryDelays, {
       callReloadOnFailure,
+      ...(preload && { preload }),
       ...(signal !== undefined && { signal }),
+    }).then((module) => {
+      loadedModule = module;
+      return module;
     });
+  };
+
+  const component = lazy(() => {
+    if (loadedModule) {
+      const module = loadedModule;
+      // Resolves synchronously, so React renders the preloaded module without suspending.
+      // React accepts any thenable here; its typings only name Promise.
+      return { then: (resolve: (value: { default: T }) => void) => resolve(module) } as Promise<{
+        default: T;
+      }>;
+    }
+    // A failed preload did not reload the page; the render import may
+    return preloading?.catch(() => importWithRetry()) ?? importWithRetry();
+  });
+
+  return Object.assign(component, {
+    preload: async () => {
+      if (loadedModule) {
+        return;
+      }
+      preloading ??= importWithRetry(true);
+      try {
+        await preloading;
+      } catch {
+        // Reported through the lazy-retry events; a later preload or the render retries
+        preloading = undefined;
+      }
+    },
   });
 };
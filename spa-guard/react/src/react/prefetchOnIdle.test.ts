@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { prefetchOnIdle } from "./prefetchOnIdle";
+
+const createComponent = () => ({ preload: vi.fn().mockResolvedValue(undefined) });
+
+describe("prefetchOnIdle", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("preloads every component in an idle callback", () => {
+    let idleCallback: (() => void) | undefined;
+    const requestIdleCallback = vi.fn((callback: () => void) => {
+      idleCallback = callback;
+      return 7;
+    });
+    vi.stubGlobal("requestIdleCallback", requestIdleCallback);
+    vi.stubGlobal("cancelIdleCallback", vi.fn());
+    const first = createComponent();
+    const second = createComponent();
+
+    prefetchOnIdle([first, second], { timeout: 2000 });
+    expect(first.preload).not.toHaveBeenCalled();
+    expect(requestIdleCallback).toHaveBeenCalledWith(expect.any(Function), { timeout: 2000 });
+
+    idleCallback!();
+
+    expect(first.preload).toHaveBeenCalledOnce();
+    expect(second.preload).toHaveBeenCalledOnce();
+  });
+
+  it("cancels the idle callback", () => {
+    const cancelIdleCallback = vi.fn();
+    vi.stubGlobal(
+      "requestIdleCallback",
+      vi.fn(() => 7),
+    );
+    vi.stubGlobal("cancelIdleCallback", cancelIdleCallback);
+
+    const cancel = prefetchOnIdle([createComponent()]);
+    cancel();
+
+    expect(cancelIdleCallback).toHaveBeenCalledWith(7);
+  });
+
+  it("falls back to a timeout without requestIdleCallback", () => {
+    vi.stubGlobal("requestIdleCallback", undefined);
+    const component = createComponent();
+
+    prefetchOnIdle([component]);
+    vi.advanceTimersByTime(999);
+    expect(component.preload).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(component.preload).toHaveBeenCalledOnce();
+  });
+
+  it("does not preload once cancelled", () => {
+    vi.stubGlobal("requestIdleCallback", undefined);
+    const component = createComponent();
+
+    const cancel = prefetchOnIdle([component]);
+    cancel();
+    vi.advanceTimersByTime(5000);
+
+    expect(component.preload).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,40 @@
+import type { LazyWithRetryComponent } from "./types";
+
+// Fallback delay for browsers without requestIdleCallback (Safari)
+const IDLE_FALLBACK_DELAY = 1000;
+
+/**
+ * Preloads lazyWithRetry components once the browser is idle, e.g. the routes a user is
+ * likely to open next. Without `requestIdleCallback` the preload starts after a short delay.
+ *
+ * @param components - Components returned by lazyWithRetry
+ * @param options.timeout - Maximum wait for an idle period in milliseconds
+ * @returns A function that cancels the preload if it has not started yet
+ *
+ * @example
+ * const LazySettings = lazyWithRetry(() => import('./pages/Settings'));
+ * const LazyBilling = lazyWithRetry(() => import('./pages/Billing'));
+ *
+ * useEffect(() => prefetchOnIdle([LazySettings, LazyBilling]), []);
+ */
+export const prefetchOnIdle = (
+  components: Pick<LazyWithRetryComponent<any>, "preload">[],
+  options?: { timeout?: number },
+): (() => void) => {
+  const preloadAll = () => {
+    for (const component of components) {
+      void component.preload();
+    }
+  };
+
+  if (typeof globalThis.requestIdleCallback === "function") {
+    const handle = globalThis.requestIdleCallback(
+      preloadAll,
+      options?.timeout === undefined ? undefined : { timeout: options.timeout },
+    );
+    return () => globalThis.cancelIdleCallback(handle);
+  }
+
+  const timeoutId = setTimeout(preloadAll, IDLE_FALLBACK_DELAY);
+  return () => clearTimeout(timeoutId);
+};
@@ -1,3 +1,7 @@
+import type { ComponentType, LazyExoticComponent } from "react";
+
+import type { RetryDelays } from "@ovineko/spa-guard/_internal";
+
 /**
  * Per-import options for lazyWithRetry that override global lazyRetry options.
  *
@@ -22,12 +26,13 @@ export interface LazyRetryOptions {
    * Array of delays in milliseconds for retry attempts.
    * Each element represents one retry attempt with the given delay.
    * The number of elements determines the number of retry attempts.
+   * Also accepts a backoff strategy, e.g. `{ type: "exponential", base: 500, attempts: 4 }`.
    * Overrides the global `window.__SPA_GUARD_OPTIONS__.lazyRetry.retryDelays`.
    *
    * @default [1000, 2000] (inherited from global options)
    * @example [500, 1500, 3000] // 3 attempts: 500ms, 1.5s, 3s
    */
-  retryDelays?: number[];
+  retryDelays?: RetryDelays;
 
   /**
    * AbortSignal to cancel pending retry delays between import attempts.
@@ -41,3 +46,17 @@ export interface LazyRetryOptions {
    */
   signal?: AbortSignal;
 }
+
+/**
+ * Lazy component returned by lazyWithRetry.
+ */
+export type LazyWithRetryComponent<T extends ComponentType<any>> = LazyExoticComponent<T> & {
+  /**
+   * Starts loading the chunk ahead of the first render, e.g. on hover, with the same retries
+   * as the render. A render after the chunk has loaded does not suspend.
+   *
+   * Never rejects: a failed preload emits the `lazy-retry-*` events with `preload: true`
+   * (logged as a warning) without reloading the page, and the render imports the chunk again.
+   */
+  preload: () => Promise<void>;
+};
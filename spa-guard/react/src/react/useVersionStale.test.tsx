@@ -0,0 +1,79 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@ovineko/spa-guard/_internal", async (importOriginal) => {
+  const actual = await importOriginal<Record<string, unknown>>();
+  return {
+    ...actual,
+    subscribe: vi.fn(),
+  };
+});
+
+vi.mock("@ovineko/spa-guard/runtime", async (importOriginal) => {
+  const actual = await importOriginal<Record<string, unknown>>();
+  return {
+    ...actual,
+    isVersionStale: vi.fn(),
+  };
+});
+
+import type { SubscribeFn } from "@ovineko/spa-guard/_internal";
+
+import { subscribe } from "@ovineko/spa-guard/_internal";
+import { isVersionStale } from "@ovineko/spa-guard/runtime";
+
+import { useVersionStale } from "./useVersionStale";
+
+const mockSubscribe = vi.mocked(subscribe);
+const mockIsVersionStale = vi.mocked(isVersionStale);
+
+describe("useVersionStale", () => {
+  let capturedSubscriber: null | SubscribeFn = null;
+
+  beforeEach(() => {
+    capturedSubscriber = null;
+    mockIsVersionStale.mockReturnValue(false);
+    mockSubscribe.mockImplementation((cb) => {
+      capturedSubscriber = cb;
+      return vi.fn();
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns false while the running version is current", () => {
+    const { result } = renderHook(() => useVersionStale());
+
+    expect(result.current).toBe(false);
+  });
+
+  it("returns true when the version was already stale on mount", () => {
+    mockIsVersionStale.mockReturnValue(true);
+
+    const { result } = renderHook(() => useVersionStale());
+
+    expect(result.current).toBe(true);
+  });
+
+  it("updates when a version-stale event is emitted", () => {
+    const { result } = renderHook(() => useVersionStale());
+
+    act(() => {
+      capturedSubscriber?.({ latestVersion: "2.0.0", name: "version-stale" });
+    });
+
+    expect(result.current).toBe(true);
+  });
+
+  it("ignores other events", () => {
+    const { result } = renderHook(() => useVersionStale());
+
+    act(() => {
+      capturedSubscriber?.({ name: "fallback-ui-shown" });
+    });
+
+    expect(result.current).toBe(false);
+  });
+});
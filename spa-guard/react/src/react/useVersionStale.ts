@@ -0,0 +1,23 @@
+import { useCallback, useState } from "react";
+
+import { isVersionStale } from "@ovineko/spa-guard/runtime";
+
+import { useSPAGuardEvents } from "./useSPAGuardEvents";
+
+/**
+ * Returns true once a new version is detected with `checkVersion.onUpdate: "navigate"`,
+ * e.g. to show a hint that the next page change loads the update.
+ */
+export const useVersionStale = (): boolean => {
+  const [stale, setStale] = useState(() => globalThis.window !== undefined && isVersionStale());
+
+  useSPAGuardEvents(
+    useCallback((event) => {
+      if (event.name === "version-stale") {
+        setStale(true);
+      }
+    }, []),
+  );
+
+  return stale;
+};
@@ -3,8 +3,11 @@ import fs from "node:fs/promises";
 import path from "node:path";
 
 const ERROR_HTML_PATH = path.join(import.meta.dirname, "../src/fallback-error.html");
+const FEEDBACK_HTML_PATH = path.join(import.meta.dirname, "../src/fallback-feedback.html");
+const RECOVERY_HTML_PATH = path.join(import.meta.dirname, "../src/fallback-recovery.html");
 const LOADING_HTML_PATH = path.join(import.meta.dirname, "../src/fallback-loading.html");
 const SPINNER_HTML_PATH = path.join(import.meta.dirname, "../src/spinner.html");
+const UPDATE_PROMPT_HTML_PATH = path.join(import.meta.dirname, "../src/update-prompt.html");
 const OUTPUT_PATH = path.join(import.meta.dirname, "../src/common/html.generated.ts");
 
 const minifyOptions = {
@@ -21,16 +24,30 @@ const minifyOptions = {
 const escapeTemplate = (str: string): string => str.replaceAll("`", "\\`").replaceAll("${", "\\${");
 
 export async function generateFallback() {
-  const [errorHtml, loadingHtml, spinnerHtml] = await Promise.all([
-    fs.readFile(ERROR_HTML_PATH, "utf8"),
-    fs.readFile(LOADING_HTML_PATH, "utf8"),
-    fs.readFile(SPINNER_HTML_PATH, "utf8"),
-  ]);
+  const [errorHtml, feedbackHtml, recoveryHtml, loadingHtml, spinnerHtml, updatePromptHtml] =
+    await Promise.all([
+      fs.readFile(ERROR_HTML_PATH, "utf8"),
+      fs.readFile(FEEDBACK_HTML_PATH, "utf8"),
+      fs.readFile(RECOVERY_HTML_PATH, "utf8"),
+      fs.readFile(LOADING_HTML_PATH, "utf8"),
+      fs.readFile(SPINNER_HTML_PATH, "utf8"),
+      fs.readFile(UPDATE_PROMPT_HTML_PATH, "utf8"),
+    ]);
 
-  const [errorMinified, loadingMinified, spinnerMinified] = await Promise.all([
+  const [
+    errorMinified,
+    feedbackMinified,
+    recoveryMinified,
+    loadingMinified,
+    spinnerMinified,
+    updatePromptMinified,
+  ] = await Promise.all([
     minify(errorHtml, minifyOptions),
+    minify(feedbackHtml, minifyOptions),
+    minify(recoveryHtml, minifyOptions),
     minify(loadingHtml, minifyOptions),
     minify(spinnerHtml, minifyOptions),
+    minify(updatePromptHtml, minifyOptions),
   ]);
 
   const tsContent = `// This file is auto-generated by scripts/generate-fallback.ts
@@ -39,16 +56,38 @@ export async function generateFallback() {
 // prettier-ignore
 export const defaultErrorFallbackHtml = \`${escapeTemplate(errorMinified)}\`;
 
+// prettier-ignore
+export const defaultFallbackFeedbackHtml = \`${escapeTemplate(feedbackMinified)}\`;
+
+// prettier-ignore
+export const defaultFallbackRecoveryHtml = \`${escapeTemplate(recoveryMinified)}\`;
+
 // prettier-ignore
 export const defaultLoadingFallbackHtml = \`${escapeTemplate(loadingMinified)}\`;
 
 // prettier-ignore
 export const defaultSpinnerHtml = \`${escapeTemplate(spinnerMinified)}\`;
+
+// prettier-ignore
+export const defaultUpdatePromptHtml = \`${escapeTemplate(updatePromptMinified)}\`;
 `;
 
   await fs.writeFile(OUTPUT_PATH, tsContent, "utf8");
 
-  return { errorHtml, errorMinified, loadingHtml, loadingMinified, spinnerHtml, spinnerMinified };
+  return {
+    errorHtml,
+    errorMinified,
+    feedbackHtml,
+    feedbackMinified,
+    loadingHtml,
+    loadingMinified,
+    recoveryHtml,
+    recoveryMinified,
+    spinnerHtml,
+    spinnerMinified,
+    updatePromptHtml,
+    updatePromptMinified,
+  };
 }
 
 // Only run when executed directly (not when imported for testing)
@@ -58,15 +97,26 @@ if (process.argv[1] && import.meta.url.endsWith(process.argv[1].replace(/.*[\\/]
       ({
         errorHtml,
         errorMinified,
+        feedbackHtml,
+        feedbackMinified,
         loadingHtml,
         loadingMinified,
+        recoveryHtml,
+        recoveryMinified,
         spinnerHtml,
         spinnerMinified,
+        updatePromptHtml,
+        updatePromptMinified,
       }) => {
         console.log("✅ Generated:", OUTPUT_PATH);
         console.log(`   Error:   ${errorHtml.length} → ${errorMinified.length} bytes`);
+        console.log(`   Feedback: ${feedbackHtml.length} → ${feedbackMinified.length} bytes`);
+        console.log(`   Recovery: ${recoveryHtml.length} → ${recoveryMinified.length} bytes`);
         console.log(`   Loading: ${loadingHtml.length} → ${loadingMinified.length} bytes`);
         console.log(`   Spinner: ${spinnerHtml.length} → ${spinnerMinified.length} bytes`);
+        console.log(
+          `   Update prompt: ${updatePromptHtml.length} → ${updatePromptMinified.length} bytes`,
+        );
       },
     )
     .catch((error) => {
@@ -1,7 +1,11 @@
 // Internal exports for sibling packages. Not part of the public API.
 // This module is consumed by @ovineko/spa-guard-react, -react-router, -fastify, -node, -vite.
 
+export { resolveDelays } from "./common/backoff";
+export type { RetryDelays } from "./common/backoff";
+export { clearCacheAndReload } from "./common/clearCache";
 export { debugSyncErrorEventType } from "./common/constants";
+export { withOptionalDefaultTemplates } from "./common/defaultTemplates";
 export {
   disableDefaultRetry,
   emitEvent,
@@ -13,14 +17,15 @@ export type { SPAGuardEvent, SPAGuardEventChunkError, UnsubscribeFn } from "./co
 export { handleErrorWithSpaGuard } from "./common/handleErrorWithSpaGuard";
 export type { ErrorInfoLike, HandleErrorOptions } from "./common/handleErrorWithSpaGuard";
 export { defaultErrorFallbackHtml, defaultLoadingFallbackHtml } from "./common/html.generated";
-export { applyI18n, getI18n } from "./common/i18n";
+export { applyI18n, getI18n, getTemplateTranslationKeys } from "./common/i18n";
+export type { TranslationParams } from "./common/i18n";
 export { isChunkError } from "./common/isChunkError";
 export { listenInternal } from "./common/listen/internal";
 export { logMessage } from "./common/log";
 export { createLogger } from "./common/logger";
 export { getOptions, optionsWindowKey } from "./common/options";
 export type { Options } from "./common/options";
-export { extractVersionFromHtml } from "./common/parseVersion";
+export { DEFAULT_VERSION_HEADER, extractVersionFromHtml } from "./common/parseVersion";
 export { retryImport } from "./common/retryImport";
 export {
   getRetrySnapshot,
@@ -35,6 +40,7 @@ export type {
   TriggerResult,
 } from "./common/retryOrchestrator";
 export { serializeError } from "./common/serializeError";
+export { validateErrorMatchers } from "./common/shouldIgnore";
 export { defaultSpinnerSvg, sanitizeCssValue, SPINNER_ID } from "./common/spinner";
 export {
   dispatchAsyncRuntimeError,
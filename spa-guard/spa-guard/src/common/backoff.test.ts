@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { resolveDelays } from "./backoff";
+
+describe("resolveDelays", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns delay arrays unchanged", () => {
+    const delays = [1000, 2000, 5000];
+    expect(resolveDelays(delays)).toBe(delays);
+  });
+
+  it("grows the delay by factor for each attempt", () => {
+    expect(resolveDelays({ attempts: 4, base: 500, factor: 3, type: "exponential" })).toEqual([
+      500, 1500, 4500, 13_500,
+    ]);
+  });
+
+  it("doubles the delay by default", () => {
+    expect(resolveDelays({ attempts: 3, base: 1000, type: "exponential" })).toEqual([
+      1000, 2000, 4000,
+    ]);
+  });
+
+  it("caps each delay at max", () => {
+    expect(resolveDelays({ attempts: 5, base: 1000, max: 5000, type: "exponential" })).toEqual([
+      1000, 2000, 4000, 5000, 5000,
+    ]);
+  });
+
+  it("shortens each delay by up to jitter * delay", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(resolveDelays({ attempts: 3, base: 1000, jitter: 0.4, type: "exponential" })).toEqual([
+      800, 1600, 3200,
+    ]);
+  });
+
+  it("keeps the longest delays when withJitter is false", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(
+      resolveDelays({ attempts: 3, base: 1000, jitter: 0.4, type: "exponential" }, false),
+    ).toEqual([1000, 2000, 4000]);
+  });
+
+  it("clamps jitter to the 0-1 range", () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    expect(resolveDelays({ attempts: 1, base: 1000, jitter: 5, type: "exponential" })).toEqual([0]);
+    expect(resolveDelays({ attempts: 1, base: 1000, jitter: -1, type: "exponential" })).toEqual([
+      1000,
+    ]);
+  });
+
+  it("treats invalid attempt counts as no retries and caps large ones", () => {
+    expect(resolveDelays({ attempts: -2, base: 1000, type: "exponential" })).toEqual([]);
+    expect(resolveDelays({ attempts: Number.NaN, base: 1000, type: "exponential" })).toEqual([]);
+    expect(resolveDelays({ attempts: 1e9, base: 1, factor: 1, type: "exponential" })).toHaveLength(
+      100,
+    );
+  });
+});
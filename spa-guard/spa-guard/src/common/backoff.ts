@@ -0,0 +1,58 @@
+/** Guards against huge `attempts` values; far beyond any sensible retry count. */
+const MAX_ATTEMPTS = 100;
+
+/**
+ * Exponential backoff: attempt `n` (0-based) waits `base * factor^n` milliseconds, capped at `max`.
+ * Plain JSON so it can be serialized into `window.__SPA_GUARD_OPTIONS__`.
+ *
+ * @example
+ * { type: "exponential", base: 1000, factor: 2, max: 10_000, jitter: 0.5, attempts: 4 }
+ * // 1s, 2s, 4s, 8s, each shortened by a random amount of up to 50%
+ */
+export interface BackoffStrategy {
+  /** Number of retry attempts. */
+  attempts: number;
+  /** Delay in milliseconds before the first attempt. */
+  base: number;
+  /**
+   * Multiplier applied to the delay after each attempt.
+   * @default 2
+   */
+  factor?: number;
+  /**
+   * Fraction (0-1) of each delay that is randomized: the delay is shortened by a random
+   * amount of up to `jitter * delay`, so clients that failed together do not retry together.
+   * @default 0
+   */
+  jitter?: number;
+  /** Upper bound in milliseconds for a single delay. */
+  max?: number;
+  type: "exponential";
+}
+
+/**
+ * Retry delays in milliseconds, one entry per attempt, or a strategy that generates them.
+ * @example [1000, 2000, 5000]
+ */
+export type RetryDelays = BackoffStrategy | number[];
+
+/**
+ * Expands `delays` into one delay per attempt. Jitter is applied unless `withJitter`
+ * is false; without it each entry is the longest the delay can be.
+ */
+export const resolveDelays = (delays: RetryDelays, withJitter = true): number[] => {
+  if (Array.isArray(delays)) {
+    return delays;
+  }
+
+  const { attempts, base, factor = 2, jitter = 0, max = Infinity } = delays;
+  const count = Number.isFinite(attempts)
+    ? Math.min(Math.max(0, Math.floor(attempts)), MAX_ATTEMPTS)
+    : 0;
+  const jitterRatio = withJitter ? Math.min(Math.max(jitter, 0), 1) : 0;
+
+  return Array.from({ length: count }, (_, attempt) => {
+    const delay = Math.min(base * factor ** attempt, max);
+    return Math.round(delay - Math.random() * jitterRatio * delay);
+  });
+};
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  _resetBeaconContextForTesting,
+  getBeaconContext,
+  getSessionId,
+  setContext,
+  setTags,
+  setUser,
+} from "./beaconContext";
+
+const SESSION_ID_STORAGE_KEY = "__spa_guard_session_id__";
+
+describe("beaconContext", () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+    _resetBeaconContextForTesting();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    sessionStorage.clear();
+    _resetBeaconContextForTesting();
+  });
+
+  describe("getSessionId", () => {
+    it("generates a session ID and keeps it in sessionStorage", () => {
+      const sessionId = getSessionId();
+
+      expect(sessionId).toEqual(expect.any(String));
+      expect(sessionId.length).toBeGreaterThan(0);
+      expect(sessionStorage.getItem(SESSION_ID_STORAGE_KEY)).toBe(sessionId);
+    });
+
+    it("returns the same ID on subsequent calls", () => {
+      expect(getSessionId()).toBe(getSessionId());
+    });
+
+    it("reuses an ID stored by a previous page load in the same tab", () => {
+      sessionStorage.setItem(SESSION_ID_STORAGE_KEY, "from-before-reload");
+
+      expect(getSessionId()).toBe("from-before-reload");
+    });
+
+    it("falls back to a stable in-memory ID when sessionStorage throws", () => {
+      vi.spyOn(Storage.prototype, "getItem").mockImplementation(() => {
+        throw new Error("SecurityError");
+      });
+
+      const sessionId = getSessionId();
+
+      expect(sessionId).toEqual(expect.any(String));
+      expect(getSessionId()).toBe(sessionId);
+    });
+  });
+
+  describe("getBeaconContext", () => {
+    it("contains only the session ID by default", () => {
+      expect(getBeaconContext()).toEqual({ sessionId: getSessionId() });
+    });
+
+    it("includes the user set with setUser", () => {
+      setUser({ email: "jane@example.com", id: "42" });
+
+      expect(getBeaconContext().user).toEqual({ email: "jane@example.com", id: "42" });
+    });
+
+    it("clears the user with setUser(null)", () => {
+      setUser({ id: "42" });
+      setUser(null);
+
+      expect(getBeaconContext()).not.toHaveProperty("user");
+    });
+
+    it("does not keep a reference to the object passed to setUser", () => {
+      const user = { id: "42" };
+      setUser(user);
+      user.id = "changed";
+
+      expect(getBeaconContext().user).toEqual({ id: "42" });
+    });
+
+    it("merges tags across setTags calls", () => {
+      setTags({ release: "canary", tenant: "acme" });
+      setTags({ "flag.checkout": "on", release: "stable" });
+
+      expect(getBeaconContext().tags).toEqual({
+        "flag.checkout": "on",
+        release: "stable",
+        tenant: "acme",
+      });
+    });
+
+    it("removes tags set to undefined", () => {
+      setTags({ release: "canary", tenant: "acme" });
+      setTags({ tenant: undefined });
+
+      expect(getBeaconContext().tags).toEqual({ release: "canary" });
+    });
+
+    it("omits tags when all of them are removed", () => {
+      setTags({ tenant: "acme" });
+      setTags({ tenant: undefined });
+
+      expect(getBeaconContext()).not.toHaveProperty("tags");
+    });
+
+    it("stores named contexts set with setContext", () => {
+      setContext("subscription", { plan: "pro" });
+      setContext("device", { memory: 8 });
+
+      expect(getBeaconContext().context).toEqual({
+        device: { memory: 8 },
+        subscription: { plan: "pro" },
+      });
+    });
+
+    it("replaces a context with the same name", () => {
+      setContext("subscription", { plan: "pro", seats: 12 });
+      setContext("subscription", { plan: "free" });
+
+      expect(getBeaconContext().context).toEqual({ subscription: { plan: "free" } });
+    });
+
+    it("removes a context with setContext(name, null)", () => {
+      setContext("subscription", { plan: "pro" });
+      setContext("subscription", null);
+
+      expect(getBeaconContext()).not.toHaveProperty("context");
+    });
+  });
+});
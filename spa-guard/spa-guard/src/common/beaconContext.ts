@@ -0,0 +1,129 @@
+import type { BeaconSchema, BeaconUser } from "../schema";
+
+import { beaconContextWindowKey } from "./constants";
+import { generateRetryId } from "./retryState";
+
+const SESSION_ID_STORAGE_KEY = "__spa_guard_session_id__";
+
+interface BeaconContextState {
+  context: Record<string, Record<string, unknown>>;
+  /** In-memory fallback when sessionStorage is unavailable. */
+  sessionId: null | string;
+  tags: Record<string, string>;
+  user: BeaconUser | null;
+}
+
+const createInitialState = (): BeaconContextState => ({
+  context: {},
+  sessionId: null,
+  tags: {},
+  user: null,
+});
+
+const getState = (): BeaconContextState => {
+  const w = globalThis.window as any;
+  if (!w) {
+    return createInitialState();
+  }
+  return w[beaconContextWindowKey] ?? (w[beaconContextWindowKey] = createInitialState());
+};
+
+/**
+ * Returns the ID of the current browser tab session, generating it on first use.
+ * The ID is kept in sessionStorage, so it survives retry reloads but not a new tab.
+ */
+export const getSessionId = (): string => {
+  try {
+    const stored = sessionStorage.getItem(SESSION_ID_STORAGE_KEY);
+    if (stored) {
+      return stored;
+    }
+    const sessionId = generateRetryId();
+    sessionStorage.setItem(SESSION_ID_STORAGE_KEY, sessionId);
+    return sessionId;
+  } catch {
+    // Fall through to in-memory storage
+  }
+
+  const state = getState();
+  return state.sessionId ?? (state.sessionId = generateRetryId());
+};
+
+/**
+ * Identifies the user reported in every subsequent beacon.
+ * Pass `null` to clear it, e.g. on logout.
+ *
+ * @example
+ * setUser({ email: user.email, id: user.id });
+ */
+export const setUser = (user: BeaconUser | null): void => {
+  getState().user = user ? { ...user } : null;
+};
+
+/**
+ * Merges tags into the set reported in every subsequent beacon.
+ * Tags are flat strings meant for filtering: release channel, tenant, feature flags.
+ * Set a tag to `undefined` to remove it.
+ *
+ * @example
+ * setTags({ "flag.newCheckout": "on", tenant: "acme" });
+ */
+export const setTags = (tags: Record<string, string | undefined>): void => {
+  const state = getState();
+  const next = { ...state.tags };
+  for (const [key, value] of Object.entries(tags)) {
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+  }
+  state.tags = next;
+};
+
+/**
+ * Sets a named block of structured context reported in every subsequent beacon.
+ * The value must be JSON-serializable. Pass `null` to remove the context.
+ *
+ * @example
+ * setContext("subscription", { plan: "pro", seats: 12 });
+ */
+export const setContext = (name: string, context: null | Record<string, unknown>): void => {
+  const state = getState();
+  const next = { ...state.context };
+  if (context) {
+    next[name] = { ...context };
+  } else {
+    delete next[name];
+  }
+  state.context = next;
+};
+
+/**
+ * Returns the fields merged into every beacon: the session ID plus
+ * the user, tags and context when they are set.
+ */
+export const getBeaconContext = (): Pick<
+  BeaconSchema,
+  "context" | "sessionId" | "tags" | "user"
+> => {
+  const { context, tags, user } = getState();
+  return {
+    ...(Object.keys(context).length > 0 && { context }),
+    sessionId: getSessionId(),
+    ...(Object.keys(tags).length > 0 && { tags }),
+    ...(user && { user }),
+  };
+};
+
+/** Reset user, tags, context and the session ID - exported for testing only */
+export const _resetBeaconContextForTesting = (): void => {
+  try {
+    sessionStorage.removeItem(SESSION_ID_STORAGE_KEY);
+  } catch {
+    // Ignore
+  }
+  if (globalThis.window) {
+    (globalThis.window as any)[beaconContextWindowKey] = createInitialState();
+  }
+};
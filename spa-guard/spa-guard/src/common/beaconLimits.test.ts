@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { parseBeacon } from "../schema/parse";
+import { fitBeaconToLimits } from "./beaconLimits";
+
+describe("fitBeaconToLimits", () => {
+  it("returns a beacon within the limits unchanged", () => {
+    const beacon = {
+      context: { tenant: { plan: "pro" } },
+      eventName: "chunk_error",
+      tags: { release: "canary" },
+      user: { id: "42" },
+    };
+
+    expect(fitBeaconToLimits(beacon)).toEqual(beacon);
+  });
+
+  it("truncates string fields to the server limits", () => {
+    const fitted = fitBeaconToLimits({
+      errorMessage: "m".repeat(1000),
+      serialized: "s".repeat(20_000),
+    });
+
+    expect(fitted.errorMessage).toHaveLength(500);
+    expect(fitted.errorMessage?.endsWith("…")).toBe(true);
+    expect(fitted.serialized).toHaveLength(10_000);
+  });
+
+  it("keeps the first 50 tags and truncates their values", () => {
+    const tags = Object.fromEntries(
+      Array.from({ length: 60 }, (_, i) => [`tag${i}`, "v".repeat(300)]),
+    );
+
+    const fitted = fitBeaconToLimits({ tags: { ["k".repeat(60)]: "long key", ...tags } });
+
+    expect(Object.keys(fitted.tags!)).toEqual(Object.keys(tags).slice(0, 50));
+    expect(fitted.tags?.tag0).toHaveLength(200);
+  });
+
+  it("drops contexts beyond 20 entries or the serialized size limit", () => {
+    const small = Object.fromEntries(
+      Array.from({ length: 25 }, (_, i) => [`block${i}`, { index: i }]),
+    );
+
+    expect(Object.keys(fitBeaconToLimits({ context: small }).context!)).toHaveLength(20);
+
+    const fitted = fitBeaconToLimits({
+      context: {
+        first: { value: "a" },
+        huge: { value: "x".repeat(20_000) },
+        last: { value: "b" },
+      },
+    });
+
+    expect(fitted.context).toEqual({ first: { value: "a" }, last: { value: "b" } });
+  });
+
+  it("drops contexts that cannot be serialized", () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    const fitted = fitBeaconToLimits({ context: { circular, ok: { value: 1 } } });
+
+    expect(fitted.context).toEqual({ ok: { value: 1 } });
+  });
+
+  it("removes the context field when nothing fits", () => {
+    expect(fitBeaconToLimits({ context: { huge: { value: "x".repeat(20_000) } } })).toEqual({});
+  });
+
+  it("truncates user fields, breadcrumbs and feedback", () => {
+    const fitted = fitBeaconToLimits({
+      breadcrumbs: Array.from({ length: 120 }, (_, i) => ({
+        category: "custom",
+        message: `${i} ${"x".repeat(600)}`,
+        timestamp: i,
+      })),
+      feedback: { email: `${"e".repeat(300)}@example.com`, message: "f".repeat(3000) },
+      user: { email: "e".repeat(600), id: "42" },
+    });
+
+    expect(fitted.breadcrumbs).toHaveLength(100);
+    expect(fitted.breadcrumbs?.[0]?.timestamp).toBe(20);
+    expect(fitted.breadcrumbs?.[0]?.message).toHaveLength(500);
+    expect(fitted.feedback).toEqual({ message: expect.any(String) });
+    expect(fitted.feedback?.message).toHaveLength(2000);
+    expect(fitted.user).toEqual({ email: expect.any(String), id: "42" });
+    expect(fitted.user?.email).toHaveLength(500);
+    expect(() => parseBeacon(fitted)).not.toThrow();
+  });
+});
@@ -0,0 +1,140 @@
+import type { BeaconSchema, BeaconUser } from "../schema";
+
+import {
+  BEACON_STRING_FIELDS,
+  BEACON_USER_FIELDS,
+  MAX_BREADCRUMB_CATEGORY_LENGTH,
+  MAX_BREADCRUMBS,
+  MAX_CONTEXTS,
+  MAX_FEEDBACK_EMAIL_LENGTH,
+  MAX_FEEDBACK_MESSAGE_LENGTH,
+  MAX_KEY_LENGTH,
+  MAX_SERIALIZED_LENGTH,
+  MAX_STRING_FIELD_LENGTH,
+  MAX_TAG_VALUE_LENGTH,
+  MAX_TAGS,
+} from "../schema/limits";
+
+const truncate = (value: string, maxLength: number): string =>
+  value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+
+const fitTags = (tags: Record<string, string>): Record<string, string> => {
+  const fitted: Record<string, string> = {};
+  let count = 0;
+  for (const [key, value] of Object.entries(tags)) {
+    if (count === MAX_TAGS) {
+      break;
+    }
+    if (key.length <= MAX_KEY_LENGTH && typeof value === "string") {
+      fitted[key] = truncate(value, MAX_TAG_VALUE_LENGTH);
+      count++;
+    }
+  }
+  return fitted;
+};
+
+const fitUser = (user: BeaconUser): BeaconUser => {
+  const fitted: BeaconUser = {};
+  for (const field of BEACON_USER_FIELDS) {
+    const value = user[field];
+    if (typeof value === "string") {
+      fitted[field] = truncate(value, MAX_STRING_FIELD_LENGTH);
+    }
+  }
+  return fitted;
+};
+
+/**
+ * Keeps contexts in insertion order while they fit into the entry count and the
+ * serialized size limit; a context that cannot be serialized or would overflow is dropped.
+ */
+const fitContext = (
+  context: Record<string, Record<string, unknown>>,
+): Record<string, Record<string, unknown>> => {
+  const fitted: Record<string, Record<string, unknown>> = {};
+  // Length of "{}" plus the entries and the commas between them
+  let size = 2;
+
+  for (const [name, value] of Object.entries(context)) {
+    if (Object.keys(fitted).length === MAX_CONTEXTS) {
+      break;
+    }
+    if (
+      name.length > MAX_KEY_LENGTH ||
+      !value ||
+      typeof value !== "object" ||
+      Array.isArray(value)
+    ) {
+      continue;
+    }
+
+    let entry: string | undefined;
+    try {
+      entry = JSON.stringify({ [name]: value });
+    } catch {
+      continue;
+    }
+    // Drop the surrounding braces; a comma separates it from the previous entry
+    const entrySize = entry.length - 2 + (size > 2 ? 1 : 0);
+    if (size + entrySize > MAX_SERIALIZED_LENGTH) {
+      continue;
+    }
+
+    fitted[name] = value;
+    size += entrySize;
+  }
+  return fitted;
+};
+
+/**
+ * Truncates or drops the parts of a beacon that `parseBeacon` on the server
+ * would reject, so an oversized tag or context does not cost the whole report.
+ */
+export const fitBeaconToLimits = (beacon: BeaconSchema): BeaconSchema => {
+  const fitted: BeaconSchema = { ...beacon };
+
+  for (const field of BEACON_STRING_FIELDS) {
+    const value = fitted[field];
+    if (typeof value === "string") {
+      fitted[field] = truncate(
+        value,
+        field === "serialized" ? MAX_SERIALIZED_LENGTH : MAX_STRING_FIELD_LENGTH,
+      );
+    }
+  }
+
+  if (fitted.breadcrumbs) {
+    fitted.breadcrumbs = fitted.breadcrumbs.slice(-MAX_BREADCRUMBS).map((breadcrumb) => ({
+      ...breadcrumb,
+      category: truncate(breadcrumb.category, MAX_BREADCRUMB_CATEGORY_LENGTH),
+      message: truncate(breadcrumb.message, MAX_STRING_FIELD_LENGTH),
+    }));
+  }
+
+  if (fitted.context) {
+    const context = fitContext(fitted.context);
+    if (Object.keys(context).length > 0) {
+      fitted.context = context;
+    } else {
+      delete fitted.context;
+    }
+  }
+
+  if (fitted.feedback) {
+    const { email, message } = fitted.feedback;
+    fitted.feedback = {
+      ...(email !== undefined && email.length <= MAX_FEEDBACK_EMAIL_LENGTH && { email }),
+      message: truncate(message, MAX_FEEDBACK_MESSAGE_LENGTH),
+    };
+  }
+
+  if (fitted.tags) {
+    fitted.tags = fitTags(fitted.tags);
+  }
+
+  if (fitted.user) {
+    fitted.user = fitUser(fitted.user);
+  }
+
+  return fitted;
+};
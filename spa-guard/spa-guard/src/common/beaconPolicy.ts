@@ -0,0 +1,239 @@
+import type { BeaconSchema } from "../schema";
+import type { Options } from "./options";
+
+import { beaconPolicyStateWindowKey } from "./constants";
+
+const DEFAULT_DEDUPE_WINDOW_MS = 5000;
+const DEFAULT_MAX_PER_MINUTE = 30;
+const RATE_LIMIT_WINDOW_MS = 60_000;
+const RATE_LIMIT_STORAGE_KEY = "__spa_guard_beacon_rate_limit__";
+
+type BeaconPolicyOptions = NonNullable<Options["reportBeacon"]>;
+
+interface DedupeEntry {
+  beacon: BeaconSchema;
+  deliver: (beacon: BeaconSchema) => void;
+  maxPerMinute: number;
+  repeats: number;
+  sampled: boolean;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface BeaconPolicyState {
+  dedupe: Map<string, DedupeEntry>;
+  pagehideAttached: boolean;
+  /** Fallback for when sessionStorage is unavailable */
+  sentTimestamps: number[];
+}
+
+const createInitialState = (): BeaconPolicyState => ({
+  dedupe: new Map(),
+  pagehideAttached: false,
+  sentTimestamps: [],
+});
+
+const getState = (): BeaconPolicyState => {
+  const w = globalThis.window as any;
+  if (!w) {
+    return createInitialState();
+  }
+  return w[beaconPolicyStateWindowKey] ?? (w[beaconPolicyStateWindowKey] = createInitialState());
+};
+
+const STACK_FIELD_PATTERN = /"stack":"((?:[^"\\]|\\.)*)"/;
+const STACK_FRAME_PATTERN = /^\s*at\s|@/;
+
+/**
+ * Extracts the first stack frame from a serialized error.
+ * Supports both V8 (`    at fn (file:1:2)`) and Firefox/Safari (`fn@file:1:2`) formats.
+ */
+const getTopStackFrame = (serialized: string | undefined): string => {
+  const match = serialized ? STACK_FIELD_PATTERN.exec(serialized) : null;
+  if (!match?.[1]) {
+    return "";
+  }
+
+  let stack: string;
+  try {
+    stack = JSON.parse(`"${match[1]}"`) as string;
+  } catch {
+    return "";
+  }
+
+  return (
+    stack
+      .split("\n")
+      .find((line) => STACK_FRAME_PATTERN.test(line))
+      ?.trim() ?? ""
+  );
+};
+
+/**
+ * Identifies beacons describing the same problem: event name, message
+ * and the top frame of the serialized stack trace.
+ */
+export const getBeaconFingerprint = (beacon: BeaconSchema): string =>
+  [
+    beacon.eventName ?? "",
+    beacon.errorMessage ?? beacon.eventMessage ?? "",
+    getTopStackFrame(beacon.serialized),
+  ].join("|");
+
+const hasSessionStorage = (): boolean => {
+  try {
+    return globalThis.window !== undefined && typeof sessionStorage !== "undefined";
+  } catch {
+    return false;
+  }
+};
+
+// Sent timestamps are kept in sessionStorage so the limit holds across retry reloads
+const readSentTimestamps = (): number[] => {
+  if (hasSessionStorage()) {
+    try {
+      const stored = sessionStorage.getItem(RATE_LIMIT_STORAGE_KEY);
+      if (stored) {
+        const parsed: unknown = JSON.parse(stored);
+        return Array.isArray(parsed)
+          ? parsed.filter((timestamp): timestamp is number => typeof timestamp === "number")
+          : [];
+      }
+    } catch {
+      try {
+        sessionStorage.removeItem(RATE_LIMIT_STORAGE_KEY);
+      } catch {
+        // Ignore
+      }
+    }
+  }
+
+  return getState().sentTimestamps;
+};
+
+const writeSentTimestamps = (timestamps: number[]): void => {
+  if (hasSessionStorage()) {
+    try {
+      sessionStorage.setItem(RATE_LIMIT_STORAGE_KEY, JSON.stringify(timestamps));
+      return;
+    } catch {
+      // Fall through to in-memory storage
+    }
+  }
+
+  getState().sentTimestamps = timestamps;
+};
+
+const isWithinRateLimit = (maxPerMinute: number): boolean => {
+  const now = Date.now();
+  const recent = readSentTimestamps().filter((timestamp) => now - timestamp < RATE_LIMIT_WINDOW_MS);
+
+  if (recent.length >= maxPerMinute) {
+    writeSentTimestamps(recent);
+    return false;
+  }
+
+  writeSentTimestamps([...recent, now]);
+  return true;
+};
+
+const deliverSummary = (fingerprint: string, entry: DedupeEntry): void => {
+  clearTimeout(entry.timer);
+  getState().dedupe.delete(fingerprint);
+
+  if (entry.repeats > 0 && entry.sampled && isWithinRateLimit(entry.maxPerMinute)) {
+    entry.deliver({ ...entry.beacon, occurrences: entry.repeats });
+  }
+};
+
+const attachPagehideFlush = (): void => {
+  const state = getState();
+  if (state.pagehideAttached) {
+    return;
+  }
+
+  state.pagehideAttached = true;
+  // Repeats collapsed right before a reload or navigation would otherwise be lost
+  globalThis.window.addEventListener("pagehide", () => {
+    for (const [fingerprint, entry] of getState().dedupe) {
+      deliverSummary(fingerprint, entry);
+    }
+  });
+};
+
+/**
+ * Decides whether a beacon reaches the network and in which form.
+ *
+ * - **Dedup**: the first beacon of a fingerprint is delivered immediately; identical
+ *   beacons within `dedupeWindow` are collapsed into a single follow-up beacon whose
+ *   `occurrences` field holds the number of collapsed repeats.
+ * - **Sampling**: each fingerprint is kept with probability `sampleRate`.
+ * - **Rate limiting**: at most `maxPerMinute` beacons per browser tab in any
+ *   sliding 60-second window; beacons over the limit are dropped. The window is
+ *   kept in sessionStorage so retry reloads do not reset it.
+ */
+export const applyBeaconPolicy = (
+  beacon: BeaconSchema,
+  options: BeaconPolicyOptions,
+  deliver: (beacon: BeaconSchema) => void,
+): void => {
+  // Policy state is per page session; outside the browser there is no session to track
+  if (globalThis.window === undefined) {
+    deliver(beacon);
+    return;
+  }
+
+  const dedupeWindow = options.dedupeWindow ?? DEFAULT_DEDUPE_WINDOW_MS;
+  const maxPerMinute = options.maxPerMinute ?? DEFAULT_MAX_PER_MINUTE;
+  const sampleRate = options.sampleRate ?? 1;
+
+  if (dedupeWindow <= 0) {
+    if (Math.random() < sampleRate && isWithinRateLimit(maxPerMinute)) {
+      deliver(beacon);
+    }
+    return;
+  }
+
+  const state = getState();
+  const fingerprint = getBeaconFingerprint(beacon);
+  const existing = state.dedupe.get(fingerprint);
+
+  if (existing) {
+    existing.repeats++;
+    existing.beacon = beacon;
+    return;
+  }
+
+  const entry: DedupeEntry = {
+    beacon,
+    deliver,
+    maxPerMinute,
+    repeats: 0,
+    sampled: Math.random() < sampleRate,
+    timer: setTimeout(() => {
+      deliverSummary(fingerprint, entry);
+    }, dedupeWindow),
+  };
+  state.dedupe.set(fingerprint, entry);
+  attachPagehideFlush();
+
+  if (entry.sampled && isWithinRateLimit(maxPerMinute)) {
+    deliver(beacon);
+  }
+};
+
+/** Reset internal state - exported for testing only */
+export const _resetBeaconPolicyForTesting = (): void => {
+  const state = getState();
+  for (const entry of state.dedupe.values()) {
+    clearTimeout(entry.timer);
+  }
+  state.dedupe.clear();
+  state.sentTimestamps = [];
+  if (hasSessionStorage()) {
+    try {
+      sessionStorage.removeItem(RATE_LIMIT_STORAGE_KEY);
+    } catch {
+      // Ignore
+    }
+  }
+};
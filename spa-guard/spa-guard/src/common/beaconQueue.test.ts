@@ -0,0 +1,355 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./options", () => ({
+  getOptions: vi.fn(),
+}));
+
+vi.mock("./beaconTransport", () => ({
+  transmitBeacon: vi.fn(),
+}));
+
+import {
+  _resetBeaconQueueForTesting,
+  enqueueBeacon,
+  flushBeaconQueue,
+  getQueuedBeacons,
+  initBeaconQueue,
+} from "./beaconQueue";
+import { transmitBeacon } from "./beaconTransport";
+import { getOptions } from "./options";
+
+const mockGetOptions = vi.mocked(getOptions);
+const mockTransmitBeacon = vi.mocked(transmitBeacon);
+
+const STORAGE_KEY = "__spa_guard_beacon_queue__";
+const DEFAULT_ENDPOINT = "https://example.com/beacon";
+
+const setQueueOptions = (queue: Record<string, unknown> = {}) => {
+  mockGetOptions.mockReturnValue({
+    reportBeacon: { endpoint: DEFAULT_ENDPOINT, queue },
+  });
+};
+
+const sentPayloads = () =>
+  mockTransmitBeacon.mock.calls.map(([, body]) => JSON.parse(body) as { eventName: string }[]);
+
+describe("beaconQueue", () => {
+  let onLineSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    _resetBeaconQueueForTesting();
+    setQueueOptions();
+    mockTransmitBeacon.mockResolvedValue("delivered");
+    onLineSpy = vi.spyOn(navigator, "onLine", "get").mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+    localStorage.clear();
+    _resetBeaconQueueForTesting();
+  });
+
+  describe("enqueueBeacon", () => {
+    it("persists the beacon to localStorage", () => {
+      enqueueBeacon({ eventName: "a" });
+
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+      expect(stored).toHaveLength(1);
+      expect(stored[0].beacon).toEqual({ eventName: "a" });
+      expect(typeof stored[0].id).toBe("string");
+      expect(typeof stored[0].queuedAt).toBe("number");
+    });
+
+    it("keeps only the newest maxSize entries", () => {
+      setQueueOptions({ maxSize: 2 });
+
+      enqueueBeacon({ eventName: "a" });
+      enqueueBeacon({ eventName: "b" });
+      enqueueBeacon({ eventName: "c" });
+
+      expect(getQueuedBeacons().map((entry) => entry.beacon.eventName)).toEqual(["b", "c"]);
+    });
+
+    it("does nothing when the queue is disabled", () => {
+      setQueueOptions({ enabled: false });
+
+      expect(enqueueBeacon({ eventName: "a" })).toBe(false);
+
+      expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it("leaves the feedback email out of storage", () => {
+      expect(
+        enqueueBeacon({
+          eventName: "user-feedback",
+          feedback: { email: "jane@example.com", message: "Blank page" },
+        }),
+      ).toBe(true);
+
+      expect(localStorage.getItem(STORAGE_KEY)).not.toContain("jane@example.com");
+      expect(getQueuedBeacons()[0]?.beacon.feedback).toEqual({ message: "Blank page" });
+    });
+
+    it("falls back to in-memory storage when localStorage is unavailable", () => {
+      vi.spyOn(Storage.prototype, "getItem").mockImplementation(() => {
+        throw new Error("SecurityError");
+      });
+      vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+        throw new Error("QuotaExceededError");
+      });
+
+      enqueueBeacon({ eventName: "a" });
+      enqueueBeacon({ eventName: "b" });
+
+      expect(getQueuedBeacons().map((entry) => entry.beacon.eventName)).toEqual(["a", "b"]);
+    });
+
+    it("keeps reading from memory when only localStorage writes fail", () => {
+      setQueueOptions({ maxSize: 2 });
+      vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+        throw new Error("QuotaExceededError");
+      });
+
+      enqueueBeacon({ eventName: "a" });
+      enqueueBeacon({ eventName: "b" });
+      enqueueBeacon({ eventName: "c" });
+
+      expect(getQueuedBeacons().map((entry) => entry.beacon.eventName)).toEqual(["b", "c"]);
+    });
+  });
+
+  describe("getQueuedBeacons", () => {
+    it("excludes entries older than ttl", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000_000);
+      setQueueOptions({ ttl: 1000 });
+
+      enqueueBeacon({ eventName: "old" });
+      vi.setSystemTime(1_000_600);
+      enqueueBeacon({ eventName: "fresh" });
+      vi.setSystemTime(1_001_200);
+
+      expect(getQueuedBeacons().map((entry) => entry.beacon.eventName)).toEqual(["fresh"]);
+    });
+
+    it("returns an empty list when stored data is corrupted", () => {
+      localStorage.setItem(STORAGE_KEY, "{not json");
+
+      expect(getQueuedBeacons()).toEqual([]);
+      expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+  });
+
+  describe("flushBeaconQueue", () => {
+    it("sends queued beacons as JSON arrays of batchSize items", async () => {
+      setQueueOptions({ batchSize: 2 });
+      for (const eventName of ["a", "b", "c"]) {
+        enqueueBeacon({ eventName });
+      }
+
+      await flushBeaconQueue();
+
+      expect(mockTransmitBeacon).toHaveBeenCalledTimes(2);
+      expect(mockTransmitBeacon.mock.calls[0]?.[0]).toBe(DEFAULT_ENDPOINT);
+      expect(sentPayloads()).toEqual([
+        [{ eventName: "a" }, { eventName: "b" }],
+        [{ eventName: "c" }],
+      ]);
+      expect(getQueuedBeacons()).toEqual([]);
+      expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it("stops at the first failed batch and keeps the remaining entries", async () => {
+      setQueueOptions({ batchSize: 1 });
+      for (const eventName of ["a", "b", "c"]) {
+        enqueueBeacon({ eventName });
+      }
+      mockTransmitBeacon.mockResolvedValueOnce("delivered").mockResolvedValueOnce("failed");
+
+      await flushBeaconQueue();
+
+      expect(mockTransmitBeacon).toHaveBeenCalledTimes(2);
+      expect(getQueuedBeacons().map((entry) => entry.beacon.eventName)).toEqual(["b", "c"]);
+    });
+
+    it("flushes entries held in memory after a localStorage write failed", async () => {
+      vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+        throw new Error("QuotaExceededError");
+      });
+      enqueueBeacon({ eventName: "a" });
+
+      await flushBeaconQueue();
+
+      expect(sentPayloads()).toEqual([[{ eventName: "a" }]]);
+      expect(getQueuedBeacons()).toEqual([]);
+    });
+
+    it("caps batchSize at the server limit of 50", async () => {
+      setQueueOptions({ batchSize: 200, maxSize: 60 });
+      for (let i = 0; i < 60; i++) {
+        enqueueBeacon({ eventName: `e${i}` });
+      }
+
+      await flushBeaconQueue();
+
+      expect(sentPayloads().map((batch) => batch.length)).toEqual([50, 10]);
+    });
+
+    it("starts a new batch before the payload exceeds 60 KB", async () => {
+      for (const eventName of ["a", "b", "c"]) {
+        enqueueBeacon({ errorMessage: "x".repeat(25_000), eventName });
+      }
+
+      await flushBeaconQueue();
+
+      expect(sentPayloads().map((batch) => batch.map((beacon) => beacon.eventName))).toEqual([
+        ["a", "b"],
+        ["c"],
+      ]);
+      for (const [, body, options] of mockTransmitBeacon.mock.calls) {
+        expect(body.length).toBeLessThanOrEqual(60_000);
+        expect(options).toEqual({ preferFetch: true });
+      }
+      expect(getQueuedBeacons()).toEqual([]);
+    });
+
+    it("drops a beacon too large to ever be sent and flushes the rest", async () => {
+      enqueueBeacon({ errorMessage: "x".repeat(70_000), eventName: "huge" });
+      enqueueBeacon({ eventName: "a" });
+
+      await flushBeaconQueue();
+
+      expect(sentPayloads()).toEqual([[{ eventName: "a" }]]);
+      expect(getQueuedBeacons()).toEqual([]);
+    });
+
+    it("sends the beacons of a rejected batch one by one", async () => {
+      for (const eventName of ["a", "b", "c"]) {
+        enqueueBeacon({ eventName });
+      }
+      mockTransmitBeacon
+        .mockResolvedValueOnce("rejected")
+        .mockResolvedValueOnce("delivered")
+        .mockResolvedValueOnce("rejected")
+        .mockResolvedValueOnce("delivered");
+
+      await flushBeaconQueue();
+
+      expect(sentPayloads()).toEqual([
+        [{ eventName: "a" }, { eventName: "b" }, { eventName: "c" }],
+        [{ eventName: "a" }],
+        [{ eventName: "b" }],
+        [{ eventName: "c" }],
+      ]);
+      expect(getQueuedBeacons()).toEqual([]);
+    });
+
+    it("keeps the rest of a rejected batch when sending one of its beacons fails", async () => {
+      for (const eventName of ["a", "b", "c"]) {
+        enqueueBeacon({ eventName });
+      }
+      mockTransmitBeacon
+        .mockResolvedValueOnce("rejected")
+        .mockResolvedValueOnce("delivered")
+        .mockResolvedValueOnce("failed");
+
+      await flushBeaconQueue();
+
+      expect(getQueuedBeacons().map((entry) => entry.beacon.eventName)).toEqual(["b", "c"]);
+    });
+
+    it("keeps beacons enqueued while a batch is in flight", async () => {
+      enqueueBeacon({ eventName: "a" });
+      mockTransmitBeacon.mockImplementationOnce(async () => {
+        enqueueBeacon({ eventName: "b" });
+        return "delivered";
+      });
+
+      await flushBeaconQueue();
+
+      expect(getQueuedBeacons().map((entry) => entry.beacon.eventName)).toEqual(["b"]);
+    });
+
+    it("does not send when the browser is offline", async () => {
+      enqueueBeacon({ eventName: "a" });
+      onLineSpy.mockReturnValue(false);
+
+      await flushBeaconQueue();
+
+      expect(mockTransmitBeacon).not.toHaveBeenCalled();
+      expect(getQueuedBeacons()).toHaveLength(1);
+    });
+
+    it("does not send when no endpoint is configured", async () => {
+      enqueueBeacon({ eventName: "a" });
+      mockGetOptions.mockReturnValue({ reportBeacon: {} });
+
+      await flushBeaconQueue();
+
+      expect(mockTransmitBeacon).not.toHaveBeenCalled();
+    });
+
+    it("does not send when the queue is empty", async () => {
+      await flushBeaconQueue();
+
+      expect(mockTransmitBeacon).not.toHaveBeenCalled();
+    });
+
+    it("ignores concurrent flushes while one is in progress", async () => {
+      enqueueBeacon({ eventName: "a" });
+
+      await Promise.all([flushBeaconQueue(), flushBeaconQueue()]);
+
+      expect(mockTransmitBeacon).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("initBeaconQueue", () => {
+    it("flushes beacons left over from a previous page", async () => {
+      enqueueBeacon({ eventName: "a" });
+
+      initBeaconQueue();
+
+      await vi.waitFor(() => {
+        expect(mockTransmitBeacon).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it("flushes again when the browser comes back online", async () => {
+      initBeaconQueue();
+      await Promise.resolve();
+      enqueueBeacon({ eventName: "a" });
+
+      globalThis.window.dispatchEvent(new Event("online"));
+
+      await vi.waitFor(() => {
+        expect(sentPayloads()).toEqual([[{ eventName: "a" }]]);
+      });
+    });
+
+    it("flushes on pagehide", async () => {
+      initBeaconQueue();
+      await Promise.resolve();
+      enqueueBeacon({ eventName: "a" });
+
+      globalThis.window.dispatchEvent(new Event("pagehide"));
+
+      await vi.waitFor(() => {
+        expect(mockTransmitBeacon).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it("attaches listeners only once", () => {
+      const addSpy = vi.spyOn(globalThis.window, "addEventListener");
+
+      initBeaconQueue();
+      initBeaconQueue();
+
+      expect(addSpy.mock.calls.filter(([type]) => type === "online")).toHaveLength(1);
+      expect(addSpy.mock.calls.filter(([type]) => type === "pagehide")).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import type { BeaconSchema } from "../schema";
+
+import { transmitBeacon } from "./beaconTransport";
+import { beaconQueueStateWindowKey } from "./constants";
+import { getOptions } from "./options";
+import { generateRetryId } from "./retryState";
+
+const STORAGE_KEY = "__spa_guard_beacon_queue__";
+
+const DEFAULT_BATCH_SIZE = 10;
+// Matches the server-side limit on beacons per request (MAX_BEACON_BATCH_SIZE)
+const MAX_BATCH_SIZE = 50;
+// Stays under the 64 KiB that sendBeacon and keepalive fetch accept
+const MAX_BATCH_BYTES = 60_000;
+const DEFAULT_MAX_SIZE = 50;
+const DEFAULT_TTL_MS = 86_400_000;
+
+export interface QueuedBeacon {
+  beacon: BeaconSchema;
+  id: string;
+  queuedAt: number;
+}
+
+interface BeaconQueueState {
+  flushing: boolean;
+  listenersAttached: boolean;
+  storage: QueuedBeacon[];
+  /** Set once a localStorage write failed; the queue then lives in `storage` */
+  useMemoryStorage: boolean;
+}
+
+const createInitialState = (): BeaconQueueState => ({
+  flushing: false,
+  listenersAttached: false,
+  storage: [],
+  useMemoryStorage: false,
+});
+
+const getState = (): BeaconQueueState => {
+  const w = globalThis.window as any;
+  if (!w) {
+    return createInitialState();
+  }
+  return w[beaconQueueStateWindowKey] ?? (w[beaconQueueStateWindowKey] = createInitialState());
+};
+
+const hasLocalStorage = (): boolean => {
+  try {
+    return globalThis.window !== undefined && typeof localStorage !== "undefined";
+  } catch {
+    return false;
+  }
+};
+
+const isQueueEnabled = (): boolean => getOptions().reportBeacon?.queue?.enabled !== false;
+
+const isBrowserOffline = (): boolean => globalThis.window?.navigator?.onLine === false;
+
+const readQueue = (): QueuedBeacon[] => {
+  const ttl = getOptions().reportBeacon?.queue?.ttl ?? DEFAULT_TTL_MS;
+  const state = getState();
+  let entries = state.storage;
+
+  if (!state.useMemoryStorage && hasLocalStorage()) {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      entries = Array.isArray(parsed) ? (parsed as QueuedBeacon[]) : [];
+    } catch {
+      try {
+        localStorage.removeItem(STORAGE_KEY);
+      } catch {
+        // Ignore
+      }
+    }
+  }
+
+  const now = Date.now();
+  return entries.filter(
+    (entry) =>
+      entry && typeof entry.queuedAt === "number" && now - entry.queuedAt < ttl && entry.beacon,
+  );
+};
+
+const writeQueue = (entries: QueuedBeacon[]): void => {
+  const maxSize = getOptions().reportBeacon?.queue?.maxSize ?? DEFAULT_MAX_SIZE;
+  // Keep the newest entries when the cap is exceeded
+  const capped = entries.length > maxSize ? entries.slice(entries.length - maxSize) : entries;
+  const state = getState();
+
+  if (hasLocalStorage()) {
+    try {
+      if (capped.length === 0) {
+        localStorage.removeItem(STORAGE_KEY);
+      } else {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(capped));
+      }
+      state.storage = [];
+      state.useMemoryStorage = false;
+      return;
+    } catch {
+      // Quota exceeded or storage disabled — fall through to in-memory storage
+      try {
+        localStorage.removeItem(STORAGE_KEY);
+      } catch {
+        // Ignore
+      }
+    }
+  }
+
+  // Subsequent reads must come from memory, otherwise these entries are never flushed
+  state.storage = capped;
+  state.useMemoryStorage = true;
+};
+
+/**
+ * Stores a beacon that could not be delivered so it can be resent later.
+ * Entries are persisted to localStorage (in-memory fallback once a write fails), capped at
+ * `reportBeacon.queue.maxSize` and expire after `reportBeacon.queue.ttl`.
+ * The email of a feedback beacon is left out, so it never ends up in storage.
+ * @returns Whether the beacon was queued
+ */
+export const enqueueBeacon = (beacon: BeaconSchema): boolean => {
+  if (globalThis.window === undefined || !isQueueEnabled()) {
+    return false;
+  }
+
+  const stored = beacon.feedback?.email
+    ? { ...beacon, feedback: { message: beacon.feedback.message } }
+    : beacon;
+  writeQueue([...readQueue(), { beacon: stored, id: generateRetryId(), queuedAt: Date.now() }]);
+  return true;
+};
+
+/** Returns the beacons currently waiting for delivery (expired entries excluded). */
+export const getQueuedBeacons = (): QueuedBeacon[] => readQueue();
+
+const getByteLength = (value: string): number => new TextEncoder().encode(value).length;
+
+const serializeBatch = (entries: QueuedBeacon[]): string =>
+  JSON.stringify(entries.map((entry) => entry.beacon));
+
+const removeFromQueue = (entries: QueuedBeacon[]): void => {
+  const ids = new Set(entries.map((entry) => entry.id));
+  writeQueue(readQueue().filter((entry) => !ids.has(entry.id)));
+};
+
+/** Splits entries into batches of at most `batchSize` beacons and `MAX_BATCH_BYTES` bytes. */
+const splitIntoBatches = (
+  entries: { bytes: number; entry: QueuedBeacon }[],
+  batchSize: number,
+): QueuedBeacon[][] => {
+  const batches: QueuedBeacon[][] = [];
+  let batch: QueuedBeacon[] = [];
+  // The brackets of the array plus each beacon and the comma after it
+  let batchBytes = 2;
+
+  for (const { bytes, entry } of entries) {
+    if (
+      batch.length > 0 &&
+      (batch.length === batchSize || batchBytes + bytes + 1 > MAX_BATCH_BYTES)
+    ) {
+      batches.push(batch);
+      batch = [];
+      batchBytes = 2;
+    }
+    batch.push(entry);
+    batchBytes += bytes + 1;
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+};
+
+/**
+ * Sends queued beacons to the configured endpoint as JSON arrays of up to
+ * `reportBeacon.queue.batchSize` items (at most 50, the server limit) and 60 KB.
+ * Entries are removed only after their batch was accepted; on the first failed batch
+ * flushing stops and the rest stays queued for the next trigger. When the endpoint
+ * rejects a batch, its beacons are sent one by one so only the rejected ones are dropped.
+ * A beacon too large to ever be sent is dropped.
+ */
+export const flushBeaconQueue = async (): Promise<void> => {
+  const state = getState();
+  const options = getOptions();
+  const endpoint = options.reportBeacon?.endpoint;
+
+  if (state.flushing || !endpoint || !isQueueEnabled() || isBrowserOffline()) {
+    return;
+  }
+
+  state.flushing = true;
+  try {
+    const batchSize = Math.min(
+      MAX_BATCH_SIZE,
+      Math.max(1, options.reportBeacon?.queue?.batchSize ?? DEFAULT_BATCH_SIZE),
+    );
+    const measured = readQueue().map((entry) => ({
+      bytes: getByteLength(JSON.stringify(entry.beacon)),
+      entry,
+    }));
+    const sendable = measured.filter(({ bytes }) => bytes + 2 <= MAX_BATCH_BYTES);
+
+    // Persist the TTL cleanup and drop oversized beacons even when nothing is sent
+    writeQueue(sendable.map(({ entry }) => entry));
+
+    // fetch reports a 4xx rejection of the batch, navigator.sendBeacon does not
+    const transmit = (batch: QueuedBeacon[]) =>
+      transmitBeacon(endpoint, serializeBatch(batch), { preferFetch: true });
+
+    for (const batch of splitIntoBatches(sendable, batchSize)) {
+      const result = await transmit(batch);
+
+      if (result === "failed") {
+        return;
+      }
+
+      if (result === "rejected" && batch.length > 1) {
+        // One bad beacon must not take the valid ones with it
+        for (const entry of batch) {
+          if ((await transmit([entry])) === "failed") {
+            return;
+          }
+          removeFromQueue([entry]);
+        }
+        continue;
+      }
+
+      removeFromQueue(batch);
+    }
+  } finally {
+    state.flushing = false;
+  }
+};
+
+/**
+ * Flushes beacons left over from a previous page and re-flushes whenever
+ * connectivity returns (`online`) or the page is being hidden (`pagehide`).
+ * Safe to call more than once; listeners are attached only once per window.
+ */
+export const initBeaconQueue = (): void => {
+  if (globalThis.window === undefined) {
+    return;
+  }
+
+  const state = getState();
+  if (!state.listenersAttached) {
+    state.listenersAttached = true;
+    const flush = () => {
+      void flushBeaconQueue();
+    };
+    globalThis.window.addEventListener("online", flush);
+    globalThis.window.addEventListener("pagehide", flush);
+  }
+
+  void flushBeaconQueue();
+};
+
+/** Reset internal state - exported for testing only */
+export const _resetBeaconQueueForTesting = (): void => {
+  if (hasLocalStorage()) {
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Ignore
+    }
+  }
+  if (globalThis.window) {
+    (globalThis.window as any)[beaconQueueStateWindowKey] = createInitialState();
+  }
+};
@@ -0,0 +1,59 @@
+import { getLogger } from "./events/internal";
+
+/**
+ * What became of a payload: accepted for delivery, rejected by the endpoint with a 4xx
+ * (resending the same payload would not help), or not delivered and worth another attempt
+ * (network failure, 5xx response, or no transport available).
+ */
+export type TransmitResult = "delivered" | "failed" | "rejected";
+
+const transmitWithFetch = (endpoint: string, body: string): Promise<TransmitResult> =>
+  fetch(endpoint, { body, keepalive: true, method: "POST" }).then(
+    (response) => {
+      if (response.ok) {
+        return "delivered";
+      }
+      return response.status < 500 ? "rejected" : "failed";
+    },
+    (error: unknown) => {
+      getLogger()?.beaconSendFailed(error);
+      return "failed";
+    },
+  );
+
+/**
+ * Hands a serialized beacon payload to the browser.
+ *
+ * Prefers `navigator.sendBeacon` (survives page unload) and falls back to
+ * `fetch` with `keepalive`. `navigator.sendBeacon` cannot report the response status,
+ * so a payload it accepted always counts as delivered.
+ * @param options.preferFetch - Try `fetch` first, so a 4xx rejection is reported
+ */
+export const transmitBeacon = (
+  endpoint: string,
+  body: string,
+  options?: { preferFetch?: boolean },
+): Promise<TransmitResult> => {
+  const isFetchAvailable = typeof fetch === "function";
+
+  if (options?.preferFetch && isFetchAvailable) {
+    return transmitWithFetch(endpoint, body);
+  }
+
+  // IMPORTANT: Do not simplify `globalThis.window.navigator` to just `navigator`!
+  // This code can be executed in non-browser environments (e.g., SSR) where window is undefined.
+  const isSendBeaconAvailable = typeof globalThis.window?.navigator?.sendBeacon === "function";
+
+  const isSentBeacon =
+    isSendBeaconAvailable && globalThis.window.navigator.sendBeacon(endpoint, body);
+
+  if (isSentBeacon) {
+    return Promise.resolve("delivered");
+  }
+
+  if (!isFetchAvailable) {
+    return Promise.resolve("failed");
+  }
+
+  return transmitWithFetch(endpoint, body);
+};
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  _clearBeforeSendHooksForTesting,
+  addBeforeSendHook,
+  runBeforeSendHooks,
+} from "./beforeSend";
+
+describe("beforeSend hooks", () => {
+  afterEach(() => {
+    _clearBeforeSendHooksForTesting();
+  });
+
+  it("returns the beacon unchanged when no hooks are registered", () => {
+    const beacon = { errorMessage: "boom" };
+
+    expect(runBeforeSendHooks(beacon)).toBe(beacon);
+  });
+
+  it("passes the beacon and hint to the hook", () => {
+    const hook = vi.fn();
+    const error = new Error("boom");
+    addBeforeSendHook(hook);
+
+    runBeforeSendHooks({ errorMessage: "boom" }, { error });
+
+    expect(hook).toHaveBeenCalledWith({ errorMessage: "boom" }, { error });
+  });
+
+  it("passes an empty hint when none is given", () => {
+    const hook = vi.fn();
+    addBeforeSendHook(hook);
+
+    runBeforeSendHooks({ eventName: "x" });
+
+    expect(hook).toHaveBeenCalledWith({ eventName: "x" }, {});
+  });
+
+  it("replaces the beacon with the hook's return value", () => {
+    addBeforeSendHook((beacon) => ({ ...beacon, errorContext: "checkout" }));
+
+    expect(runBeforeSendHooks({ errorMessage: "boom" })).toEqual({
+      errorContext: "checkout",
+      errorMessage: "boom",
+    });
+  });
+
+  it("keeps in-place mutations when the hook returns nothing", () => {
+    addBeforeSendHook((beacon) => {
+      beacon.errorMessage = "[redacted]";
+    });
+
+    expect(runBeforeSendHooks({ errorMessage: "token=secret" })).toEqual({
+      errorMessage: "[redacted]",
+    });
+  });
+
+  it("drops the beacon when a hook returns null", () => {
+    const later = vi.fn();
+    addBeforeSendHook(() => null);
+    addBeforeSendHook(later);
+
+    expect(runBeforeSendHooks({ errorMessage: "boom" })).toBeNull();
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it("chains hooks in registration order", () => {
+    addBeforeSendHook((beacon) => ({ ...beacon, errorContext: "a" }));
+    addBeforeSendHook((beacon) => ({ ...beacon, errorContext: `${beacon.errorContext}b` }));
+
+    expect(runBeforeSendHooks({})?.errorContext).toBe("ab");
+  });
+
+  it("skips a throwing hook and continues with the rest", () => {
+    addBeforeSendHook(() => {
+      throw new Error("broken hook");
+    });
+    addBeforeSendHook((beacon) => ({ ...beacon, errorContext: "after" }));
+
+    expect(runBeforeSendHooks({ errorMessage: "boom" })).toEqual({
+      errorContext: "after",
+      errorMessage: "boom",
+    });
+  });
+
+  it("removes the hook when the returned function is called", () => {
+    const hook = vi.fn();
+    const remove = addBeforeSendHook(hook);
+
+    remove();
+    runBeforeSendHooks({});
+
+    expect(hook).not.toHaveBeenCalled();
+  });
+});
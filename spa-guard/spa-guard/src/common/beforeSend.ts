@@ -0,0 +1,77 @@
+import type { BeaconSchema } from "../schema";
+import type { UnsubscribeFn } from "./events/types";
+
+import { beforeSendHooksWindowKey } from "./constants";
+
+/** Additional information passed to `beforeSend` hooks alongside the beacon. */
+export interface BeforeSendHint {
+  /** The original error (or event/rejection reason) the beacon was built from, if any. */
+  error?: unknown;
+}
+
+/**
+ * Inspects a beacon right before it is sent.
+ * - return a beacon to send it instead (replacing the input);
+ * - return `null` to drop the beacon;
+ * - return nothing to send the (possibly mutated) input beacon.
+ */
+export type BeforeSendHook = (
+  beacon: BeaconSchema,
+  hint: BeforeSendHint,
+) => BeaconSchema | null | void;
+
+if (globalThis.window && !(globalThis.window as any)[beforeSendHooksWindowKey]) {
+  (globalThis.window as any)[beforeSendHooksWindowKey] = new Set<BeforeSendHook>();
+}
+
+const hooks: Set<BeforeSendHook> =
+  (globalThis.window as any)?.[beforeSendHooksWindowKey] ?? new Set<BeforeSendHook>();
+
+/**
+ * Registers a hook that can filter, enrich or rewrite every beacon before it is sent.
+ * Hooks run in registration order, each receiving the result of the previous one.
+ * A hook that throws is skipped; the beacon continues with the remaining hooks.
+ *
+ * @returns Function that removes the hook
+ *
+ * @example
+ * addBeforeSendHook((beacon, { error }) => {
+ *   if (error instanceof AbortError) return null;
+ *   return { ...beacon, errorContext: getCurrentRoute() };
+ * });
+ */
+export const addBeforeSendHook = (hook: BeforeSendHook): UnsubscribeFn => {
+  hooks.add(hook);
+  return () => hooks.delete(hook);
+};
+
+/**
+ * Runs the registered hooks. Returns the beacon to send, or `null` if a hook dropped it.
+ */
+export const runBeforeSendHooks = (
+  beacon: BeaconSchema,
+  hint: BeforeSendHint = {},
+): BeaconSchema | null => {
+  let current = beacon;
+
+  for (const hook of hooks) {
+    try {
+      const result = hook(current, hint);
+      if (result === null) {
+        return null;
+      }
+      if (result !== undefined) {
+        current = result;
+      }
+    } catch {
+      // A broken hook must never break error reporting
+    }
+  }
+
+  return current;
+};
+
+/** Remove all hooks - exported for testing only */
+export const _clearBeforeSendHooksForTesting = (): void => {
+  hooks.clear();
+};
@@ -0,0 +1,331 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./options", () => ({
+  getOptions: vi.fn(),
+}));
+
+import {
+  _resetBreadcrumbsForTesting,
+  addBreadcrumb,
+  clearBreadcrumbs,
+  getBreadcrumbs,
+  initBreadcrumbs,
+} from "./breadcrumbs";
+import { emitEvent } from "./events/internal";
+import { getOptions } from "./options";
+
+const mockGetOptions = vi.mocked(getOptions);
+
+const STORAGE_KEY = "__spa_guard_breadcrumbs__";
+const BEACON_ENDPOINT = "https://example.com/beacon";
+
+const messages = () => getBreadcrumbs().map((crumb) => `${crumb.category}: ${crumb.message}`);
+
+describe("breadcrumbs", () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+    _resetBreadcrumbsForTesting();
+    mockGetOptions.mockReturnValue({
+      breadcrumbs: { enabled: true, maxBreadcrumbs: 30 },
+      reportBeacon: { endpoint: BEACON_ENDPOINT },
+    });
+  });
+
+  afterEach(() => {
+    _resetBreadcrumbsForTesting();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    sessionStorage.clear();
+  });
+
+  describe("addBreadcrumb / getBreadcrumbs", () => {
+    it("records breadcrumbs with a timestamp, oldest first", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1000);
+      addBreadcrumb({ category: "custom", message: "first" });
+      vi.setSystemTime(2000);
+      addBreadcrumb({ category: "custom", level: "warning", message: "second" });
+
+      expect(getBreadcrumbs()).toEqual([
+        { category: "custom", message: "first", timestamp: 1000 },
+        { category: "custom", level: "warning", message: "second", timestamp: 2000 },
+      ]);
+    });
+
+    it("persists the trail to sessionStorage on pagehide so it survives reloads", () => {
+      addBreadcrumb({ category: "custom", message: "before reload" });
+      expect(sessionStorage.getItem(STORAGE_KEY)).toBeNull();
+
+      globalThis.window.dispatchEvent(new Event("pagehide"));
+
+      const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY)!);
+      expect(stored[0].message).toBe("before reload");
+    });
+
+    it("persists the trail when it is read for a report", () => {
+      addBreadcrumb({ category: "custom", message: "reported" });
+
+      getBreadcrumbs();
+
+      expect(JSON.parse(sessionStorage.getItem(STORAGE_KEY)!)[0].message).toBe("reported");
+    });
+
+    it("restores the trail of the previous page", () => {
+      sessionStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify([{ category: "custom", message: "previous page", timestamp: 1 }]),
+      );
+
+      addBreadcrumb({ category: "custom", message: "this page" });
+
+      expect(getBreadcrumbs().map((crumb) => crumb.message)).toEqual([
+        "previous page",
+        "this page",
+      ]);
+    });
+
+    it("reads sessionStorage once and does not write it per breadcrumb", () => {
+      const getItemSpy = vi.spyOn(sessionStorage, "getItem");
+      const setItemSpy = vi.spyOn(sessionStorage, "setItem");
+
+      for (let i = 0; i < 5; i++) {
+        addBreadcrumb({ category: "custom", message: `crumb ${i}` });
+      }
+
+      expect(getItemSpy).toHaveBeenCalledTimes(1);
+      expect(setItemSpy).not.toHaveBeenCalled();
+    });
+
+    it("drops the oldest breadcrumbs beyond maxBreadcrumbs", () => {
+      mockGetOptions.mockReturnValue({ breadcrumbs: { enabled: true, maxBreadcrumbs: 3 } });
+
+      for (let i = 1; i <= 5; i++) {
+        addBreadcrumb({ category: "custom", message: `crumb ${i}` });
+      }
+
+      expect(getBreadcrumbs().map((crumb) => crumb.message)).toEqual([
+        "crumb 3",
+        "crumb 4",
+        "crumb 5",
+      ]);
+    });
+
+    it("caps maxBreadcrumbs at 100", () => {
+      mockGetOptions.mockReturnValue({ breadcrumbs: { enabled: true, maxBreadcrumbs: 500 } });
+
+      for (let i = 0; i < 120; i++) {
+        addBreadcrumb({ category: "custom", message: `crumb ${i}` });
+      }
+
+      expect(getBreadcrumbs()).toHaveLength(100);
+    });
+
+    it("truncates long messages", () => {
+      addBreadcrumb({ category: "custom", message: "x".repeat(1000) });
+
+      expect(getBreadcrumbs()[0]?.message).toHaveLength(200);
+    });
+
+    it("does not record when breadcrumbs are disabled", () => {
+      mockGetOptions.mockReturnValue({ breadcrumbs: { enabled: false } });
+
+      addBreadcrumb({ category: "custom", message: "ignored" });
+
+      expect(getBreadcrumbs()).toEqual([]);
+    });
+
+    it("does not record unless breadcrumbs are enabled", () => {
+      mockGetOptions.mockReturnValue({ breadcrumbs: {} });
+
+      addBreadcrumb({ category: "custom", message: "ignored" });
+
+      expect(getBreadcrumbs()).toEqual([]);
+    });
+
+    it("falls back to in-memory storage when sessionStorage throws", () => {
+      vi.spyOn(Storage.prototype, "getItem").mockImplementation(() => {
+        throw new Error("SecurityError");
+      });
+      vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+        throw new Error("QuotaExceededError");
+      });
+
+      addBreadcrumb({ category: "custom", message: "in memory" });
+
+      expect(getBreadcrumbs().map((crumb) => crumb.message)).toEqual(["in memory"]);
+    });
+
+    it("clearBreadcrumbs removes the trail", () => {
+      addBreadcrumb({ category: "custom", message: "x" });
+
+      clearBreadcrumbs();
+
+      expect(getBreadcrumbs()).toEqual([]);
+      expect(sessionStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+  });
+
+  describe("initBreadcrumbs instrumentation", () => {
+    it("records history.pushState navigation", () => {
+      initBreadcrumbs();
+      const from = globalThis.window.location.pathname;
+
+      history.pushState({}, "", "/checkout");
+
+      expect(messages()).toContain(`navigation: ${from} → /checkout`);
+    });
+
+    it("records popstate navigation", () => {
+      history.replaceState({}, "", "/start");
+      initBreadcrumbs();
+
+      history.pushState({}, "", "/next");
+      history.replaceState({}, "", "/start");
+      globalThis.window.dispatchEvent(new PopStateEvent("popstate"));
+
+      expect(messages()).toEqual(["navigation: /start → /next", "navigation: /next → /start"]);
+    });
+
+    it("records clicks with an element selector", () => {
+      initBreadcrumbs();
+      const button = document.createElement("button");
+      button.id = "pay";
+      button.className = "btn primary large";
+      button.dataset.testid = "pay-button";
+      const icon = document.createElement("span");
+      button.append(icon);
+      document.body.append(button);
+
+      icon.click();
+
+      expect(messages()).toContain('click: button#pay.btn.primary[data-testid="pay-button"]');
+      button.remove();
+    });
+
+    it("records fetch calls with their status", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ status: 503 }));
+      initBreadcrumbs();
+
+      await fetch("/api/cart", { method: "post" });
+
+      expect(getBreadcrumbs()).toEqual([
+        expect.objectContaining({
+          category: "fetch",
+          level: "error",
+          message: "POST /api/cart → 503",
+        }),
+      ]);
+    });
+
+    it("strips query strings and hashes from fetch URLs", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ status: 200 }));
+      initBreadcrumbs();
+
+      await fetch("https://api.example.com/search?q=secret&token=abc#results");
+      await fetch(new URL("https://api.example.com/cart#top"));
+
+      expect(messages()).toEqual([
+        "fetch: GET https://api.example.com/search → 200",
+        "fetch: GET https://api.example.com/cart → 200",
+      ]);
+    });
+
+    it("records failed fetch calls and rethrows the error", async () => {
+      const error = new TypeError("Failed to fetch");
+      vi.stubGlobal("fetch", vi.fn().mockRejectedValue(error));
+      initBreadcrumbs();
+
+      await expect(fetch("/api/cart")).rejects.toBe(error);
+
+      expect(messages()).toEqual(["fetch: GET /api/cart → failed"]);
+    });
+
+    it("does not record requests to the beacon endpoint", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ status: 200 }));
+      initBreadcrumbs();
+
+      await fetch(BEACON_ENDPOINT, { method: "POST" });
+
+      expect(getBreadcrumbs()).toEqual([]);
+    });
+
+    it("records console warnings and errors", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      initBreadcrumbs();
+
+      console.warn("deprecated prop", { name: "size" });
+      console.error(new Error("render failed"));
+
+      expect(getBreadcrumbs()).toEqual([
+        expect.objectContaining({
+          category: "console",
+          level: "warning",
+          message: 'deprecated prop {"name":"size"}',
+        }),
+        expect.objectContaining({
+          category: "console",
+          level: "error",
+          message: "Error: render failed",
+        }),
+      ]);
+    });
+
+    it("serializes only the first level of object console arguments", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      initBreadcrumbs();
+      const state = Object.fromEntries(
+        Array.from({ length: 20 }, (_, i) => [`key${i}`, { nested: { deep: i } }]),
+      );
+
+      console.warn("state", state, [1, [2], { a: 1 }]);
+
+      const message = getBreadcrumbs()[0]?.message ?? "";
+      expect(message).toMatch(/^state \{"key0":"\[Object\]",.*"key9":"\[Object\]"\}/);
+      expect(message).not.toContain("key10");
+      expect(message).not.toContain("deep");
+    });
+
+    it("skips spa-guard's own console output", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      initBreadcrumbs();
+
+      console.warn("[spa-guard] Report endpoint is not configured");
+
+      expect(getBreadcrumbs()).toEqual([]);
+    });
+
+    it("records spa-guard events", () => {
+      initBreadcrumbs();
+
+      emitEvent(
+        { name: "retry-reset", previousRetryId: "a", timeSinceReload: 1 },
+        { silent: true },
+      );
+
+      expect(messages()).toEqual(["spa-guard: retry-reset"]);
+    });
+
+    it("installs instrumentation only once", async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ status: 200 });
+      vi.stubGlobal("fetch", fetchMock);
+
+      initBreadcrumbs();
+      initBreadcrumbs();
+      await fetch("/api/once");
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(messages()).toEqual(["fetch: GET /api/once → 200"]);
+    });
+
+    it("does not instrument anything when breadcrumbs are disabled", () => {
+      mockGetOptions.mockReturnValue({ breadcrumbs: { enabled: false } });
+      const originalPushState = history.pushState;
+
+      initBreadcrumbs();
+
+      expect(history.pushState).toBe(originalPushState);
+    });
+  });
+});
@@ -0,0 +1,378 @@
+import type { Breadcrumb } from "../schema";
+
+import { breadcrumbsStateWindowKey } from "./constants";
+import { subscribe } from "./events/internal";
+import { getOptions } from "./options";
+
+const STORAGE_KEY = "__spa_guard_breadcrumbs__";
+
+const DEFAULT_MAX_BREADCRUMBS = 30;
+/** Upper bound accepted by `parseBeacon` on the server side. */
+const MAX_BREADCRUMBS_LIMIT = 100;
+const MAX_MESSAGE_LENGTH = 200;
+/** Keys or items of an object/array console argument included in the message. */
+const MAX_CONSOLE_ARG_ENTRIES = 10;
+
+const LOG_PREFIX = "[spa-guard]";
+
+interface BreadcrumbsState {
+  /** The in-memory trail has changes not yet written to sessionStorage */
+  dirty: boolean;
+  /** The trail of the previous page was read from sessionStorage */
+  hydrated: boolean;
+  installed: boolean;
+  pagehideAttached: boolean;
+  storage: Breadcrumb[];
+  uninstall: (() => void)[];
+}
+
+const createInitialState = (): BreadcrumbsState => ({
+  dirty: false,
+  hydrated: false,
+  installed: false,
+  pagehideAttached: false,
+  storage: [],
+  uninstall: [],
+});
+
+const getState = (): BreadcrumbsState => {
+  const w = globalThis.window as any;
+  if (!w) {
+    return createInitialState();
+  }
+  return w[breadcrumbsStateWindowKey] ?? (w[breadcrumbsStateWindowKey] = createInitialState());
+};
+
+const hasSessionStorage = (): boolean => {
+  try {
+    return globalThis.window !== undefined && typeof sessionStorage !== "undefined";
+  } catch {
+    return false;
+  }
+};
+
+const isEnabled = (): boolean => getOptions().breadcrumbs?.enabled === true;
+
+const getMaxBreadcrumbs = (): number =>
+  Math.min(
+    Math.max(0, getOptions().breadcrumbs?.maxBreadcrumbs ?? DEFAULT_MAX_BREADCRUMBS),
+    MAX_BREADCRUMBS_LIMIT,
+  );
+
+const truncate = (value: string, maxLength = MAX_MESSAGE_LENGTH): string =>
+  value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+
+// The trail lives in memory; sessionStorage is read once per page and written
+// only on pagehide or when a report is built, not on every breadcrumb.
+const hydrate = (state: BreadcrumbsState): void => {
+  if (state.hydrated) {
+    return;
+  }
+  state.hydrated = true;
+
+  if (hasSessionStorage()) {
+    try {
+      const stored = sessionStorage.getItem(STORAGE_KEY);
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      if (Array.isArray(parsed)) {
+        state.storage = [...(parsed as Breadcrumb[]), ...state.storage];
+      }
+    } catch {
+      // Keep the in-memory trail only
+    }
+  }
+};
+
+const flushBreadcrumbs = (): void => {
+  const state = getState();
+  if (!state.dirty) {
+    return;
+  }
+  state.dirty = false;
+
+  if (hasSessionStorage()) {
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(state.storage));
+    } catch {
+      // Quota exceeded or storage disabled — the trail stays in memory
+    }
+  }
+};
+
+const attachPagehideFlush = (state: BreadcrumbsState): void => {
+  if (state.pagehideAttached) {
+    return;
+  }
+  state.pagehideAttached = true;
+  // Retry reloads fire pagehide, so the trail reaches the next attempt
+  globalThis.window.addEventListener("pagehide", flushBreadcrumbs);
+};
+
+/**
+ * Returns the recorded breadcrumbs, oldest first, and persists them to
+ * sessionStorage so they survive retry reloads.
+ */
+export const getBreadcrumbs = (): Breadcrumb[] => {
+  const state = getState();
+  hydrate(state);
+  flushBreadcrumbs();
+  return state.storage;
+};
+
+/**
+ * Appends a breadcrumb to the ring buffer, dropping the oldest entries beyond
+ * `breadcrumbs.maxBreadcrumbs`. Does nothing when breadcrumbs are disabled.
+ */
+export const addBreadcrumb = (breadcrumb: Omit<Breadcrumb, "timestamp">): void => {
+  if (globalThis.window === undefined || !isEnabled()) {
+    return;
+  }
+
+  const max = getMaxBreadcrumbs();
+  if (max === 0) {
+    return;
+  }
+
+  const entry: Breadcrumb = {
+    ...breadcrumb,
+    message: truncate(breadcrumb.message),
+    timestamp: Date.now(),
+  };
+  const state = getState();
+  hydrate(state);
+  state.storage = [...state.storage, entry].slice(-max);
+  state.dirty = true;
+  attachPagehideFlush(state);
+};
+
+/** Removes all recorded breadcrumbs. */
+export const clearBreadcrumbs = (): void => {
+  if (hasSessionStorage()) {
+    try {
+      sessionStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Ignore
+    }
+  }
+  const state = getState();
+  state.storage = [];
+  state.dirty = false;
+  state.hydrated = true;
+};
+
+const describeElement = (target: EventTarget | null): null | string => {
+  if (!(target instanceof Element)) {
+    return null;
+  }
+
+  const element =
+    target.closest("a, button, input, label, select, textarea, [role='button']") ?? target;
+
+  let selector = element.tagName.toLowerCase();
+  if (element.id) {
+    selector += `#${element.id}`;
+  }
+  for (const className of [...element.classList].slice(0, 2)) {
+    selector += `.${className}`;
+  }
+  const testId = element.getAttribute("data-testid");
+  if (testId) {
+    selector += `[data-testid="${testId}"]`;
+  }
+  return selector;
+};
+
+const summarizeNested = (value: unknown): unknown => {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  return Array.isArray(value) ? "[Array]" : "[Object]";
+};
+
+// Only the first level of an object is serialized so large app state logged
+// to the console does not cost a full JSON.stringify on every call
+const stringifyConsoleArg = (arg: unknown): string => {
+  if (typeof arg === "string") {
+    return truncate(arg);
+  }
+  if (arg instanceof Error) {
+    return truncate(`${arg.name}: ${arg.message}`);
+  }
+  if (arg === null || typeof arg !== "object") {
+    return String(arg);
+  }
+  try {
+    if (Array.isArray(arg)) {
+      return truncate(JSON.stringify(arg.slice(0, MAX_CONSOLE_ARG_ENTRIES).map(summarizeNested)));
+    }
+    const summary: Record<string, unknown> = {};
+    let count = 0;
+    for (const key in arg) {
+      if (count++ === MAX_CONSOLE_ARG_ENTRIES) {
+        break;
+      }
+      summary[key] = summarizeNested((arg as Record<string, unknown>)[key]);
+    }
+    return truncate(JSON.stringify(summary));
+  } catch {
+    return String(arg);
+  }
+};
+
+/** Drops the query string and hash, which often carry tokens or personal data. */
+const stripUrlParams = (url: string): string => url.split(/[?#]/, 1)[0] ?? url;
+
+const getRequestInfo = (input: RequestInfo | URL, init?: RequestInit) => {
+  if (typeof input === "string") {
+    return { method: init?.method ?? "GET", url: input };
+  }
+  if (input instanceof URL) {
+    return { method: init?.method ?? "GET", url: input.href };
+  }
+  return { method: init?.method ?? input.method, url: input.url };
+};
+
+const instrumentNavigation = (state: BreadcrumbsState): void => {
+  const { history } = globalThis.window;
+  let lastPath = globalThis.window.location.pathname;
+
+  const recordNavigation = () => {
+    const nextPath = globalThis.window.location.pathname;
+    if (nextPath !== lastPath) {
+      addBreadcrumb({ category: "navigation", message: `${lastPath} → ${nextPath}` });
+      lastPath = nextPath;
+    }
+  };
+
+  for (const method of ["pushState", "replaceState"] as const) {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History["pushState"]>) {
+      const result = original.apply(this, args);
+      recordNavigation();
+      return result;
+    };
+    state.uninstall.push(() => {
+      history[method] = original;
+    });
+  }
+
+  globalThis.window.addEventListener("popstate", recordNavigation);
+  state.uninstall.push(() => globalThis.window.removeEventListener("popstate", recordNavigation));
+};
+
+const instrumentClicks = (state: BreadcrumbsState): void => {
+  const onClick = (event: Event) => {
+    const selector = describeElement(event.target);
+    if (selector) {
+      addBreadcrumb({ category: "click", message: selector });
+    }
+  };
+
+  globalThis.window.document?.addEventListener("click", onClick, true);
+  state.uninstall.push(() =>
+    globalThis.window.document?.removeEventListener("click", onClick, true),
+  );
+};
+
+const instrumentFetch = (state: BreadcrumbsState): void => {
+  const originalFetch = globalThis.fetch;
+  if (typeof originalFetch !== "function") {
+    return;
+  }
+
+  globalThis.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const { method, url } = getRequestInfo(input, init);
+    const promise = originalFetch.call(globalThis, input, init);
+
+    // Beacon requests would only add noise to the trail they carry
+    if (url === getOptions().reportBeacon?.endpoint) {
+      return promise;
+    }
+
+    const message = `${method.toUpperCase()} ${stripUrlParams(url)}`;
+    return promise.then(
+      (response) => {
+        addBreadcrumb({
+          category: "fetch",
+          ...(response.status >= 400 && { level: response.status >= 500 ? "error" : "warning" }),
+          message: `${message} → ${response.status}`,
+        });
+        return response;
+      },
+      (error: unknown) => {
+        addBreadcrumb({ category: "fetch", level: "error", message: `${message} → failed` });
+        throw error;
+      },
+    );
+  };
+  state.uninstall.push(() => {
+    globalThis.fetch = originalFetch;
+  });
+};
+
+const instrumentConsole = (state: BreadcrumbsState): void => {
+  for (const [method, level] of [
+    ["error", "error"],
+    ["warn", "warning"],
+  ] as const) {
+    const original = console[method];
+    console[method] = (...args: unknown[]) => {
+      const message = args.map((arg) => stringifyConsoleArg(arg)).join(" ");
+      // spa-guard's own log lines are already recorded as "spa-guard" breadcrumbs
+      if (!message.startsWith(LOG_PREFIX)) {
+        addBreadcrumb({ category: "console", level, message });
+      }
+      original.apply(console, args);
+    };
+    state.uninstall.push(() => {
+      console[method] = original;
+    });
+  }
+};
+
+const instrumentSpaGuardEvents = (state: BreadcrumbsState): void => {
+  const unsubscribe = subscribe((event) => {
+    addBreadcrumb({ category: "spa-guard", message: event.name });
+  });
+  state.uninstall.push(() => {
+    unsubscribe();
+  });
+};
+
+/**
+ * Starts recording breadcrumbs: history navigation, clicks, fetch calls,
+ * console warnings/errors and spa-guard events. Opt-in via `breadcrumbs.enabled`.
+ * Installs once per window.
+ */
+export const initBreadcrumbs = (): void => {
+  if (globalThis.window === undefined || !isEnabled()) {
+    return;
+  }
+
+  const state = getState();
+  if (state.installed) {
+    return;
+  }
+  state.installed = true;
+
+  instrumentNavigation(state);
+  instrumentClicks(state);
+  instrumentFetch(state);
+  instrumentConsole(state);
+  instrumentSpaGuardEvents(state);
+};
+
+/** Reset internal state and restore patched globals - exported for testing only */
+export const _resetBreadcrumbsForTesting = (): void => {
+  const state = getState();
+  for (const uninstall of [...state.uninstall].reverse()) {
+    uninstall();
+  }
+  if (state.pagehideAttached) {
+    globalThis.window.removeEventListener("pagehide", flushBreadcrumbs);
+  }
+  clearBreadcrumbs();
+  if (globalThis.window) {
+    (globalThis.window as any)[breadcrumbsStateWindowKey] = createInitialState();
+  }
+};
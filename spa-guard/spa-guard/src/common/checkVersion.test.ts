@@ -4,6 +4,7 @@ import type { Logger } from "./logger";
 import type { Options } from "./options";
 
 import { loggerWindowKey, optionsWindowKey } from "./constants";
+import { defaultUpdatePromptHtml } from "./html.generated";
 
 const setWindowOptions = (opts: Options) => {
   (globalThis.window as any)[optionsWindowKey] = opts;
@@ -103,6 +104,7 @@ describe("common/checkVersion", () => {
     vi.restoreAllMocks();
     clearWindowOptions();
     clearWindowLogger();
+    localStorage.clear();
   });
 
   describe("startVersionCheck", () => {
@@ -169,7 +171,11 @@ describe("common/checkVersion", () => {
 
         expect(dispatchEvent).toHaveBeenCalledWith(
           expect.objectContaining({
-            detail: { latestVersion: "1.0.1", oldVersion: "1.0.0" },
+            detail: {
+              latestVersion: "1.0.1",
+              oldVersion: "1.0.0",
+              policy: { action: "reload", reason: "on-update" },
+            },
             type: "spa-guard:version-change",
           }),
         );
@@ -258,7 +264,11 @@ describe("common/checkVersion", () => {
 
         expect(dispatchEvent).toHaveBeenCalledWith(
           expect.objectContaining({
-            detail: { latestVersion: "1.0.1", oldVersion: "1.0.0" },
+            detail: {
+              latestVersion: "1.0.1",
+              oldVersion: "1.0.0",
+              policy: { action: "reload", reason: "on-update" },
+            },
             type: "spa-guard:version-change",
           }),
         );
@@ -338,6 +348,169 @@ describe("common/checkVersion", () => {
       });
     });
 
+    describe("header mode", () => {
+      const headResponse = (headers: Record<string, string>) => ({
+        headers: new Headers(headers),
+        ok: true,
+      });
+
+      it("reads the version from the X-App-Version header of a HEAD request", async () => {
+        setWindowOptions({ checkVersion: { interval: 1000, mode: "header" }, version: "1.0.0" });
+        globalThis.fetch = vi.fn().mockResolvedValue(headResponse({ "X-App-Version": "1.0.1" }));
+        const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+        mod.startVersionCheck();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(globalThis.fetch).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ cache: "no-store", method: "HEAD" }),
+        );
+        expect(dispatchEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            detail: expect.objectContaining({ latestVersion: "1.0.1", oldVersion: "1.0.0" }),
+            type: "spa-guard:version-change",
+          }),
+        );
+      });
+
+      it("reads a custom versionHeader", async () => {
+        setWindowOptions({
+          checkVersion: {
+            interval: 1000,
+            mode: "header",
+            onUpdate: "event",
+            versionHeader: "X-Build",
+          },
+          version: "1.0.0",
+        });
+        globalThis.fetch = vi.fn().mockResolvedValue(headResponse({ "X-Build": "1.0.0" }));
+        const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+        mod.startVersionCheck();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(dispatchEvent).not.toHaveBeenCalled();
+        expect(mockLogger.versionCheckParseError).not.toHaveBeenCalled();
+      });
+
+      it("falls back to ETag changes without a version header", async () => {
+        setWindowOptions({
+          checkVersion: { interval: 1000, mode: "header", onUpdate: "event" },
+          version: "1.0.0",
+        });
+        globalThis.fetch = vi.fn().mockResolvedValue(headResponse({ ETag: '"abc-en"' }));
+        const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+        mod.startVersionCheck();
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(dispatchEvent).not.toHaveBeenCalled();
+
+        globalThis.fetch = vi.fn().mockResolvedValue(headResponse({ ETag: 'W/"def-en"' }));
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(dispatchEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            detail: expect.objectContaining({ latestVersion: "def-en", oldVersion: "1.0.0" }),
+          }),
+        );
+      });
+
+      it("pins the baseline ETag at startup so a deploy before the first poll is seen", async () => {
+        setWindowOptions({
+          checkVersion: { interval: 1000, mode: "header", onUpdate: "event" },
+          version: "1.0.0",
+        });
+        globalThis.fetch = vi.fn().mockResolvedValue(headResponse({ ETag: '"abc-en"' }));
+        const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+        mod.startVersionCheck();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+
+        globalThis.fetch = vi.fn().mockResolvedValue(headResponse({ ETag: '"def-en"' }));
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(dispatchEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            detail: expect.objectContaining({ latestVersion: "def-en", oldVersion: "1.0.0" }),
+          }),
+        );
+      });
+
+      it("shares the baseline ETag with the tabs running the same version", async () => {
+        setWindowOptions({
+          checkVersion: { interval: 1000, mode: "header", onUpdate: "event" },
+          version: "1.0.0",
+        });
+        globalThis.fetch = vi.fn().mockResolvedValue(headResponse({ ETag: '"abc-en"' }));
+        mod.startVersionCheck();
+        await vi.advanceTimersByTimeAsync(0);
+
+        // Another tab, e.g. a newly elected leader, starting after the deploy
+        mod._resetForTesting();
+        globalThis.fetch = vi.fn().mockResolvedValue(headResponse({ ETag: '"def-en"' }));
+        const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+        mod.startVersionCheck();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(globalThis.fetch).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(dispatchEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            detail: expect.objectContaining({ latestVersion: "def-en", oldVersion: "1.0.0" }),
+          }),
+        );
+      });
+
+      it("ignores a baseline stored for another version", async () => {
+        localStorage.setItem(
+          "__spa_guard_header_baseline__",
+          JSON.stringify({ etag: "old-en", version: "0.9.0" }),
+        );
+        setWindowOptions({
+          checkVersion: { interval: 1000, mode: "header", onUpdate: "event" },
+          version: "1.0.0",
+        });
+        globalThis.fetch = vi.fn().mockResolvedValue(headResponse({ ETag: '"abc-en"' }));
+        const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+        mod.startVersionCheck();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(dispatchEvent).not.toHaveBeenCalled();
+        expect(JSON.parse(localStorage.getItem("__spa_guard_header_baseline__")!)).toEqual({
+          etag: "abc-en",
+          version: "1.0.0",
+        });
+      });
+
+      it("does not check at startup once the version header was seen", async () => {
+        setWindowOptions({ checkVersion: { interval: 1000, mode: "header" }, version: "1.0.0" });
+        globalThis.fetch = vi.fn().mockResolvedValue(headResponse({ "X-App-Version": "1.0.0" }));
+        mod.startVersionCheck();
+        await vi.advanceTimersByTimeAsync(0);
+        mod._resetForTesting();
+
+        mod.startVersionCheck();
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      });
+
+      it("calls versionCheckParseError when neither header is present", async () => {
+        setWindowOptions({ checkVersion: { interval: 1000, mode: "header" }, version: "1.0.0" });
+        globalThis.fetch = vi.fn().mockResolvedValue(headResponse({}));
+
+        mod.startVersionCheck();
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(mockLogger.versionCheckParseError).toHaveBeenCalledTimes(1);
+        expect(mockLocationReload).not.toHaveBeenCalled();
+      });
+    });
+
     describe("error handling", () => {
       it("calls versionCheckFailed when fetch fails", async () => {
         setWindowOptions({
@@ -1216,13 +1389,111 @@ describe("common/checkVersion", () => {
 
       expect(dispatchEvent).toHaveBeenCalledWith(
         expect.objectContaining({
-          detail: { latestVersion: "2.0.0", oldVersion: "1.0.0" },
+          detail: {
+            latestVersion: "2.0.0",
+            oldVersion: "1.0.0",
+            policy: { action: "event", reason: "on-update" },
+          },
           type: "spa-guard:version-change",
         }),
       );
       expect(mockLocationReload).not.toHaveBeenCalled();
     });
 
+    it('shows the update prompt instead of reloading when onUpdate is "prompt"', async () => {
+      setWindowOptions({
+        checkVersion: {
+          endpoint: "/api/version",
+          interval: 1000,
+          mode: "json",
+          onUpdate: "prompt",
+        },
+        // Filled in by the node and vite builders for onUpdate: "prompt"
+        html: { updatePrompt: { content: defaultUpdatePromptHtml } },
+        version: "1.0.0",
+      });
+
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        json: async () => ({ version: "2.0.0" }),
+        ok: true,
+      });
+
+      const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+      mod.startVersionCheck();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(dispatchEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "spa-guard:version-change" }),
+      );
+      const prompt = document.getElementById("__spa-guard-update-prompt");
+      expect(prompt?.textContent).toContain("A new version is available");
+      expect(mockLocationReload).not.toHaveBeenCalled();
+      prompt?.remove();
+    });
+
+    it('marks the version stale instead of reloading when onUpdate is "navigate"', async () => {
+      setWindowOptions({
+        checkVersion: {
+          endpoint: "/api/version",
+          interval: 1000,
+          mode: "json",
+          onUpdate: "navigate",
+        },
+        version: "1.0.0",
+      });
+
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        json: async () => ({ version: "2.0.0" }),
+        ok: true,
+      });
+
+      const { _resetVersionStaleForTesting, isVersionStale } = await import("./versionStale");
+
+      mod.startVersionCheck();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(isVersionStale()).toBe(true);
+      expect(mockLocationReload).not.toHaveBeenCalled();
+      _resetVersionStaleForTesting();
+    });
+
+    it("refreshes the service worker before reloading when serviceWorker is enabled", async () => {
+      setWindowOptions({
+        checkVersion: { endpoint: "/api/version", interval: 1000, mode: "json" },
+        serviceWorker: { enabled: true },
+        version: "1.0.0",
+      });
+
+      const container = new EventTarget();
+      const waiting = {
+        postMessage: vi.fn(() => {
+          queueMicrotask(() => container.dispatchEvent(new Event("controllerchange")));
+        }),
+      };
+      const update = vi.fn().mockResolvedValue(undefined);
+      Object.assign(container, {
+        getRegistration: vi.fn().mockResolvedValue({ installing: null, update, waiting }),
+      });
+      Object.defineProperty(navigator, "serviceWorker", { configurable: true, value: container });
+
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        json: async () => ({ version: "2.0.0" }),
+        ok: true,
+      });
+
+      try {
+        mod.startVersionCheck();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(update).toHaveBeenCalledTimes(1);
+        expect(waiting.postMessage).toHaveBeenCalledWith({ type: "SKIP_WAITING" });
+        expect(mockLocationReload).toHaveBeenCalledTimes(1);
+      } finally {
+        delete (navigator as any).serviceWorker;
+      }
+    });
+
     it("does not call location.reload() when version is unchanged", async () => {
       setWindowOptions({
         checkVersion: { endpoint: "/api/version", interval: 1000, mode: "json" },
@@ -1240,4 +1511,725 @@ describe("common/checkVersion", () => {
       expect(mockLocationReload).not.toHaveBeenCalled();
     });
   });
+
+  describe("version policy", () => {
+    const startJsonCheck = (
+      response: Record<string, unknown>,
+      checkVersion: Options["checkVersion"] = {},
+    ) => {
+      setWindowOptions({
+        checkVersion: { endpoint: "/api/version", interval: 1000, mode: "json", ...checkVersion },
+        version: "1.4.0",
+      });
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        json: async () => response,
+        ok: true,
+      });
+      mod.startVersionCheck();
+    };
+
+    it("reloads regardless of onUpdate when the running version is below minVersion", async () => {
+      const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+      startJsonCheck({ minVersion: "1.5.0", version: "1.6.0" }, { onUpdate: "event" });
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(dispatchEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          detail: {
+            latestVersion: "1.6.0",
+            oldVersion: "1.4.0",
+            policy: { action: "reload", reason: "min-version" },
+          },
+        }),
+      );
+      expect(mockLocationReload).toHaveBeenCalledTimes(1);
+    });
+
+    it("reloads regardless of onUpdate for a critical deployment", async () => {
+      const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+      startJsonCheck({ severity: "critical", version: "1.4.1" }, { onUpdate: "prompt" });
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(dispatchEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          detail: expect.objectContaining({ policy: { action: "reload", reason: "critical" } }),
+        }),
+      );
+      expect(mockLocationReload).toHaveBeenCalledTimes(1);
+    });
+
+    it("falls back to onUpdate when the running version satisfies minVersion", async () => {
+      const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+      startJsonCheck(
+        { minVersion: "1.4.0", severity: "normal", version: "1.6.0" },
+        { onUpdate: "event" },
+      );
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(dispatchEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          detail: expect.objectContaining({ policy: { action: "event", reason: "on-update" } }),
+        }),
+      );
+      expect(mockLocationReload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("SSE mode", () => {
+    class FakeEventSource extends EventTarget {
+      static instances: FakeEventSource[] = [];
+      close = vi.fn();
+
+      constructor(public url: string) {
+        super();
+        FakeEventSource.instances.push(this);
+      }
+
+      emitError() {
+        this.dispatchEvent(new Event("error"));
+      }
+
+      emitOpen() {
+        this.dispatchEvent(new Event("open"));
+      }
+
+      emitVersion(data: string) {
+        this.dispatchEvent(new MessageEvent("version", { data }));
+      }
+    }
+
+    const htmlResponse = (version: string) => ({
+      ok: true,
+      text: async () => `window.__SPA_GUARD_VERSION__="${version}"`,
+    });
+
+    const startSse = (checkVersion: Options["checkVersion"] = {}) => {
+      setWindowOptions({
+        checkVersion: {
+          endpoint: "/api/version/stream",
+          interval: 1000,
+          mode: "sse",
+          ...checkVersion,
+        },
+        version: "1.0.0",
+      });
+      mod.startVersionCheck();
+      return FakeEventSource.instances.at(-1)!;
+    };
+
+    beforeEach(() => {
+      FakeEventSource.instances = [];
+      vi.stubGlobal("EventSource", FakeEventSource);
+      globalThis.fetch = vi.fn().mockResolvedValue(htmlResponse("1.0.0"));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("subscribes to the endpoint instead of polling", async () => {
+      const eventSource = startSse();
+      eventSource.emitOpen();
+
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(eventSource.url).toBe("/api/version/stream");
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it("reloads when a version message with a new version arrives", () => {
+      const eventSource = startSse();
+      const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+      eventSource.emitVersion(JSON.stringify({ version: "2.0.0" }));
+
+      expect(dispatchEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          detail: {
+            latestVersion: "2.0.0",
+            oldVersion: "1.0.0",
+            policy: { action: "reload", reason: "on-update" },
+          },
+          type: "spa-guard:version-change",
+        }),
+      );
+      expect(mockLocationReload).toHaveBeenCalledTimes(1);
+    });
+
+    it("accepts a plain string version message", () => {
+      const eventSource = startSse({ onUpdate: "event" });
+      const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+      eventSource.emitVersion("2.0.0");
+
+      expect(dispatchEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          detail: {
+            latestVersion: "2.0.0",
+            oldVersion: "1.0.0",
+            policy: { action: "event", reason: "on-update" },
+          },
+        }),
+      );
+    });
+
+    it("applies minVersion and severity from the version message", () => {
+      const eventSource = startSse({ onUpdate: "navigate" });
+
+      eventSource.emitVersion(JSON.stringify({ minVersion: "2.0.0", version: "2.0.0" }));
+
+      expect(mockLocationReload).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores messages with the current version", () => {
+      const eventSource = startSse();
+      const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+      eventSource.emitVersion(JSON.stringify({ version: "1.0.0" }));
+      eventSource.emitVersion(JSON.stringify({ other: "field" }));
+
+      expect(dispatchEvent).not.toHaveBeenCalled();
+      expect(mockLocationReload).not.toHaveBeenCalled();
+    });
+
+    it("falls back to HTML polling while the stream is disconnected", async () => {
+      const eventSource = startSse();
+      eventSource.emitOpen();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      eventSource.emitError();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ headers: { Accept: "text/html" } }),
+      );
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("stops polling once the stream reconnects", async () => {
+      const eventSource = startSse();
+      eventSource.emitError();
+      await vi.advanceTimersByTimeAsync(1000);
+      const callsWhileDisconnected = vi.mocked(globalThis.fetch).mock.calls.length;
+
+      eventSource.emitOpen();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(callsWhileDisconnected).toBeGreaterThan(0);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(callsWhileDisconnected);
+    });
+
+    it("keeps the visibility pause for fallback polling", async () => {
+      const eventSource = startSse();
+      simulateVisibilityChange("hidden");
+
+      eventSource.emitError();
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+
+      simulateVisibilityChange("visible");
+      await vi.advanceTimersByTimeAsync(0);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not poll on focus while the stream is connected", async () => {
+      const eventSource = startSse();
+      eventSource.emitOpen();
+
+      simulateBlur();
+      await vi.advanceTimersByTimeAsync(5000);
+      simulateFocus();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it("closes the stream on stopVersionCheck", () => {
+      const eventSource = startSse();
+
+      mod.stopVersionCheck();
+
+      expect(eventSource.close).toHaveBeenCalledTimes(1);
+      expect(mockLogger.versionCheckStopped).toHaveBeenCalledTimes(1);
+    });
+
+    it("ignores messages from a stream of a previous run", () => {
+      const eventSource = startSse();
+      mod.stopVersionCheck();
+
+      eventSource.emitVersion("2.0.0");
+
+      expect(mockLocationReload).not.toHaveBeenCalled();
+    });
+
+    it("polls the HTML page when no endpoint is configured", async () => {
+      setWindowOptions({ checkVersion: { interval: 1000, mode: "sse" }, version: "1.0.0" });
+
+      mod.startVersionCheck();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockLogger.versionCheckRequiresEndpoint).toHaveBeenCalledTimes(1);
+      expect(FakeEventSource.instances).toHaveLength(0);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("polls the HTML page when EventSource is not supported", async () => {
+      vi.stubGlobal("EventSource", undefined);
+
+      startSse();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("cross-tab coordination", () => {
+    const CHANNEL = "spa-guard:version-check";
+
+    /** In-memory BroadcastChannel shared by every simulated tab of the test. */
+    class FakeBroadcastChannel extends EventTarget {
+      static channels: FakeBroadcastChannel[] = [];
+
+      constructor(public name: string) {
+        super();
+        FakeBroadcastChannel.channels.push(this);
+      }
+
+      close() {
+        FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter((c) => c !== this);
+      }
+
+      postMessage(data: unknown) {
+        const recipients = FakeBroadcastChannel.channels.filter(
+          (c) => c !== this && c.name === this.name,
+        );
+        queueMicrotask(() => {
+          for (const recipient of recipients) {
+            recipient.dispatchEvent(new MessageEvent("message", { data: structuredClone(data) }));
+          }
+        });
+      }
+    }
+
+    /** Another window running spa-guard, driven by hand through the election protocol. */
+    const createPeerTab = (tabId: string, { leading = false } = {}) => {
+      const channel = new FakeBroadcastChannel(CHANNEL);
+      const since = Date.now() - 60_000;
+      const received: Record<string, unknown>[] = [];
+      const post = (type: string, extra: Record<string, unknown> = {}) =>
+        channel.postMessage({ ...extra, at: Date.now(), tabId, type });
+
+      channel.addEventListener("message", (event) => {
+        const message = (event as MessageEvent).data;
+        received.push(message);
+        // An older leader answers a newcomer's claim, which makes the newcomer step down
+        if (leading && message.type === "leader") {
+          post("leader", { since });
+        }
+      });
+
+      return {
+        heartbeat: () => post("leader", { since }),
+        received,
+        resign: () => {
+          leading = false;
+          post("resign");
+        },
+        sendReload: (version: string) => post("reload", { version }),
+        sendVersion: (version: string, extra: Record<string, unknown> = {}) =>
+          post("version", { ...extra, version }),
+      };
+    };
+
+    const startJsonCheck = (
+      remoteVersion = "1.0.0",
+      checkVersion: Options["checkVersion"] = {},
+    ) => {
+      setWindowOptions({
+        checkVersion: {
+          endpoint: "/api/version",
+          interval: 1000,
+          leaderElection: true,
+          mode: "json",
+          ...checkVersion,
+        },
+        version: "1.0.0",
+      });
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        json: async () => ({ version: remoteVersion }),
+        ok: true,
+      });
+      mod.startVersionCheck();
+    };
+
+    beforeEach(() => {
+      FakeBroadcastChannel.channels = [];
+      vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      localStorage.clear();
+      sessionStorage.clear();
+      Object.defineProperty(document, "visibilityState", {
+        configurable: true,
+        value: "visible",
+      });
+    });
+
+    it("stays passive while another tab leads", async () => {
+      const peer = createPeerTab("peer", { leading: true });
+
+      startJsonCheck();
+      await vi.advanceTimersByTimeAsync(0);
+      peer.heartbeat();
+      await vi.advanceTimersByTimeAsync(1900);
+      peer.heartbeat();
+      await vi.advanceTimersByTimeAsync(1900);
+
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it("polls as the leader and shares the result with the other tabs", async () => {
+      const peer = createPeerTab("peer");
+
+      startJsonCheck("2.0.0");
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      expect(peer.received).toContainEqual(expect.objectContaining({ type: "leader" }));
+      expect(peer.received).toContainEqual(
+        expect.objectContaining({ type: "version", version: "2.0.0" }),
+      );
+    });
+
+    it("shares minVersion and severity with the other tabs", async () => {
+      const peer = createPeerTab("peer");
+      startJsonCheck();
+      globalThis.fetch = vi.fn().mockResolvedValue({
+        json: async () => ({ minVersion: "1.0.0", severity: "normal", version: "2.0.0" }),
+        ok: true,
+      });
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(peer.received).toContainEqual(
+        expect.objectContaining({
+          minVersion: "1.0.0",
+          severity: "normal",
+          type: "version",
+          version: "2.0.0",
+        }),
+      );
+    });
+
+    it("dispatches version-change and reloads in a follower tab", async () => {
+      const peer = createPeerTab("peer", { leading: true });
+      startJsonCheck();
+      await vi.advanceTimersByTimeAsync(0);
+      const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+      peer.sendVersion("2.0.0");
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+      expect(dispatchEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          detail: {
+            latestVersion: "2.0.0",
+            oldVersion: "1.0.0",
+            policy: { action: "reload", reason: "on-update" },
+          },
+          type: "spa-guard:version-change",
+        }),
+      );
+      expect(mockLocationReload).toHaveBeenCalledTimes(1);
+    });
+
+    it("applies the version policy shared by the leader tab", async () => {
+      const peer = createPeerTab("peer", { leading: true });
+      startJsonCheck("1.0.0", { onUpdate: "event" });
+      await vi.advanceTimersByTimeAsync(0);
+
+      peer.sendVersion("2.0.0", { severity: "critical" });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockLocationReload).toHaveBeenCalledTimes(1);
+    });
+
+    it("takes over polling when the leader tab resigns", async () => {
+      const peer = createPeerTab("peer", { leading: true });
+      startJsonCheck();
+      await vi.advanceTimersByTimeAsync(0);
+
+      peer.resign();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("takes over polling when the leader tab stops sending heartbeats", async () => {
+      createPeerTab("peer", { leading: true });
+      startJsonCheck();
+      await vi.advanceTimersByTimeAsync(4000);
+
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(globalThis.fetch).toHaveBeenCalled();
+    });
+
+    it("hands leadership over when the leader tab is hidden", async () => {
+      const peer = createPeerTab("peer");
+      startJsonCheck();
+      await vi.advanceTimersByTimeAsync(0);
+
+      simulateVisibilityChange("hidden");
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(peer.received).toContainEqual(expect.objectContaining({ type: "resign" }));
+    });
+
+    it("polls in every tab unless leaderElection is set", async () => {
+      const peer = createPeerTab("peer", { leading: true });
+
+      startJsonCheck("1.0.0", { leaderElection: undefined });
+      await vi.advanceTimersByTimeAsync(0);
+      peer.heartbeat();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      expect(peer.received).toEqual([]);
+    });
+
+    it("polls in every tab when leaderElection is false", async () => {
+      const peer = createPeerTab("peer", { leading: true });
+
+      startJsonCheck("1.0.0", { leaderElection: false });
+      await vi.advanceTimersByTimeAsync(0);
+      peer.heartbeat();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      expect(peer.received).toEqual([]);
+    });
+
+    it("resigns when stopped", async () => {
+      const peer = createPeerTab("peer");
+      startJsonCheck();
+
+      mod.stopVersionCheck();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(peer.received.at(-1)).toEqual(expect.objectContaining({ type: "resign" }));
+    });
+
+    describe("crossTabReload", () => {
+      const RELOADED_VERSION_KEY = "__spa_guard_reloaded_version__";
+
+      const setVisibility = (state: "hidden" | "visible") => {
+        Object.defineProperty(document, "visibilityState", { configurable: true, value: state });
+      };
+
+      const startFollower = async (checkVersion: Options["checkVersion"] = {}) => {
+        const peer = createPeerTab("peer", { leading: true });
+        startJsonCheck("1.0.0", { crossTabReload: true, ...checkVersion });
+        await vi.advanceTimersByTimeAsync(0);
+        return peer;
+      };
+
+      it("tells the other tabs to reload when it detects a new version", async () => {
+        const peer = createPeerTab("peer");
+
+        startJsonCheck("2.0.0", { crossTabReload: true });
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(peer.received).toContainEqual(
+          expect.objectContaining({ type: "reload", version: "2.0.0" }),
+        );
+        expect(mockLocationReload).toHaveBeenCalledTimes(1);
+      });
+
+      it("reloads the visible tab right away when another tab reports a new version", async () => {
+        const peer = await startFollower();
+        const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+        peer.sendReload("2.0.0");
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(dispatchEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            detail: {
+              latestVersion: "2.0.0",
+              oldVersion: "1.0.0",
+              policy: { action: "reload", reason: "on-update" },
+            },
+            type: "spa-guard:version-change",
+          }),
+        );
+        expect(mockLocationReload).toHaveBeenCalledTimes(1);
+        expect(sessionStorage.getItem(RELOADED_VERSION_KEY)).toBe("2.0.0");
+      });
+
+      it("does not notify the other tabs again when the change came from another tab", async () => {
+        const peer = await startFollower();
+
+        peer.sendReload("2.0.0");
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(peer.received).not.toContainEqual(expect.objectContaining({ type: "reload" }));
+      });
+
+      it("staggers the reload of a hidden tab", async () => {
+        vi.spyOn(Math, "random").mockReturnValue(0.5);
+        const peer = await startFollower({ hiddenTabReloadDelay: 10_000 });
+        setVisibility("hidden");
+
+        peer.sendReload("2.0.0");
+        await vi.advanceTimersByTimeAsync(4999);
+
+        expect(mockLocationReload).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1);
+
+        expect(mockLocationReload).toHaveBeenCalledTimes(1);
+      });
+
+      it("reloads a hidden tab as soon as it becomes visible", async () => {
+        const peer = await startFollower({ hiddenTabReloadDelay: 60_000 });
+        vi.spyOn(Math, "random").mockReturnValue(0.99);
+        setVisibility("hidden");
+        peer.sendReload("2.0.0");
+        await vi.advanceTimersByTimeAsync(0);
+
+        simulateVisibilityChange("visible");
+
+        expect(mockLocationReload).toHaveBeenCalledTimes(1);
+        // The reload is simulated, so keep this tab's polls from reporting a change back to 1.0.0
+        vi.mocked(globalThis.fetch).mockResolvedValue({
+          json: async () => ({ version: "2.0.0" }),
+          ok: true,
+        } as Response);
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(mockLocationReload).toHaveBeenCalledTimes(1);
+      });
+
+      it("does not reload twice for the same version", async () => {
+        sessionStorage.setItem(RELOADED_VERSION_KEY, "2.0.0");
+        const peer = await startFollower();
+
+        peer.sendReload("2.0.0");
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(mockLocationReload).not.toHaveBeenCalled();
+      });
+
+      it("ignores a reload for the version it already runs", async () => {
+        const peer = await startFollower();
+
+        peer.sendReload("1.0.0");
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(mockLocationReload).not.toHaveBeenCalled();
+      });
+
+      it("cancels a staggered reload on stopVersionCheck", async () => {
+        const peer = await startFollower();
+        setVisibility("hidden");
+        peer.sendReload("2.0.0");
+        await vi.advanceTimersByTimeAsync(0);
+
+        mod.stopVersionCheck();
+        await vi.advanceTimersByTimeAsync(30_000);
+
+        expect(mockLocationReload).not.toHaveBeenCalled();
+      });
+
+      it("ignores reload messages without crossTabReload", async () => {
+        const peer = createPeerTab("peer", { leading: true });
+        startJsonCheck();
+        await vi.advanceTimersByTimeAsync(0);
+        const dispatchEvent = vi.spyOn(globalThis, "dispatchEvent");
+
+        peer.sendReload("2.0.0");
+        await vi.advanceTimersByTimeAsync(30_000);
+
+        expect(dispatchEvent).not.toHaveBeenCalledWith(
+          expect.objectContaining({ type: "spa-guard:version-change" }),
+        );
+        expect(mockLocationReload).not.toHaveBeenCalled();
+      });
+
+      it("reloads a hidden follower right away without crossTabReload", async () => {
+        const peer = createPeerTab("peer", { leading: true });
+        startJsonCheck("1.0.0", { hiddenTabReloadDelay: 10_000 });
+        await vi.advanceTimersByTimeAsync(0);
+        setVisibility("hidden");
+
+        peer.sendVersion("2.0.0");
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(mockLocationReload).toHaveBeenCalledTimes(1);
+        expect(peer.received).not.toContainEqual(expect.objectContaining({ type: "reload" }));
+      });
+    });
+
+    describe("without BroadcastChannel", () => {
+      const writeMessage = (type: string, extra: Record<string, unknown> = {}) => {
+        const key = `${CHANNEL}:${type}`;
+        const newValue = JSON.stringify({ ...extra, at: Date.now(), tabId: "peer", type });
+        localStorage.setItem(key, newValue);
+        return { key, newValue };
+      };
+
+      beforeEach(() => {
+        vi.stubGlobal("BroadcastChannel", undefined);
+      });
+
+      it("stays passive while another tab holds the localStorage lock", async () => {
+        writeMessage("leader", { since: Date.now() - 60_000 });
+
+        startJsonCheck();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(globalThis.fetch).not.toHaveBeenCalled();
+      });
+
+      it("receives version results through storage events", () => {
+        writeMessage("leader", { since: Date.now() - 60_000 });
+        startJsonCheck();
+
+        const message = writeMessage("version", { version: "2.0.0" });
+        globalThis.dispatchEvent(new StorageEvent("storage", message));
+
+        expect(mockLocationReload).toHaveBeenCalledTimes(1);
+      });
+
+      it("takes the lock when it is free", async () => {
+        startJsonCheck();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+        expect(localStorage.getItem(`${CHANNEL}:leader`)).not.toBeNull();
+      });
+
+      it("takes the lock right away when its holder resigned", async () => {
+        writeMessage("leader", { since: Date.now() - 60_000 });
+        writeMessage("resign");
+
+        startJsonCheck();
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
 });
@@ -1,14 +1,48 @@
+import type { LeaderElection } from "./crossTab";
+import type { RemoteVersionInfo } from "./versionPolicy";
+
 import { versionCheckStateWindowKey } from "./constants";
+import { createLeaderElection } from "./crossTab";
 import { getLogger } from "./events/internal";
 import { getOptions } from "./options";
-import { extractVersionFromHtml } from "./parseVersion";
+import { DEFAULT_VERSION_HEADER, extractVersionFromHtml } from "./parseVersion";
+import { navigateAfterServiceWorkerRefresh } from "./serviceWorker";
+import { showUpdatePrompt } from "./updatePrompt";
+import { evaluateVersionPolicy, parseRemoteVersionInfo } from "./versionPolicy";
+import { markVersionStale } from "./versionStale";
+
+type PollMode = "header" | "html" | "json";
+
+/** Version this tab last reloaded for, so it never reloads twice for the same deployment. */
+const RELOADED_VERSION_STORAGE_KEY = "__spa_guard_reloaded_version__";
+
+/**
+ * What "header" mode saw for the running version: its `ETag`, or no `etag` when the server
+ * sends the version header. Shared by every tab running that version, so a newly elected
+ * leader compares against the same baseline.
+ */
+const HEADER_BASELINE_STORAGE_KEY = "__spa_guard_header_baseline__";
+
+interface HeaderBaseline {
+  etag?: string;
+  version: string;
+}
 
 interface VersionCheckState {
+  /** `ETag` of the running version in "header" mode, see `HEADER_BASELINE_STORAGE_KEY`. */
+  baselineEtag: null | string;
   blurHandler: (() => void) | null;
   checkInProgress: boolean;
+  /** Cross-tab election: only the leader tab polls and shares the result. */
+  election: LeaderElection | null;
+  eventSource: EventSource | null;
   focusHandler: (() => void) | null;
   lastCheckTimestamp: null | number;
   lastKnownVersion: null | string;
+  /** True while the SSE stream is connecting or open, so polling stays off. */
+  pollingSuspended: boolean;
+  /** Staggered reload of a hidden tab, see `crossTabReload`. */
+  reloadTimeout: null | ReturnType<typeof setTimeout>;
   runEpoch: number;
   versionCheckInterval: null | ReturnType<typeof setInterval>;
   versionCheckTimeout: null | ReturnType<typeof setTimeout>;
@@ -16,11 +50,16 @@ interface VersionCheckState {
 }
 
 const createInitialState = (): VersionCheckState => ({
+  baselineEtag: null,
   blurHandler: null,
   checkInProgress: false,
+  election: null,
+  eventSource: null,
   focusHandler: null,
   lastCheckTimestamp: null,
   lastKnownVersion: null,
+  pollingSuspended: false,
+  reloadTimeout: null,
   runEpoch: 0,
   versionCheckInterval: null,
   versionCheckTimeout: null,
@@ -43,7 +82,7 @@ const getState = (): VersionCheckState => {
 
 const FETCH_TIMEOUT_MS = 30_000;
 
-const fetchJsonVersion = async (): Promise<null | string> => {
+const fetchJsonVersion = async (): Promise<null | RemoteVersionInfo> => {
   const endpoint = getOptions().checkVersion?.endpoint;
   if (!endpoint) {
     getLogger()?.versionCheckRequiresEndpoint();
@@ -62,25 +101,24 @@ const fetchJsonVersion = async (): Promise<null | string> => {
       getLogger()?.versionCheckHttpError(response.status);
       return null;
     }
-    const data: unknown = await response.json();
-    if (typeof data !== "object" || data === null) {
-      return null;
-    }
-    return "version" in data && typeof data.version === "string" ? data.version : null;
+    return parseRemoteVersionInfo(await response.json());
   } finally {
     clearTimeout(timeoutId);
   }
 };
 
-const fetchHtmlVersion = async (): Promise<null | string> => {
+const getPageUrl = (): string => {
   const url = new URL(globalThis.location.href);
   url.search = "";
   url.hash = "";
+  return url.toString();
+};
 
+const fetchHtmlVersion = async (): Promise<null | string> => {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
   try {
-    const response = await fetch(url.toString(), {
+    const response = await fetch(getPageUrl(), {
       cache: getOptions().checkVersion?.cache ?? "no-store",
       headers: { Accept: "text/html" },
       signal: controller.signal,
@@ -103,27 +141,191 @@ const fetchHtmlVersion = async (): Promise<null | string> => {
   }
 };
 
-export const fetchRemoteVersion = async (mode: "html" | "json"): Promise<null | string> => {
-  return mode === "json" ? fetchJsonVersion() : fetchHtmlVersion();
+const readHeaderBaseline = (): HeaderBaseline | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HEADER_BASELINE_STORAGE_KEY) ?? "null");
+    return stored?.version === getOptions().version ? (stored as HeaderBaseline) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeHeaderBaseline = (etag?: string): void => {
+  const version = getOptions().version;
+  if (!version) {
+    return;
+  }
+  try {
+    const baseline: HeaderBaseline = { ...(etag && { etag }), version };
+    localStorage.setItem(HEADER_BASELINE_STORAGE_KEY, JSON.stringify(baseline));
+  } catch {
+    // Without storage each tab keeps its own baseline
+  }
+};
+
+/**
+ * Sends a HEAD request for the page and reads the version from `versionHeader`.
+ * Without that header, falls back to the `ETag`: the one first seen for the running
+ * version stands for it, and a different one is reported as the new (opaque) version.
+ */
+const fetchHeaderVersion = async (): Promise<null | string> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(getPageUrl(), {
+      cache: getOptions().checkVersion?.cache ?? "no-store",
+      headers: { Accept: "text/html" },
+      method: "HEAD",
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      getLogger()?.versionCheckHttpError(response.status);
+      return null;
+    }
+
+    const headerName = getOptions().checkVersion?.versionHeader ?? DEFAULT_VERSION_HEADER;
+    const version = response.headers.get(headerName);
+    if (version) {
+      if (!readHeaderBaseline()) {
+        writeHeaderBaseline();
+      }
+      return version;
+    }
+
+    const etag = response.headers.get("ETag")?.replace(/^W\//, "").replaceAll('"', "");
+    if (!etag) {
+      getLogger()?.versionCheckParseError();
+      return null;
+    }
+    const s = getState();
+    s.baselineEtag ??= readHeaderBaseline()?.etag ?? null;
+    if (s.baselineEtag === null) {
+      s.baselineEtag = etag;
+      writeHeaderBaseline(etag);
+    }
+    return etag === s.baselineEtag ? s.lastKnownVersion : etag;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/** The deployed version with the `minVersion`/`severity` policy fields the JSON endpoint may add. */
+const fetchRemoteVersionInfo = async (mode: PollMode): Promise<null | RemoteVersionInfo> => {
+  if (mode === "json") {
+    return fetchJsonVersion();
+  }
+  const version = await (mode === "header" ? fetchHeaderVersion() : fetchHtmlVersion());
+  return version ? { version } : null;
+};
+
+export const fetchRemoteVersion = async (mode: PollMode): Promise<null | string> => {
+  return (await fetchRemoteVersionInfo(mode))?.version ?? null;
+};
+
+const readReloadedVersion = (): null | string => {
+  try {
+    return sessionStorage.getItem(RELOADED_VERSION_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const writeReloadedVersion = (version: string): void => {
+  try {
+    sessionStorage.setItem(RELOADED_VERSION_STORAGE_KEY, version);
+  } catch {
+    // Without storage a tab may reload twice for the same version
+  }
+};
+
+const reloadNow = (): void => {
+  navigateAfterServiceWorkerRefresh(() => globalThis.location.reload());
+};
+
+const reloadForVersion = (version: string): void => {
+  writeReloadedVersion(version);
+  reloadNow();
+};
+
+/**
+ * `crossTabReload`: reloads the visible tab right away and staggers hidden tabs.
+ * `notifyTabs` is false when the change was itself reported by another tab.
+ */
+const reloadAcrossTabs = (remote: RemoteVersionInfo, notifyTabs: boolean): void => {
+  const s = getState();
+  const latestVersion = remote.version;
+  if (notifyTabs) {
+    s.election?.post({ ...remote, type: "reload" });
+  }
+
+  if (readReloadedVersion() === latestVersion) {
+    getLogger()?.warn(`Already reloaded for version ${latestVersion}, skipping reload`);
+    return;
+  }
+
+  if (document.visibilityState === "visible") {
+    reloadForVersion(latestVersion);
+    return;
+  }
+
+  if (s.reloadTimeout !== null) {
+    return;
+  }
+  const maxDelay = getOptions().checkVersion?.hiddenTabReloadDelay ?? 30_000;
+  s.reloadTimeout = setTimeout(() => {
+    s.reloadTimeout = null;
+    reloadForVersion(latestVersion);
+  }, Math.random() * maxDelay);
 };
 
-const onVersionChange = (oldVersion: null | string, latestVersion: string): void => {
+const onVersionChange = (
+  oldVersion: null | string,
+  remote: RemoteVersionInfo,
+  notifyTabs = true,
+): void => {
+  const latestVersion = remote.version;
+  const options = getOptions();
+  const checkVersion = options.checkVersion;
+  const policy = evaluateVersionPolicy(options.version, remote, checkVersion?.onUpdate ?? "reload");
+
   if (globalThis.window !== undefined) {
     globalThis.dispatchEvent(
       new CustomEvent("spa-guard:version-change", {
-        detail: { latestVersion, oldVersion },
+        detail: { latestVersion, oldVersion, policy },
       }),
     );
   }
 
   getLogger()?.versionChangeDetected(oldVersion, latestVersion);
 
-  if (getOptions().checkVersion?.onUpdate !== "event") {
-    globalThis.location.reload();
+  if (policy.action === "event") {
+    return;
+  }
+  if (policy.action === "prompt") {
+    showUpdatePrompt(latestVersion);
+    return;
+  }
+  if (policy.action === "navigate") {
+    markVersionStale(latestVersion);
+    return;
+  }
+  if (checkVersion?.crossTabReload) {
+    reloadAcrossTabs(remote, notifyTabs);
+  } else {
+    reloadNow();
+  }
+};
+
+const applyRemoteVersion = (remote: null | RemoteVersionInfo, notifyTabs = true): void => {
+  const s = getState();
+  if (remote && remote.version !== s.lastKnownVersion) {
+    const oldVersion = s.lastKnownVersion;
+    s.lastKnownVersion = remote.version;
+    onVersionChange(oldVersion, remote, notifyTabs);
   }
 };
 
-const checkVersionOnce = async (mode: "html" | "json"): Promise<void> => {
+const checkVersionOnce = async (mode: PollMode): Promise<void> => {
   const s = getState();
   if (s.checkInProgress) {
     return;
@@ -131,17 +333,16 @@ const checkVersionOnce = async (mode: "html" | "json"): Promise<void> => {
   s.checkInProgress = true;
   const epochAtStart = s.runEpoch;
   try {
-    const remoteVersion = await fetchRemoteVersion(mode);
+    const remote = await fetchRemoteVersionInfo(mode);
 
     if (epochAtStart !== s.runEpoch) {
       return;
     }
 
-    if (remoteVersion && remoteVersion !== s.lastKnownVersion) {
-      const oldVersion = s.lastKnownVersion;
-      s.lastKnownVersion = remoteVersion;
-      onVersionChange(oldVersion, remoteVersion);
+    if (remote) {
+      s.election?.post({ ...remote, type: "version" });
     }
+    applyRemoteVersion(remote);
   } catch (error) {
     getLogger()?.versionCheckFailed(error);
   } finally {
@@ -151,7 +352,7 @@ const checkVersionOnce = async (mode: "html" | "json"): Promise<void> => {
   }
 };
 
-const startPolling = (mode: "html" | "json", interval: number): void => {
+const startPolling = (mode: PollMode, interval: number): void => {
   const s = getState();
   clearTimers();
   s.versionCheckInterval = setInterval(async () => {
@@ -177,13 +378,21 @@ const handleVisibilityHidden = (): void => {
   getLogger()?.versionCheckPaused();
 };
 
-const handleResume = (mode: "html" | "json", interval: number): void => {
+const handleResume = (mode: PollMode, interval: number): void => {
   // Only resume if both conditions required to start are satisfied
   if (document.visibilityState !== "visible" || !document.hasFocus()) {
     return;
   }
 
   const s = getState();
+  // The SSE stream delivers updates on its own; polling is only a fallback
+  if (s.pollingSuspended) {
+    return;
+  }
+  // Another tab polls and shares the result
+  if (s.election && !s.election.isLeader()) {
+    return;
+  }
   // If timers are already running (from a prior resume), don't restart them
   if (s.versionCheckInterval !== null || s.versionCheckTimeout !== null) {
     return;
@@ -209,6 +418,74 @@ const handleResume = (mode: "html" | "json", interval: number): void => {
   }, remaining);
 };
 
+/**
+ * Reads the version from an SSE `version` message.
+ * Accepts the same `{"version":"1.2.3"}` object as the JSON endpoint or the plain version string.
+ */
+const parseVersionMessage = (data: unknown): null | RemoteVersionInfo => {
+  if (typeof data !== "string" || data === "") {
+    return null;
+  }
+  try {
+    const parsed: unknown = JSON.parse(data);
+    if (typeof parsed === "object" && parsed !== null) {
+      return parseRemoteVersionInfo(parsed);
+    }
+  } catch {
+    // Not JSON: the message is the version itself
+  }
+  return { version: data };
+};
+
+/**
+ * Subscribes to the SSE endpoint. While the stream is connecting or open, polling
+ * stays off; on disconnect polling resumes (subject to the visibility/focus pause)
+ * until EventSource reconnects on its own.
+ */
+const connectEventSource = (pollMode: PollMode, interval: number): boolean => {
+  const endpoint = getOptions().checkVersion?.endpoint;
+  if (!endpoint) {
+    getLogger()?.versionCheckRequiresEndpoint();
+    return false;
+  }
+  if (typeof EventSource === "undefined") {
+    return false;
+  }
+
+  const s = getState();
+  const epochAtStart = s.runEpoch;
+  const eventSource = new EventSource(endpoint);
+  s.eventSource = eventSource;
+  s.pollingSuspended = true;
+
+  eventSource.addEventListener("open", () => {
+    if (epochAtStart !== s.runEpoch) {
+      return;
+    }
+    s.pollingSuspended = true;
+    clearTimers();
+  });
+
+  eventSource.addEventListener("version", (event) => {
+    if (epochAtStart !== s.runEpoch) {
+      return;
+    }
+    s.lastCheckTimestamp = Date.now();
+    applyRemoteVersion(parseVersionMessage((event as MessageEvent).data));
+  });
+
+  eventSource.addEventListener("error", () => {
+    if (epochAtStart !== s.runEpoch || !s.pollingSuspended) {
+      return;
+    }
+    s.pollingSuspended = false;
+    getLogger()?.log("Version stream disconnected, falling back to polling");
+    handleResume(pollMode, interval);
+  });
+
+  return true;
+};
+
 export const startVersionCheck = (): void => {
   if (globalThis.window === undefined) {
     return;
@@ -233,40 +510,102 @@ export const startVersionCheck = (): void => {
 
   const interval = options.checkVersion?.interval ?? 300_000;
   const mode = options.checkVersion?.mode ?? "html";
+  const pollMode: PollMode = mode === "sse" ? "html" : mode;
 
   getLogger()?.versionCheckStarted(mode, interval, s.lastKnownVersion);
 
+  // The first tab of a deployment pins its ETag right away: a baseline taken at the
+  // first poll would miss a deploy that happens before it
+  if (pollMode === "header" && !readHeaderBaseline()) {
+    void checkVersionOnce(pollMode);
+  }
+
   // Only start polling if tab is visible and window is focused
   const isTabVisible = document.visibilityState === "visible";
   const isWindowFocused = document.hasFocus();
 
-  if (isTabVisible && isWindowFocused) {
+  if (mode === "sse" && connectEventSource(pollMode, interval)) {
     s.lastCheckTimestamp = Date.now();
-    startPolling(mode, interval);
+  } else if (isTabVisible && isWindowFocused) {
+    s.lastCheckTimestamp = Date.now();
+    startPolling(pollMode, interval);
   } else {
     s.lastCheckTimestamp = 0;
     getLogger()?.versionCheckPaused();
   }
 
   s.visibilityHandler = () => {
+    // Hidden tabs hand leadership over to the active one
+    s.election?.refresh();
+    // A hidden tab waiting for its staggered reload reloads as soon as the user returns
+    if (document.visibilityState === "visible" && s.reloadTimeout !== null && s.lastKnownVersion) {
+      clearTimeout(s.reloadTimeout);
+      s.reloadTimeout = null;
+      reloadForVersion(s.lastKnownVersion);
+      return;
+    }
     if (document.visibilityState === "hidden") {
       handleVisibilityHidden();
     } else {
-      handleResume(mode, interval);
+      handleResume(pollMode, interval);
     }
   };
 
   s.focusHandler = () => {
-    handleResume(mode, interval);
+    s.election?.refresh();
+    handleResume(pollMode, interval);
   };
 
   s.blurHandler = () => {
+    s.election?.refresh();
     handleVisibilityHidden();
   };
 
   document.addEventListener("visibilitychange", s.visibilityHandler);
   globalThis.addEventListener("focus", s.focusHandler);
   globalThis.addEventListener("blur", s.blurHandler);
+
+  if (options.checkVersion?.leaderElection !== true) {
+    return;
+  }
+
+  const epoch = s.runEpoch;
+  s.election = createLeaderElection("version-check", {
+    // Same conditions as polling itself, so the leader is the tab that can poll
+    isEligible: () => document.visibilityState === "visible" && document.hasFocus(),
+    onLeadershipChange: (isLeader) => {
+      if (epoch !== s.runEpoch) {
+        return;
+      }
+      if (isLeader) {
+        handleResume(pollMode, interval);
+      } else {
+        clearTimers();
+      }
+    },
+    onMessage: (message) => {
+      if (epoch !== s.runEpoch || (message.type !== "version" && message.type !== "reload")) {
+        return;
+      }
+      // Without crossTabReload this tab reloads on its own schedule, not when another tab says so
+      if (message.type === "reload" && !getOptions().checkVersion?.crossTabReload) {
+        return;
+      }
+      const remote = parseRemoteVersionInfo(message);
+      if (!remote) {
+        return;
+      }
+      if (message.type === "version") {
+        s.lastCheckTimestamp = message.at;
+      }
+      // Every tab already received the message: no need to notify them again
+      applyRemoteVersion(remote, false);
+    },
+  });
+  // Another tab already holds leadership: stay passive
+  if (!s.election.isLeader()) {
+    clearTimers();
+  }
 };
 
 export const stopVersionCheck = (): void => {
@@ -280,10 +619,27 @@ export const stopVersionCheck = (): void => {
   const wasRunning =
     s.versionCheckInterval !== null ||
     s.versionCheckTimeout !== null ||
-    s.visibilityHandler !== null;
+    s.visibilityHandler !== null ||
+    s.eventSource !== null;
 
   clearTimers();
 
+  if (s.reloadTimeout !== null) {
+    clearTimeout(s.reloadTimeout);
+    s.reloadTimeout = null;
+  }
+
+  if (s.election !== null) {
+    s.election.stop();
+    s.election = null;
+  }
+
+  if (s.eventSource !== null) {
+    s.eventSource.close();
+    s.eventSource = null;
+  }
+  s.pollingSuspended = false;
+
   if (s.visibilityHandler !== null) {
     document.removeEventListener("visibilitychange", s.visibilityHandler);
     s.visibilityHandler = null;
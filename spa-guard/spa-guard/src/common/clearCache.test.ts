@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./events/internal", () => ({
+  getLogger: vi.fn(),
+}));
+
+vi.mock("./options", () => ({
+  getOptions: vi.fn(),
+}));
+
+import { clearCacheAndReload } from "./clearCache";
+import { getLogger } from "./events/internal";
+import { getOptions } from "./options";
+
+const mockGetOptions = vi.mocked(getOptions);
+
+describe("common/clearCache", () => {
+  let hrefSetter: ReturnType<typeof vi.fn>;
+  let mockCaches: { delete: ReturnType<typeof vi.fn>; keys: ReturnType<typeof vi.fn> };
+  let mockUnregister: ReturnType<typeof vi.fn>;
+  let mockLogger: { error: ReturnType<typeof vi.fn>; warn: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_700_000_000_000 });
+    mockGetOptions.mockReturnValue({});
+    mockLogger = { error: vi.fn(), warn: vi.fn() };
+    vi.mocked(getLogger).mockReturnValue(mockLogger as any);
+
+    mockUnregister = vi.fn().mockResolvedValue(true);
+    Object.defineProperty(navigator, "serviceWorker", {
+      configurable: true,
+      value: {
+        getRegistrations: vi
+          .fn()
+          .mockResolvedValue([{ unregister: mockUnregister }, { unregister: mockUnregister }]),
+      },
+    });
+    mockCaches = {
+      delete: vi.fn().mockResolvedValue(true),
+      keys: vi.fn().mockResolvedValue(["workbox-precache", "runtime"]),
+    };
+    vi.stubGlobal("caches", mockCaches);
+
+    hrefSetter = vi.fn();
+    Object.defineProperty(globalThis.window, "location", {
+      configurable: true,
+      value: {
+        get href() {
+          return "http://localhost:3000/app?page=2";
+        },
+        set href(value: string) {
+          hrefSetter(value);
+        },
+      },
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, "serviceWorker");
+    sessionStorage.clear();
+    localStorage.clear();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("unregisters every service worker", async () => {
+    await clearCacheAndReload();
+
+    expect(mockUnregister).toHaveBeenCalledTimes(2);
+  });
+
+  it("deletes every CacheStorage entry", async () => {
+    await clearCacheAndReload();
+
+    expect(mockCaches.delete).toHaveBeenCalledWith("workbox-precache");
+    expect(mockCaches.delete).toHaveBeenCalledWith("runtime");
+  });
+
+  it("removes spa-guard's sessionStorage keys and keeps the app's", async () => {
+    sessionStorage.setItem("__spa_guard_retry_state__", "1");
+    sessionStorage.setItem("__spa_guard_last_reload__", "1");
+    sessionStorage.setItem("draft", "keep");
+
+    await clearCacheAndReload();
+
+    expect(sessionStorage.getItem("__spa_guard_retry_state__")).toBeNull();
+    expect(sessionStorage.getItem("__spa_guard_last_reload__")).toBeNull();
+    expect(sessionStorage.getItem("draft")).toBe("keep");
+  });
+
+  it("removes the storage keys declared in clearCache", async () => {
+    mockGetOptions.mockReturnValue({
+      clearCache: { localStorageKeys: ["app-state"], sessionStorageKeys: ["draft"] },
+    });
+    sessionStorage.setItem("draft", "1");
+    localStorage.setItem("app-state", "1");
+    localStorage.setItem("theme", "dark");
+
+    await clearCacheAndReload();
+
+    expect(sessionStorage.getItem("draft")).toBeNull();
+    expect(localStorage.getItem("app-state")).toBeNull();
+    expect(localStorage.getItem("theme")).toBe("dark");
+  });
+
+  it("navigates to the current URL with a cache-busting parameter", async () => {
+    await clearCacheAndReload();
+
+    expect(hrefSetter).toHaveBeenCalledWith(
+      "http://localhost:3000/app?page=2&spaGuardCacheBust=1700000000000",
+    );
+  });
+
+  it("still reloads when clearing caches fails", async () => {
+    mockCaches.keys.mockRejectedValue(new Error("SecurityError"));
+
+    await clearCacheAndReload();
+
+    expect(mockLogger.warn).toHaveBeenCalledWith("Clearing caches failed", expect.any(Error));
+    expect(mockUnregister).toHaveBeenCalledTimes(2);
+    expect(hrefSetter).toHaveBeenCalledOnce();
+  });
+
+  it("works without service worker and CacheStorage support", async () => {
+    Reflect.deleteProperty(navigator, "serviceWorker");
+    vi.stubGlobal("caches", undefined);
+
+    await clearCacheAndReload();
+
+    expect(hrefSetter).toHaveBeenCalledOnce();
+  });
+
+  it("stops waiting for service workers after serviceWorker.timeout", async () => {
+    mockGetOptions.mockReturnValue({ serviceWorker: { timeout: 500 } });
+    mockUnregister.mockReturnValue(new Promise(() => {}));
+
+    const done = clearCacheAndReload();
+    await vi.advanceTimersByTimeAsync(499);
+    expect(hrefSetter).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await done;
+    expect(hrefSetter).toHaveBeenCalledOnce();
+  });
+});
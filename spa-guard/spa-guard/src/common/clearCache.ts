@@ -0,0 +1,87 @@
+import { CACHE_BUST_PARAM } from "./constants";
+import { getLogger } from "./events/internal";
+import { getOptions } from "./options";
+
+/** Every storage key spa-guard writes starts with this prefix. */
+const SPA_GUARD_KEY_PREFIX = "__spa_guard_";
+
+const DEFAULT_TIMEOUT = 3000;
+
+const unregisterServiceWorkers = async (): Promise<void> => {
+  const container = globalThis.window?.navigator?.serviceWorker;
+  if (!container) {
+    return;
+  }
+  const registrations = await container.getRegistrations();
+  await Promise.all(registrations.map((registration) => registration.unregister()));
+};
+
+const deleteCaches = async (): Promise<void> => {
+  if (typeof caches === "undefined") {
+    return;
+  }
+  const names = await caches.keys();
+  await Promise.all(names.map((cacheName) => caches.delete(cacheName)));
+};
+
+const removeKeys = (storage: Storage, shouldRemove: (key: string) => boolean): void => {
+  try {
+    const keys = Array.from({ length: storage.length }, (_, index) => storage.key(index));
+    for (const key of keys) {
+      if (key !== null && shouldRemove(key)) {
+        storage.removeItem(key);
+      }
+    }
+  } catch {
+    // Storage may be unavailable (privacy mode, sandboxed iframe)
+  }
+};
+
+const clearStorage = (): void => {
+  const { localStorageKeys = [], sessionStorageKeys = [] } = getOptions().clearCache ?? {};
+  removeKeys(
+    globalThis.sessionStorage,
+    (key) => key.startsWith(SPA_GUARD_KEY_PREFIX) || sessionStorageKeys.includes(key),
+  );
+  removeKeys(globalThis.localStorage, (key) => localStorageKeys.includes(key));
+};
+
+/**
+ * Handler of the fallback's `data-spa-guard-action="clear-cache"` button, for when a stale
+ * service worker, CacheStorage or corrupted storage keeps the app from loading.
+ * Unregisters all service workers, deletes all CacheStorage entries, removes spa-guard's
+ * sessionStorage keys and the keys listed in `clearCache`, then reloads with `spaGuardCacheBust`.
+ *
+ * Never rejects. Waits at most `serviceWorker.timeout` for service workers and caches.
+ */
+export const clearCacheAndReload = async (): Promise<void> => {
+  const timeout = getOptions().serviceWorker?.timeout ?? DEFAULT_TIMEOUT;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    await Promise.race([
+      Promise.allSettled([unregisterServiceWorkers(), deleteCaches()]).then((results) => {
+        for (const result of results) {
+          if (result.status === "rejected") {
+            getLogger()?.warn("Clearing caches failed", result.reason);
+          }
+        }
+      }),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, timeout);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  clearStorage();
+
+  try {
+    const url = new URL(globalThis.window.location.href);
+    url.searchParams.set(CACHE_BUST_PARAM, String(Date.now()));
+    globalThis.window.location.href = url.toString();
+  } catch (error) {
+    getLogger()?.error("clearCacheAndReload navigation failed", error);
+  }
+};
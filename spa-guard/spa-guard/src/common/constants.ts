@@ -25,3 +25,24 @@ export const debugSyncErrorEventType = "spa-guard:debug-sync-error";
 export const spinnerStateWindowKey = Symbol.for(`${name}:spinner-state`);
 
 export const fallbackModeKey = Symbol.for(`${name}:fallback-mode`);
+
+export const beaconQueueStateWindowKey = Symbol.for(`${name}:beacon-queue-state`);
+
+export const beaconPolicyStateWindowKey = Symbol.for(`${name}:beacon-policy-state`);
+
+export const beforeSendHooksWindowKey = Symbol.for(`${name}:before-send-hooks`);
+
+export const breadcrumbsStateWindowKey = Symbol.for(`${name}:breadcrumbs-state`);
+
+export const beaconContextWindowKey = Symbol.for(`${name}:beacon-context`);
+
+export const updatePromptStateWindowKey = Symbol.for(`${name}:update-prompt-state`);
+
+export const fallbackRecoveryStateWindowKey = Symbol.for(`${name}:fallback-recovery-state`);
+
+export const reloadBudgetWindowKey = Symbol.for(`${name}:reload-budget`);
+
+export const versionStaleStateWindowKey = Symbol.for(`${name}:version-stale-state`);
+
+/** Message posted to a waiting service worker to make it activate immediately. */
+export const SKIP_WAITING_MESSAGE_TYPE = "SKIP_WAITING";
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { LeaderElection } from "./crossTab";
+
+import { createLeaderElection, openTabChannel } from "./crossTab";
+
+class FakeBroadcastChannel extends EventTarget {
+  static channels: FakeBroadcastChannel[] = [];
+
+  constructor(public name: string) {
+    super();
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  close() {
+    FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter((c) => c !== this);
+  }
+
+  postMessage(data: unknown) {
+    const recipients = FakeBroadcastChannel.channels.filter(
+      (c) => c !== this && c.name === this.name,
+    );
+    queueMicrotask(() => {
+      for (const recipient of recipients) {
+        recipient.dispatchEvent(new MessageEvent("message", { data: structuredClone(data) }));
+      }
+    });
+  }
+}
+
+describe("common/crossTab", () => {
+  const elections: LeaderElection[] = [];
+
+  const elect = (isEligible = () => true) => {
+    const onLeadershipChange = vi.fn();
+    const onMessage = vi.fn();
+    const election = createLeaderElection("test", { isEligible, onLeadershipChange, onMessage });
+    elections.push(election);
+    return { election, onLeadershipChange, onMessage };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeBroadcastChannel.channels = [];
+    vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    for (const election of elections.splice(0)) {
+      election.stop();
+    }
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  describe("openTabChannel", () => {
+    it("delivers messages to the other tabs only", async () => {
+      const received = vi.fn();
+      const own = vi.fn();
+      const sender = openTabChannel("test", own);
+      openTabChannel("test", received);
+
+      sender.post({ type: "ping", value: 1 });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(own).not.toHaveBeenCalled();
+      expect(received).toHaveBeenCalledWith(
+        expect.objectContaining({ tabId: sender.tabId, type: "ping", value: 1 }),
+      );
+    });
+
+    it("falls back to storage events without BroadcastChannel", () => {
+      vi.stubGlobal("BroadcastChannel", undefined);
+      const received = vi.fn();
+      const channel = openTabChannel("test", received);
+
+      channel.post({ type: "ping" });
+      const newValue = localStorage.getItem("spa-guard:test:ping");
+      globalThis.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "spa-guard:test:ping",
+          newValue: newValue!.replace(channel.tabId, "other"),
+        }),
+      );
+
+      expect(channel.lastMessage("ping")).toEqual(expect.objectContaining({ type: "ping" }));
+      expect(received).toHaveBeenCalledWith(expect.objectContaining({ tabId: "other" }));
+      channel.close();
+    });
+  });
+
+  describe("createLeaderElection", () => {
+    it("keeps the first tab as leader when another one starts", async () => {
+      const first = elect();
+      vi.advanceTimersByTime(10);
+      const second = elect();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(first.election.isLeader()).toBe(true);
+      expect(second.election.isLeader()).toBe(false);
+      expect(second.onLeadershipChange.mock.calls).toEqual([[true], [false]]);
+    });
+
+    it("hands over leadership when the leader becomes ineligible", async () => {
+      let eligible = true;
+      const first = elect(() => eligible);
+      vi.advanceTimersByTime(10);
+      const second = elect();
+      await vi.advanceTimersByTimeAsync(0);
+
+      eligible = false;
+      first.election.refresh();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(first.election.isLeader()).toBe(false);
+      expect(second.election.isLeader()).toBe(true);
+    });
+
+    it("claims leadership once the leader stops sending heartbeats", async () => {
+      elect();
+      vi.advanceTimersByTime(10);
+      const second = elect();
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Simulate a crashed tab: no resign message, no more heartbeats
+      vi.spyOn(FakeBroadcastChannel.prototype, "postMessage").mockImplementation(() => {});
+      await vi.advanceTimersByTimeAsync(8000);
+
+      expect(second.election.isLeader()).toBe(true);
+    });
+
+    it("passes application messages to onMessage", async () => {
+      const first = elect();
+      const second = elect();
+      await vi.advanceTimersByTimeAsync(0);
+
+      first.election.post({ type: "version", version: "2.0.0" });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(second.onMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "version", version: "2.0.0" }),
+      );
+    });
+
+    it("fails over when the leader tab closes", async () => {
+      const first = elect();
+      vi.advanceTimersByTime(10);
+      const second = elect();
+      await vi.advanceTimersByTimeAsync(0);
+
+      globalThis.window.dispatchEvent(new Event("pagehide"));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(first.election.isLeader()).toBe(false);
+      expect(second.election.isLeader()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { generateRetryId } from "./retryState";
+
+/**
+ * Prefix for BroadcastChannel names and the localStorage keys of the fallback transport.
+ * The fallback keeps one key per message type, so application messages never overwrite a heartbeat.
+ */
+const CHANNEL_PREFIX = "spa-guard:";
+
+const HEARTBEAT_INTERVAL = 2000;
+/** A leader that has not sent a heartbeat for this long is considered gone. */
+const LEADER_LEASE = 5000;
+
+export interface TabMessage extends TabMessageInit {
+  /** Milliseconds since epoch when the message was posted. */
+  at: number;
+  tabId: string;
+}
+
+/** A message as passed to `post()`, before the channel stamps it with `at` and `tabId`. */
+export interface TabMessageInit {
+  [key: string]: unknown;
+  type: string;
+}
+
+export interface TabChannel {
+  close(): void;
+  /** The last message of `type` posted by any tab (localStorage transport only). */
+  lastMessage(type: string): null | TabMessage;
+  post(message: TabMessageInit): void;
+  readonly tabId: string;
+}
+
+const parseMessage = (value: null | string): null | TabMessage => {
+  if (!value) {
+    return null;
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? (parsed as TabMessage) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Opens a channel to the other tabs of the same origin.
+ * Uses BroadcastChannel, or `storage` events on a localStorage key where it is unavailable.
+ * Messages are never delivered to the tab that posted them.
+ */
+export const openTabChannel = (
+  name: string,
+  onMessage: (message: TabMessage) => void,
+): TabChannel => {
+  const tabId = generateRetryId();
+  const channelName = `${CHANNEL_PREFIX}${name}`;
+  const stamp = (message: TabMessageInit): TabMessage => ({
+    ...message,
+    at: Date.now(),
+    tabId,
+  });
+
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(channelName);
+    channel.addEventListener("message", (event: MessageEvent) => {
+      const message = event.data as null | TabMessage;
+      if (message && typeof message === "object" && message.tabId !== tabId) {
+        onMessage(message);
+      }
+    });
+    return {
+      close: () => channel.close(),
+      lastMessage: () => null,
+      post: (message) => channel.postMessage(stamp(message)),
+      tabId,
+    };
+  }
+
+  const storageKey = (type: string) => `${channelName}:${type}`;
+
+  const storageHandler = (event: StorageEvent) => {
+    if (!event.key?.startsWith(`${channelName}:`)) {
+      return;
+    }
+    const message = parseMessage(event.newValue);
+    if (message && message.tabId !== tabId) {
+      onMessage(message);
+    }
+  };
+  globalThis.window.addEventListener("storage", storageHandler);
+
+  return {
+    close: () => globalThis.window.removeEventListener("storage", storageHandler),
+    lastMessage: (type) => {
+      try {
+        return parseMessage(localStorage.getItem(storageKey(type)));
+      } catch {
+        return null;
+      }
+    },
+    post: (message) => {
+      try {
+        localStorage.setItem(storageKey(message.type), JSON.stringify(stamp(message)));
+      } catch {
+        // Storage unavailable: this tab simply cannot coordinate
+      }
+    },
+    tabId,
+  };
+};
+
+export interface LeaderElection {
+  isLeader(): boolean;
+  /** Posts an application message to the other tabs. */
+  post(message: TabMessageInit): void;
+  /** Re-evaluates `isEligible` right away, e.g. on `visibilitychange`. */
+  refresh(): void;
+  /** Resigns leadership and closes the channel. */
+  stop(): void;
+}
+
+export interface LeaderElectionOptions {
+  /** Whether this tab may lead, e.g. only while visible. Re-evaluated on every heartbeat tick. */
+  isEligible: () => boolean;
+  /** Called when this tab gains or loses leadership. */
+  onLeadershipChange: (isLeader: boolean) => void;
+  /** Called with messages posted through `post()` by other tabs. */
+  onMessage: (message: TabMessage) => void;
+}
+
+/**
+ * Elects one leader among the tabs sharing `name`.
+ *
+ * The leader sends a heartbeat every 2 seconds. An eligible tab claims leadership
+ * when it starts and there is no live leader, when the leader resigns (closed or
+ * hidden tab), or when the leader's heartbeats stop for 5 seconds (crashed tab).
+ * Two simultaneous claims are settled in favour of the older leader, then the
+ * lower tab ID.
+ */
+export const createLeaderElection = (
+  name: string,
+  options: LeaderElectionOptions,
+): LeaderElection => {
+  let leader = false;
+  let leaderSince = 0;
+  let knownLeader: null | { lastSeen: number; since: number; tabId: string } = null;
+
+  const outranks = (a: { since: number; tabId: string }, b: { since: number; tabId: string }) =>
+    a.since < b.since || (a.since === b.since && a.tabId < b.tabId);
+
+  const setLeader = (value: boolean) => {
+    if (leader === value) {
+      return;
+    }
+    leader = value;
+    options.onLeadershipChange(value);
+  };
+
+  const heartbeat = () => channel.post({ since: leaderSince, type: "leader" });
+
+  const claim = () => {
+    leaderSince = Date.now();
+    knownLeader = null;
+    heartbeat();
+    setLeader(true);
+  };
+
+  const resign = () => {
+    if (!leader) {
+      return;
+    }
+    channel.post({ type: "resign" });
+    setLeader(false);
+  };
+
+  const hasLiveLeader = () =>
+    knownLeader !== null && Date.now() - knownLeader.lastSeen < LEADER_LEASE;
+
+  const handleMessage = (message: TabMessage) => {
+    if (message.type === "leader") {
+      const other = { since: Number(message.since), tabId: message.tabId };
+      if (leader) {
+        if (outranks(other, { since: leaderSince, tabId: channel.tabId })) {
+          knownLeader = { ...other, lastSeen: Date.now() };
+          setLeader(false);
+        } else {
+          // Let the newcomer know it lost the election
+          heartbeat();
+        }
+        return;
+      }
+      knownLeader = { ...other, lastSeen: Date.now() };
+      return;
+    }
+
+    if (message.type === "resign") {
+      if (knownLeader?.tabId === message.tabId) {
+        knownLeader = null;
+        refresh();
+      }
+      return;
+    }
+
+    options.onMessage(message);
+  };
+
+  const channel = openTabChannel(name, handleMessage);
+
+  const refresh = () => {
+    const eligible = options.isEligible();
+    if (leader && !eligible) {
+      resign();
+    } else if (!leader && eligible && !hasLiveLeader()) {
+      claim();
+    }
+  };
+
+  const tick = setInterval(() => {
+    if (leader) {
+      heartbeat();
+    }
+    refresh();
+  }, HEARTBEAT_INTERVAL);
+
+  const handlePageHide = () => resign();
+  globalThis.window.addEventListener("pagehide", handlePageHide);
+
+  // localStorage transport: the last heartbeat acts as a lock held by the current leader
+  const last = channel.lastMessage("leader");
+  const lastResign = channel.lastMessage("resign");
+  const released = last !== null && lastResign?.tabId === last.tabId && lastResign.at >= last.at;
+  if (last !== null && !released && Date.now() - last.at < LEADER_LEASE) {
+    knownLeader = { lastSeen: last.at, since: Number(last.since), tabId: last.tabId };
+  }
+  refresh();
+
+  return {
+    isLeader: () => leader,
+    post: (message) => channel.post(message),
+    refresh,
+    stop: () => {
+      clearInterval(tick);
+      globalThis.window.removeEventListener("pagehide", handlePageHide);
+      resign();
+      channel.close();
+    },
+  };
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+
+import { buildDefaultErrorFallbackHtml, withOptionalDefaultTemplates } from "./defaultTemplates";
+import {
+  defaultErrorFallbackHtml,
+  defaultFallbackFeedbackHtml,
+  defaultFallbackRecoveryHtml,
+  defaultUpdatePromptHtml,
+} from "./html.generated";
+
+describe("common/defaultTemplates", () => {
+  describe("buildDefaultErrorFallbackHtml", () => {
+    it("returns the base fallback without sections", () => {
+      expect(buildDefaultErrorFallbackHtml({})).toBe(defaultErrorFallbackHtml);
+    });
+
+    it("inserts the recovery countdown and the feedback form before the error ID", () => {
+      const html = buildDefaultErrorFallbackHtml({ feedback: true, recovery: true });
+
+      const recoveryIndex = html.indexOf(defaultFallbackRecoveryHtml);
+      const feedbackIndex = html.indexOf(defaultFallbackFeedbackHtml);
+      const errorIdIndex = html.indexOf('<p class="spa-guard-error-id');
+      expect(recoveryIndex).toBeGreaterThan(html.indexOf('data-spa-guard-action="reload"'));
+      expect(feedbackIndex).toBeGreaterThan(recoveryIndex);
+      expect(errorIdIndex).toBeGreaterThan(feedbackIndex);
+    });
+
+    it("renders inside the fallback card", () => {
+      document.body.innerHTML = buildDefaultErrorFallbackHtml({ feedback: true });
+
+      const form = document.querySelector('[data-spa-guard-section="feedback"]');
+      expect(form?.closest(".spa-guard-fallback-root")).not.toBeNull();
+      document.body.innerHTML = "";
+    });
+  });
+
+  describe("withOptionalDefaultTemplates", () => {
+    it("returns the options unchanged when nothing opts in", () => {
+      const options = { checkVersion: { onUpdate: "reload" as const } };
+
+      expect(withOptionalDefaultTemplates(options)).toBe(options);
+    });
+
+    it("adds the default update prompt for onUpdate: 'prompt'", () => {
+      const result = withOptionalDefaultTemplates({ checkVersion: { onUpdate: "prompt" } });
+
+      expect(result.html?.updatePrompt?.content).toBe(defaultUpdatePromptHtml);
+    });
+
+    it("keeps a custom update prompt", () => {
+      const result = withOptionalDefaultTemplates({
+        checkVersion: { onUpdate: "prompt" },
+        html: { updatePrompt: { content: "<div>New version</div>" } },
+      });
+
+      expect(result.html?.updatePrompt?.content).toBe("<div>New version</div>");
+    });
+
+    it("adds the sections enabled by feedback and fallbackRecovery", () => {
+      const result = withOptionalDefaultTemplates({
+        feedback: { enabled: true },
+        html: { fallback: { selector: "#root" } },
+      });
+
+      expect(result.html?.fallback).toEqual({
+        content: buildDefaultErrorFallbackHtml({ feedback: true }),
+        selector: "#root",
+      });
+      expect(
+        withOptionalDefaultTemplates({ fallbackRecovery: { enabled: true } }).html?.fallback
+          ?.content,
+      ).toBe(buildDefaultErrorFallbackHtml({ recovery: true }));
+    });
+
+    it("keeps a custom fallback", () => {
+      const result = withOptionalDefaultTemplates({
+        feedback: { enabled: true },
+        html: { fallback: { content: "<div>Error</div>" } },
+      });
+
+      expect(result.html?.fallback?.content).toBe("<div>Error</div>");
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import type { Options } from "./options";
+
+import {
+  defaultErrorFallbackHtml,
+  defaultFallbackFeedbackHtml,
+  defaultFallbackRecoveryHtml,
+  defaultUpdatePromptHtml,
+} from "./html.generated";
+
+// The optional sections go between the buttons and the "Error ID" line
+const ERROR_ID_MARKER = '<p class="spa-guard-error-id';
+
+/** Default fallback HTML with the recovery countdown and/or the feedback form added. */
+export const buildDefaultErrorFallbackHtml = (sections: {
+  feedback?: boolean;
+  recovery?: boolean;
+}): string => {
+  const extra =
+    (sections.recovery ? defaultFallbackRecoveryHtml : "") +
+    (sections.feedback ? defaultFallbackFeedbackHtml : "");
+  if (!extra) {
+    return defaultErrorFallbackHtml;
+  }
+  const index = defaultErrorFallbackHtml.indexOf(ERROR_ID_MARKER);
+  return defaultErrorFallbackHtml.slice(0, index) + extra + defaultErrorFallbackHtml.slice(index);
+};
+
+/**
+ * Fills in the default templates that only some setups use: the update banner for
+ * `checkVersion.onUpdate: "prompt"` and the fallback with the feedback form and recovery
+ * countdown. The runtime defaults leave them out to keep the inline script small.
+ * Custom `content` is kept as is.
+ */
+export const withOptionalDefaultTemplates = <T extends Options>(options: T): T => {
+  const html = { ...options.html };
+
+  if (options.checkVersion?.onUpdate === "prompt" && !html.updatePrompt?.content) {
+    html.updatePrompt = { ...html.updatePrompt, content: defaultUpdatePromptHtml };
+  }
+
+  const feedback = options.feedback?.enabled === true;
+  const recovery = options.fallbackRecovery?.enabled === true;
+  if ((feedback || recovery) && !html.fallback?.content) {
+    html.fallback = {
+      ...html.fallback,
+      content: buildDefaultErrorFallbackHtml({ feedback, recovery }),
+    };
+  }
+
+  if (
+    html.updatePrompt === options.html?.updatePrompt &&
+    html.fallback === options.html?.fallback
+  ) {
+    return options;
+  }
+  return { ...options, html };
+};
@@ -6,12 +6,17 @@ import { BeaconError } from "./BeaconError";
 
 const fullBeacon: BeaconSchema = {
   appName: "my-app",
+  context: { subscription: { plan: "pro" } },
   errorMessage: "Failed to fetch module",
   eventMessage: "Module load error detected",
   eventName: "module-error",
+  feedback: { email: "jane@example.com", message: "The page stayed blank" },
   retryAttempt: 2,
   retryId: "abc-123",
   serialized: '{"url":"https://example.com/chunk.js"}',
+  sessionId: "session-1",
+  tags: { release: "canary" },
+  user: { email: "jane@example.com", id: "42" },
 };
 
 describe("BeaconError", () => {
@@ -54,9 +59,17 @@ describe("BeaconError", () => {
     expect(error.errorMessage).toBe("Failed to fetch module");
     expect(error.eventMessage).toBe("Module load error detected");
     expect(error.eventName).toBe("module-error");
+    expect(error.feedback).toEqual({
+      email: "jane@example.com",
+      message: "The page stayed blank",
+    });
     expect(error.retryAttempt).toBe(2);
     expect(error.retryId).toBe("abc-123");
     expect(error.serialized).toBe('{"url":"https://example.com/chunk.js"}');
+    expect(error.sessionId).toBe("session-1");
+    expect(error.tags).toEqual({ release: "canary" });
+    expect(error.user).toEqual({ email: "jane@example.com", id: "42" });
+    expect(error.context).toEqual({ subscription: { plan: "pro" } });
   });
 
   it("handles a partial beacon with only eventName", () => {
@@ -65,9 +78,14 @@ describe("BeaconError", () => {
     expect(error.errorMessage).toBeUndefined();
     expect(error.eventMessage).toBeUndefined();
     expect(error.eventName).toBe("init");
+    expect(error.feedback).toBeUndefined();
     expect(error.retryAttempt).toBeUndefined();
     expect(error.retryId).toBeUndefined();
     expect(error.serialized).toBeUndefined();
+    expect(error.sessionId).toBeUndefined();
+    expect(error.tags).toBeUndefined();
+    expect(error.user).toBeUndefined();
+    expect(error.context).toBeUndefined();
   });
 
   it("handles an empty beacon object", () => {
@@ -83,14 +101,19 @@ describe("BeaconError", () => {
       const json = error.toJSON();
       expect(json).toEqual({
         appName: "my-app",
+        context: { subscription: { plan: "pro" } },
         errorMessage: "Failed to fetch module",
         eventMessage: "Module load error detected",
         eventName: "module-error",
+        feedback: { email: "jane@example.com", message: "The page stayed blank" },
         message: "Failed to fetch module",
         name: "BeaconError",
         retryAttempt: 2,
         retryId: "abc-123",
         serialized: '{"url":"https://example.com/chunk.js"}',
+        sessionId: "session-1",
+        tags: { release: "canary" },
+        user: { email: "jane@example.com", id: "42" },
       });
     });
 
@@ -99,14 +122,19 @@ describe("BeaconError", () => {
       const json = error.toJSON();
       expect(json).toEqual({
         appName: undefined,
+        context: undefined,
         errorMessage: undefined,
         eventMessage: undefined,
         eventName: "init",
+        feedback: undefined,
         message: "Unknown beacon error",
         name: "BeaconError",
         retryAttempt: undefined,
         retryId: undefined,
         serialized: undefined,
+        sessionId: undefined,
+        tags: undefined,
+        user: undefined,
       });
     });
 
@@ -1,37 +1,52 @@
-import type { BeaconSchema } from "../../schema";
+import type { BeaconFeedback, BeaconSchema, BeaconUser } from "../../schema";
 
 export class BeaconError extends Error {
   readonly appName: string | undefined;
+  readonly context: Record<string, Record<string, unknown>> | undefined;
   readonly errorMessage: string | undefined;
   readonly eventMessage: string | undefined;
   readonly eventName: string | undefined;
+  readonly feedback: BeaconFeedback | undefined;
   readonly retryAttempt: number | undefined;
   readonly retryId: string | undefined;
   readonly serialized: string | undefined;
+  readonly sessionId: string | undefined;
+  readonly tags: Record<string, string> | undefined;
+  readonly user: BeaconUser | undefined;
 
   constructor(beacon: BeaconSchema) {
     super(beacon.errorMessage ?? beacon.eventMessage ?? "Unknown beacon error");
     this.name = "BeaconError";
     this.appName = beacon.appName;
+    this.context = beacon.context;
     this.errorMessage = beacon.errorMessage;
     this.eventMessage = beacon.eventMessage;
     this.eventName = beacon.eventName;
+    this.feedback = beacon.feedback;
     this.retryAttempt = beacon.retryAttempt;
     this.retryId = beacon.retryId;
     this.serialized = beacon.serialized;
+    this.sessionId = beacon.sessionId;
+    this.tags = beacon.tags;
+    this.user = beacon.user;
   }
 
   toJSON(): Record<string, unknown> {
     return {
       appName: this.appName,
+      context: this.context,
       errorMessage: this.errorMessage,
       eventMessage: this.eventMessage,
       eventName: this.eventName,
+      feedback: this.feedback,
       message: this.message,
       name: this.name,
       retryAttempt: this.retryAttempt,
       retryId: this.retryId,
       serialized: this.serialized,
+      sessionId: this.sessionId,
+      tags: this.tags,
+      user: this.user,
     };
   }
 }
@@ -1,3 +1,5 @@
+import type { FallbackCategory } from "../options";
+
 export interface EmitOptions {
   silent?: boolean;
 }
@@ -9,16 +11,23 @@ export interface InternalConfig {
 
 export type SPAGuardEvent =
   | (SPAGuardEventChunkError & { name: "chunk-error" })
+  | (SPAGuardEventFallbackRecovered & { name: "fallback-recovered" })
+  | (SPAGuardEventFallbackRecoveryAttempt & { name: "fallback-recovery-attempt" })
   | (SPAGuardEventFallbackUINotRendered & { name: "fallback-ui-not-rendered" })
   | (SPAGuardEventFallbackUIShown & { name: "fallback-ui-shown" })
   | (SPAGuardEventLazyRetryAttempt & { name: "lazy-retry-attempt" })
   | (SPAGuardEventLazyRetryExhausted & { name: "lazy-retry-exhausted" })
   | (SPAGuardEventLazyRetryStart & { name: "lazy-retry-start" })
   | (SPAGuardEventLazyRetrySuccess & { name: "lazy-retry-success" })
+  | (SPAGuardEventNetworkOffline & { name: "network-offline" })
+  | (SPAGuardEventNetworkOnline & { name: "network-online" })
+  | (SPAGuardEventReloadBudgetExceeded & { name: "reload-budget-exceeded" })
   | (SPAGuardEventRetryAttempt & { name: "retry-attempt" })
   | (SPAGuardEventRetryExhausted & { name: "retry-exhausted" })
   | (SPAGuardEventRetryReset & { name: "retry-reset" })
-  | (SPAGuardEventStaticAssetLoadFailed & { name: "static-asset-load-failed" });
+  | (SPAGuardEventStaticAssetLoadFailed & { name: "static-asset-load-failed" })
+  | (SPAGuardEventUserFeedback & { name: "user-feedback" })
+  | (SPAGuardEventVersionStale & { name: "version-stale" });
 
 export interface SPAGuardEventChunkError {
   error: unknown;
@@ -26,6 +35,22 @@ export interface SPAGuardEventChunkError {
   name: "chunk-error";
 }
 
+/** Emitted when a recovery probe succeeds, right before the page reloads. */
+export interface SPAGuardEventFallbackRecovered {
+  /** 1-based index of the successful check. */
+  attempt: number;
+  name: "fallback-recovered";
+}
+
+/** Emitted before each recovery probe request sent from the fallback screen. */
+export interface SPAGuardEventFallbackRecoveryAttempt {
+  /** 1-based index of the check. */
+  attempt: number;
+  /** URL the HEAD request is sent to. */
+  endpoint: string;
+  name: "fallback-recovery-attempt";
+}
+
 export interface SPAGuardEventFallbackUINotRendered {
   name: "fallback-ui-not-rendered";
   reason: "no-html-configured" | "target-not-found";
@@ -33,6 +58,8 @@ export interface SPAGuardEventFallbackUINotRendered {
 }
 
 export interface SPAGuardEventFallbackUIShown {
+  /** Category the fallback template was picked for. */
+  category?: FallbackCategory;
   name: "fallback-ui-shown";
 }
 
@@ -45,6 +72,8 @@ export interface SPAGuardEventLazyRetryAttempt {
   /** The error that caused the previous attempt to fail. */
   error?: unknown;
   name: "lazy-retry-attempt";
+  /** True when the import was started by `preload()` rather than a render. */
+  preload?: boolean;
   /** Total number of attempts including the initial try (delays.length + 1). */
   totalAttempts: number;
 }
@@ -54,6 +83,8 @@ export interface SPAGuardEventLazyRetryExhausted {
   /** The final error after all attempts failed. */
   error: unknown;
   name: "lazy-retry-exhausted";
+  /** True when the import was started by `preload()` rather than a render. */
+  preload?: boolean;
   /** Total number of attempts that were made (delays.length + 1). */
   totalAttempts: number;
   /** Whether triggerRetry() will be called after this event. */
@@ -63,6 +94,8 @@ export interface SPAGuardEventLazyRetryExhausted {
 /** Emitted once before the first import attempt, when retries are configured. */
 export interface SPAGuardEventLazyRetryStart {
   name: "lazy-retry-start";
+  /** True when the import was started by `preload()` rather than a render. */
+  preload?: boolean;
   /** Total number of attempts that will be made (delays.length + 1). */
   totalAttempts: number;
 }
@@ -72,10 +105,28 @@ export interface SPAGuardEventLazyRetrySuccess {
   /** 1-based retry number on which the import succeeded (1 = first retry). */
   attempt: number;
   name: "lazy-retry-success";
+  /** True when the import was started by `preload()` rather than a render. */
+  preload?: boolean;
   /** Total time in milliseconds from first attempt to success. */
   totalTime?: number;
 }
 
+/** Emitted when a scheduled reload is put on hold because the browser is offline. */
+export interface SPAGuardEventNetworkOffline {
+  /** The attempt number of the reload that is on hold. */
+  attempt: number;
+  name: "network-offline";
+  retryId: string;
+}
+
+/** Emitted when connectivity is restored and the held reload resumes. */
+export interface SPAGuardEventNetworkOnline {
+  /** The attempt number of the reload that is resuming. */
+  attempt: number;
+  name: "network-online";
+  retryId: string;
+}
+
 export interface SPAGuardEventRetryAttempt {
   attempt: number;
   delay: number;
@@ -83,6 +134,15 @@ export interface SPAGuardEventRetryAttempt {
   retryId: string;
 }
 
+export interface SPAGuardEventReloadBudgetExceeded {
+  /** `reloadBudget.maxReloads` that was reached. */
+  maxReloads: number;
+  name: "reload-budget-exceeded";
+  retryId: string;
+  /** `reloadBudget.windowMs` the reloads were counted over. */
+  windowMs: number;
+}
+
 export interface SPAGuardEventRetryExhausted {
   finalAttempt: number;
   name: "retry-exhausted";
@@ -103,6 +163,22 @@ export interface SPAGuardEventStaticAssetLoadFailed {
   url: string;
 }
 
+/** Emitted when the user submits the fallback's "Report a problem" form. */
+export interface SPAGuardEventUserFeedback {
+  name: "user-feedback";
+  /** Retry cycle the fallback was shown for, when known. */
+  retryId?: string;
+}
+
+/**
+ * Emitted once when a new version is detected with `checkVersion.onUpdate: "navigate"`.
+ * The next client-side navigation becomes a full document navigation.
+ */
+export interface SPAGuardEventVersionStale {
+  latestVersion: string;
+  name: "version-stale";
+}
+
 export type SubscribeFn = (event: SPAGuardEvent) => void;
 
 export type UnsubscribeFn = () => void;
@@ -43,4 +43,21 @@ describe("common/index exports", () => {
     const mod = await import("./index");
     expect(typeof mod.resetFallbackMode).toBe("function");
   });
+
+  it("exports addBeforeSendHook", async () => {
+    const mod = await import("./index");
+    expect(typeof mod.addBeforeSendHook).toBe("function");
+  });
+
+  it("exports setUser, setTags and setContext", async () => {
+    const mod = await import("./index");
+    expect(typeof mod.setUser).toBe("function");
+    expect(typeof mod.setTags).toBe("function");
+    expect(typeof mod.setContext).toBe("function");
+  });
+
+  it("exports clearCacheAndReload", async () => {
+    const mod = await import("./index");
+    expect(typeof mod.clearCacheAndReload).toBe("function");
+  });
 });
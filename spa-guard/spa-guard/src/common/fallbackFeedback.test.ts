@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./events/internal", () => ({
+  emitEvent: vi.fn(),
+}));
+
+vi.mock("./options", () => ({
+  getOptions: vi.fn(),
+}));
+
+vi.mock("./retryState", () => ({
+  getRetryInfoForBeacon: vi.fn(),
+}));
+
+vi.mock("./sendBeacon", () => ({
+  sendUserBeacon: vi.fn(),
+}));
+
+import { buildDefaultErrorFallbackHtml } from "./defaultTemplates";
+import { emitEvent } from "./events/internal";
+import { setupFallbackFeedback } from "./fallbackFeedback";
+import { getOptions } from "./options";
+import { getRetryInfoForBeacon } from "./retryState";
+import { sendUserBeacon } from "./sendBeacon";
+
+const mockGetOptions = vi.mocked(getOptions);
+
+const getForm = () =>
+  document.querySelector<HTMLFormElement>('[data-spa-guard-section="feedback"]')!;
+const getSentSection = () =>
+  document.querySelector<HTMLElement>('[data-spa-guard-section="feedback-sent"]')!;
+
+const fillAndSubmit = (message: string, email = "") => {
+  document.querySelector<HTMLTextAreaElement>('[data-spa-guard-input="feedback-message"]')!.value =
+    message;
+  document.querySelector<HTMLInputElement>('[data-spa-guard-input="feedback-email"]')!.value =
+    email;
+  getForm().dispatchEvent(new Event("submit", { cancelable: true }));
+};
+
+describe("common/fallbackFeedback", () => {
+  beforeEach(() => {
+    document.body.innerHTML = buildDefaultErrorFallbackHtml({ feedback: true });
+    mockGetOptions.mockReturnValue({
+      feedback: { enabled: true },
+      reportBeacon: { endpoint: "/api/beacon" },
+    });
+    vi.mocked(getRetryInfoForBeacon).mockReturnValue({ retryAttempt: 3, retryId: "url-id" });
+    vi.mocked(sendUserBeacon).mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = "";
+    vi.clearAllMocks();
+  });
+
+  it("keeps the form hidden unless enabled", () => {
+    mockGetOptions.mockReturnValue({
+      feedback: { enabled: false },
+      reportBeacon: { endpoint: "/api/beacon" },
+    });
+
+    setupFallbackFeedback(document.body, "abc-123");
+
+    expect(getForm().style.display).toBe("none");
+  });
+
+  it("keeps the form hidden without a beacon endpoint", () => {
+    mockGetOptions.mockReturnValue({ feedback: { enabled: true }, reportBeacon: {} });
+
+    setupFallbackFeedback(document.body, "abc-123");
+
+    expect(getForm().style.display).toBe("none");
+  });
+
+  it("sends the message and email as a user-feedback beacon tied to the retryId", () => {
+    setupFallbackFeedback(document.body, "abc-123");
+    expect(getForm().style.display).toBe("");
+
+    fillAndSubmit("  The page stayed blank ", " jane@example.com ");
+
+    expect(sendUserBeacon).toHaveBeenCalledWith({
+      eventName: "user-feedback",
+      feedback: { email: "jane@example.com", message: "The page stayed blank" },
+      retryAttempt: 3,
+      retryId: "abc-123",
+    });
+    expect(emitEvent).toHaveBeenCalledWith({ name: "user-feedback", retryId: "abc-123" });
+  });
+
+  it("falls back to the retryId from the URL and omits an empty email", () => {
+    setupFallbackFeedback(document.body);
+
+    fillAndSubmit("Blank page");
+
+    expect(sendUserBeacon).toHaveBeenCalledWith({
+      eventName: "user-feedback",
+      feedback: { message: "Blank page" },
+      retryAttempt: 3,
+      retryId: "url-id",
+    });
+  });
+
+  it("truncates input to the limits accepted by parseBeacon", () => {
+    setupFallbackFeedback(document.body);
+
+    fillAndSubmit("x".repeat(3000), `${"y".repeat(300)}@example.com`);
+
+    const beacon = vi.mocked(sendUserBeacon).mock.calls[0]![0];
+    expect(beacon.feedback?.message).toHaveLength(2000);
+    expect(beacon.feedback?.email).toHaveLength(254);
+  });
+
+  it("ignores a blank message", () => {
+    setupFallbackFeedback(document.body);
+
+    fillAndSubmit("   ");
+
+    expect(sendUserBeacon).not.toHaveBeenCalled();
+    expect(getForm().style.display).toBe("");
+  });
+
+  it("replaces the form with the confirmation once sent", async () => {
+    setupFallbackFeedback(document.body);
+
+    fillAndSubmit("Blank page");
+    await vi.waitFor(() => {
+      expect(getForm().style.display).toBe("none");
+    });
+
+    expect(getSentSection().style.display).toBe("");
+  });
+
+  it("keeps the form when the report was neither sent nor queued", async () => {
+    vi.mocked(sendUserBeacon).mockResolvedValue(false);
+    setupFallbackFeedback(document.body);
+
+    fillAndSubmit("Blank page");
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(getForm().style.display).toBe("");
+    expect(getSentSection().style.display).toBe("none");
+
+    fillAndSubmit("Blank page");
+
+    expect(sendUserBeacon).toHaveBeenCalledTimes(2);
+  });
+
+  it("ignores a second submit while the report is being sent", () => {
+    vi.mocked(sendUserBeacon).mockReturnValue(new Promise(() => {}));
+    setupFallbackFeedback(document.body);
+
+    fillAndSubmit("Blank page");
+    fillAndSubmit("Blank page");
+
+    expect(sendUserBeacon).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,71 @@
+import { emitEvent } from "./events/internal";
+import { getOptions } from "./options";
+import { getRetryInfoForBeacon } from "./retryState";
+import { sendUserBeacon } from "./sendBeacon";
+
+// Same limits as parseBeacon, so custom templates without maxlength are not rejected
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_EMAIL_LENGTH = 254;
+
+/**
+ * Reveals the "Report a problem" form (`[data-spa-guard-section="feedback"]`) of a rendered
+ * fallback when `feedback.enabled` and `reportBeacon.endpoint` are set. A submission is sent
+ * as a `user-feedback` beacon tied to `retryId`, then the form is swapped for
+ * `[data-spa-guard-section="feedback-sent"]` once the beacon was sent or queued.
+ */
+export const setupFallbackFeedback = (root: ParentNode, retryId?: string): void => {
+  const options = getOptions();
+  if (!options.feedback?.enabled || !options.reportBeacon?.endpoint) {
+    return;
+  }
+
+  const form = root.querySelector<HTMLFormElement>('[data-spa-guard-section="feedback"]');
+  if (!form) {
+    return;
+  }
+  form.style.display = "";
+
+  let sending = false;
+  form.addEventListener("submit", (event) => {
+    event.preventDefault();
+    if (sending) {
+      return;
+    }
+
+    const message = form
+      .querySelector<HTMLTextAreaElement>('[data-spa-guard-input="feedback-message"]')
+      ?.value.trim();
+    if (!message) {
+      return;
+    }
+    const email = form
+      .querySelector<HTMLInputElement>('[data-spa-guard-input="feedback-email"]')
+      ?.value.trim();
+
+    sending = true;
+    emitEvent({ name: "user-feedback", ...(retryId && { retryId }) });
+    void sendUserBeacon({
+      eventName: "user-feedback",
+      feedback: {
+        ...(email && { email: email.slice(0, MAX_EMAIL_LENGTH) }),
+        message: message.slice(0, MAX_MESSAGE_LENGTH),
+      },
+      ...getRetryInfoForBeacon(),
+      ...(retryId && { retryId }),
+    }).then((sent) => {
+      sending = false;
+      // Not sent and not queued: keep the form so the user can try again
+      if (!sent) {
+        return;
+      }
+
+      form.style.display = "none";
+      const sentSection = root.querySelector<HTMLElement>(
+        '[data-spa-guard-section="feedback-sent"]',
+      );
+      if (sentSection) {
+        sentSection.style.display = "";
+      }
+    });
+  });
+};
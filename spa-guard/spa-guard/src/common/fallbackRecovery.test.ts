@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./events/internal", () => ({
+  emitEvent: vi.fn(),
+}));
+
+vi.mock("./fallbackState", () => ({
+  isInFallbackMode: vi.fn(),
+}));
+
+vi.mock("./lastReloadTime", () => ({
+  clearLastReloadTime: vi.fn(),
+}));
+
+vi.mock("./options", () => ({
+  getOptions: vi.fn(),
+}));
+
+vi.mock("./reloadBudget", () => ({
+  getReloadBudget: vi.fn(),
+  recordReload: vi.fn(),
+}));
+
+vi.mock("./serviceWorker", () => ({
+  navigateAfterServiceWorkerRefresh: vi.fn((navigate: () => void) => navigate()),
+}));
+
+import { translations } from "../i18n/translations";
+import { buildDefaultErrorFallbackHtml } from "./defaultTemplates";
+import { emitEvent } from "./events/internal";
+import { startFallbackRecovery, stopFallbackRecovery } from "./fallbackRecovery";
+import { isInFallbackMode } from "./fallbackState";
+import { setTranslations } from "./i18n";
+import { clearLastReloadTime } from "./lastReloadTime";
+import { getOptions } from "./options";
+import { getReloadBudget, recordReload } from "./reloadBudget";
+
+const mockEmitEvent = vi.mocked(emitEvent);
+const mockGetOptions = vi.mocked(getOptions);
+
+const getSection = () =>
+  document.querySelector<HTMLElement>('[data-spa-guard-section="recovery"]')!;
+const getNextCheck = () =>
+  document.querySelector('[data-spa-guard-content="nextCheck"]')!.textContent;
+
+describe("common/fallbackRecovery", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let mockLocationReload: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document.body.innerHTML = buildDefaultErrorFallbackHtml({ recovery: true });
+    mockFetch = vi.fn().mockResolvedValue({ ok: false });
+    vi.stubGlobal("fetch", mockFetch);
+    mockLocationReload = vi.fn();
+    Object.defineProperty(globalThis.location, "reload", {
+      configurable: true,
+      value: mockLocationReload,
+      writable: true,
+    });
+    mockGetOptions.mockReturnValue({
+      fallbackRecovery: { delays: [5000, 10_000], enabled: true },
+    });
+    vi.mocked(isInFallbackMode).mockReturnValue(true);
+    vi.mocked(getReloadBudget).mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    stopFallbackRecovery();
+    document.body.innerHTML = "";
+    document.head.innerHTML = "";
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("does nothing unless enabled", () => {
+    mockGetOptions.mockReturnValue({ fallbackRecovery: { enabled: false } });
+
+    startFallbackRecovery();
+    vi.advanceTimersByTime(60_000);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(getSection().style.display).toBe("none");
+  });
+
+  it("does not start when the reload budget is used up", () => {
+    vi.mocked(getReloadBudget).mockReturnValue({
+      maxReloads: 10,
+      remaining: 0,
+      resetAt: null,
+      windowMs: 3_600_000,
+    });
+
+    startFallbackRecovery();
+    vi.advanceTimersByTime(60_000);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("shows a countdown to the next check", () => {
+    startFallbackRecovery();
+
+    expect(getSection().style.display).toBe("");
+    expect(getNextCheck()).toBe("Checking again in 5s");
+
+    vi.advanceTimersByTime(2000);
+    expect(getNextCheck()).toBe("Checking again in 3s");
+  });
+
+  it("renders the countdown with the translated plural form", () => {
+    setTranslations({
+      ...translations.en!,
+      lang: "en",
+      nextCheck: {
+        one: "Next check in {seconds} second",
+        other: "Next check in {seconds} seconds",
+      },
+    });
+
+    startFallbackRecovery();
+    expect(getNextCheck()).toBe("Next check in 5 seconds");
+
+    vi.advanceTimersByTime(4000);
+    expect(getNextCheck()).toBe("Next check in 1 second");
+  });
+
+  it("still fills a separate next-check element", () => {
+    document.body.innerHTML =
+      '<p data-spa-guard-section="recovery"><span data-spa-guard-content="nextCheck">Checking again in</span> <span data-spa-guard-content="next-check"></span></p>';
+
+    startFallbackRecovery();
+
+    expect(document.querySelector('[data-spa-guard-content="next-check"]')!.textContent).toBe("5s");
+    expect(getNextCheck()).toBe("Checking again in");
+  });
+
+  it("leaves the separate next-check element empty when the translation shows the seconds", () => {
+    setTranslations({ ...translations.en!, lang: "en" });
+    document.body.innerHTML =
+      '<p data-spa-guard-section="recovery"><span data-spa-guard-content="nextCheck">Checking again in</span> <span data-spa-guard-content="next-check"></span></p>';
+
+    startFallbackRecovery();
+
+    expect(document.querySelector('[data-spa-guard-content="next-check"]')!.textContent).toBe("");
+    expect(getNextCheck()).toBe("Checking again in 5 seconds");
+  });
+
+  it("sends a HEAD request to the current page after the first delay", async () => {
+    startFallbackRecovery();
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      "http://localhost:3000/",
+      expect.objectContaining({ cache: "no-store", method: "HEAD" }),
+    );
+    expect(mockEmitEvent).toHaveBeenCalledWith({
+      attempt: 1,
+      endpoint: "http://localhost:3000/",
+      name: "fallback-recovery-attempt",
+    });
+  });
+
+  it("probes the configured endpoint", async () => {
+    mockGetOptions.mockReturnValue({
+      fallbackRecovery: { delays: [1000], enabled: true, endpoint: "/version.json" },
+    });
+
+    startFallbackRecovery();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(mockFetch).toHaveBeenCalledWith("/version.json", expect.anything());
+  });
+
+  it("backs off after a failed check and stops when the delays run out", async () => {
+    startFallbackRecovery();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(getNextCheck()).toBe("Checking again in 10s");
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(getSection().style.display).toBe("none");
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockLocationReload).not.toHaveBeenCalled();
+  });
+
+  it("treats network errors as failed checks", async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+    startFallbackRecovery();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(mockLocationReload).not.toHaveBeenCalled();
+    expect(getNextCheck()).toBe("Checking again in 10s");
+  });
+
+  it("skips the request while the browser is offline", async () => {
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+
+    startFallbackRecovery();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(getNextCheck()).toBe("Checking again in 10s");
+  });
+
+  it("reloads into a fresh retry cycle once a check succeeds", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false }).mockResolvedValueOnce({ ok: true });
+
+    startFallbackRecovery();
+    await vi.advanceTimersByTimeAsync(15_000);
+
+    expect(mockEmitEvent).toHaveBeenCalledWith({ attempt: 2, name: "fallback-recovered" });
+    expect(clearLastReloadTime).toHaveBeenCalledOnce();
+    expect(recordReload).toHaveBeenCalledOnce();
+    expect(mockLocationReload).toHaveBeenCalledOnce();
+  });
+
+  it("stops once the page has left fallback mode", async () => {
+    startFallbackRecovery();
+    vi.mocked(isInFallbackMode).mockReturnValue(false);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(getSection().style.display).toBe("none");
+  });
+
+  it("is idempotent while running", async () => {
+    startFallbackRecovery();
+    startFallbackRecovery();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("stopFallbackRecovery cancels the pending check and an in-flight request", async () => {
+    startFallbackRecovery();
+    stopFallbackRecovery();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    mockFetch.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () => reject(new DOMException("Aborted")));
+        }),
+    );
+    startFallbackRecovery();
+    await vi.advanceTimersByTimeAsync(5000);
+    stopFallbackRecovery();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockLocationReload).not.toHaveBeenCalled();
+  });
+});
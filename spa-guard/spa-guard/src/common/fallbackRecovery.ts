@@ -0,0 +1,200 @@
+import { resolveDelays } from "./backoff";
+import { fallbackRecoveryStateWindowKey } from "./constants";
+import { emitEvent } from "./events/internal";
+import { isInFallbackMode } from "./fallbackState";
+import { getI18n, interpolate, translate, usesPlaceholder } from "./i18n";
+import { clearLastReloadTime } from "./lastReloadTime";
+import { getOptions } from "./options";
+import { getReloadBudget, recordReload } from "./reloadBudget";
+import { navigateAfterServiceWorkerRefresh } from "./serviceWorker";
+
+const PROBE_TIMEOUT_MS = 10_000;
+
+interface FallbackRecoveryState {
+  controller: AbortController | null;
+  countdown: null | ReturnType<typeof setInterval>;
+  running: boolean;
+  timer: null | ReturnType<typeof setTimeout>;
+}
+
+const createInitialState = (): FallbackRecoveryState => ({
+  controller: null,
+  countdown: null,
+  running: false,
+  timer: null,
+});
+
+const getState = (): FallbackRecoveryState => {
+  const w = globalThis.window as any;
+  if (!w) {
+    return createInitialState();
+  }
+  return (
+    w[fallbackRecoveryStateWindowKey] ?? (w[fallbackRecoveryStateWindowKey] = createInitialState())
+  );
+};
+
+const getEndpoint = (): string => {
+  const endpoint = getOptions().fallbackRecovery?.endpoint;
+  if (endpoint) {
+    return endpoint;
+  }
+  const url = new URL(globalThis.location.href);
+  url.hash = "";
+  return url.toString();
+};
+
+/** Shows the countdown to `nextCheckAt` in the fallback UI, or hides it when null. */
+const renderCountdown = (nextCheckAt: null | number): void => {
+  try {
+    const sections = document.querySelectorAll<HTMLElement>('[data-spa-guard-section="recovery"]');
+    for (const section of sections) {
+      section.style.display = nextCheckAt === null ? "none" : "";
+    }
+    if (nextCheckAt === null) {
+      return;
+    }
+    const seconds = Math.max(Math.ceil((nextCheckAt - Date.now()) / 1000), 0);
+    const t = getI18n();
+    let secondsShown = false;
+    for (const el of document.querySelectorAll<HTMLElement>(
+      '[data-spa-guard-content="nextCheck"]',
+    )) {
+      // Keep the untranslated text with its {seconds} placeholder for the following ticks
+      el.dataset.spaGuardTemplate ??= el.textContent ?? "";
+      const translated = t && translate(t, "nextCheck", { seconds });
+      secondsShown ||= usesPlaceholder(
+        translated ? t.nextCheck : el.dataset.spaGuardTemplate,
+        "seconds",
+      );
+      el.textContent = translated ?? interpolate(el.dataset.spaGuardTemplate, { seconds });
+    }
+    // Templates that render the seconds in a separate element, left empty when the
+    // nextCheck text already shows them
+    for (const el of document.querySelectorAll('[data-spa-guard-content="next-check"]')) {
+      el.textContent = secondsShown ? "" : `${seconds}s`;
+    }
+  } catch {
+    // fail-safe: the countdown is cosmetic
+  }
+};
+
+const isReachable = async (endpoint: string, controller: AbortController): Promise<boolean> => {
+  if (globalThis.navigator?.onLine === false) {
+    return false;
+  }
+  const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    const response = await fetch(endpoint, {
+      cache: "no-store",
+      method: "HEAD",
+      signal: controller.signal,
+    });
+    return response.ok;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+const clearTimers = (state: FallbackRecoveryState): void => {
+  if (state.timer !== null) {
+    clearTimeout(state.timer);
+    state.timer = null;
+  }
+  if (state.countdown !== null) {
+    clearInterval(state.countdown);
+    state.countdown = null;
+  }
+};
+
+const recover = (): void => {
+  // The retry parameters were removed when the fallback was shown, so the reload starts a fresh cycle
+  clearLastReloadTime();
+  recordReload();
+  navigateAfterServiceWorkerRefresh(() => globalThis.window.location.reload());
+};
+
+const runCheck = async (
+  state: FallbackRecoveryState,
+  delays: number[],
+  attempt: number,
+): Promise<void> => {
+  if (!isInFallbackMode()) {
+    stopFallbackRecovery();
+    return;
+  }
+
+  const endpoint = getEndpoint();
+  emitEvent({ attempt, endpoint, name: "fallback-recovery-attempt" });
+
+  const controller = new AbortController();
+  state.controller = controller;
+  const reachable = await isReachable(endpoint, controller);
+  if (state.controller !== controller) {
+    // Stopped while the request was in flight
+    return;
+  }
+  state.controller = null;
+
+  if (!reachable) {
+    scheduleCheck(state, delays, attempt);
+    return;
+  }
+
+  emitEvent({ attempt, name: "fallback-recovered" });
+  stopFallbackRecovery();
+  recover();
+};
+
+/** Waits `delays[index]` before check number `index + 1`; stops once the delays run out. */
+const scheduleCheck = (state: FallbackRecoveryState, delays: number[], index: number): void => {
+  const delay = delays[index];
+  if (delay === undefined) {
+    stopFallbackRecovery();
+    return;
+  }
+
+  const nextCheckAt = Date.now() + delay;
+  renderCountdown(nextCheckAt);
+  state.countdown = setInterval(() => renderCountdown(nextCheckAt), 1000);
+  state.timer = setTimeout(() => {
+    clearTimers(state);
+    void runCheck(state, delays, index + 1);
+  }, delay);
+};
+
+/**
+ * Starts probing `fallbackRecovery.endpoint` while the fallback UI is shown.
+ * No-op unless `fallbackRecovery.enabled` is true, when a probe is already running,
+ * or when the reload budget is used up (the recovery reload would not be allowed).
+ */
+export const startFallbackRecovery = (): void => {
+  if (globalThis.window === undefined) {
+    return;
+  }
+  const options = getOptions().fallbackRecovery;
+  const state = getState();
+  if (options?.enabled !== true || state.running || getReloadBudget()?.remaining === 0) {
+    return;
+  }
+
+  state.running = true;
+  const delays = resolveDelays(
+    options.delays ?? { attempts: 20, base: 5000, max: 60_000, type: "exponential" },
+  );
+  scheduleCheck(state, delays, 0);
+};
+
+/** Cancels the pending check and hides the countdown. */
+export const stopFallbackRecovery = (): void => {
+  const state = getState();
+  clearTimers(state);
+  state.controller?.abort();
+  state.controller = null;
+  if (state.running) {
+    renderCountdown(null);
+  }
+  state.running = false;
+};
@@ -1,10 +1,18 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+vi.mock("./clearCache", () => ({
+  clearCacheAndReload: vi.fn(),
+}));
+
 vi.mock("./events/internal", () => ({
   emitEvent: vi.fn(),
   getLogger: vi.fn(),
 }));
 
+vi.mock("./fallbackFeedback", () => ({
+  setupFallbackFeedback: vi.fn(),
+}));
+
 vi.mock("./i18n", () => ({
   applyI18n: vi.fn(),
   getI18n: vi.fn().mockReturnValue(null),
@@ -19,8 +27,10 @@ vi.mock("./retryState", () => ({
 }));
 
 // Intentionally NOT mocking fallbackState - showFallbackUI must never call setFallbackMode
+import { clearCacheAndReload } from "./clearCache";
 import { emitEvent, getLogger } from "./events/internal";
-import { showFallbackUI, showLoadingUI } from "./fallbackRendering";
+import { setupFallbackFeedback } from "./fallbackFeedback";
+import { resolveFallbackCategory, showFallbackUI, showLoadingUI } from "./fallbackRendering";
 import { applyI18n, getI18n } from "./i18n";
 import { getOptions } from "./options";
 import { getRetryStateFromUrl } from "./retryState";
@@ -149,7 +159,10 @@ describe("showFallbackUI", () => {
 
       showFallbackUI();
 
-      expect(mockEmitEvent).toHaveBeenCalledWith({ name: "fallback-ui-shown" });
+      expect(mockEmitEvent).toHaveBeenCalledWith({
+        category: "generic",
+        name: "fallback-ui-shown",
+      });
     });
 
     it("populates spa-guard-retry-id elements when retryState is available", () => {
@@ -166,6 +179,19 @@ describe("showFallbackUI", () => {
       expect(retryIdEl.textContent).toBe("test-retry-id");
     });
 
+    it("sets up the feedback form for the current retryId", () => {
+      mockGetRetryStateFromUrl.mockReturnValue({ retryAttempt: 3, retryId: "test-retry-id" });
+      const mockEl = { innerHTML: "", querySelector: () => null };
+      vi.spyOn(document, "querySelector").mockReturnValue(mockEl as unknown as Element);
+      vi.spyOn(document, "getElementsByClassName").mockReturnValue(
+        [] as unknown as HTMLCollectionOf<Element>,
+      );
+
+      showFallbackUI({ retryId: "override-id" });
+
+      expect(setupFallbackFeedback).toHaveBeenCalledWith(mockEl, "override-id");
+    });
+
     it("does not throw when getElementsByClassName returns empty collection", () => {
       mockGetRetryStateFromUrl.mockReturnValue({ retryAttempt: 3, retryId: "r1" });
       const mockEl = { innerHTML: "", querySelector: () => null };
@@ -193,6 +219,88 @@ describe("showFallbackUI", () => {
       expect(mockEl.querySelector).toHaveBeenCalledWith('[data-spa-guard-action="reload"]');
       expect(reloadBtn.addEventListener).toHaveBeenCalledWith("click", expect.any(Function));
     });
+
+    it("clears caches when the clear-cache button is clicked", () => {
+      mockGetOptions.mockReturnValue({
+        html: {
+          fallback: {
+            content:
+              '<div><button data-spa-guard-action="clear-cache">Clear cache and reload</button></div>',
+            selector: "body",
+          },
+        },
+      });
+
+      showFallbackUI();
+      document.querySelector<HTMLButtonElement>('[data-spa-guard-action="clear-cache"]')!.click();
+
+      expect(clearCacheAndReload).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("category templates", () => {
+    const templateOptions = {
+      html: {
+        fallback: {
+          content: "<div>Generic</div>",
+          selector: "body",
+          templates: { offline: "<div>Offline</div>", "stale-deploy": "<div>Stale</div>" },
+        },
+      },
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const render = (override?: Parameters<typeof showFallbackUI>[0]) => {
+      const mockEl = { innerHTML: "", querySelector: () => null };
+      vi.spyOn(document, "querySelector").mockReturnValue(mockEl as unknown as Element);
+      vi.spyOn(document, "getElementsByClassName").mockReturnValue(
+        [] as unknown as HTMLCollectionOf<Element>,
+      );
+      showFallbackUI(override);
+      return mockEl.innerHTML;
+    };
+
+    it("renders the template of the given category", () => {
+      mockGetOptions.mockReturnValue(templateOptions);
+
+      expect(render({ category: "stale-deploy" })).toBe("<div>Stale</div>");
+      expect(mockEmitEvent).toHaveBeenCalledWith({
+        category: "stale-deploy",
+        name: "fallback-ui-shown",
+      });
+    });
+
+    it("falls back to content for categories without a template", () => {
+      mockGetOptions.mockReturnValue(templateOptions);
+
+      expect(render({ category: "static-asset" })).toBe("<div>Generic</div>");
+    });
+
+    it("uses the offline template without an explicit category when the browser is offline", () => {
+      mockGetOptions.mockReturnValue(templateOptions);
+      vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+
+      expect(render()).toBe("<div>Offline</div>");
+    });
+
+    it("renders the stale-deploy template for a chunk error caught by an error boundary", () => {
+      mockGetOptions.mockReturnValue(templateOptions);
+
+      expect(render({ category: resolveFallbackCategory("error-boundary") })).toBe(
+        "<div>Stale</div>",
+      );
+    });
+
+    it("prefers templates.generic over content", () => {
+      mockGetOptions.mockReturnValue({
+        html: { fallback: { content: "<div>Content</div>", templates: { generic: "<p>G</p>" } } },
+      });
+
+      expect(render({ category: "generic" })).toBe("<p>G</p>");
+    });
   });
 
   describe("lifecycle isolation - no side effects on state", () => {
@@ -256,7 +364,9 @@ describe("showFallbackUI", () => {
 
       showFallbackUI();
 
-      expect(mockEmitEvent).not.toHaveBeenCalledWith({ name: "fallback-ui-shown" });
+      expect(mockEmitEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ name: "fallback-ui-shown" }),
+      );
     });
 
     it("calls noFallbackConfigured logger when HTML is missing", () => {
@@ -307,7 +417,9 @@ describe("showFallbackUI", () => {
 
       showFallbackUI();
 
-      expect(mockEmitEvent).not.toHaveBeenCalledWith({ name: "fallback-ui-shown" });
+      expect(mockEmitEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ name: "fallback-ui-shown" }),
+      );
     });
 
     it("calls fallbackTargetNotFound logger when element is not found", () => {
@@ -384,7 +496,9 @@ describe("showFallbackUI", () => {
 
       showFallbackUI();
 
-      expect(mockEmitEvent).not.toHaveBeenCalledWith({ name: "fallback-ui-shown" });
+      expect(mockEmitEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ name: "fallback-ui-shown" }),
+      );
     });
   });
 
@@ -407,6 +521,32 @@ describe("showFallbackUI", () => {
   });
 });
 
+describe("resolveFallbackCategory", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ["chunk-error", "stale-deploy"],
+    ["force-retry", "stale-deploy"],
+    ["lazy-import-failure", "stale-deploy"],
+    ["vite:preloadError", "stale-deploy"],
+    ["static-asset-error", "static-asset"],
+    ["unhandled-rejection", "generic"],
+    ["error-boundary", "stale-deploy"],
+    [undefined, "generic"],
+  ])("maps source %s to %s", (source, category) => {
+    expect(resolveFallbackCategory(source)).toBe(category);
+  });
+
+  it("returns offline whenever the browser is offline", () => {
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+
+    expect(resolveFallbackCategory("chunk-error")).toBe("offline");
+    expect(resolveFallbackCategory()).toBe("offline");
+  });
+});
+
 describe("showLoadingUI", () => {
   const loadingTemplate = `<div><section data-spa-guard-section="retrying" style="display:none;visibility:hidden">Attempt <span data-spa-guard-content="attempt">?</span></section><div data-spa-guard-spinner>Loading...</div></div>`;
 
@@ -433,14 +573,17 @@ describe("showLoadingUI", () => {
     expect(targetEl.querySelector('[data-spa-guard-section="retrying"]')).not.toBeNull();
   });
 
-  it("sets attempt number in elements with [data-spa-guard-content='attempt']", () => {
+  it("leaves [data-spa-guard-content='attempt'] elements to applyI18n", () => {
     const targetEl = document.createElement("div");
     vi.spyOn(document, "querySelector").mockReturnValue(targetEl as unknown as Element);
 
     showLoadingUI(3);
 
-    const attemptEl = targetEl.querySelector('[data-spa-guard-content="attempt"]');
-    expect(attemptEl?.textContent).toBe("3");
+    expect(mockApplyI18n).toHaveBeenCalledWith(
+      expect.any(HTMLElement),
+      null,
+      expect.objectContaining({ attempt: 3 }),
+    );
   });
 
   it("reveals retry section via data-spa-guard-section='retrying'", () => {
@@ -501,6 +644,22 @@ describe("showLoadingUI", () => {
     expect(mockApplyI18n).toHaveBeenCalled();
   });
 
+  it("passes the attempt and the number of reload attempts to applyI18n", () => {
+    mockGetOptions.mockReturnValue({
+      html: { fallback: { selector: "body" }, loading: { content: loadingTemplate } },
+      reloadDelays: [1000, 2000, 5000],
+    });
+    const targetEl = document.createElement("div");
+    vi.spyOn(document, "querySelector").mockReturnValue(targetEl as unknown as Element);
+
+    showLoadingUI(2);
+
+    expect(mockApplyI18n).toHaveBeenCalledWith(expect.any(HTMLElement), null, {
+      attempt: 2,
+      total: 3,
+    });
+  });
+
   it("returns silently when loading content is not configured", () => {
     mockGetOptions.mockReturnValue({
       html: {
@@ -1,8 +1,41 @@
+import type { FallbackCategory } from "./options";
+
+import { resolveDelays } from "./backoff";
+import { clearCacheAndReload } from "./clearCache";
 import { emitEvent, getLogger } from "./events/internal";
+import { setupFallbackFeedback } from "./fallbackFeedback";
 import { applyI18n, getI18n } from "./i18n";
 import { getOptions } from "./options";
 import { getRetryStateFromUrl } from "./retryState";
 
+const STALE_DEPLOY_SOURCES = new Set([
+  "chunk-error",
+  // handleErrorWithSpaGuard only retries chunk errors and errors.forceRetry matches
+  "error-boundary",
+  "force-retry",
+  "lazy-import-failure",
+  "vite:preloadError",
+]);
+
+const STATIC_ASSET_SOURCES = new Set(["static-asset", "static-asset-error"]);
+
+/**
+ * Picks the fallback category for the `source` passed to `triggerRetry`.
+ * Being offline wins over the source: reloading cannot help until the connection is back.
+ */
+export const resolveFallbackCategory = (source?: string): FallbackCategory => {
+  if (globalThis.navigator?.onLine === false) {
+    return "offline";
+  }
+  if (source !== undefined && STALE_DEPLOY_SOURCES.has(source)) {
+    return "stale-deploy";
+  }
+  if (source !== undefined && STATIC_ASSET_SOURCES.has(source)) {
+    return "static-asset";
+  }
+  return "generic";
+};
+
 /**
  * Renders the loading UI into the DOM during a retry delay before reload.
  *
@@ -29,10 +62,8 @@ export const showLoadingUI = (attempt: number): void => {
     const container = document.createElement("div");
     container.innerHTML = loadingHtml;
 
-    const t = getI18n();
-    if (t) {
-      applyI18n(container, t);
-    }
+    const total = resolveDelays(options.reloadDelays ?? [], false).length;
+    applyI18n(container, getI18n(), { attempt, total });
 
     targetElement.innerHTML = container.innerHTML;
 
@@ -43,11 +74,6 @@ export const showLoadingUI = (attempt: number): void => {
       retrySectionEl.style.visibility = "visible";
     }
 
-    const attemptElements = targetElement.querySelectorAll('[data-spa-guard-content="attempt"]');
-    for (const el of attemptElements) {
-      el.textContent = String(attempt);
-    }
-
     const spinnerEl = targetElement.querySelector("[data-spa-guard-spinner]");
     if (spinnerEl) {
       const spinnerOptions = options.html?.spinner;
@@ -63,7 +89,9 @@ export const showLoadingUI = (attempt: number): void => {
 };
 
 /**
- * Renders the fallback UI into the DOM.
+ * Renders the fallback UI into the DOM, using `html.fallback.templates[category]`
+ * when configured and `html.fallback.content` otherwise. Without an explicit
+ * category only the network state is taken into account.
  *
  * This is a pure rendering helper. It has no lifecycle side effects:
  * it does not set fallback mode, does not check whether fallback mode is
@@ -74,9 +102,14 @@ export const showLoadingUI = (attempt: number): void => {
  * Fails safely: if fallback HTML is not configured or the target element
  * is not found, logs a warning and returns without side effects or errors.
  */
-export const showFallbackUI = (override?: { retryId?: string }): void => {
+export const showFallbackUI = (override?: {
+  category?: FallbackCategory;
+  retryId?: string;
+}): void => {
   const options = getOptions();
-  const fallbackHtml = options.html?.fallback?.content;
+  const category = override?.category ?? resolveFallbackCategory();
+  const fallbackHtml =
+    options.html?.fallback?.templates?.[category] ?? options.html?.fallback?.content;
   const selector = options.html?.fallback?.selector ?? "body";
 
   if (!fallbackHtml) {
@@ -93,13 +126,12 @@ export const showFallbackUI = (override?: { retryId?: string }): void => {
       return;
     }
 
+    const retryId = override?.retryId ?? getRetryStateFromUrl()?.retryId;
+
     const container = document.createElement("div");
     container.innerHTML = fallbackHtml;
 
-    const t = getI18n();
-    if (t) {
-      applyI18n(container, t);
-    }
+    applyI18n(container, getI18n(), retryId ? { retryId } : {});
 
     targetElement.innerHTML = container.innerHTML;
 
@@ -108,7 +140,11 @@ export const showFallbackUI = (override?: { retryId?: string }): void => {
       reloadBtn.addEventListener("click", () => globalThis.window.location.reload());
     }
 
-    const retryId = override?.retryId ?? getRetryStateFromUrl()?.retryId;
+    const clearCacheBtn = targetElement.querySelector('[data-spa-guard-action="clear-cache"]');
+    if (clearCacheBtn) {
+      clearCacheBtn.addEventListener("click", () => void clearCacheAndReload());
+    }
+
     if (retryId) {
       const retryIdElements = document.getElementsByClassName("spa-guard-retry-id");
       for (const element of retryIdElements) {
@@ -116,7 +152,10 @@ export const showFallbackUI = (override?: { retryId?: string }): void => {
       }
     }
 
+    setupFallbackFeedback(targetElement, retryId);
+
     emitEvent({
+      category,
       name: "fallback-ui-shown",
     });
   } catch (error) {
@@ -124,6 +124,7 @@ describe("handleErrorWithSpaGuard", () => {
 
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ eventName: "my-custom-event" }),
+        expect.anything(),
       );
     });
 
@@ -135,6 +136,7 @@ describe("handleErrorWithSpaGuard", () => {
 
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: "specific error message" }),
+        { error },
       );
     });
 
@@ -146,6 +148,7 @@ describe("handleErrorWithSpaGuard", () => {
 
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: "string error value" }),
+        expect.anything(),
       );
     });
 
@@ -158,6 +161,7 @@ describe("handleErrorWithSpaGuard", () => {
 
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ retryAttempt: 2, retryId: "retry-123" }),
+        expect.anything(),
       );
     });
 
@@ -258,13 +262,19 @@ describe("handleErrorWithSpaGuard", () => {
 
       handleErrorWithSpaGuard(error, { eventName: "test-event" });
 
-      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(["specific message"]);
+      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(
+        ["specific message"],
+        expect.objectContaining({ source: "error-boundary" }),
+      );
     });
 
     it("checks shouldIgnoreMessages with String(error) for non-Error values", () => {
       handleErrorWithSpaGuard("string error", { eventName: "test-event" });
 
-      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(["string error"]);
+      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(
+        ["string error"],
+        expect.objectContaining({ source: "error-boundary" }),
+      );
     });
   });
 
@@ -297,6 +307,7 @@ describe("handleErrorWithSpaGuard", () => {
 
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ serialized: '{"type":"Error","message":"test"}' }),
+        expect.anything(),
       );
     });
 
@@ -407,6 +418,7 @@ describe("handleErrorWithSpaGuard", () => {
 
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: "null" }),
+        expect.anything(),
       );
     });
 
@@ -425,6 +437,7 @@ describe("handleErrorWithSpaGuard", () => {
 
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: "undefined" }),
+        expect.anything(),
       );
     });
 
@@ -437,7 +450,10 @@ describe("handleErrorWithSpaGuard", () => {
         handleErrorWithSpaGuard(error, { eventName: "test-event" });
       }).not.toThrow();
 
-      expect(mockSendBeacon).toHaveBeenCalledWith(expect.objectContaining({ errorMessage: "" }));
+      expect(mockSendBeacon).toHaveBeenCalledWith(
+        expect.objectContaining({ errorMessage: "" }),
+        expect.anything(),
+      );
     });
 
     it("handles non-Error object without throwing", () => {
@@ -457,6 +473,7 @@ describe("handleErrorWithSpaGuard", () => {
 
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: "[object Object]" }),
+        expect.anything(),
       );
     });
 
@@ -467,7 +484,10 @@ describe("handleErrorWithSpaGuard", () => {
         handleErrorWithSpaGuard(42, { eventName: "test-event" });
       }).not.toThrow();
 
-      expect(mockSendBeacon).toHaveBeenCalledWith(expect.objectContaining({ errorMessage: "42" }));
+      expect(mockSendBeacon).toHaveBeenCalledWith(
+        expect.objectContaining({ errorMessage: "42" }),
+        expect.anything(),
+      );
     });
 
     it("calls isChunkError with the provided error", () => {
@@ -540,13 +560,19 @@ describe("handleErrorWithSpaGuard", () => {
 
       handleErrorWithSpaGuard(error, { eventName: "test-event" });
 
-      expect(mockShouldForceRetry).toHaveBeenCalledWith(["my custom error message"]);
+      expect(mockShouldForceRetry).toHaveBeenCalledWith(
+        ["my custom error message"],
+        expect.objectContaining({ source: "error-boundary" }),
+      );
     });
 
     it("calls shouldForceRetry with String(error) for non-Error values", () => {
       handleErrorWithSpaGuard("string error", { eventName: "test-event" });
 
-      expect(mockShouldForceRetry).toHaveBeenCalledWith(["string error"]);
+      expect(mockShouldForceRetry).toHaveBeenCalledWith(
+        ["string error"],
+        expect.objectContaining({ source: "error-boundary" }),
+      );
     });
 
     it("chunk error takes priority over forceRetry (both true)", () => {
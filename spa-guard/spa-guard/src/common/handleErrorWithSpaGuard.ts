@@ -41,21 +41,26 @@ export const handleErrorWithSpaGuard = (error: unknown, options: HandleErrorOpti
 
   const errorMessage = error instanceof Error ? error.message : String(error);
 
-  if (shouldIgnoreMessages([errorMessage])) {
+  const matchContext = { error, source: "error-boundary" } as const;
+
+  if (shouldIgnoreMessages([errorMessage], matchContext)) {
     return;
   }
 
   const isChunk = isChunkError(error);
-  const isForceRetry = shouldForceRetry([errorMessage]);
+  const isForceRetry = shouldForceRetry([errorMessage], matchContext);
 
   if ((isChunk || isForceRetry) && autoRetryChunkErrors) {
     triggerRetry({ error, source: "error-boundary" });
   } else if (sendBeaconOnError) {
-    sendBeacon({
-      errorMessage: error instanceof Error ? error.message : String(error),
-      eventName,
-      serialized: serializeError(errorInfo ? { error, errorInfo } : error),
-      ...getRetryInfoForBeacon(),
-    });
+    sendBeacon(
+      {
+        errorMessage: error instanceof Error ? error.message : String(error),
+        eventName,
+        serialized: serializeError(errorInfo ? { error, errorInfo } : error),
+        ...getRetryInfoForBeacon(),
+      },
+      { error },
+    );
   }
 };
@@ -2,8 +2,11 @@ import { describe, expect, it } from "vitest";
 
 import {
   defaultErrorFallbackHtml,
+  defaultFallbackFeedbackHtml,
+  defaultFallbackRecoveryHtml,
   defaultLoadingFallbackHtml,
   defaultSpinnerHtml,
+  defaultUpdatePromptHtml,
 } from "./html.generated";
 
 describe("html.generated", () => {
@@ -39,6 +42,11 @@ describe("html.generated", () => {
       expect(defaultErrorFallbackHtml).not.toContain("onclick");
     });
 
+    it("contains clear-cache button", () => {
+      expect(defaultErrorFallbackHtml).toContain('data-spa-guard-action="clear-cache"');
+      expect(defaultErrorFallbackHtml).toContain("Clear cache and reload");
+    });
+
     it("contains Error ID span", () => {
       expect(defaultErrorFallbackHtml).toContain("spa-guard-retry-id");
     });
@@ -72,6 +80,30 @@ describe("html.generated", () => {
     it("is minified (no newlines)", () => {
       expect(defaultErrorFallbackHtml).not.toContain("\n");
     });
+
+    it("leaves out the opt-in feedback and recovery sections", () => {
+      expect(defaultErrorFallbackHtml).not.toContain('data-spa-guard-section="feedback"');
+      expect(defaultErrorFallbackHtml).not.toContain('data-spa-guard-section="recovery"');
+    });
+  });
+
+  describe("defaultFallbackFeedbackHtml", () => {
+    it("contains the hidden feedback form and the sent message", () => {
+      expect(defaultFallbackFeedbackHtml).toContain('data-spa-guard-section="feedback"');
+      expect(defaultFallbackFeedbackHtml).toContain('data-spa-guard-section="feedback-sent"');
+      expect(defaultFallbackFeedbackHtml).toContain('data-spa-guard-action="send-feedback"');
+    });
+
+    it("brings its own input styles", () => {
+      expect(defaultFallbackFeedbackHtml).toContain(".spa-guard-input{");
+    });
+  });
+
+  describe("defaultFallbackRecoveryHtml", () => {
+    it("contains the hidden countdown", () => {
+      expect(defaultFallbackRecoveryHtml).toContain('data-spa-guard-section="recovery"');
+      expect(defaultFallbackRecoveryHtml).toContain('data-spa-guard-content="nextCheck"');
+    });
   });
 
   describe("defaultLoadingFallbackHtml", () => {
@@ -84,8 +116,14 @@ describe("html.generated", () => {
       expect(defaultLoadingFallbackHtml).toContain("Loading...");
     });
 
-    it("contains retry attempt span with data attribute", () => {
-      expect(defaultLoadingFallbackHtml).toContain('data-spa-guard-content="attempt"');
+    it("contains the attempt placeholder in the retrying text", () => {
+      expect(defaultLoadingFallbackHtml).toContain("Retry attempt {attempt}");
+    });
+
+    it("keeps the attempt element for retrying texts without {attempt}", () => {
+      expect(defaultLoadingFallbackHtml).toContain(
+        '<span data-spa-guard-content="attempt"></span>',
+      );
     });
 
     it("contains retrying section (hidden by default)", () => {
@@ -151,6 +189,28 @@ describe("html.generated", () => {
     });
   });
 
+  describe("defaultUpdatePromptHtml", () => {
+    it("contains the default text", () => {
+      expect(defaultUpdatePromptHtml).toContain("A new version is available");
+      expect(defaultUpdatePromptHtml).toContain('data-spa-guard-content="updateAvailable"');
+    });
+
+    it("contains reload-now and later buttons without inline onclick (CSP-safe)", () => {
+      expect(defaultUpdatePromptHtml).toContain('data-spa-guard-action="reload-now"');
+      expect(defaultUpdatePromptHtml).toContain('data-spa-guard-action="later"');
+      expect(defaultUpdatePromptHtml).not.toContain("onclick");
+    });
+
+    it("is themeable through CSS variables", () => {
+      expect(defaultUpdatePromptHtml).toContain("var(--spa-guard-update-prompt-bg,");
+      expect(defaultUpdatePromptHtml).toContain("var(--spa-guard-update-prompt-accent,");
+    });
+
+    it("is minified (no newlines)", () => {
+      expect(defaultUpdatePromptHtml).not.toContain("\n");
+    });
+  });
+
   describe("all templates", () => {
     it("error template is larger than loading template", () => {
       expect(defaultErrorFallbackHtml.length).toBeGreaterThan(defaultLoadingFallbackHtml.length);
@@ -2,10 +2,19 @@
 // Do not edit manually
 
 // prettier-ignore
-export const defaultErrorFallbackHtml = `<style>.spa-guard-error-id:has(.spa-guard-retry-id:empty){display:none}.spa-guard-error-id{font-family:ui-monospace,SFMono-Regular,Consolas,"Liberation Mono",Menlo,monospace}.spa-guard-fallback-root{display:flex;align-items:center;justify-content:center;min-height:100vh;padding:2rem;font-family:system-ui,sans-serif;background:#fff;color:#1a1a1a;color-scheme:light dark}.spa-guard-fallback-icon{stroke:#b0b0b0}.spa-guard-fallback-message{color:#666}.spa-guard-fallback-muted{color:#999}.spa-guard-btn-secondary{border:1px solid #d0d0d0;background:#fff;color:#333}.spa-guard-btn-primary{border:1px solid transparent;background:#111;color:#fff}@media (prefers-color-scheme:dark){.spa-guard-fallback-root{background:#111318;color:#e7eaf0}.spa-guard-fallback-icon{stroke:#8b95a7}.spa-guard-fallback-message{color:#b8bfca}.spa-guard-fallback-muted{color:#8b95a7}.spa-guard-btn-secondary{border-color:#3b4351;background:#1a1f28;color:#d8deea}.spa-guard-btn-primary{background:#e7eaf0;color:#151922}}</style><div class="spa-guard-fallback-root"><div style="text-align:center;max-width:480px"><div style="margin-bottom:1.5rem"><svg class="spa-guard-fallback-icon" xmlns="http://www.w3.org/2000/svg" width="48" height="48" fill="none" viewBox="0 0 24 24" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><line x1="12" y1="8" x2="12" y2="12"/><line x1="12" y1="16" x2="12.01" y2="16"/></svg></div><h1 data-spa-guard-content="heading" style="font-size:1.375rem;font-weight:600;margin:0 0 .5rem;line-height:1.3">Something went wrong</h1><p data-spa-guard-content="message" class="spa-guard-fallback-message" style="max-width:600px;margin:0 auto 1.5rem;font-size:.9375rem;line-height:1.5">Please refresh the page to continue.</p><div style="display:flex;gap:.5rem;justify-content:center;flex-wrap:wrap"><button data-spa-guard-action="try-again" type="button" class="spa-guard-btn-secondary" style="display:none;padding:.5rem 1.25rem;font-size:.875rem;font-family:inherit;border-radius:6px;cursor:pointer;line-height:1.5">Try again</button> <button data-spa-guard-action="reload" type="button" class="spa-guard-btn-primary" style="padding:.5rem 1.25rem;font-size:.875rem;font-family:inherit;border-radius:6px;cursor:pointer;line-height:1.5">Reload page</button></div><p class="spa-guard-error-id spa-guard-fallback-muted" style="margin-top:1.5rem;font-size:.6875rem">Error ID: <span class="spa-guard-retry-id"></span></p></div></div>`;
+export const defaultErrorFallbackHtml = `<style>.spa-guard-error-id:has(.spa-guard-retry-id:empty){display:none}.spa-guard-error-id{font-family:ui-monospace,SFMono-Regular,Consolas,"Liberation Mono",Menlo,monospace}.spa-guard-fallback-root{display:flex;align-items:center;justify-content:center;min-height:100vh;padding:2rem;font-family:system-ui,sans-serif;background:#fff;color:#1a1a1a;color-scheme:light dark}.spa-guard-fallback-icon{stroke:#b0b0b0}.spa-guard-fallback-message{color:#666}.spa-guard-fallback-muted{color:#999}.spa-guard-btn-secondary{border:1px solid #d0d0d0;background:#fff;color:#333}.spa-guard-btn-primary{border:1px solid transparent;background:#111;color:#fff}@media (prefers-color-scheme:dark){.spa-guard-fallback-root{background:#111318;color:#e7eaf0}.spa-guard-fallback-icon{stroke:#8b95a7}.spa-guard-fallback-message{color:#b8bfca}.spa-guard-fallback-muted{color:#8b95a7}.spa-guard-btn-secondary{border-color:#3b4351;background:#1a1f28;color:#d8deea}.spa-guard-btn-primary{background:#e7eaf0;color:#151922}}</style><div class="spa-guard-fallback-root"><div style="text-align:center;max-width:480px"><div style="margin-bottom:1.5rem"><svg class="spa-guard-fallback-icon" xmlns="http://www.w3.org/2000/svg" width="48" height="48" fill="none" viewBox="0 0 24 24" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><line x1="12" y1="8" x2="12" y2="12"/><line x1="12" y1="16" x2="12.01" y2="16"/></svg></div><h1 data-spa-guard-content="heading" style="font-size:1.375rem;font-weight:600;margin:0 0 .5rem;line-height:1.3">Something went wrong</h1><p data-spa-guard-content="message" class="spa-guard-fallback-message" style="max-width:600px;margin:0 auto 1.5rem;font-size:.9375rem;line-height:1.5">Please refresh the page to continue.</p><div style="display:flex;gap:.5rem;justify-content:center;flex-wrap:wrap"><button data-spa-guard-action="try-again" type="button" class="spa-guard-btn-secondary" style="display:none;padding:.5rem 1.25rem;font-size:.875rem;font-family:inherit;border-radius:6px;cursor:pointer;line-height:1.5">Try again</button> <button data-spa-guard-action="clear-cache" type="button" class="spa-guard-btn-secondary" style="padding:.5rem 1.25rem;font-size:.875rem;font-family:inherit;border-radius:6px;cursor:pointer;line-height:1.5">Clear cache and reload</button> <button data-spa-guard-action="reload" type="button" class="spa-guard-btn-primary" style="padding:.5rem 1.25rem;font-size:.875rem;font-family:inherit;border-radius:6px;cursor:pointer;line-height:1.5">Reload page</button></div><p class="spa-guard-error-id spa-guard-fallback-muted" style="margin-top:1.5rem;font-size:.6875rem">Error ID: <span class="spa-guard-retry-id"></span></p></div></div>`;
 
 // prettier-ignore
-export const defaultLoadingFallbackHtml = `<style>.spa-guard-loading-root{display:flex;align-items:center;justify-content:center;min-height:100vh;padding:2rem;font-family:system-ui,sans-serif;background:#fff;color:#1a1a1a;color-scheme:light dark}.spa-guard-loading-muted{color:#999}@media (prefers-color-scheme:dark){.spa-guard-loading-root{background:#111318;color:#e7eaf0}.spa-guard-loading-muted{color:#8b95a7}}</style><div class="spa-guard-loading-root"><div style="text-align:center"><div data-spa-guard-spinner style="margin-bottom:1.25rem"></div><h2 data-spa-guard-content="loading" style="font-size:1.125rem;font-weight:600;margin:0 0 .25rem">Loading...</h2><p data-spa-guard-section="retrying" class="spa-guard-loading-muted" style="display:none;font-size:.8125rem;margin:.5rem 0 0"><span data-spa-guard-content="retrying">Retry attempt</span> <span data-spa-guard-content="attempt"></span></p></div></div>`;
+export const defaultFallbackFeedbackHtml = `<style>.spa-guard-input{border:1px solid #d0d0d0;background:#fff;color:inherit}@media (prefers-color-scheme:dark){.spa-guard-input{border-color:#3b4351;background:#1a1f28}}</style><form data-spa-guard-section="feedback" style="display:none;max-width:360px;margin:1.5rem auto 0;text-align:start"><p data-spa-guard-content="feedbackTitle" style="margin:0 0 .5rem;font-size:.875rem;font-weight:600">Report a problem</p><textarea data-spa-guard-input="feedback-message" data-spa-guard-placeholder="feedbackMessage" placeholder="What were you doing when this happened?" maxlength="2000" rows="3" required class="spa-guard-input" style="box-sizing:border-box;width:100%;padding:.5rem;font-size:.875rem;font-family:inherit;border-radius:6px;resize:vertical"></textarea> <input data-spa-guard-input="feedback-email" data-spa-guard-placeholder="feedbackEmail" placeholder="Email (optional)" type="email" maxlength="254" class="spa-guard-input" style="box-sizing:border-box;width:100%;margin:.5rem 0;padding:.5rem;font-size:.875rem;font-family:inherit;border-radius:6px"> <button data-spa-guard-action="send-feedback" type="submit" class="spa-guard-btn-secondary" style="padding:.5rem 1.25rem;font-size:.875rem;font-family:inherit;border-radius:6px;cursor:pointer;line-height:1.5">Send report</button></form><p data-spa-guard-section="feedback-sent" data-spa-guard-content="feedbackSent" class="spa-guard-fallback-muted" style="display:none;margin:1rem 0 0;font-size:.8125rem">Thanks! Your report has been sent</p>`;
+
+// prettier-ignore
+export const defaultFallbackRecoveryHtml = `<p data-spa-guard-section="recovery" class="spa-guard-fallback-muted" style="display:none;margin:1rem 0 0;font-size:.8125rem"><span data-spa-guard-content="nextCheck">Checking again in {seconds}s</span></p>`;
+
+// prettier-ignore
+export const defaultLoadingFallbackHtml = `<style>.spa-guard-loading-root{display:flex;align-items:center;justify-content:center;min-height:100vh;padding:2rem;font-family:system-ui,sans-serif;background:#fff;color:#1a1a1a;color-scheme:light dark}.spa-guard-loading-muted{color:#999}@media (prefers-color-scheme:dark){.spa-guard-loading-root{background:#111318;color:#e7eaf0}.spa-guard-loading-muted{color:#8b95a7}}</style><div class="spa-guard-loading-root"><div style="text-align:center"><div data-spa-guard-spinner style="margin-bottom:1.25rem"></div><h2 data-spa-guard-content="loading" style="font-size:1.125rem;font-weight:600;margin:0 0 .25rem">Loading...</h2><p data-spa-guard-section="retrying" class="spa-guard-loading-muted" style="display:none;font-size:.8125rem;margin:.5rem 0 0"><span data-spa-guard-content="retrying">Retry attempt {attempt}</span> <span data-spa-guard-content="attempt"></span></p></div></div>`;
 
 // prettier-ignore
 export const defaultSpinnerHtml = `<svg width="40" height="40" viewBox="0 0 40 40" style="animation:spa-guard-spin .8s linear infinite"><circle cx="20" cy="20" r="16" fill="none" stroke="#e8e8e8" stroke-width="3"/><circle cx="20" cy="20" r="16" fill="none" stroke="#666" stroke-width="3" stroke-dasharray="80" stroke-dashoffset="60" stroke-linecap="round"/></svg><style>@keyframes spa-guard-spin{to{transform:rotate(360deg)}}</style>`;
+
+// prettier-ignore
+export const defaultUpdatePromptHtml = `<style>.spa-guard-update-prompt{position:fixed;right:1rem;bottom:1rem;z-index:2147483646;display:flex;flex-wrap:wrap;align-items:center;gap:.75rem;max-width:min(420px,calc(100vw - 2rem));padding:.75rem 1rem;border-radius:var(--spa-guard-update-prompt-radius,8px);box-shadow:0 4px 16px rgba(0,0,0,.2);font-family:var(--spa-guard-update-prompt-font, system-ui, sans-serif);font-size:.875rem;line-height:1.5;background:var(--spa-guard-update-prompt-bg,#111);color:var(--spa-guard-update-prompt-color,#fff)}.spa-guard-update-prompt-text{flex:1;margin:0}.spa-guard-update-prompt button{padding:.375rem .875rem;font-family:inherit;font-size:inherit;border-radius:6px;cursor:pointer;line-height:1.5}.spa-guard-update-prompt-later{border:1px solid currentColor;background:0 0;color:inherit}.spa-guard-update-prompt-reload{border:1px solid transparent;background:var(--spa-guard-update-prompt-accent,#fff);color:var(--spa-guard-update-prompt-accent-color,#111)}@media (prefers-color-scheme:dark){.spa-guard-update-prompt{background:var(--spa-guard-update-prompt-bg,#e7eaf0);color:var(--spa-guard-update-prompt-color,#151922)}.spa-guard-update-prompt-reload{background:var(--spa-guard-update-prompt-accent,#151922);color:var(--spa-guard-update-prompt-accent-color,#e7eaf0)}}</style><div class="spa-guard-update-prompt" role="status" aria-live="polite"><p data-spa-guard-content="updateAvailable" class="spa-guard-update-prompt-text">A new version is available</p><button data-spa-guard-action="later" type="button" class="spa-guard-update-prompt-later">Later</button> <button data-spa-guard-action="reload-now" type="button" class="spa-guard-update-prompt-reload">Reload now</button></div>`;
@@ -1,26 +1,70 @@
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import type { SpaGuardTranslations } from "../i18n";
+import type { ExtendedTranslations, SpaGuardTranslations } from "../i18n";
+import type { Options } from "./options";
 
-import { applyI18n, getI18n, setTranslations } from "./i18n";
+import { optionsWindowKey } from "./constants";
+import { defaultErrorFallbackHtml, defaultLoadingFallbackHtml } from "./html.generated";
+
+import {
+  applyI18n,
+  formatTranslation,
+  getI18n,
+  getTemplateTranslationKeys,
+  interpolate,
+  setTranslations,
+  translate,
+} from "./i18n";
 
 const koTranslations: SpaGuardTranslations = {
+  clearCache: "캐시 지우고 새로고침",
+  feedbackEmail: "이메일 (선택 사항)",
+  feedbackMessage: "문제가 발생했을 때 무엇을 하고 계셨나요?",
+  feedbackSent: "감사합니다! 신고가 전송되었습니다",
+  feedbackTitle: "문제 신고",
   heading: "문제가 발생했습니다",
+  later: "나중에",
   loading: "로딩 중...",
   message: "페이지를 새로고침해 주세요.",
+  nextCheck: "다시 확인까지",
+  offlineHeading: "오프라인 상태입니다",
+  offlineMessage: "인터넷 연결을 확인하고 페이지를 새로고침하세요",
   reload: "새로고침",
+  reloadNow: "지금 새로고침",
   retrying: "재시도",
+  sendFeedback: "신고 보내기",
+  staleDeployHeading: "앱이 업데이트되었습니다",
+  staleDeployMessage: "최신 버전을 불러오려면 페이지를 새로고침하세요",
+  staticAssetHeading: "일부 파일을 불러오지 못했습니다",
+  staticAssetMessage: "다시 시도하려면 페이지를 새로고침하세요",
   tryAgain: "다시 시도",
+  updateAvailable: "새 버전을 사용할 수 있습니다",
 };
 
 const arTranslations: SpaGuardTranslations = {
+  clearCache: "مسح ذاكرة التخزين المؤقت وإعادة التحميل", // cspell:disable-line
+  feedbackEmail: "البريد الإلكتروني (اختياري)", // cspell:disable-line
+  feedbackMessage: "ماذا كنت تفعل عندما حدث ذلك؟", // cspell:disable-line
+  feedbackSent: "شكرًا! تم إرسال بلاغك", // cspell:disable-line
+  feedbackTitle: "الإبلاغ عن مشكلة", // cspell:disable-line
   heading: "حدث خطأ ما",
+  later: "لاحقًا", // cspell:disable-line
   loading: "...جارٍ التحميل", // cspell:disable-line
   message: "يرجى تحديث الصفحة للمتابعة.", // cspell:disable-line
+  nextCheck: "التحقق مجددًا خلال", // cspell:disable-line
+  offlineHeading: "أنت غير متصل بالإنترنت", // cspell:disable-line
+  offlineMessage: "تحقق من اتصالك بالإنترنت وأعد تحميل الصفحة", // cspell:disable-line
   reload: "إعادة تحميل", // cspell:disable-line
+  reloadNow: "إعادة التحميل الآن", // cspell:disable-line
   retrying: "محاولة إعادة", // cspell:disable-line
   rtl: true,
+  sendFeedback: "إرسال البلاغ", // cspell:disable-line
+  staleDeployHeading: "تم تحديث التطبيق", // cspell:disable-line
+  staleDeployMessage: "أعد تحميل الصفحة لتحميل أحدث إصدار", // cspell:disable-line
+  staticAssetHeading: "تعذر تحميل بعض الملفات", // cspell:disable-line
+  staticAssetMessage: "أعد تحميل الصفحة للمحاولة مرة أخرى", // cspell:disable-line
   tryAgain: "حاول مرة أخرى", // cspell:disable-line
+  updateAvailable: "يتوفر إصدار جديد", // cspell:disable-line
 };
 
 describe("common/i18n", () => {
@@ -74,6 +118,56 @@ describe("common/i18n", () => {
     });
   });
 
+  describe("getI18n with embedded translations", () => {
+    const setWindowOptions = (opts: Options) => {
+      (globalThis.window as any)[optionsWindowKey] = opts;
+    };
+
+    beforeEach(() => {
+      setWindowOptions({ i18n: { translations: { ar: arTranslations, ko: koTranslations } } });
+    });
+
+    afterEach(() => {
+      delete (globalThis.window as any)[optionsWindowKey];
+      document.documentElement.removeAttribute("lang");
+      document.head.innerHTML = "";
+      vi.restoreAllMocks();
+    });
+
+    it("resolves the language from <html lang>", () => {
+      document.documentElement.lang = "ko-KR";
+
+      expect(getI18n()).toEqual({ ...koTranslations, lang: "ko" });
+    });
+
+    it("falls back to navigator.languages", () => {
+      vi.spyOn(navigator, "languages", "get").mockReturnValue(["fr-FR", "ar-EG", "ko"]);
+
+      expect(getI18n()).toEqual({ ...arTranslations, lang: "ar" });
+    });
+
+    it("prefers <html lang> over navigator.languages", () => {
+      document.documentElement.lang = "ko";
+      vi.spyOn(navigator, "languages", "get").mockReturnValue(["ar"]);
+
+      expect(getI18n()?.lang).toBe("ko");
+    });
+
+    it("returns null when no embedded language matches", () => {
+      document.documentElement.lang = "ja";
+      vi.spyOn(navigator, "languages", "get").mockReturnValue(["de"]);
+
+      expect(getI18n()).toBeNull();
+    });
+
+    it("prefers the meta tag injected on the server", () => {
+      document.documentElement.lang = "ko";
+      setTranslations(arTranslations);
+
+      expect(getI18n()).toEqual(arTranslations);
+    });
+  });
+
   describe("setTranslations", () => {
     beforeEach(() => {
       document.head.innerHTML = "";
@@ -113,6 +207,12 @@ describe("common/i18n", () => {
       const result = getI18n();
       expect(result).toEqual(arTranslations);
     });
+
+    it("round-trips custom keys declared with the generic", () => {
+      setTranslations<"supportHint">({ ...koTranslations, supportHint: "고객 지원에 문의하세요" });
+
+      expect(getI18n<"supportHint">()?.supportHint).toBe("고객 지원에 문의하세요");
+    });
   });
 
   describe("applyI18n", () => {
@@ -144,6 +244,18 @@ describe("common/i18n", () => {
       );
     });
 
+    it("patches placeholders of data-spa-guard-placeholder fields", () => {
+      const container = document.createElement("div");
+      container.innerHTML = `<textarea data-spa-guard-placeholder="feedbackMessage" placeholder="What happened?"></textarea><input data-spa-guard-placeholder="unknownKey" placeholder="Keep me">`;
+
+      applyI18n(container, koTranslations);
+
+      expect(container.querySelector("textarea")?.getAttribute("placeholder")).toBe(
+        "문제가 발생했을 때 무엇을 하고 계셨나요?",
+      );
+      expect(container.querySelector("input")?.getAttribute("placeholder")).toBe("Keep me");
+    });
+
     it("maps try-again action to tryAgain translation key", () => {
       const container = document.createElement("div");
       container.innerHTML = `<button data-spa-guard-action="try-again">Try again</button>`;
@@ -155,6 +267,17 @@ describe("common/i18n", () => {
       );
     });
 
+    it("maps other kebab-case actions to camelCase translation keys", () => {
+      const container = document.createElement("div");
+      container.innerHTML = `<button data-spa-guard-action="reload-now">Reload now</button>`;
+
+      applyI18n(container, koTranslations);
+
+      expect(container.querySelector('[data-spa-guard-action="reload-now"]')?.textContent).toBe(
+        "지금 새로고침",
+      );
+    });
+
     it("applies RTL direction when rtl flag is set", () => {
       const container = document.createElement("div");
       container.innerHTML = `<div><h1 data-spa-guard-content="heading">Heading</h1></div>`;
@@ -222,4 +345,190 @@ describe("common/i18n", () => {
       expect(container.querySelector('[data-spa-guard-content="attempt"]')?.textContent).toBe("3");
     });
   });
+
+  describe("interpolation and plural forms", () => {
+    const secondsForms = {
+      few: "{seconds} секунды",
+      many: "{seconds} секунд",
+      one: "{seconds} секунду",
+      other: "{seconds} секунды",
+    };
+
+    it("interpolate fills known placeholders and keeps the rest", () => {
+      expect(interpolate("Retry {attempt} of {total} ({retryId}) {unknown}", { attempt: 2 })).toBe(
+        "Retry 2 of {total} ({retryId}) {unknown}",
+      );
+    });
+
+    it("formatTranslation picks the plural form for the count and language", () => {
+      expect(formatTranslation(secondsForms, { seconds: 1 }, { count: 1, lang: "ru" })).toBe(
+        "1 секунду",
+      );
+      expect(formatTranslation(secondsForms, { seconds: 3 }, { count: 3, lang: "ru" })).toBe(
+        "3 секунды",
+      );
+      expect(formatTranslation(secondsForms, { seconds: 5 }, { count: 5, lang: "ru" })).toBe(
+        "5 секунд",
+      );
+    });
+
+    it("formatTranslation uses the other form without a count or for missing forms", () => {
+      expect(formatTranslation(secondsForms, {}, { lang: "ru" })).toBe("{seconds} секунды");
+      expect(formatTranslation({ other: "{seconds}s" }, { seconds: 1 }, { count: 1 })).toBe("1s");
+    });
+
+    it("formatTranslation falls back to <html lang> and survives invalid languages", () => {
+      document.documentElement.lang = "ru";
+      expect(formatTranslation(secondsForms, { seconds: 5 }, { count: 5 })).toBe("5 секунд");
+      document.documentElement.lang = "";
+
+      expect(formatTranslation(secondsForms, { seconds: 5 }, { count: 5, lang: "!" })).toBe(
+        "5 секунды",
+      );
+    });
+
+    it("translate selects plural forms by seconds for nextCheck and by attempt for retrying", () => {
+      const t: SpaGuardTranslations = {
+        ...koTranslations,
+        lang: "en",
+        nextCheck: { one: "in {seconds} second", other: "in {seconds} seconds" },
+        retrying: { one: "{attempt}st retry", other: "retry {attempt} of {total}" },
+      };
+
+      expect(translate(t, "nextCheck", { seconds: 1 })).toBe("in 1 second");
+      expect(translate(t, "nextCheck", { seconds: 4 })).toBe("in 4 seconds");
+      expect(translate(t, "retrying", { attempt: 1, total: 3 })).toBe("1st retry");
+      expect(translate(t, "retrying", { attempt: 2, total: 3 })).toBe("retry 2 of 3");
+      expect(translate(t, "rtl")).toBeNull();
+      expect(translate(t, "unknown")).toBeNull();
+    });
+
+    it("applyI18n fills placeholders of translations", () => {
+      const container = document.createElement("div");
+      container.innerHTML = `<span data-spa-guard-content="retrying">Retry attempt {attempt}</span>`;
+
+      applyI18n(
+        container,
+        { ...koTranslations, retrying: "재시도 {attempt}/{total}" },
+        { attempt: 2, total: 3 },
+      );
+
+      expect(container.textContent).toBe("재시도 2/3");
+    });
+
+    it("applyI18n fills placeholders of the template text without translations", () => {
+      const container = document.createElement("div");
+      container.innerHTML = `<span data-spa-guard-content="retrying">Retry attempt {attempt}</span><p data-spa-guard-content="message">Error {retryId} <b>{retryId}</b></p>`;
+
+      applyI18n(container, null, { attempt: 4, retryId: "abc" });
+
+      expect(container.querySelector('[data-spa-guard-content="retrying"]')?.textContent).toBe(
+        "Retry attempt 4",
+      );
+      // Elements with markup are left alone
+      expect(container.querySelector("b")?.textContent).toBe("{retryId}");
+    });
+
+    it("applyI18n fills a separate attempt element next to a text without {attempt}", () => {
+      const container = document.createElement("div");
+      container.innerHTML = `<span data-spa-guard-content="retrying">Retry attempt</span> <span data-spa-guard-content="attempt"></span>`;
+
+      applyI18n(container, { ...koTranslations, retrying: "재시도" }, { attempt: 2 });
+
+      expect(container.textContent).toBe("재시도 2");
+    });
+
+    it("applyI18n does not repeat the attempt already shown by the retrying text", () => {
+      const container = document.createElement("div");
+      container.innerHTML = `<span data-spa-guard-content="retrying">Retry attempt</span> <span data-spa-guard-content="attempt"></span>`;
+
+      applyI18n(container, { ...koTranslations, retrying: "재시도 {attempt}" }, { attempt: 2 });
+      expect(container.textContent).toBe("재시도 2 ");
+
+      container.innerHTML = `<span data-spa-guard-content="retrying">Retry attempt {attempt}</span><span data-spa-guard-content="attempt"></span>`;
+      applyI18n(container, null, { attempt: 3 });
+      expect(container.textContent).toBe("Retry attempt 3");
+    });
+  });
+
+  describe("translations without the newer keys", () => {
+    // The keys every translation had before the optional ones were added
+    const legacyTranslations: SpaGuardTranslations = {
+      heading: "Etwas ist schiefgelaufen",
+      loading: "Wird geladen...",
+      message: "Bitte laden Sie die Seite neu.",
+      reload: "Neu laden",
+      retrying: "Neuer Versuch",
+      tryAgain: "Erneut versuchen",
+    };
+
+    it("applyI18n keeps the English template text for keys they do not have", () => {
+      const container = document.createElement("div");
+      container.innerHTML = defaultErrorFallbackHtml;
+
+      applyI18n(container, legacyTranslations);
+
+      expect(container.querySelector('[data-spa-guard-content="heading"]')?.textContent).toBe(
+        "Etwas ist schiefgelaufen",
+      );
+      expect(
+        container.querySelector('[data-spa-guard-action="clear-cache"]')?.textContent?.trim(),
+      ).toBe("Clear cache and reload");
+    });
+
+    it("applyI18n shows the attempt after a retrying text without {attempt}", () => {
+      const container = document.createElement("div");
+      container.innerHTML = defaultLoadingFallbackHtml;
+
+      applyI18n(container, legacyTranslations, { attempt: 2 });
+
+      expect(
+        container.querySelector('[data-spa-guard-section="retrying"]')?.textContent?.trim(),
+      ).toBe("Neuer Versuch 2");
+
+      container.innerHTML = defaultLoadingFallbackHtml;
+      applyI18n(container, null, { attempt: 2 });
+
+      expect(
+        container.querySelector('[data-spa-guard-section="retrying"]')?.textContent?.trim(),
+      ).toBe("Retry attempt 2");
+    });
+  });
+
+  describe("custom translation keys", () => {
+    it("applyI18n translates elements of custom templates", () => {
+      const container = document.createElement("div");
+      container.innerHTML = `<p data-spa-guard-content="supportHint">Contact support</p><button data-spa-guard-action="open-chat">Chat</button><input data-spa-guard-placeholder="chatName">`;
+
+      const t: ExtendedTranslations<"chatName" | "openChat" | "supportHint"> = {
+        ...koTranslations,
+        chatName: "이름",
+        openChat: "채팅 열기",
+        supportHint: "고객 지원에 문의하세요",
+      };
+
+      applyI18n(container, t);
+
+      expect(container.querySelector("p")?.textContent).toBe("고객 지원에 문의하세요");
+      expect(container.querySelector("button")?.textContent).toBe("채팅 열기");
+      expect(container.querySelector("input")?.getAttribute("placeholder")).toBe("이름");
+    });
+
+    it("getTemplateTranslationKeys lists content, action and placeholder keys", () => {
+      const html = `<h1 data-spa-guard-content="heading"></h1><p data-spa-guard-content='supportHint'></p><button data-spa-guard-action="try-again"></button><input data-spa-guard-placeholder="feedbackEmail"><p data-spa-guard-content="heading"></p>`;
+
+      expect(getTemplateTranslationKeys(html)).toEqual([
+        "heading",
+        "supportHint",
+        "tryAgain",
+        "feedbackEmail",
+      ]);
+    });
+
+    it("getTemplateTranslationKeys skips elements filled at runtime", () => {
+      const html = `<span data-spa-guard-content="attempt"></span><span data-spa-guard-content="next-check"></span><span data-spa-guard-content="version"></span>`;
+
+      expect(getTemplateTranslationKeys(html)).toEqual([]);
+    });
+  });
 });
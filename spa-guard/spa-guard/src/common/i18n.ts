@@ -1,36 +1,190 @@
-import type { SpaGuardTranslations } from "../i18n";
+import type { ExtendedTranslations, SpaGuardTranslations, TranslationValue } from "../i18n";
+
+import { matchAvailableLang } from "../i18n/matchLang";
+import { getOptions } from "./options";
+
+/** Values for the `{name}` placeholders of translations and template text. */
+export interface TranslationParams {
+  attempt?: number;
+  retryId?: string;
+  seconds?: number;
+  total?: number;
+}
+
+const PLACEHOLDER_PATTERN = /\{(attempt|retryId|seconds|total)\}/g;
+
+/** Replaces known placeholders that have a value in `params`; others are kept as-is. */
+export function interpolate(text: string, params: TranslationParams): string {
+  return text.replaceAll(PLACEHOLDER_PATTERN, (placeholder, name: keyof TranslationParams) => {
+    const value = params[name];
+    return value === undefined ? placeholder : String(value);
+  });
+}
+
+const selectPluralForm = (
+  count: number,
+  lang: string | undefined,
+): Intl.LDMLPluralRule | undefined => {
+  try {
+    return new Intl.PluralRules(lang || globalThis.document?.documentElement.lang || "en").select(
+      count,
+    );
+  } catch {
+    // Invalid language tag or no Intl support
+    return undefined;
+  }
+};
+
+/**
+ * Renders a translation: picks the plural form for `count` (the `other` form without a count)
+ * and fills in the placeholders.
+ */
+export function formatTranslation(
+  value: TranslationValue,
+  params: TranslationParams = {},
+  options: { count?: number | undefined; lang?: string | undefined } = {},
+): string {
+  if (typeof value === "string") {
+    return interpolate(value, params);
+  }
+  const form =
+    options.count === undefined ? undefined : selectPluralForm(options.count, options.lang);
+  return interpolate((form && value[form]) ?? value.other, params);
+}
+
+const isTranslationValue = (value: unknown): value is TranslationValue =>
+  typeof value === "string" ||
+  (!!value &&
+    typeof value === "object" &&
+    typeof (value as { other?: unknown }).other === "string");
+
+/** The number whose plural form a content key is rendered in. */
+const PLURAL_COUNT_PARAMS: Partial<Record<keyof SpaGuardTranslations, keyof TranslationParams>> = {
+  nextCheck: "seconds",
+  retrying: "attempt",
+};
+
+/**
+ * Renders translation `key` with `params`, or returns null when `t` has no such text.
+ */
+export function translate(
+  t: SpaGuardTranslations,
+  key: string,
+  params: TranslationParams = {},
+): null | string {
+  if (!(key in t)) {
+    return null;
+  }
+  const value: unknown = t[key as keyof SpaGuardTranslations];
+  if (!isTranslationValue(value)) {
+    return null;
+  }
+  const countParam = PLURAL_COUNT_PARAMS[key as keyof SpaGuardTranslations];
+  const count = countParam === undefined ? undefined : params[countParam];
+  return formatTranslation(value, params, {
+    count: typeof count === "number" ? count : undefined,
+    lang: t.lang,
+  });
+}
+
+/** Whether a translation or template text renders the `{name}` placeholder. */
+export function usesPlaceholder(value: unknown, name: keyof TranslationParams): boolean {
+  if (typeof value === "string") {
+    return value.includes(`{${name}}`);
+  }
+  return (
+    isTranslationValue(value) && Object.values(value).some((form) => form?.includes(`{${name}}`))
+  );
+}
+
+// kebab-case action → camelCase key, e.g. "try-again" → "tryAgain"
+const actionToKey = (action: string): string =>
+  action.replaceAll(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+
+/** Content elements spa-guard fills itself instead of translating them. */
+const RUNTIME_CONTENT_KEYS = new Set(["attempt", "next-check", "version"]);
+
+const TEMPLATE_KEY_PATTERN = /data-spa-guard-(action|content|placeholder)=["']?([\w-]+)/g;
+
+/**
+ * Lists the translation keys an HTML template uses through `data-spa-guard-content`,
+ * `data-spa-guard-action` and `data-spa-guard-placeholder`. Works on the raw string,
+ * so it can run at build time.
+ */
+export function getTemplateTranslationKeys(html: string): string[] {
+  const keys = new Set<string>();
+  for (const [, kind, value] of html.matchAll(TEMPLATE_KEY_PATTERN)) {
+    if (kind === "action") {
+      keys.add(actionToKey(value!));
+    } else if (!RUNTIME_CONTENT_KEYS.has(value!)) {
+      keys.add(value!);
+    }
+  }
+  return [...keys];
+}
 
 /**
  * Apply i18n translations to a virtual container's data-attributed elements.
  * Patches `[data-spa-guard-content]` and `[data-spa-guard-action]` elements,
- * and applies RTL direction if needed.
+ * the placeholders of `[data-spa-guard-placeholder]` fields, and applies RTL direction if needed.
+ * Placeholders such as `{attempt}` are filled from `params`, both in translations and in the
+ * template's own text, so `t` may be null when only the placeholders need filling.
+ * `[data-spa-guard-content="attempt"]` elements get `params.attempt`, unless another text
+ * already shows it through `{attempt}`.
  *
  * Must be called on a virtual (detached) container BEFORE inserting into DOM
  * to avoid flash of untranslated content.
  */
-export function applyI18n(container: HTMLElement, t: SpaGuardTranslations): void {
+export function applyI18n(
+  container: HTMLElement,
+  t: null | SpaGuardTranslations,
+  params: TranslationParams = {},
+): void {
   // Patch data-spa-guard-content elements
+  let attemptShown = false;
   const contentEls = container.querySelectorAll<HTMLElement>("[data-spa-guard-content]");
   for (const el of contentEls) {
-    const key = el.dataset.spaGuardContent as keyof SpaGuardTranslations;
-    if (key && key in t) {
-      const value = t[key];
-      if (typeof value === "string") {
-        el.textContent = value;
-      }
+    const key = el.dataset.spaGuardContent;
+    const text = t && key ? translate(t, key, params) : null;
+    if (text !== null) {
+      attemptShown ||= usesPlaceholder(t![key as keyof SpaGuardTranslations], "attempt");
+      el.textContent = text;
+    } else if (el.children.length === 0 && el.textContent?.includes("{")) {
+      // Untranslated template text, e.g. "Retry attempt {attempt}"
+      attemptShown ||= usesPlaceholder(el.textContent, "attempt");
+      el.textContent = interpolate(el.textContent, params);
+    }
+  }
+
+  // Older templates render the attempt next to a "Retry attempt" text without `{attempt}`;
+  // with a text that already has it, the separate element would repeat the number
+  if (params.attempt !== undefined) {
+    for (const el of container.querySelectorAll('[data-spa-guard-content="attempt"]')) {
+      el.textContent = attemptShown ? "" : String(params.attempt);
     }
   }
 
+  if (!t) {
+    return;
+  }
+
   // Patch data-spa-guard-action elements (buttons)
   const actionEls = container.querySelectorAll<HTMLElement>("[data-spa-guard-action]");
   for (const el of actionEls) {
     const action = el.dataset.spaGuardAction;
-    const tKey = action === "try-again" ? "tryAgain" : (action as keyof SpaGuardTranslations);
-    if (tKey && tKey in t) {
-      const value = t[tKey];
-      if (typeof value === "string") {
-        el.textContent = value;
-      }
+    const text = action ? translate(t, actionToKey(action), params) : null;
+    if (text !== null) {
+      el.textContent = text;
+    }
+  }
+
+  // Patch placeholders of form fields, e.g. data-spa-guard-placeholder="feedbackEmail"
+  const placeholderEls = container.querySelectorAll<HTMLElement>("[data-spa-guard-placeholder]");
+  for (const el of placeholderEls) {
+    const key = el.dataset.spaGuardPlaceholder;
+    const text = key ? translate(t, key, params) : null;
+    if (text !== null) {
+      el.setAttribute("placeholder", text);
     }
   }
 
@@ -45,20 +199,41 @@ export function applyI18n(container: HTMLElement, t: SpaGuardTranslations): void
 }
 
 /**
- * Read i18n translations from the `<meta name="spa-guard-i18n">` tag.
- * Returns parsed translations or null if the tag is absent or malformed.
+ * Picks the embedded `i18n.translations` for `<html lang>` or, failing that, the browser
+ * languages. Returns null when neither matches an embedded language (the templates are English).
  */
-export function getI18n(): null | SpaGuardTranslations {
+const getEmbeddedTranslations = (): null | SpaGuardTranslations => {
+  const embedded = getOptions().i18n?.translations;
+  if (!embedded) {
+    return null;
+  }
+  const preferred = [document.documentElement.lang, ...(globalThis.navigator?.languages ?? [])];
+  // Equal quality values keep their order, so <html lang> wins over navigator.languages
+  const lang = matchAvailableLang(preferred.filter(Boolean).join(","), [
+    "en",
+    ...Object.keys(embedded),
+  ]);
+  const t = embedded[lang];
+  return t ? { ...t, lang } : null;
+};
+
+/**
+ * Read i18n translations from the `<meta name="spa-guard-i18n">` tag, falling back to
+ * the `i18n.translations` embedded into the script for the page or browser language.
+ * Returns null if there are no translations or the tag is malformed.
+ * `K` types the custom keys, see {@link ExtendedTranslations}.
+ */
+export function getI18n<K extends string = never>(): ExtendedTranslations<K> | null {
   try {
     const el = document.querySelector('meta[name="spa-guard-i18n"]');
     if (!el) {
-      return null;
+      return getEmbeddedTranslations() as ExtendedTranslations<K> | null;
     }
     const content = el.getAttribute("content");
     if (!content) {
       return null;
     }
-    return JSON.parse(content) as SpaGuardTranslations;
+    return JSON.parse(content) as ExtendedTranslations<K>;
   } catch {
     return null;
   }
@@ -69,9 +244,12 @@ export function getI18n(): null | SpaGuardTranslations {
  * Creates the tag if it doesn't exist, or updates it if it does.
  *
  * Use this at runtime to dynamically patch the inline fallback/loading UI
- * translations without server-side rendering.
+ * translations without server-side rendering. Keys of custom template elements are
+ * declared with `K`, e.g. `setTranslations<"supportHint">({ ...t, supportHint: "..." })`.
  */
-export function setTranslations(translations: SpaGuardTranslations): void {
+export function setTranslations<K extends string = never>(
+  translations: ExtendedTranslations<NoInfer<K>>,
+): void {
   let el = document.querySelector('meta[name="spa-guard-i18n"]');
   if (!el) {
     el = document.createElement("meta");
@@ -1,3 +1,8 @@
+export { setContext, setTags, setUser } from "./beaconContext";
+export type { BackoffStrategy, RetryDelays } from "./backoff";
+export { addBeforeSendHook } from "./beforeSend";
+export type { BeforeSendHint, BeforeSendHook } from "./beforeSend";
+export { clearCacheAndReload } from "./clearCache";
 export { BeaconError } from "./errors/BeaconError";
 export { ForceRetryError } from "./errors/ForceRetryError";
 export * as events from "./events";
@@ -5,5 +10,7 @@ export { disableDefaultRetry, enableDefaultRetry, isDefaultRetryEnabled } from "
 export { isInFallbackMode, resetFallbackMode } from "./fallbackState";
 export { listen } from "./listen";
 export * as options from "./options";
+export type { ReloadBudgetSnapshot } from "./reloadBudget";
 export { getRetrySnapshot, markRetryHealthyBoot, triggerRetry } from "./retryOrchestrator";
 export type { RetryPhase, RetrySnapshot, TriggerInput, TriggerResult } from "./retryOrchestrator";
+export type { RemoteVersionInfo, VersionPolicyDecision, VersionSeverity } from "./versionPolicy";
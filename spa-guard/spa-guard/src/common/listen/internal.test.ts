@@ -2,6 +2,14 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import type { Logger } from "../logger";
 
+vi.mock("../beaconQueue", () => ({
+  initBeaconQueue: vi.fn(),
+}));
+
+vi.mock("../breadcrumbs", () => ({
+  initBreadcrumbs: vi.fn(),
+}));
+
 vi.mock("../isChunkError", () => ({
   isChunkError: vi.fn(),
 }));
@@ -229,7 +237,10 @@ describe("listenInternal", () => {
       mockIsChunkError.mockReturnValue(false);
       const { handlers } = captureListeners();
       handlers.error!({ message: "Regular error", preventDefault: vi.fn() });
-      expect(mockSendBeacon).toHaveBeenCalledWith(expect.objectContaining({ eventName: "error" }));
+      expect(mockSendBeacon).toHaveBeenCalledWith(
+        expect.objectContaining({ eventName: "error" }),
+        expect.anything(),
+      );
     });
 
     it("sends beacon with event.message as errorMessage", () => {
@@ -238,6 +249,7 @@ describe("listenInternal", () => {
       handlers.error!({ message: "Test error message", preventDefault: vi.fn() });
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: "Test error message" }),
+        expect.anything(),
       );
     });
 
@@ -257,6 +269,7 @@ describe("listenInternal", () => {
       handlers.error!(event);
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ serialized: '{"type":"Error"}' }),
+        expect.anything(),
       );
     });
 
@@ -267,6 +280,7 @@ describe("listenInternal", () => {
       handlers.error!({ message: "test", preventDefault: vi.fn() });
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ retryAttempt: 1, retryId: "rid-123" }),
+        expect.anything(),
       );
     });
 
@@ -380,7 +394,39 @@ describe("listenInternal", () => {
     it("checks shouldIgnoreMessages with event.message", () => {
       const { handlers } = captureListeners();
       handlers.error!({ message: "specific message", preventDefault: vi.fn() });
-      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(["specific message"]);
+      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(
+        ["specific message"],
+        expect.objectContaining({ source: "error" }),
+      );
+    });
+
+    it("passes event.error to sendBeacon as the beforeSend hint", () => {
+      mockIsChunkError.mockReturnValue(false);
+      const error = new Error("boom");
+      const { handlers } = captureListeners();
+      handlers.error!({ error, message: "boom", preventDefault: vi.fn() });
+      expect(mockSendBeacon).toHaveBeenCalledWith(expect.anything(), { error });
+    });
+
+    it("passes the error and filename as match context", () => {
+      const error = new TypeError("boom");
+      const { handlers } = captureListeners();
+      handlers.error!({
+        error,
+        filename: "https://cdn.example.com/widget.js",
+        message: "boom",
+        preventDefault: vi.fn(),
+      });
+      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(["boom"], {
+        error,
+        filename: "https://cdn.example.com/widget.js",
+        source: "error",
+      });
+      expect(mockShouldForceRetry).toHaveBeenCalledWith(["boom"], {
+        error,
+        filename: "https://cdn.example.com/widget.js",
+        source: "error",
+      });
     });
   });
 
@@ -469,6 +515,7 @@ describe("listenInternal", () => {
       handlers.unhandledrejection!({ preventDefault: vi.fn(), reason: new Error("test") });
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ eventName: "unhandledrejection" }),
+        expect.anything(),
       );
     });
 
@@ -479,6 +526,7 @@ describe("listenInternal", () => {
       handlers.unhandledrejection!({ preventDefault: vi.fn(), reason });
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: String(reason) }),
+        { error: reason },
       );
     });
 
@@ -590,6 +638,7 @@ describe("listenInternal", () => {
       handlers.unhandledrejection!({ preventDefault: vi.fn(), reason: "plain string rejection" });
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: "plain string rejection" }),
+        expect.anything(),
       );
     });
 
@@ -601,6 +650,7 @@ describe("listenInternal", () => {
       }).not.toThrow();
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: "undefined" }),
+        expect.anything(),
       );
     });
 
@@ -608,7 +658,10 @@ describe("listenInternal", () => {
       const { handlers } = captureListeners();
       const reason = new Error("my rejection");
       handlers.unhandledrejection!({ preventDefault: vi.fn(), reason });
-      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith([String(reason)]);
+      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(
+        [String(reason)],
+        expect.objectContaining({ source: "unhandledrejection" }),
+      );
     });
   });
 
@@ -632,6 +685,7 @@ describe("listenInternal", () => {
       });
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ eventName: "securitypolicyviolation" }),
+        expect.anything(),
       );
     });
 
@@ -644,6 +698,7 @@ describe("listenInternal", () => {
       });
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ eventMessage: "script-src: https://evil.com/script.js" }),
+        expect.anything(),
       );
     });
 
@@ -680,6 +735,7 @@ describe("listenInternal", () => {
       });
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ serialized: '{"csp":"violation"}' }),
+        expect.anything(),
       );
     });
 
@@ -690,7 +746,10 @@ describe("listenInternal", () => {
         preventDefault: vi.fn(),
         violatedDirective: "script-src",
       });
-      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(["script-src: https://evil.com"]);
+      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(
+        ["script-src: https://evil.com"],
+        expect.objectContaining({ source: "csp" }),
+      );
     });
 
     it("does not call logger.capturedError when shouldIgnoreMessages returns true", () => {
@@ -751,6 +810,7 @@ describe("listenInternal", () => {
       });
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ retryAttempt: 2, retryId: "csp-retry-id" }),
+        expect.anything(),
       );
     });
   });
@@ -791,7 +851,10 @@ describe("listenInternal", () => {
         payload: { message: "chunk failed to load" },
         preventDefault: vi.fn(),
       });
-      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(["chunk failed to load"]);
+      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(
+        ["chunk failed to load"],
+        expect.objectContaining({ source: "vite:preloadError" }),
+      );
     });
 
     it("falls back to event.message when payload is not present", () => {
@@ -800,7 +863,10 @@ describe("listenInternal", () => {
         message: "fallback message",
         preventDefault: vi.fn(),
       });
-      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(["fallback message"]);
+      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(
+        ["fallback message"],
+        expect.objectContaining({ source: "vite:preloadError" }),
+      );
     });
 
     it("falls back to event.message when payload.message is falsy (empty string)", () => {
@@ -810,7 +876,10 @@ describe("listenInternal", () => {
         payload: { message: "" },
         preventDefault: vi.fn(),
       });
-      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(["event level message"]);
+      expect(mockShouldIgnoreMessages).toHaveBeenCalledWith(
+        ["event level message"],
+        expect.objectContaining({ source: "vite:preloadError" }),
+      );
     });
 
     it("does not call logger.capturedError when shouldIgnoreMessages returns true", () => {
@@ -931,6 +1000,7 @@ describe("listenInternal", () => {
           eventName: "error",
           serialized: '{"type":"Error","message":"regular"}',
         }),
+        expect.anything(),
       );
     });
   });
@@ -972,6 +1042,7 @@ describe("listenInternal", () => {
       handlers.error!({ message: undefined, preventDefault: vi.fn() });
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: undefined }),
+        expect.anything(),
       );
     });
 
@@ -989,6 +1060,7 @@ describe("listenInternal", () => {
       handlers.unhandledrejection!({ preventDefault: vi.fn(), reason: null });
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: "null" }),
+        expect.anything(),
       );
     });
 
@@ -1083,7 +1155,10 @@ describe("listenInternal", () => {
       mockIsChunkError.mockReturnValue(false);
       const { handlers } = captureListeners();
       handlers.error!({ message: "my custom error", preventDefault: vi.fn() });
-      expect(mockShouldForceRetry).toHaveBeenCalledWith(["my custom error"]);
+      expect(mockShouldForceRetry).toHaveBeenCalledWith(
+        ["my custom error"],
+        expect.objectContaining({ source: "error" }),
+      );
     });
 
     it("delegates to triggerRetry with force-retry source when unhandledrejection matches forceRetry", () => {
@@ -1125,7 +1200,10 @@ describe("listenInternal", () => {
       const { handlers } = captureListeners();
       const reason = new Error("my rejection");
       handlers.unhandledrejection!({ preventDefault: vi.fn(), reason });
-      expect(mockShouldForceRetry).toHaveBeenCalledWith([String(reason)]);
+      expect(mockShouldForceRetry).toHaveBeenCalledWith(
+        [String(reason)],
+        expect.objectContaining({ source: "unhandledrejection" }),
+      );
     });
 
     it("chunk errors take priority over forceRetry (isChunkError checked first)", () => {
@@ -1178,6 +1256,7 @@ describe("listenInternal", () => {
       expect(mockSendBeacon).toHaveBeenCalledTimes(1);
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: String(reason), eventName: "unhandledrejection" }),
+        expect.anything(),
       );
       expect(mockTriggerRetry).toHaveBeenCalledWith(
         expect.objectContaining({ error: reason, source: "unhandled-rejection" }),
@@ -1227,6 +1306,7 @@ describe("listenInternal", () => {
       expect(mockSendBeacon).toHaveBeenCalledTimes(1);
       expect(mockSendBeacon).toHaveBeenCalledWith(
         expect.objectContaining({ errorMessage: String(reason), eventName: "unhandledrejection" }),
+        expect.anything(),
       );
       expect(mockTriggerRetry).not.toHaveBeenCalled();
       expect(mockPreventDefault).not.toHaveBeenCalled();
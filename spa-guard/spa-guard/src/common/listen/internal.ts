@@ -1,5 +1,7 @@
 import type { Logger } from "../logger";
 
+import { initBeaconQueue } from "../beaconQueue";
+import { initBreadcrumbs } from "../breadcrumbs";
 import {
   emitEvent,
   getLogger,
@@ -30,6 +32,8 @@ export const listenInternal = (serializeError: (error: unknown) => string, logge
   }
 
   markInitialized();
+  initBeaconQueue();
+  initBreadcrumbs();
 
   const wa = globalThis.window.addEventListener.bind(globalThis.window);
 
@@ -38,7 +42,12 @@ export const listenInternal = (serializeError: (error: unknown) => string, logge
     (event) => {
       const assetUrl = getAssetUrl(event);
       if (isStaticAssetError(event) && isLikely404(assetUrl)) {
-        if (shouldIgnoreMessages([assetUrl, event.message])) {
+        if (
+          shouldIgnoreMessages([assetUrl, event.message], {
+            filename: assetUrl,
+            source: "static-asset",
+          })
+        ) {
           return;
         }
         event.preventDefault();
@@ -49,7 +58,13 @@ export const listenInternal = (serializeError: (error: unknown) => string, logge
         return;
       }
 
-      if (shouldIgnoreMessages([event.message])) {
+      const matchContext = {
+        error: event.error,
+        filename: event.filename,
+        source: "error",
+      } as const;
+
+      if (shouldIgnoreMessages([event.message], matchContext)) {
         return;
       }
 
@@ -61,27 +76,31 @@ export const listenInternal = (serializeError: (error: unknown) => string, logge
         return;
       }
 
-      if (shouldForceRetry([event.message])) {
+      if (shouldForceRetry([event.message], matchContext)) {
         event.preventDefault();
         triggerRetry({ error: event.error ?? event, source: "force-retry" });
         return;
       }
 
       const serialized = serializeError(event);
-      sendBeacon({
-        errorMessage: event.message,
-        eventName: "error",
-        serialized,
-        ...getRetryInfoForBeacon(),
-      });
+      sendBeacon(
+        {
+          errorMessage: event.message,
+          eventName: "error",
+          serialized,
+          ...getRetryInfoForBeacon(),
+        },
+        { error: event.error ?? event },
+      );
     },
     true,
   );
 
   wa("unhandledrejection", (event) => {
     const errorMessage = String(event.reason);
+    const matchContext = { error: event.reason, source: "unhandledrejection" } as const;
 
-    if (shouldIgnoreMessages([errorMessage])) {
+    if (shouldIgnoreMessages([errorMessage], matchContext)) {
       return;
     }
 
@@ -93,7 +112,7 @@ export const listenInternal = (serializeError: (error: unknown) => string, logge
       return;
     }
 
-    if (shouldForceRetry([errorMessage])) {
+    if (shouldForceRetry([errorMessage], matchContext)) {
       event.preventDefault();
       triggerRetry({ error: event.reason, source: "force-retry" });
       return;
@@ -103,12 +122,15 @@ export const listenInternal = (serializeError: (error: unknown) => string, logge
 
     if (rejectionConfig?.sendBeacon !== false) {
       const serialized = serializeError(event);
-      sendBeacon({
-        errorMessage,
-        eventName: "unhandledrejection",
-        serialized,
-        ...getRetryInfoForBeacon(),
-      });
+      sendBeacon(
+        {
+          errorMessage,
+          eventName: "unhandledrejection",
+          serialized,
+          ...getRetryInfoForBeacon(),
+        },
+        { error: event.reason },
+      );
     }
 
     if (rejectionConfig?.retry !== false) {
@@ -120,26 +142,29 @@ export const listenInternal = (serializeError: (error: unknown) => string, logge
   wa("securitypolicyviolation", (event) => {
     const eventMessage = `${event.violatedDirective}: ${event.blockedURI}`;
 
-    if (shouldIgnoreMessages([eventMessage])) {
+    if (shouldIgnoreMessages([eventMessage], { filename: event.sourceFile, source: "csp" })) {
       return;
     }
 
     getLogger()?.capturedError("csp", event.blockedURI, event.violatedDirective);
 
     const serialized = serializeError(event);
-    sendBeacon({
-      eventMessage,
-      eventName: "securitypolicyviolation",
-      serialized,
-      ...getRetryInfoForBeacon(),
-    });
+    sendBeacon(
+      {
+        eventMessage,
+        eventName: "securitypolicyviolation",
+        serialized,
+        ...getRetryInfoForBeacon(),
+      },
+      { error: event },
+    );
   });
 
   wa("vite:preloadError", (event) => {
     const payload = (event as any)?.payload;
     const errorMsg = payload?.message || (event as any)?.message;
 
-    if (shouldIgnoreMessages([errorMsg])) {
+    if (shouldIgnoreMessages([errorMsg], { error: payload, source: "vite:preloadError" })) {
       return;
     }
 
@@ -76,6 +76,30 @@ describe("common/logger", () => {
       );
     });
 
+    it("logs network-offline at warn level", () => {
+      const logger = createLogger();
+      const event: SPAGuardEvent = { attempt: 2, name: "network-offline", retryId: "abc-123" };
+
+      logger.logEvent(event);
+
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      expect(warnSpy).toHaveBeenCalledWith(
+        "[spa-guard] network-offline: reload attempt 2 paused until online (retryId: abc-123)",
+      );
+    });
+
+    it("logs network-online at log level", () => {
+      const logger = createLogger();
+      const event: SPAGuardEvent = { attempt: 2, name: "network-online", retryId: "abc-123" };
+
+      logger.logEvent(event);
+
+      expect(logSpy).toHaveBeenCalledTimes(1);
+      expect(logSpy).toHaveBeenCalledWith(
+        "[spa-guard] network-online: resuming reload attempt 2 (retryId: abc-123)",
+      );
+    });
+
     it("logs retry-reset at log level", () => {
       const logger = createLogger();
       const event: SPAGuardEvent = {
@@ -109,6 +133,42 @@ describe("common/logger", () => {
       );
     });
 
+    it("logs reload-budget-exceeded at error level", () => {
+      const logger = createLogger();
+
+      logger.logEvent({
+        maxReloads: 10,
+        name: "reload-budget-exceeded",
+        retryId: "xyz-789",
+        windowMs: 3_600_000,
+      });
+
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "[spa-guard] reload-budget-exceeded: 10 reloads within 3600000ms (retryId: xyz-789)",
+      );
+    });
+
+    it("logs fallback-recovery-attempt at log level", () => {
+      const logger = createLogger();
+
+      logger.logEvent({ attempt: 2, endpoint: "/", name: "fallback-recovery-attempt" });
+
+      expect(logSpy).toHaveBeenCalledTimes(1);
+      expect(logSpy).toHaveBeenCalledWith("[spa-guard] fallback-recovery-attempt: check 2 (/)");
+    });
+
+    it("logs fallback-recovered at log level", () => {
+      const logger = createLogger();
+
+      logger.logEvent({ attempt: 3, name: "fallback-recovered" });
+
+      expect(logSpy).toHaveBeenCalledTimes(1);
+      expect(logSpy).toHaveBeenCalledWith(
+        "[spa-guard] fallback-recovered: check 3 succeeded, reloading",
+      );
+    });
+
     it("logs fallback-ui-shown at warn level", () => {
       const logger = createLogger();
 
@@ -118,6 +178,14 @@ describe("common/logger", () => {
       expect(warnSpy).toHaveBeenCalledWith("[spa-guard] fallback-ui-shown");
     });
 
+    it("includes the fallback category in fallback-ui-shown", () => {
+      const logger = createLogger();
+
+      logger.logEvent({ category: "offline", name: "fallback-ui-shown" });
+
+      expect(warnSpy).toHaveBeenCalledWith("[spa-guard] fallback-ui-shown: offline");
+    });
+
     it("logs lazy-retry-start at log level", () => {
       const logger = createLogger();
       const event: SPAGuardEvent = {
@@ -188,6 +256,25 @@ describe("common/logger", () => {
       );
     });
 
+    it("logs lazy-retry-exhausted of a preload at warn level", () => {
+      const logger = createLogger();
+      const err = new Error("chunk exhausted");
+
+      logger.logEvent({
+        error: err,
+        name: "lazy-retry-exhausted",
+        preload: true,
+        totalAttempts: 3,
+        willReload: false,
+      });
+
+      expect(errorSpy).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledWith(
+        "[spa-guard] lazy-retry-exhausted: 3 attempts, willReload=false, preload",
+        err,
+      );
+    });
+
     it("logs lazy-retry-success at log level without totalTime", () => {
       const logger = createLogger();
       const event: SPAGuardEvent = {
@@ -231,6 +318,30 @@ describe("common/logger", () => {
         "[spa-guard] static-asset-load-failed: https://example.com/assets/chunk-abc123.js",
       );
     });
+
+    it("logs user-feedback at log level with the retryId", () => {
+      const logger = createLogger();
+      const event: SPAGuardEvent = { name: "user-feedback", retryId: "abc-123" };
+
+      logger.logEvent(event);
+
+      expect(logSpy).toHaveBeenCalledTimes(1);
+      expect(logSpy).toHaveBeenCalledWith(
+        "[spa-guard] user-feedback: report sent (retryId: abc-123)",
+      );
+    });
+
+    it("logs version-stale at log level with the new version", () => {
+      const logger = createLogger();
+      const event: SPAGuardEvent = { latestVersion: "2.0.0", name: "version-stale" };
+
+      logger.logEvent(event);
+
+      expect(logSpy).toHaveBeenCalledTimes(1);
+      expect(logSpy).toHaveBeenCalledWith(
+        "[spa-guard] version-stale: next navigation loads version 2.0.0",
+      );
+    });
   });
 
   describe("specific methods - listen/internal.ts", () => {
@@ -34,15 +34,22 @@ const PREFIX = "[spa-guard]";
 const eventLogConfig: Record<SPAGuardEvent["name"], "error" | "log" | "warn"> = {
   "chunk-error": "error",
   "fallback-ui-not-rendered": "error",
+  "fallback-recovered": "log",
+  "fallback-recovery-attempt": "log",
   "fallback-ui-shown": "warn",
   "lazy-retry-attempt": "warn",
   "lazy-retry-exhausted": "error",
   "lazy-retry-start": "log",
   "lazy-retry-success": "log",
+  "network-offline": "warn",
+  "network-online": "log",
+  "reload-budget-exceeded": "error",
   "retry-attempt": "warn",
   "retry-exhausted": "error",
   "retry-reset": "log",
   "static-asset-load-failed": "error",
+  "user-feedback": "log",
+  "version-stale": "log",
 };
 
 const formatEvent = (event: SPAGuardEvent): string => {
@@ -50,18 +57,26 @@ const formatEvent = (event: SPAGuardEvent): string => {
     case "chunk-error": {
       return `${PREFIX} chunk-error: isRetrying=${event.isRetrying}`;
     }
+    case "fallback-recovered": {
+      return `${PREFIX} fallback-recovered: check ${event.attempt} succeeded, reloading`;
+    }
+    case "fallback-recovery-attempt": {
+      return `${PREFIX} fallback-recovery-attempt: check ${event.attempt} (${event.endpoint})`;
+    }
     case "fallback-ui-not-rendered": {
       const selectorPart = event.selector ? ` selector=${event.selector}` : "";
       return `${PREFIX} fallback-ui-not-rendered: reason=${event.reason}${selectorPart}`;
     }
     case "fallback-ui-shown": {
-      return `${PREFIX} fallback-ui-shown`;
+      return event.category
+        ? `${PREFIX} fallback-ui-shown: ${event.category}`
+        : `${PREFIX} fallback-ui-shown`;
     }
     case "lazy-retry-attempt": {
       return `${PREFIX} lazy-retry-attempt: attempt ${event.attempt}/${event.totalAttempts}, delay ${event.delay}ms`;
     }
     case "lazy-retry-exhausted": {
-      return `${PREFIX} lazy-retry-exhausted: ${event.totalAttempts} attempts, willReload=${event.willReload}`;
+      return `${PREFIX} lazy-retry-exhausted: ${event.totalAttempts} attempts, willReload=${event.willReload}${event.preload ? ", preload" : ""}`;
     }
     case "lazy-retry-start": {
       return `${PREFIX} lazy-retry-start: totalAttempts=${event.totalAttempts}`;
@@ -70,9 +85,18 @@ const formatEvent = (event: SPAGuardEvent): string => {
       const timePart = event.totalTime === undefined ? "" : `, totalTime=${event.totalTime}ms`;
       return `${PREFIX} lazy-retry-success: succeeded on attempt ${event.attempt}${timePart}`;
     }
+    case "network-offline": {
+      return `${PREFIX} network-offline: reload attempt ${event.attempt} paused until online (retryId: ${event.retryId})`;
+    }
+    case "network-online": {
+      return `${PREFIX} network-online: resuming reload attempt ${event.attempt} (retryId: ${event.retryId})`;
+    }
     case "retry-attempt": {
       return `${PREFIX} retry-attempt: attempt ${event.attempt} in ${event.delay}ms (retryId: ${event.retryId})`;
     }
+    case "reload-budget-exceeded": {
+      return `${PREFIX} reload-budget-exceeded: ${event.maxReloads} reloads within ${event.windowMs}ms (retryId: ${event.retryId})`;
+    }
     case "retry-exhausted": {
       return `${PREFIX} retry-exhausted: finalAttempt=${event.finalAttempt} (retryId: ${event.retryId})`;
     }
@@ -82,6 +106,13 @@ const formatEvent = (event: SPAGuardEvent): string => {
     case "static-asset-load-failed": {
       return `${PREFIX} static-asset-load-failed: ${event.url}`;
     }
+    case "user-feedback": {
+      const retryIdPart = event.retryId ? ` (retryId: ${event.retryId})` : "";
+      return `${PREFIX} user-feedback: report sent${retryIdPart}`;
+    }
+    case "version-stale": {
+      return `${PREFIX} version-stale: next navigation loads version ${event.latestVersion}`;
+    }
   }
 };
 
@@ -111,7 +142,9 @@ export const createLogger = (): Logger => ({
     console.log(`${PREFIX} ${msg}`, ...args);
   },
   logEvent(event: SPAGuardEvent): void {
-    const level = eventLogConfig[event.name];
+    // A failed preload is retried by the render, so it is not an error yet
+    const level =
+      event.name === "lazy-retry-exhausted" && event.preload ? "warn" : eventLogConfig[event.name];
     const message = formatEvent(event);
     if (
       event.name === "chunk-error" ||
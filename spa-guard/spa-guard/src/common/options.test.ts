@@ -32,13 +32,26 @@ describe("getOptions", () => {
         background: "#fff",
         disabled: false,
       },
+      updatePrompt: {},
     });
     expect(result.checkVersion).toEqual({
       cache: "no-store",
+      crossTabReload: false,
+      hiddenTabReloadDelay: 30_000,
       interval: 300_000,
+      leaderElection: false,
       mode: "html",
       onUpdate: "reload",
+      snoozeDuration: 1_800_000,
+      versionHeader: "X-App-Version",
     });
+    expect(result.clearCache).toEqual({ localStorageKeys: [], sessionStorageKeys: [] });
+    expect(result.fallbackRecovery).toEqual({
+      delays: { attempts: 20, base: 5000, max: 60_000, type: "exponential" },
+      enabled: false,
+    });
+    expect(result.feedback).toEqual({ enabled: false });
+    expect(result.reloadBudget).toEqual({ enabled: false, maxReloads: 10, windowMs: 3_600_000 });
     expect(result.reloadDelays).toEqual([1000, 2000, 5000]);
     expect(result.enableRetryReset).toBe(true);
   });
@@ -93,6 +106,7 @@ describe("getOptions", () => {
         fallback: { content: "<div>Error</div>", selector: "#root" },
         loading: { content: "<div>Wait</div>" },
         spinner: { background: "#fff", disabled: false },
+        updatePrompt: {},
       });
     });
 
@@ -113,6 +127,7 @@ describe("getOptions", () => {
           background: "#fff",
           disabled: false,
         },
+        updatePrompt: {},
       });
     });
   });
@@ -237,4 +252,16 @@ describe("getOptions", () => {
       expect(result.staticAssets.recoveryDelay).toBe(2000);
     });
   });
+
+  describe("breadcrumbs namespace", () => {
+    it("returns breadcrumbs defaults when no window options are set", () => {
+      expect(getOptions().breadcrumbs).toEqual({ enabled: false, maxBreadcrumbs: 30 });
+    });
+
+    it("merges breadcrumbs.maxBreadcrumbs override while retaining enabled default", () => {
+      setWindowOptions({ breadcrumbs: { maxBreadcrumbs: 10 } });
+
+      expect(getOptions().breadcrumbs).toEqual({ enabled: false, maxBreadcrumbs: 10 });
+    });
+  });
 });
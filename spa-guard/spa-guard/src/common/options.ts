@@ -1,20 +1,44 @@
+import type { SpaGuardTranslations } from "../i18n";
+import type { RetryDelays } from "./backoff";
+
 import { optionsWindowKey } from "./constants";
 import { defaultErrorFallbackHtml, defaultLoadingFallbackHtml } from "./html.generated";
+import { DEFAULT_VERSION_HEADER } from "./parseVersion";
 
 export { optionsWindowKey } from "./constants";
 
 const defaultOptions: Options = {
+  breadcrumbs: {
+    enabled: false,
+    maxBreadcrumbs: 30,
+  },
   checkVersion: {
     cache: "no-store",
+    crossTabReload: false,
+    hiddenTabReloadDelay: 30_000,
     interval: 300_000,
+    leaderElection: false,
     mode: "html",
     onUpdate: "reload",
+    snoozeDuration: 1_800_000,
+    versionHeader: DEFAULT_VERSION_HEADER,
+  },
+  clearCache: {
+    localStorageKeys: [],
+    sessionStorageKeys: [],
   },
   enableRetryReset: true,
   errors: {
     forceRetry: [],
     ignore: [],
   },
+  fallbackRecovery: {
+    delays: { attempts: 20, base: 5000, max: 60_000, type: "exponential" },
+    enabled: false,
+  },
+  feedback: {
+    enabled: false,
+  },
   handleUnhandledRejections: {
     retry: false,
     sendBeacon: true,
@@ -37,7 +61,17 @@ const defaultOptions: Options = {
     retryDelays: [1000, 2000],
   },
   minTimeBetweenResets: 5000,
+  reloadBudget: {
+    enabled: false,
+    maxReloads: 10,
+    windowMs: 3_600_000,
+  },
   reloadDelays: [1000, 2000, 5000],
+  serviceWorker: {
+    enabled: false,
+    purgeCaches: "none",
+    timeout: 3000,
+  },
   staticAssets: {
     autoRecover: true,
     recoveryDelay: 500,
@@ -45,6 +79,48 @@ const defaultOptions: Options = {
   useRetryId: true,
 };
 
+/**
+ * Where an error was captured.
+ * - "error": window `error` event (runtime errors, chunk errors)
+ * - "unhandledrejection": window `unhandledrejection` event
+ * - "csp": `securitypolicyviolation` event
+ * - "static-asset": failed hashed static asset (404 after a deployment)
+ * - "vite:preloadError": Vite preload failure
+ * - "error-boundary": error passed to `handleErrorWithSpaGuard` (React error boundaries)
+ */
+export type ErrorSource =
+  "csp" | "error" | "error-boundary" | "static-asset" | "unhandledrejection" | "vite:preloadError";
+
+/**
+ * Structured error matcher. Every specified field must match (logical AND);
+ * a matcher without any field matches nothing.
+ * Plain JSON so it can be serialized into `window.__SPA_GUARD_OPTIONS__`.
+ */
+export interface ErrorMatcherObject {
+  /** Exact `Error.name` of the captured error, e.g. "TypeError". */
+  errorName?: string;
+  /** Substring of `ErrorEvent.filename` (the script the error was thrown from). */
+  filename?: string;
+  /** Flags for `regex`, e.g. "i". */
+  flags?: string;
+  /** Regular expression source tested against the error messages. */
+  regex?: string;
+  /** Capture source(s) the error must come from. */
+  source?: ErrorSource | ErrorSource[];
+}
+
+/** A substring of the error message, or a structured matcher. */
+export type ErrorMatcher = ErrorMatcherObject | string;
+
+/**
+ * Why the fallback UI is shown, used to pick a template from `html.fallback.templates`.
+ * - "offline": the browser reports being offline
+ * - "stale-deploy": chunk load, `vite:preloadError`, lazy import or `errors.forceRetry` failures
+ * - "static-asset": a hashed static asset returned 404
+ * - "generic": anything else
+ */
+export type FallbackCategory = "generic" | "offline" | "stale-deploy" | "static-asset";
+
 export interface Options {
   /**
    * Application name for beacon source identification.
@@ -52,6 +128,25 @@ export interface Options {
    */
   appName?: string;
 
+  /**
+   * Trail of recent activity (navigation, clicks, fetch calls, console warnings/errors
+   * and spa-guard events) attached to every beacon as `breadcrumbs`.
+   * The trail is kept in sessionStorage so it survives retry reloads.
+   */
+  breadcrumbs?: {
+    /**
+     * Record breadcrumbs and attach them to beacons. Recording patches `fetch`,
+     * `console` and `history`, so it is opt-in.
+     * @default false
+     */
+    enabled?: boolean;
+    /**
+     * Size of the ring buffer; the oldest breadcrumbs are dropped first. Capped at 100.
+     * @default 30
+     */
+    maxBreadcrumbs?: number;
+  };
+
   /**
    * Configuration for proactive version checking to detect new deployments.
    * When configured with a `version`, periodically polls to detect version changes
@@ -66,29 +161,88 @@ export interface Options {
      */
     cache?: "no-cache" | "no-store";
     /**
-     * Endpoint URL for JSON mode version checking.
-     * Required when mode is "json".
+     * Reload the other open tabs of the app too when a tab detects a new version.
+     * The visible tab reloads right away; hidden tabs reload after a random delay
+     * of up to `hiddenTabReloadDelay`, or as soon as they become visible.
+     * Only applies when `onUpdate` is "reload" and `leaderElection` is on.
+     * @default false
+     */
+    crossTabReload?: boolean;
+    /**
+     * Endpoint URL for JSON and SSE mode version checking.
+     * Required when mode is "json" or "sse".
      */
     endpoint?: string;
+    /**
+     * Maximum delay in milliseconds before a hidden tab reloads with `crossTabReload`.
+     * Each hidden tab picks a random delay so they do not all reload at once.
+     * @default 30000
+     */
+    hiddenTabReloadDelay?: number;
     /**
      * Polling interval in milliseconds.
+     * In "sse" mode, used only while the event stream is disconnected.
      * @default 300000
      */
     interval?: number;
+    /**
+     * Elect one tab of the app to poll for new versions and share the result with
+     * the other tabs over BroadcastChannel (localStorage as a fallback).
+     * A follower tab that learns about a new version this way handles it like its own
+     * check and, with `onUpdate: "reload"`, reloads right away (see `crossTabReload`).
+     * Off by default: every tab polls on its own.
+     * @default false
+     */
+    leaderElection?: boolean;
     /**
      * Detection mode.
      * - "html": Re-fetches the current page and parses the injected version from the HTML.
+     * - "header": Sends a `HEAD` request for the current page and reads the version from
+     *   the `versionHeader` response header, falling back to changes of the `ETag` header.
+     *   Avoids downloading the HTML; `createHtmlCache` from `@ovineko/spa-guard-node` sets the header.
      * - "json": Fetches a dedicated JSON endpoint.
+     * - "sse": Subscribes to `endpoint` with an EventSource and reacts to `version` events
+     *   pushed by the server. Falls back to "html" polling while the stream is disconnected.
      * @default "html"
      */
-    mode?: "html" | "json";
+    mode?: "header" | "html" | "json" | "sse";
     /**
      * Behavior when a version change is detected.
      * - "reload": Automatically calls location.reload() after dispatching the event.
      * - "event": Only dispatches the spa-guard:version-change CustomEvent (no reload).
+     * - "prompt": Dispatches the event and shows a banner with "Reload now" and "Later"
+     *   actions (see `html.updatePrompt`).
+     * - "navigate": Dispatches the event and turns the next client-side navigation
+     *   (history.pushState/replaceState or a link click) into a full document navigation,
+     *   so the new version loads without interrupting the current page.
+     *
+     * When the JSON endpoint (or an SSE `version` event) reports `severity: "critical"`,
+     * or a semver `minVersion` above the running `version`, the page reloads regardless.
      * @default "reload"
      */
-    onUpdate?: "event" | "reload";
+    onUpdate?: "event" | "navigate" | "prompt" | "reload";
+    /**
+     * Milliseconds the update prompt stays hidden after the user clicks "Later".
+     * @default 1800000 (30 minutes)
+     */
+    snoozeDuration?: number;
+    /**
+     * Response header carrying the deployed version in "header" mode.
+     * @default "X-App-Version"
+     */
+    versionHeader?: string;
+  };
+
+  /**
+   * App storage removed by the fallback's `data-spa-guard-action="clear-cache"` button,
+   * in addition to service workers, CacheStorage and spa-guard's own sessionStorage keys.
+   * Useful when corrupted persisted state keeps the app from booting.
+   */
+  clearCache?: {
+    /** @default [] */
+    localStorageKeys?: string[];
+    /** @default [] */
+    sessionStorageKeys?: string[];
   };
 
   /**
@@ -104,17 +258,55 @@ export interface Options {
    */
   errors?: {
     /**
-     * List of error message substrings that should trigger the retry/reload process,
-     * same as chunk load errors. Useful for custom errors that indicate a stale deployment.
+     * Errors that should trigger the retry/reload process, same as chunk load errors.
+     * Useful for custom errors that indicate a stale deployment.
+     * Strings match as message substrings; see {@link ErrorMatcherObject} for structured matchers.
      * @default []
      */
-    forceRetry?: string[];
+    forceRetry?: ErrorMatcher[];
     /**
-     * List of error message substrings to ignore and not report.
-     * If error message contains any of these strings, it will be filtered out.
+     * Errors to ignore and not report.
+     * Strings match as message substrings; see {@link ErrorMatcherObject} for structured matchers.
+     * @example ["Script error.", { filename: "cdn.example.com", regex: "^ResizeObserver loop" }]
      * @default []
      */
-    ignore?: string[];
+    ignore?: ErrorMatcher[];
+  };
+
+  /**
+   * Recovery probe for the fallback screen. While the fallback UI is shown after a failed
+   * retry cycle, spa-guard sends HEAD requests to `endpoint` with backoff and reloads into a
+   * fresh retry cycle as soon as one succeeds, so a short outage (e.g. a deploy window) does
+   * not leave users stuck until they click "Reload". The countdown to the next check is
+   * rendered into `[data-spa-guard-content="next-check"]`. The node and vite builders add
+   * the countdown to the default fallback HTML only when this is enabled.
+   */
+  fallbackRecovery?: {
+    /**
+     * Delays in milliseconds before each check, or a backoff strategy. Probing stops
+     * when the delays run out.
+     * @default { type: "exponential", base: 5000, max: 60_000, attempts: 20 }
+     */
+    delays?: RetryDelays;
+    /** @default false */
+    enabled?: boolean;
+    /**
+     * URL that must answer a HEAD request with a 2xx status, e.g. the
+     * `checkVersion.endpoint`. Defaults to the current page without retry parameters.
+     */
+    endpoint?: string;
+  };
+
+  /**
+   * "Report a problem" form of the fallback screen (`[data-spa-guard-section="feedback"]`).
+   * Submissions are sent to `reportBeacon.endpoint` as `user-feedback` beacons carrying the
+   * message, the optional email and the current `retryId`. The form stays hidden without
+   * `reportBeacon.endpoint`. The node and vite builders add the form to the default
+   * fallback HTML only when this is enabled.
+   */
+  feedback?: {
+    /** @default false */
+    enabled?: boolean;
   };
 
   /**
@@ -141,6 +333,12 @@ export interface Options {
       content?: string;
       /** CSS selector where the fallback HTML should be injected @default "body" */
       selector?: string;
+      /**
+       * Templates per {@link FallbackCategory}; categories without a template use `content`.
+       * Translation keys such as `offlineHeading` or `staleDeployMessage` are available to them.
+       * @example { offline: "<h1 data-spa-guard-content=\"offlineHeading\">You are offline</h1>" }
+       */
+      templates?: Partial<Record<FallbackCategory, string>>;
     };
     loading?: {
       /** Custom HTML to display during the loading/retrying state */
@@ -170,6 +368,37 @@ export interface Options {
        */
       disabled?: boolean;
     };
+    /**
+     * Banner shown by `checkVersion.onUpdate: "prompt"`.
+     * Elements with `data-spa-guard-action="reload-now"` and `data-spa-guard-action="later"`
+     * get the reload and snooze handlers.
+     */
+    updatePrompt?: {
+      /**
+       * Custom banner HTML, appended to `<body>`. The node and vite builders inline the
+       * default banner only when `checkVersion.onUpdate` is "prompt".
+       */
+      content?: string;
+    };
+  };
+
+  /**
+   * Translations resolved in the browser, for static hosting where no server runs
+   * `patchHtmlI18n`. A `<meta name="spa-guard-i18n">` tag takes precedence.
+   */
+  i18n?: {
+    /**
+     * Built-in languages the Vite plugin and `buildSpaGuardScript` embed into the script as
+     * `translations`. Only the listed languages are embedded, to keep the script small.
+     * @example ["en", "de", "ja"]
+     */
+    languages?: string[];
+    /**
+     * Embedded translations by language, filled from `languages` at build time. The language
+     * is matched from `<html lang>`, then `navigator.languages`; English is used when none
+     * of them is embedded.
+     */
+    translations?: Record<string, SpaGuardTranslations>;
   };
 
   /**
@@ -189,10 +418,12 @@ export interface Options {
      * Array of delays in milliseconds for dynamic import retry attempts.
      * Each element represents one retry attempt with the given delay.
      * The number of elements determines the total number of retry attempts.
+     * Also accepts a backoff strategy that generates the delays.
      * @default [1000, 2000]
      * @example [500, 1500, 3000] // 3 attempts: 500ms, 1.5s, 3s
+     * @example { type: "exponential", base: 500, attempts: 3, jitter: 0.3 }
      */
-    retryDelays?: number[];
+    retryDelays?: RetryDelays;
   };
 
   /**
@@ -203,11 +434,115 @@ export interface Options {
    */
   minTimeBetweenResets?: number;
 
-  /** @default [1000, 2000, 5000] */
-  reloadDelays?: number[];
+  /**
+   * Cap on automatic retry reloads across retry cycles, tabs and sessions. The reloads are
+   * counted in localStorage (per `appName`) over a rolling window; once `maxReloads` is
+   * reached, `triggerRetry` shows the fallback UI right away instead of reloading and sends
+   * a `reload_budget_exceeded` beacon. Stops users on a broken deployment from reloading forever.
+   */
+  reloadBudget?: {
+    /** @default false */
+    enabled?: boolean;
+    /**
+     * Automatic reloads allowed within `windowMs`.
+     * @default 10
+     */
+    maxReloads?: number;
+    /**
+     * Length of the rolling window in milliseconds.
+     * @default 3600000 (1 hour)
+     */
+    windowMs?: number;
+  };
+
+  /**
+   * Delays in milliseconds before each retry reload; the number of entries is the number
+   * of reloads before the fallback UI is shown. Also accepts a backoff strategy, e.g.
+   * `{ type: "exponential", base: 1000, max: 10_000, jitter: 0.5, attempts: 4 }`, so that
+   * clients hit by the same deployment do not all reload in the same second.
+   * @default [1000, 2000, 5000]
+   */
+  reloadDelays?: RetryDelays;
 
   reportBeacon?: {
+    /**
+     * Milliseconds during which identical beacons (same event name, message and
+     * top stack frame) are collapsed. The first one is sent immediately, the
+     * repeats are reported in one follow-up beacon with an `occurrences` count.
+     * Set to `0` to disable deduplication.
+     * @default 5000
+     */
+    dedupeWindow?: number;
     endpoint?: string;
+    /**
+     * Maximum number of beacons sent per browser tab in any sliding 60-second window.
+     * Beacons over the limit are dropped. The window survives retry reloads (sessionStorage).
+     * @default 30
+     */
+    maxPerMinute?: number;
+    /**
+     * Persistent queue for beacons that could not be delivered (offline,
+     * network failure or 5xx response). Queued beacons are flushed in batches
+     * on the next page load, when the browser comes back online and on `pagehide`.
+     */
+    queue?: {
+      /**
+       * Maximum number of beacons sent in a single request during a flush.
+       * Batches are sent as a JSON array. Values above 50 (the server limit) are clamped.
+       * @default 10
+       */
+      batchSize?: number;
+      /**
+       * Set to `false` to drop undeliverable beacons instead of queueing them.
+       * @default true
+       */
+      enabled?: boolean;
+      /**
+       * Maximum number of beacons kept in the queue. The oldest are dropped first.
+       * @default 50
+       */
+      maxSize?: number;
+      /**
+       * Milliseconds after which a queued beacon is discarded without being sent.
+       * @default 86400000 (24 hours)
+       */
+      ttl?: number;
+    };
+    /**
+     * Fraction of distinct errors (0–1) that are reported. Sampling is decided once
+     * per fingerprint, so a collapsed `occurrences` beacon follows its sampled original.
+     * @default 1
+     */
+    sampleRate?: number;
+  };
+
+  /**
+   * Service worker aware recovery. Apps with a service worker keep serving the stale
+   * `index.html` and chunks from CacheStorage, so a plain reload lands in the same
+   * broken state. When enabled, before every recovery reload (retry or version change)
+   * spa-guard calls `registration.update()`, waits for the new worker, posts
+   * `{ type: "SKIP_WAITING" }` to it and optionally purges caches.
+   * The worker must handle the message — see `@ovineko/spa-guard/service-worker`.
+   */
+  serviceWorker?: {
+    /**
+     * @default false
+     */
+    enabled?: boolean;
+    /**
+     * CacheStorage entries deleted before reloading.
+     * - "none": keep all caches.
+     * - "stale-version": delete caches whose name contains the current `version`.
+     * - "all": delete every cache of the origin.
+     * @default "none"
+     */
+    purgeCaches?: "all" | "none" | "stale-version";
+    /**
+     * Maximum milliseconds to wait for the new worker to take control.
+     * The reload happens anyway once it elapses.
+     * @default 3000
+     */
+    timeout?: number;
   };
 
   /**
@@ -245,14 +580,30 @@ export const getOptions = (): Options => {
   return {
     ...defaultOptions,
     ...windowOptions,
+    breadcrumbs: {
+      ...defaultOptions.breadcrumbs,
+      ...windowOptions?.breadcrumbs,
+    },
     checkVersion: {
       ...defaultOptions.checkVersion,
       ...windowOptions?.checkVersion,
     },
+    clearCache: {
+      ...defaultOptions.clearCache,
+      ...windowOptions?.clearCache,
+    },
     errors: {
       ...defaultOptions.errors,
       ...windowOptions?.errors,
     },
+    fallbackRecovery: {
+      ...defaultOptions.fallbackRecovery,
+      ...windowOptions?.fallbackRecovery,
+    },
+    feedback: {
+      ...defaultOptions.feedback,
+      ...windowOptions?.feedback,
+    },
     handleUnhandledRejections: {
       ...defaultOptions.handleUnhandledRejections,
       ...windowOptions?.handleUnhandledRejections,
@@ -270,15 +621,27 @@ export const getOptions = (): Options => {
         ...defaultOptions.html?.spinner,
         ...windowOptions?.html?.spinner,
       },
+      updatePrompt: {
+        ...defaultOptions.html?.updatePrompt,
+        ...windowOptions?.html?.updatePrompt,
+      },
     },
     lazyRetry: {
       ...defaultOptions.lazyRetry,
       ...windowOptions?.lazyRetry,
     },
+    reloadBudget: {
+      ...defaultOptions.reloadBudget,
+      ...windowOptions?.reloadBudget,
+    },
     reportBeacon: {
       ...defaultOptions.reportBeacon,
       ...windowOptions?.reportBeacon,
     },
+    serviceWorker: {
+      ...defaultOptions.serviceWorker,
+      ...windowOptions?.serviceWorker,
+    },
     staticAssets: {
       ...defaultOptions.staticAssets,
       ...windowOptions?.staticAssets,
@@ -1,3 +1,6 @@
+/** Response header carrying the deployed version, read by `checkVersion.mode: "header"`. */
+export const DEFAULT_VERSION_HEADER = "X-App-Version";
+
 /**
  * Extract the SPA Guard version string from an HTML document.
  *
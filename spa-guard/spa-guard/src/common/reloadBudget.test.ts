@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { Options } from "./options";
+
+import { optionsWindowKey } from "./constants";
+import { _resetReloadBudgetForTesting, getReloadBudget, recordReload } from "./reloadBudget";
+
+const setWindowOptions = (opts: Options) => {
+  (globalThis.window as any)[optionsWindowKey] = opts;
+};
+
+describe("common/reloadBudget", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    setWindowOptions({ reloadBudget: { enabled: true, maxReloads: 3, windowMs: 60_000 } });
+  });
+
+  afterEach(() => {
+    _resetReloadBudgetForTesting();
+    delete (globalThis.window as any)[optionsWindowKey];
+    localStorage.clear();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("starts with the full budget", () => {
+    expect(getReloadBudget()).toEqual({
+      maxReloads: 3,
+      remaining: 3,
+      resetAt: null,
+      windowMs: 60_000,
+    });
+  });
+
+  it("uses 10 reloads per hour by default", () => {
+    setWindowOptions({ reloadBudget: { enabled: true } });
+
+    expect(getReloadBudget()).toMatchObject({ maxReloads: 10, windowMs: 3_600_000 });
+  });
+
+  it("counts recorded reloads in localStorage", () => {
+    recordReload();
+    vi.advanceTimersByTime(1000);
+    recordReload();
+
+    expect(getReloadBudget()).toMatchObject({ remaining: 1, resetAt: 1_060_000 });
+    expect(JSON.parse(localStorage.getItem("__spa_guard_reload_budget__")!)).toEqual([
+      1_000_000, 1_001_000,
+    ]);
+  });
+
+  it("never reports a negative remaining count", () => {
+    for (let i = 0; i < 5; i++) {
+      recordReload();
+    }
+
+    expect(getReloadBudget()?.remaining).toBe(0);
+  });
+
+  it("frees up reloads once they leave the rolling window", () => {
+    recordReload();
+    recordReload();
+    recordReload();
+    expect(getReloadBudget()?.remaining).toBe(0);
+
+    vi.advanceTimersByTime(60_000);
+
+    expect(getReloadBudget()).toMatchObject({ remaining: 3, resetAt: null });
+  });
+
+  it("keeps a separate budget per appName", () => {
+    setWindowOptions({
+      appName: "admin",
+      reloadBudget: { enabled: true, maxReloads: 3, windowMs: 60_000 },
+    });
+    recordReload();
+
+    expect(localStorage.getItem("__spa_guard_reload_budget__:admin")).not.toBeNull();
+    expect(localStorage.getItem("__spa_guard_reload_budget__")).toBeNull();
+  });
+
+  it("ignores corrupted storage", () => {
+    localStorage.setItem("__spa_guard_reload_budget__", "{not json");
+
+    expect(getReloadBudget()?.remaining).toBe(3);
+  });
+
+  it("falls back to memory when localStorage throws", () => {
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new Error("QuotaExceededError");
+    });
+    vi.spyOn(Storage.prototype, "getItem").mockImplementation(() => {
+      throw new Error("SecurityError");
+    });
+
+    recordReload();
+
+    expect(getReloadBudget()?.remaining).toBe(2);
+  });
+
+  it("is off unless enabled", () => {
+    setWindowOptions({ reloadBudget: { maxReloads: 3 } });
+
+    recordReload();
+
+    expect(getReloadBudget()).toBeNull();
+    expect(localStorage.getItem("__spa_guard_reload_budget__")).toBeNull();
+  });
+
+  it("returns null and records nothing when disabled", () => {
+    setWindowOptions({ reloadBudget: { enabled: false } });
+
+    recordReload();
+
+    expect(getReloadBudget()).toBeNull();
+    expect(localStorage.getItem("__spa_guard_reload_budget__")).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { reloadBudgetWindowKey } from "./constants";
+import { getOptions } from "./options";
+
+const STORAGE_KEY = "__spa_guard_reload_budget__";
+
+/** Reload budget as reported by `getRetrySnapshot()`. */
+export interface ReloadBudgetSnapshot {
+  /** `reloadBudget.maxReloads` */
+  maxReloads: number;
+  /** Automatic reloads still allowed in the current window. */
+  remaining: number;
+  /** When the oldest counted reload leaves the window, or null when none is counted. */
+  resetAt: null | number;
+  /** `reloadBudget.windowMs` */
+  windowMs: number;
+}
+
+/** Fallback for when localStorage is unavailable: reload timestamps keyed like the storage entries. */
+const getInMemoryState = (): Record<string, number[]> => {
+  const w = globalThis.window as any;
+  if (!w) {
+    return {};
+  }
+  return w[reloadBudgetWindowKey] ?? (w[reloadBudgetWindowKey] = {});
+};
+
+const getStorageKey = (): string => {
+  const appName = getOptions().appName;
+  return appName ? `${STORAGE_KEY}:${appName}` : STORAGE_KEY;
+};
+
+const readTimestamps = (key: string): number[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored === null) {
+      return getInMemoryState()[key] ?? [];
+    }
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter((t): t is number => typeof t === "number") : [];
+  } catch {
+    return getInMemoryState()[key] ?? [];
+  }
+};
+
+const writeTimestamps = (key: string, timestamps: number[]): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(timestamps));
+  } catch {
+    getInMemoryState()[key] = timestamps;
+  }
+};
+
+const getConfig = (): null | { maxReloads: number; windowMs: number } => {
+  const reloadBudget = getOptions().reloadBudget;
+  if (reloadBudget?.enabled !== true) {
+    return null;
+  }
+  return {
+    maxReloads: reloadBudget?.maxReloads ?? 10,
+    windowMs: reloadBudget?.windowMs ?? 3_600_000,
+  };
+};
+
+const readRecentReloads = (windowMs: number): number[] => {
+  const cutoff = Date.now() - windowMs;
+  return readTimestamps(getStorageKey()).filter((timestamp) => timestamp > cutoff);
+};
+
+/** Current state of the reload budget, or null unless `reloadBudget.enabled` is set. */
+export const getReloadBudget = (): null | ReloadBudgetSnapshot => {
+  const config = getConfig();
+  if (!config) {
+    return null;
+  }
+  const recent = readRecentReloads(config.windowMs);
+  const oldest = recent.length > 0 ? Math.min(...recent) : null;
+  return {
+    maxReloads: config.maxReloads,
+    remaining: Math.max(config.maxReloads - recent.length, 0),
+    resetAt: oldest === null ? null : oldest + config.windowMs,
+    windowMs: config.windowMs,
+  };
+};
+
+/** Counts one automatic reload against the budget. No-op when the budget is disabled. */
+export const recordReload = (): void => {
+  const config = getConfig();
+  if (!config) {
+    return;
+  }
+  // Only the newest maxReloads entries can affect the budget
+  const recent = [...readRecentReloads(config.windowMs), Date.now()].slice(-config.maxReloads);
+  writeTimestamps(getStorageKey(), recent);
+};
+
+/** Clears the counted reloads of this app - exported for testing only */
+export const _resetReloadBudgetForTesting = (): void => {
+  const key = getStorageKey();
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Ignore
+  }
+  delete getInMemoryState()[key];
+};
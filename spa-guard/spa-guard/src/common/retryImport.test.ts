@@ -115,6 +115,29 @@ describe("retryImport", () => {
     expect(onRetry).toHaveBeenNthCalledWith(3, 3, 300);
   });
 
+  it("takes the delays from a backoff strategy", async () => {
+    vi.useFakeTimers();
+    const importFn = vi.fn().mockRejectedValue(new Error("chunk error"));
+    const onRetry = vi.fn();
+
+    const promise = retryImport(
+      importFn,
+      { attempts: 3, base: 100, type: "exponential" },
+      { onRetry },
+    );
+    promise.catch(() => {});
+
+    await vi.runAllTimersAsync();
+
+    await expect(promise).rejects.toThrow("chunk error");
+    expect(importFn).toHaveBeenCalledTimes(4);
+    expect(onRetry.mock.calls).toEqual([
+      [1, 100],
+      [2, 200],
+      [3, 400],
+    ]);
+  });
+
   describe("abort signal cleanup", () => {
     it("removes abort listener after wait resolves normally", async () => {
       vi.useFakeTimers();
@@ -234,6 +257,30 @@ describe("retryImport", () => {
         totalAttempts: 2,
         willReload: false,
       });
+      expect(exhaustedEvent).not.toHaveProperty("preload");
+    });
+
+    it("tags every lazy-retry event of a preload", async () => {
+      vi.useFakeTimers();
+      const importFn = vi.fn().mockRejectedValue(new Error("chunk load failed"));
+      const events: SPAGuardEvent[] = [];
+      const unsub = subscribe((e) => events.push(e));
+
+      const promise = retryImport(importFn, [100], { preload: true });
+      promise.catch(() => {});
+      await vi.runAllTimersAsync();
+      await expect(promise).rejects.toThrow("chunk load failed");
+
+      unsub();
+      const lazyEvents = events.filter((e) => e.name.startsWith("lazy-retry-"));
+      expect(lazyEvents.map((e) => e.name)).toEqual([
+        "lazy-retry-start",
+        "lazy-retry-attempt",
+        "lazy-retry-exhausted",
+      ]);
+      for (const event of lazyEvents) {
+        expect(event).toHaveProperty("preload", true);
+      }
     });
   });
 
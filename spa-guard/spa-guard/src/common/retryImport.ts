@@ -1,3 +1,6 @@
+import type { RetryDelays } from "./backoff";
+
+import { resolveDelays } from "./backoff";
 import { emitEvent, isDefaultRetryEnabled } from "./events/internal";
 import { isChunkError } from "./isChunkError";
 import { triggerRetry } from "./retryOrchestrator";
@@ -42,6 +45,11 @@ export interface RetryImportOptions {
    * onRetry: (attempt, delay) => console.log(`Retry ${attempt} after ${delay}ms`)
    */
   onRetry?: (attempt: number, delay: number) => void;
+  /**
+   * Marks the emitted `lazy-retry-*` events with `preload: true`, so listeners can tell a
+   * failed preload from a failed render.
+   */
+  preload?: boolean;
   /**
    * AbortSignal to cancel pending retries and clear timers.
    * When aborted, any in-progress wait is cancelled immediately (preventing memory leaks),
@@ -55,29 +63,32 @@ export interface RetryImportOptions {
  * Retries an import function with configurable delays between attempts.
  *
  * @param importFn - The function that performs the dynamic import
- * @param delays - Array of delays in milliseconds. Each entry represents one retry attempt.
+ * @param retryDelays - Array of delays in milliseconds, one entry per retry attempt, or a backoff strategy.
  * @param options - Optional configuration for retry behaviour
  * @returns Promise that resolves with the import result or rejects after all attempts are exhausted
  *
  * @example
  * retryImport(() => import('./MyModule'), [1000, 2000])
+ * retryImport(() => import('./MyModule'), { type: "exponential", base: 500, attempts: 3, jitter: 0.3 })
  * retryImport(() => import('./MyModule'), [500, 1500], {
  *   onRetry: (attempt, delayMs) => console.log(`Retry ${attempt} after ${delayMs}ms`),
  * })
  */
 export const retryImport = async <T>(
   importFn: () => Promise<T>,
-  delays: number[],
+  retryDelays: RetryDelays,
   options?: RetryImportOptions,
 ): Promise<T> => {
-  const { callReloadOnFailure, onRetry, signal } = options ?? {};
+  const { callReloadOnFailure, onRetry, preload, signal } = options ?? {};
+  const preloadTag = preload === true ? { preload: true } : {};
+  const delays = resolveDelays(retryDelays);
   let lastError: Error = new Error("Import failed after all retry attempts");
 
   const totalAttempts = delays.length + 1;
   const startTime = Date.now();
 
   if (delays.length > 0) {
-    emitEvent({ name: "lazy-retry-start", totalAttempts });
+    emitEvent({ name: "lazy-retry-start", totalAttempts, ...preloadTag });
   }
 
   for (let attempt = 0; attempt < totalAttempts; attempt++) {
@@ -88,7 +99,12 @@ export const retryImport = async <T>(
     try {
       const result = await importFn();
       if (attempt > 0) {
-        emitEvent({ attempt, name: "lazy-retry-success", totalTime: Date.now() - startTime });
+        emitEvent({
+          attempt,
+          name: "lazy-retry-success",
+          totalTime: Date.now() - startTime,
+          ...preloadTag,
+        });
       }
       return result;
     } catch (error) {
@@ -106,6 +122,7 @@ export const retryImport = async <T>(
         error: lastError,
         name: "lazy-retry-attempt",
         totalAttempts,
+        ...preloadTag,
       });
       await wait(currentDelay, signal);
     }
@@ -113,7 +130,13 @@ export const retryImport = async <T>(
 
   const willReload =
     callReloadOnFailure === true && isChunkError(lastError) && isDefaultRetryEnabled();
-  emitEvent({ error: lastError, name: "lazy-retry-exhausted", totalAttempts, willReload });
+  emitEvent({
+    error: lastError,
+    name: "lazy-retry-exhausted",
+    totalAttempts,
+    willReload,
+    ...preloadTag,
+  });
 
   if (willReload) {
     triggerRetry({ error: lastError, source: "lazy-import-failure" });
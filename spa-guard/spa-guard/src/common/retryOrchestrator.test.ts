@@ -19,6 +19,11 @@ vi.mock("./options", () => ({
   getOptions: vi.fn(),
 }));
 
+vi.mock("./reloadBudget", () => ({
+  getReloadBudget: vi.fn().mockReturnValue(null),
+  recordReload: vi.fn(),
+}));
+
 vi.mock("./retryState", () => ({
   generateRetryId: vi.fn(),
 }));
@@ -27,15 +32,25 @@ vi.mock("./sendBeacon", () => ({
   sendBeacon: vi.fn(),
 }));
 
+vi.mock("./serviceWorker", () => ({
+  navigateAfterServiceWorkerRefresh: vi.fn(),
+}));
+
 vi.mock("./shouldIgnore", () => ({
   shouldIgnoreMessages: vi.fn(),
 }));
 
 vi.mock("./fallbackRendering", () => ({
+  resolveFallbackCategory: vi.fn(),
   showFallbackUI: vi.fn(),
   showLoadingUI: vi.fn(),
 }));
 
+vi.mock("./fallbackRecovery", () => ({
+  startFallbackRecovery: vi.fn(),
+  stopFallbackRecovery: vi.fn(),
+}));
+
 vi.mock("./fallbackState", () => ({
   isInFallbackMode: vi.fn().mockReturnValue(false),
   resetFallbackMode: vi.fn(),
@@ -43,7 +58,8 @@ vi.mock("./fallbackState", () => ({
 }));
 
 import { emitEvent, getLogger, isDefaultRetryEnabled } from "./events/internal";
-import { showFallbackUI, showLoadingUI } from "./fallbackRendering";
+import { startFallbackRecovery, stopFallbackRecovery } from "./fallbackRecovery";
+import { resolveFallbackCategory, showFallbackUI, showLoadingUI } from "./fallbackRendering";
 import { isInFallbackMode, resetFallbackMode, setFallbackMode } from "./fallbackState";
 import {
   clearLastReloadTime,
@@ -54,6 +70,7 @@ import {
   shouldResetRetryCycle,
 } from "./lastReloadTime";
 import { getOptions } from "./options";
+import { getReloadBudget, recordReload } from "./reloadBudget";
 import {
   getRetrySnapshot,
   markRetryHealthyBoot,
@@ -63,6 +80,7 @@ import {
 } from "./retryOrchestrator";
 import { generateRetryId } from "./retryState";
 import { sendBeacon } from "./sendBeacon";
+import { navigateAfterServiceWorkerRefresh } from "./serviceWorker";
 import { shouldIgnoreMessages } from "./shouldIgnore";
 
 const mockEmitEvent = vi.mocked(emitEvent);
@@ -75,8 +93,11 @@ const mockSetLastReloadTime = vi.mocked(setLastReloadTime);
 const mockSetLastRetryResetInfo = vi.mocked(setLastRetryResetInfo);
 const mockShouldResetRetryCycle = vi.mocked(shouldResetRetryCycle);
 const mockGetOptions = vi.mocked(getOptions);
+const mockGetReloadBudget = vi.mocked(getReloadBudget);
+const mockRecordReload = vi.mocked(recordReload);
 const mockGenerateRetryId = vi.mocked(generateRetryId);
 const mockSendBeacon = vi.mocked(sendBeacon);
+const mockNavigateAfterServiceWorkerRefresh = vi.mocked(navigateAfterServiceWorkerRefresh);
 const mockShouldIgnoreMessages = vi.mocked(shouldIgnoreMessages);
 const mockShowFallbackUI = vi.mocked(showFallbackUI);
 const mockShowLoadingUI = vi.mocked(showLoadingUI);
@@ -159,11 +180,14 @@ describe("retryOrchestrator", () => {
     mockGetLogger.mockReturnValue(mockLogger);
     mockGetOptions.mockReturnValue(defaultOptions);
     mockGenerateRetryId.mockReturnValue("generated-retry-id");
+    vi.mocked(resolveFallbackCategory).mockReturnValue("generic");
     mockShouldResetRetryCycle.mockReturnValue(false);
     mockGetLastReloadTime.mockReturnValue(null);
+    mockGetReloadBudget.mockReturnValue(null);
     mockShouldIgnoreMessages.mockReturnValue(false);
     mockIsInFallbackMode.mockReturnValue(false);
     mockIsDefaultRetryEnabled.mockReturnValue(true);
+    mockNavigateAfterServiceWorkerRefresh.mockImplementation((navigate) => navigate());
   });
 
   afterEach(() => {
@@ -203,6 +227,19 @@ describe("retryOrchestrator", () => {
       );
     });
 
+    it("takes the delay from a backoff strategy", () => {
+      mockGetOptions.mockReturnValue({
+        ...defaultOptions,
+        reloadDelays: { attempts: 4, base: 1000, factor: 3, max: 5000, type: "exponential" },
+      });
+      setupMockLocation("http://localhost/?spaGuardRetryId=id&spaGuardRetryAttempt=2");
+      triggerRetry({ error: new Error("chunk error") });
+      expect(mockEmitEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 3, delay: 5000, name: "retry-attempt" }),
+        { silent: false },
+      );
+    });
+
     it("navigates to reload URL after delay", () => {
       triggerRetry({ error: new Error("chunk error") });
       expect(mockLocationHref).toBe("http://localhost/");
@@ -381,6 +418,29 @@ describe("retryOrchestrator", () => {
       expect(mockShowFallbackUI).toHaveBeenCalledTimes(1);
     });
 
+    it("renders the fallback template for the category of the trigger source", () => {
+      setupMockLocation("http://localhost/?spaGuardRetryId=id&spaGuardRetryAttempt=3");
+      vi.mocked(resolveFallbackCategory).mockReturnValue("static-asset");
+
+      triggerRetry({ error: new Error("asset error"), source: "static-asset-error" });
+
+      expect(resolveFallbackCategory).toHaveBeenCalledWith("static-asset-error");
+      expect(mockShowFallbackUI).toHaveBeenCalledWith({ category: "static-asset", retryId: "id" });
+    });
+
+    it("starts the fallback recovery probe after rendering the fallback UI", () => {
+      setupMockLocation("http://localhost/?spaGuardRetryId=id&spaGuardRetryAttempt=3");
+      const order: string[] = [];
+      mockShowFallbackUI.mockImplementation(() => order.push("showFallbackUI"));
+      vi.mocked(startFallbackRecovery).mockImplementation(() =>
+        order.push("startFallbackRecovery"),
+      );
+
+      triggerRetry({ error: new Error("chunk error") });
+
+      expect(order).toEqual(["showFallbackUI", "startFallbackRecovery"]);
+    });
+
     it("calls showFallbackUI after setFallbackMode (lifecycle before rendering)", () => {
       setupMockLocation("http://localhost/?spaGuardRetryId=id&spaGuardRetryAttempt=3");
       const order: string[] = [];
@@ -406,6 +466,16 @@ describe("retryOrchestrator", () => {
       );
     });
 
+    it("passes the original error to sendBeacon when exhausted", () => {
+      setupMockLocation("http://localhost/?spaGuardRetryId=r1&spaGuardRetryAttempt=3");
+      const error = new Error("chunk error");
+      triggerRetry({ error });
+      expect(mockSendBeacon).toHaveBeenCalledWith(
+        expect.objectContaining({ eventName: "chunk_error_max_reloads" }),
+        { error },
+      );
+    });
+
     it("sends beacon when exhausted", () => {
       setupMockLocation("http://localhost/?spaGuardRetryId=r1&spaGuardRetryAttempt=3");
       triggerRetry({ error: new Error("chunk error") });
@@ -415,6 +485,7 @@ describe("retryOrchestrator", () => {
           retryAttempt: 3,
           retryId: "r1",
         }),
+        expect.anything(),
       );
     });
 
@@ -428,6 +499,16 @@ describe("retryOrchestrator", () => {
       expect(url.searchParams.get("spaGuardRetryAttempt")).toBe("3");
     });
 
+    it("shows fallback once a backoff strategy's attempts are used up", () => {
+      mockGetOptions.mockReturnValue({
+        ...defaultOptions,
+        reloadDelays: { attempts: 2, base: 1000, type: "exponential" },
+      });
+      setupMockLocation("http://localhost/?spaGuardRetryId=id&spaGuardRetryAttempt=2");
+      const result = triggerRetry({ error: new Error("chunk error") });
+      expect(result).toEqual({ status: "fallback" });
+    });
+
     it("shows fallback immediately when reloadDelays is empty", () => {
       mockGetOptions.mockReturnValue({ ...defaultOptions, reloadDelays: [] });
       const result = triggerRetry({ error: new Error("chunk error") });
@@ -448,6 +529,76 @@ describe("retryOrchestrator", () => {
     });
   });
 
+  describe("triggerRetry - reload budget", () => {
+    const exhaustedBudget = { maxReloads: 10, remaining: 0, resetAt: 5000, windowMs: 3_600_000 };
+
+    it("counts each retry reload against the budget", () => {
+      triggerRetry({ error: new Error("chunk error") });
+      expect(mockRecordReload).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1000);
+      expect(mockRecordReload).toHaveBeenCalledTimes(1);
+    });
+
+    it("goes straight to fallback when the budget is used up", () => {
+      mockGetReloadBudget.mockReturnValue(exhaustedBudget);
+
+      const result = triggerRetry({ error: new Error("chunk error") });
+      vi.advanceTimersByTime(10_000);
+
+      expect(result).toEqual({ status: "fallback" });
+      expect(mockLocationHref).toBe("http://localhost/");
+      expect(mockSetFallbackMode).toHaveBeenCalledTimes(1);
+      expect(mockShowFallbackUI).toHaveBeenCalledWith({
+        category: "generic",
+        retryId: "generated-retry-id",
+      });
+      expect(mockShowLoadingUI).not.toHaveBeenCalled();
+      expect(getRetrySnapshot().phase).toBe("fallback");
+    });
+
+    it("emits chunk-error with isRetrying=false and reload-budget-exceeded", () => {
+      mockGetReloadBudget.mockReturnValue(exhaustedBudget);
+
+      triggerRetry({ error: new Error("chunk error") });
+
+      expect(mockEmitEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ isRetrying: false, name: "chunk-error" }),
+      );
+      expect(mockEmitEvent).toHaveBeenCalledWith(
+        {
+          maxReloads: 10,
+          name: "reload-budget-exceeded",
+          retryId: "generated-retry-id",
+          windowMs: 3_600_000,
+        },
+        { silent: false },
+      );
+    });
+
+    it("sends a reload_budget_exceeded beacon", () => {
+      mockGetReloadBudget.mockReturnValue(exhaustedBudget);
+      const error = new Error("chunk error");
+
+      triggerRetry({ error });
+
+      expect(mockSendBeacon).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventName: "reload_budget_exceeded",
+          retryAttempt: 0,
+          retryId: "generated-retry-id",
+        }),
+        { error },
+      );
+    });
+
+    it("reports the budget in getRetrySnapshot()", () => {
+      const budget = { maxReloads: 10, remaining: 7, resetAt: 5000, windowMs: 3_600_000 };
+      mockGetReloadBudget.mockReturnValue(budget);
+
+      expect(getRetrySnapshot().reloadBudget).toEqual(budget);
+    });
+  });
+
   describe("triggerRetry - showLoadingUI", () => {
     it("calls showLoadingUI(1) on first attempt with no URL retry state", () => {
       triggerRetry({ error: new Error("chunk error") });
@@ -852,6 +1003,147 @@ describe("retryOrchestrator", () => {
     });
   });
 
+  describe("triggerRetry - offline handling", () => {
+    let networkTarget: EventTarget;
+    let onLine: boolean;
+
+    const setNetwork = (online: boolean): void => {
+      onLine = online;
+      if (online) {
+        networkTarget.dispatchEvent(new Event("online"));
+      }
+    };
+
+    beforeEach(() => {
+      networkTarget = new EventTarget();
+      onLine = false;
+      Object.assign(globalThis.window, {
+        addEventListener: vi.fn(networkTarget.addEventListener.bind(networkTarget)),
+        navigator: {
+          get onLine() {
+            return onLine;
+          },
+        },
+        removeEventListener: vi.fn(networkTarget.removeEventListener.bind(networkTarget)),
+      });
+    });
+
+    it("enters waiting-online phase instead of scheduling when offline", () => {
+      const result = triggerRetry({ error: new Error("chunk error") });
+      expect(result).toEqual({ status: "accepted" });
+      expect(getRetrySnapshot().phase).toBe("waiting-online");
+    });
+
+    it("emits network-offline with the pending attempt and retryId", () => {
+      triggerRetry({ error: new Error("chunk error") });
+      expect(mockEmitEvent).toHaveBeenCalledWith({
+        attempt: 1,
+        name: "network-offline",
+        retryId: "generated-retry-id",
+      });
+    });
+
+    it("does not navigate while offline, regardless of elapsed time", () => {
+      triggerRetry({ error: new Error("chunk error") });
+      vi.advanceTimersByTime(60_000);
+      expect(mockLocationHref).toBe("http://localhost/");
+      expect(mockSetLastReloadTime).not.toHaveBeenCalled();
+    });
+
+    it("resumes the reload delay on the online event", () => {
+      triggerRetry({ error: new Error("chunk error") });
+      setNetwork(true);
+
+      expect(getRetrySnapshot().phase).toBe("scheduled");
+      expect(mockEmitEvent).toHaveBeenCalledWith({
+        attempt: 1,
+        name: "network-online",
+        retryId: "generated-retry-id",
+      });
+
+      vi.advanceTimersByTime(999);
+      expect(mockLocationHref).toBe("http://localhost/");
+      vi.advanceTimersByTime(1);
+      expect(mockLocationHref).toContain("spaGuardRetryAttempt=1");
+    });
+
+    it("holds the reload when the connection drops during the delay", () => {
+      onLine = true;
+      triggerRetry({ error: new Error("chunk error") });
+      expect(getRetrySnapshot().phase).toBe("scheduled");
+
+      onLine = false;
+      vi.advanceTimersByTime(1000);
+      expect(getRetrySnapshot().phase).toBe("waiting-online");
+      expect(mockLocationHref).toBe("http://localhost/");
+
+      setNetwork(true);
+      expect(mockLocationHref).toContain("spaGuardRetryAttempt=1");
+    });
+
+    it("dedupes triggers while waiting for the network", () => {
+      triggerRetry({ error: new Error("first") });
+      const result = triggerRetry({ error: new Error("second") });
+      expect(result).toEqual({ reason: "already-scheduled", status: "deduped" });
+    });
+
+    it("does not consume an attempt while waiting for the network", () => {
+      triggerRetry({ error: new Error("chunk error") });
+      vi.advanceTimersByTime(60_000);
+      setNetwork(true);
+      vi.advanceTimersByTime(1000);
+      expect(mockLocationHref).toContain("spaGuardRetryAttempt=1");
+    });
+
+    it("markRetryHealthyBoot removes the pending online listener", () => {
+      triggerRetry({ error: new Error("chunk error") });
+      markRetryHealthyBoot();
+      setNetwork(true);
+      vi.advanceTimersByTime(10_000);
+
+      expect(globalThis.window.removeEventListener).toHaveBeenCalledWith(
+        "online",
+        expect.any(Function),
+      );
+      expect(getRetrySnapshot().phase).toBe("idle");
+      expect(mockLocationHref).toBe("http://localhost/");
+    });
+
+    it("treats a missing navigator.onLine as online", () => {
+      Object.assign(globalThis.window, { navigator: {} });
+      triggerRetry({ error: new Error("chunk error") });
+      expect(getRetrySnapshot().phase).toBe("scheduled");
+    });
+  });
+
+  describe("triggerRetry - service worker refresh", () => {
+    it("navigates through navigateAfterServiceWorkerRefresh", () => {
+      triggerRetry({ error: new Error("chunk error") });
+      vi.advanceTimersByTime(1000);
+
+      expect(mockNavigateAfterServiceWorkerRefresh).toHaveBeenCalledTimes(1);
+      expect(mockLocationHref).toContain("spaGuardRetryAttempt=1");
+    });
+
+    it("waits for the service worker refresh before navigating", () => {
+      let continueNavigation: (() => void) | undefined;
+      mockNavigateAfterServiceWorkerRefresh.mockImplementation((navigate) => {
+        continueNavigation = navigate;
+      });
+
+      triggerRetry({ error: new Error("chunk error") });
+      vi.advanceTimersByTime(1000);
+
+      expect(mockLocationHref).toBe("http://localhost/");
+      expect(mockSetLastReloadTime).not.toHaveBeenCalled();
+
+      continueNavigation?.();
+
+      expect(mockLocationHref).toContain("spaGuardRetryId=generated-retry-id");
+      expect(mockSetLastReloadTime).toHaveBeenCalledWith("generated-retry-id", 1);
+    });
+  });
+
   describe("markRetryHealthyBoot", () => {
     it("resets phase to idle", () => {
       triggerRetry({ error: new Error("chunk error") });
@@ -910,6 +1202,12 @@ describe("retryOrchestrator", () => {
       expect(mockResetFallbackMode).toHaveBeenCalledTimes(1);
     });
 
+    it("stops the fallback recovery probe", () => {
+      vi.mocked(stopFallbackRecovery).mockClear();
+      markRetryHealthyBoot();
+      expect(stopFallbackRecovery).toHaveBeenCalledTimes(1);
+    });
+
     it("resets retryId to null in snapshot", () => {
       triggerRetry({ error: new Error("chunk error") });
       markRetryHealthyBoot();
@@ -975,6 +1273,19 @@ describe("retryOrchestrator", () => {
       expect(mockShowFallbackUI).toHaveBeenCalledTimes(1);
     });
 
+    it("picks the fallback category from the last trigger source", () => {
+      triggerRetry({ error: new Error("chunk error"), source: "chunk-error" });
+      vi.mocked(resolveFallbackCategory).mockReturnValue("stale-deploy");
+
+      setFallbackStateForDebug();
+
+      expect(resolveFallbackCategory).toHaveBeenLastCalledWith("chunk-error");
+      expect(mockShowFallbackUI).toHaveBeenCalledWith({
+        category: "stale-deploy",
+        retryId: "generated-retry-id",
+      });
+    });
+
     it("cancels a pending scheduled reload timer so it does not navigate after fallback", () => {
       triggerRetry({ error: new Error("chunk error") });
       expect(getRetrySnapshot().phase).toBe("scheduled");
@@ -1,7 +1,11 @@
+import type { ReloadBudgetSnapshot } from "./reloadBudget";
+
 import { name } from "../../package.json";
+import { resolveDelays } from "./backoff";
 import { CACHE_BUST_PARAM, RETRY_ATTEMPT_PARAM, RETRY_ID_PARAM } from "./constants";
 import { emitEvent, getLogger, isDefaultRetryEnabled } from "./events/internal";
-import { showFallbackUI, showLoadingUI } from "./fallbackRendering";
+import { startFallbackRecovery, stopFallbackRecovery } from "./fallbackRecovery";
+import { resolveFallbackCategory, showFallbackUI, showLoadingUI } from "./fallbackRendering";
 import { isInFallbackMode, resetFallbackMode, setFallbackMode } from "./fallbackState";
 import {
   clearLastReloadTime,
@@ -12,19 +16,23 @@ import {
   shouldResetRetryCycle,
 } from "./lastReloadTime";
 import { getOptions } from "./options";
+import { getReloadBudget, recordReload } from "./reloadBudget";
 import { generateRetryId } from "./retryState";
 import { sendBeacon } from "./sendBeacon";
+import { navigateAfterServiceWorkerRefresh } from "./serviceWorker";
 import { shouldIgnoreMessages } from "./shouldIgnore";
 
 const retryOrchestratorKey = Symbol.for(`${name}:retry-orchestrator`);
 
-export type RetryPhase = "fallback" | "idle" | "scheduled";
+export type RetryPhase = "fallback" | "idle" | "scheduled" | "waiting-online";
 
 export interface RetrySnapshot {
   attempt: number;
   lastSource?: string;
   lastTriggerTime?: number;
   phase: RetryPhase;
+  /** Automatic reloads left across retry cycles, or null when `reloadBudget` is disabled. */
+  reloadBudget: null | ReloadBudgetSnapshot;
   retryId: null | string;
 }
 
@@ -45,6 +53,7 @@ interface OrchestratorState {
   attempt: number;
   lastSource?: string;
   lastTriggerTime?: number;
+  onlineHandler: (() => void) | null;
   phase: RetryPhase;
   retryId: null | string;
   timer: null | ReturnType<typeof setTimeout>;
@@ -52,6 +61,7 @@ interface OrchestratorState {
 
 const createFreshState = (): OrchestratorState => ({
   attempt: 0,
+  onlineHandler: null,
   phase: "idle",
   retryId: null,
   timer: null,
@@ -79,6 +89,36 @@ const setState = (updates: Partial<OrchestratorState>): void => {
   Object.assign(w[retryOrchestratorKey], updates);
 };
 
+const clearPendingReload = (state: OrchestratorState): void => {
+  if (state.timer !== null) {
+    clearTimeout(state.timer);
+  }
+  if (state.onlineHandler !== null) {
+    globalThis.window?.removeEventListener("online", state.onlineHandler);
+  }
+};
+
+// IMPORTANT: Only an explicit `false` means offline. Environments without
+// navigator.onLine (SSR, some embedded webviews) are treated as online.
+const isBrowserOffline = (): boolean => globalThis.window?.navigator?.onLine === false;
+
+/**
+ * Holds a pending reload until the browser reports connectivity again.
+ * Reloading while offline would only land on the browser's own error page
+ * and burn through the remaining attempts.
+ */
+const waitForOnline = (retryId: string, attempt: number, onOnline: () => void): void => {
+  const handler = () => {
+    setState({ onlineHandler: null, phase: "scheduled" });
+    emitEvent({ attempt, name: "network-online", retryId });
+    onOnline();
+  };
+
+  setState({ onlineHandler: handler, phase: "waiting-online", timer: null });
+  globalThis.window.addEventListener("online", handler, { once: true });
+  emitEvent({ attempt, name: "network-offline", retryId });
+};
+
 const buildReloadUrl = (
   retryId: string,
   attempt: number,
@@ -138,6 +178,14 @@ const clearRetryFromUrl = (): void => {
   }
 };
 
+const enterFallback = (retryId: string, attempt: number, source?: string): void => {
+  setState({ attempt, phase: "fallback", retryId });
+  setFallbackMode();
+  clearRetryFromUrl();
+  showFallbackUI({ category: resolveFallbackCategory(source), retryId });
+  startFallbackRecovery();
+};
+
 export const triggerRetry = (input: TriggerInput = {}): TriggerResult => {
   const state = getState();
 
@@ -146,7 +194,7 @@ export const triggerRetry = (input: TriggerInput = {}): TriggerResult => {
     return { status: "fallback" };
   }
 
-  if (state.phase === "scheduled") {
+  if (state.phase === "scheduled" || state.phase === "waiting-online") {
     getLogger()?.reloadAlreadyScheduled(input.error);
     return { reason: "already-scheduled", status: "deduped" };
   }
@@ -164,7 +212,8 @@ export const triggerRetry = (input: TriggerInput = {}): TriggerResult => {
 
   try {
     const options = getOptions();
-    const reloadDelays = options.reloadDelays ?? [1000, 2000, 5000];
+    const configuredDelays = options.reloadDelays ?? [1000, 2000, 5000];
+    const reloadDelays = resolveDelays(configuredDelays);
     const useRetryId = options.useRetryId ?? true;
     const enableRetryReset = options.enableRetryReset ?? true;
     const minTimeBetweenResets = options.minTimeBetweenResets ?? 5000;
@@ -181,7 +230,9 @@ export const triggerRetry = (input: TriggerInput = {}): TriggerResult => {
     // Check whether the retry cycle should be reset due to enough time passing
     if (enableRetryReset && urlRetryId && urlAttempt !== null && urlAttempt > 0) {
       const retryStateForReset = { retryAttempt: urlAttempt, retryId: urlRetryId };
-      if (shouldResetRetryCycle(retryStateForReset, reloadDelays, minTimeBetweenResets)) {
+      // Upper-bound delays: a jittered reload must never look like a stale cycle
+      const maxDelays = resolveDelays(configuredDelays, false);
+      if (shouldResetRetryCycle(retryStateForReset, maxDelays, minTimeBetweenResets)) {
         const lastReload = getLastReloadTime();
         const timeSinceReload = lastReload ? Date.now() - lastReload.timestamp : 0;
 
@@ -205,13 +256,51 @@ export const triggerRetry = (input: TriggerInput = {}): TriggerResult => {
       }
     }
 
+    const attemptsLeft = currentAttempt < reloadDelays.length;
+    const reloadBudget = attemptsLeft ? getReloadBudget() : null;
+    const budgetExceeded = reloadBudget !== null && reloadBudget.remaining === 0;
+
     // Emit chunk-error after reset resolution so isRetrying reflects the final attempt count
     emitEvent({
       error: input.error,
-      isRetrying: currentAttempt < reloadDelays.length,
+      isRetrying: attemptsLeft && !budgetExceeded,
       name: "chunk-error",
     });
 
+    // Too many automatic reloads recently, possibly over several retry cycles or tabs
+    if (budgetExceeded) {
+      const errorMsg = String(input.error);
+      emitEvent(
+        {
+          maxReloads: reloadBudget.maxReloads,
+          name: "reload-budget-exceeded",
+          retryId,
+          windowMs: reloadBudget.windowMs,
+        },
+        { silent: shouldIgnoreMessages([errorMsg]) },
+      );
+
+      sendBeacon(
+        {
+          errorMessage: "Exceeded reload budget",
+          eventName: "reload_budget_exceeded",
+          retryAttempt: currentAttempt,
+          retryId,
+          serialized: JSON.stringify({
+            error: String(input.error),
+            maxReloads: reloadBudget.maxReloads,
+            retryAttempt: currentAttempt,
+            retryId,
+            windowMs: reloadBudget.windowMs,
+          }),
+        },
+        { error: input.error },
+      );
+
+      enterFallback(retryId, currentAttempt, input.source);
+      return { status: "fallback" };
+    }
+
     // Attempts exhausted — transition to fallback
     if (currentAttempt >= reloadDelays.length) {
       const errorMsg = String(input.error);
@@ -224,22 +313,22 @@ export const triggerRetry = (input: TriggerInput = {}): TriggerResult => {
         { silent: shouldIgnoreMessages([errorMsg]) },
       );
 
-      sendBeacon({
-        errorMessage: "Exceeded maximum reload attempts",
-        eventName: "chunk_error_max_reloads",
-        retryAttempt: currentAttempt,
-        retryId,
-        serialized: JSON.stringify({
-          error: String(input.error),
+      sendBeacon(
+        {
+          errorMessage: "Exceeded maximum reload attempts",
+          eventName: "chunk_error_max_reloads",
           retryAttempt: currentAttempt,
           retryId,
-        }),
-      });
+          serialized: JSON.stringify({
+            error: String(input.error),
+            retryAttempt: currentAttempt,
+            retryId,
+          }),
+        },
+        { error: input.error },
+      );
 
-      setState({ attempt: currentAttempt, phase: "fallback", retryId });
-      setFallbackMode();
-      clearRetryFromUrl();
-      showFallbackUI({ retryId });
+      enterFallback(retryId, currentAttempt, input.source);
       return { status: "fallback" };
     }
 
@@ -262,20 +351,40 @@ export const triggerRetry = (input: TriggerInput = {}): TriggerResult => {
     setState({ attempt: nextAttempt, retryId });
     showLoadingUI(nextAttempt);
 
-    const timer = setTimeout(() => {
-      try {
-        if (useRetryId && enableRetryReset) {
-          setLastReloadTime(retryId, nextAttempt);
+    const navigate = () => {
+      navigateAfterServiceWorkerRefresh(() => {
+        try {
+          if (useRetryId && enableRetryReset) {
+            setLastReloadTime(retryId, nextAttempt);
+          }
+          recordReload();
+          const reloadUrl = buildReloadUrl(retryId, nextAttempt, input.cacheBust, useRetryId);
+          globalThis.window.location.href = reloadUrl;
+        } catch (navError) {
+          getLogger()?.error("triggerRetry navigation failed", navError);
+          setState({ phase: "idle", timer: null });
         }
-        const reloadUrl = buildReloadUrl(retryId, nextAttempt, input.cacheBust, useRetryId);
-        globalThis.window.location.href = reloadUrl;
-      } catch (navError) {
-        getLogger()?.error("triggerRetry navigation failed", navError);
-        setState({ phase: "idle", timer: null });
-      }
-    }, delay);
+      });
+    };
+
+    const scheduleReload = () => {
+      const timer = setTimeout(() => {
+        // The connection may have dropped while the delay was running
+        if (isBrowserOffline()) {
+          waitForOnline(retryId, nextAttempt, navigate);
+          return;
+        }
+        navigate();
+      }, delay);
 
-    setState({ timer });
+      setState({ timer });
+    };
+
+    if (isBrowserOffline()) {
+      waitForOnline(retryId, nextAttempt, scheduleReload);
+    } else {
+      scheduleReload();
+    }
 
     return { status: "accepted" };
   } catch (error) {
@@ -286,10 +395,8 @@ export const triggerRetry = (input: TriggerInput = {}): TriggerResult => {
 };
 
 export const markRetryHealthyBoot = (): void => {
-  const state = getState();
-  if (state.timer !== null) {
-    clearTimeout(state.timer);
-  }
+  clearPendingReload(getState());
+  stopFallbackRecovery();
   clearRetryFromUrl();
   clearLastReloadTime();
   clearLastRetryResetInfo();
@@ -306,6 +413,7 @@ export const getRetrySnapshot = (): RetrySnapshot => {
     ...(state.lastSource !== undefined && { lastSource: state.lastSource }),
     ...(state.lastTriggerTime !== undefined && { lastTriggerTime: state.lastTriggerTime }),
     phase: state.phase,
+    reloadBudget: getReloadBudget(),
     retryId: state.retryId,
   };
 };
@@ -317,19 +425,18 @@ export const getRetrySnapshot = (): RetrySnapshot => {
  */
 export const setFallbackStateForDebug = (): void => {
   const state = getState();
-  if (state.timer !== null) {
-    clearTimeout(state.timer);
-  }
-  setState({ phase: "fallback", timer: null });
+  clearPendingReload(state);
+  setState({ onlineHandler: null, phase: "fallback", timer: null });
   setFallbackMode();
-  showFallbackUI({ ...(state.retryId !== null && { retryId: state.retryId }) });
+  showFallbackUI({
+    category: resolveFallbackCategory(state.lastSource),
+    ...(state.retryId !== null && { retryId: state.retryId }),
+  });
 };
 
 export const resetRetryOrchestratorForTests = (): void => {
-  const state = getState();
-  if (state.timer !== null) {
-    clearTimeout(state.timer);
-  }
+  clearPendingReload(getState());
+  stopFallbackRecovery();
   if (globalThis.window !== undefined) {
     (globalThis.window as any)[retryOrchestratorKey] = createFreshState();
   }
@@ -1,5 +1,19 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+import type { BeaconSchema } from "../schema";
+
+vi.mock("./beaconContext", () => ({
+  getBeaconContext: vi.fn(),
+}));
+
+vi.mock("./beaconQueue", () => ({
+  enqueueBeacon: vi.fn(),
+}));
+
+vi.mock("./breadcrumbs", () => ({
+  getBreadcrumbs: vi.fn(),
+}));
+
 vi.mock("./events/internal", () => ({
   getLogger: vi.fn(),
 }));
@@ -12,11 +26,21 @@ vi.mock("./shouldIgnore", () => ({
   shouldIgnoreBeacon: vi.fn(),
 }));
 
+import { parseBeacon } from "../schema/parse";
+import { getBeaconContext } from "./beaconContext";
+import { _resetBeaconPolicyForTesting } from "./beaconPolicy";
+import { enqueueBeacon } from "./beaconQueue";
+import { _clearBeforeSendHooksForTesting, addBeforeSendHook } from "./beforeSend";
+import { getBreadcrumbs } from "./breadcrumbs";
+import { beaconPolicyStateWindowKey } from "./constants";
 import { getLogger } from "./events/internal";
 import { getOptions } from "./options";
-import { sendBeacon } from "./sendBeacon";
+import { sendBeacon, sendUserBeacon } from "./sendBeacon";
 import { shouldIgnoreBeacon } from "./shouldIgnore";
 
+const mockEnqueueBeacon = vi.mocked(enqueueBeacon);
+const mockGetBeaconContext = vi.mocked(getBeaconContext);
+const mockGetBreadcrumbs = vi.mocked(getBreadcrumbs);
 const mockGetLogger = vi.mocked(getLogger);
 const mockGetOptions = vi.mocked(getOptions);
 const mockShouldIgnoreBeacon = vi.mocked(shouldIgnoreBeacon);
@@ -63,6 +87,10 @@ describe("sendBeacon", () => {
   let mockLogger: ReturnType<typeof createMockLogger>;
 
   beforeEach(() => {
+    _resetBeaconPolicyForTesting();
+    _clearBeforeSendHooksForTesting();
+    mockGetBeaconContext.mockReturnValue({});
+    mockGetBreadcrumbs.mockReturnValue([]);
     mockShouldIgnoreBeacon.mockReturnValue(false);
     mockGetOptions.mockReturnValue({
       reportBeacon: { endpoint: DEFAULT_ENDPOINT },
@@ -312,6 +340,500 @@ describe("sendBeacon", () => {
     });
   });
 
+  describe("user, session and tag context", () => {
+    let sendBeaconSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      sendBeaconSpy = vi.spyOn(navigator, "sendBeacon").mockReturnValue(true);
+    });
+
+    it("merges the session ID, user, tags and context into the beacon", () => {
+      const context = {
+        context: { tenant: { plan: "pro" } },
+        sessionId: "session-1",
+        tags: { release: "canary" },
+        user: { id: "42" },
+      };
+      mockGetBeaconContext.mockReturnValue(context);
+
+      sendBeacon(makeBeacon());
+
+      expect(JSON.parse(sendBeaconSpy.mock.calls[0]?.[1] as string)).toEqual({
+        ...makeBeacon(),
+        ...context,
+      });
+    });
+
+    it("exposes the context to beforeSend hooks", () => {
+      mockGetBeaconContext.mockReturnValue({ sessionId: "session-1", user: { id: "42" } });
+      const hook = vi.fn();
+      addBeforeSendHook(hook);
+
+      sendBeacon(makeBeacon());
+
+      expect(hook).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: "session-1", user: { id: "42" } }),
+        {},
+      );
+    });
+
+    it("fits an oversized user, tags and context into the server limits", () => {
+      mockGetBeaconContext.mockReturnValue({
+        context: Object.fromEntries(
+          Array.from({ length: 30 }, (_, i) => [`block${i}`, { payload: "x".repeat(600) }]),
+        ),
+        sessionId: "session-1",
+        tags: Object.fromEntries(
+          Array.from({ length: 60 }, (_, i) => [`tag${i}`, "v".repeat(300)]),
+        ),
+        user: { email: "e".repeat(600) },
+      });
+
+      sendBeacon(makeBeacon());
+
+      const sent = JSON.parse(sendBeaconSpy.mock.calls[0]?.[1] as string) as BeaconSchema;
+      expect(() => parseBeacon(sent)).not.toThrow();
+      expect(Object.keys(sent.context!)).toHaveLength(16);
+      expect(Object.keys(sent.tags!)).toHaveLength(50);
+      expect(sent.tags?.tag0).toHaveLength(200);
+      expect(sent.user?.email).toHaveLength(500);
+    });
+
+    it("does not read the context for ignored beacons", () => {
+      mockShouldIgnoreBeacon.mockReturnValue(true);
+
+      sendBeacon(makeBeacon());
+
+      expect(mockGetBeaconContext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("breadcrumbs", () => {
+    const trail = [
+      { category: "navigation", message: "/ → /checkout", timestamp: 1000 },
+      { category: "click", message: "button#pay", timestamp: 2000 },
+    ];
+    let sendBeaconSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      sendBeaconSpy = vi.spyOn(navigator, "sendBeacon").mockReturnValue(true);
+      mockGetOptions.mockReturnValue({
+        breadcrumbs: { enabled: true },
+        reportBeacon: { endpoint: DEFAULT_ENDPOINT },
+      });
+    });
+
+    it("attaches recorded breadcrumbs to the beacon", () => {
+      mockGetBreadcrumbs.mockReturnValue(trail);
+
+      sendBeacon(makeBeacon());
+
+      expect(JSON.parse(sendBeaconSpy.mock.calls[0]?.[1] as string)).toEqual({
+        ...makeBeacon(),
+        breadcrumbs: trail,
+      });
+    });
+
+    it("omits the breadcrumbs field when the trail is empty", () => {
+      sendBeacon(makeBeacon());
+
+      expect(JSON.parse(sendBeaconSpy.mock.calls[0]?.[1] as string)).not.toHaveProperty(
+        "breadcrumbs",
+      );
+    });
+
+    it("does not attach breadcrumbs when disabled", () => {
+      mockGetBreadcrumbs.mockReturnValue(trail);
+      mockGetOptions.mockReturnValue({
+        breadcrumbs: { enabled: false },
+        reportBeacon: { endpoint: DEFAULT_ENDPOINT },
+      });
+
+      sendBeacon(makeBeacon());
+
+      expect(JSON.parse(sendBeaconSpy.mock.calls[0]?.[1] as string)).not.toHaveProperty(
+        "breadcrumbs",
+      );
+    });
+
+    it("does not attach breadcrumbs unless enabled", () => {
+      mockGetBreadcrumbs.mockReturnValue(trail);
+      mockGetOptions.mockReturnValue({ reportBeacon: { endpoint: DEFAULT_ENDPOINT } });
+
+      sendBeacon(makeBeacon());
+
+      expect(mockGetBreadcrumbs).not.toHaveBeenCalled();
+      expect(JSON.parse(sendBeaconSpy.mock.calls[0]?.[1] as string)).not.toHaveProperty(
+        "breadcrumbs",
+      );
+    });
+
+    it("lets beforeSend hooks strip breadcrumbs", () => {
+      mockGetBreadcrumbs.mockReturnValue(trail);
+      addBeforeSendHook(({ breadcrumbs: _breadcrumbs, ...beacon }) => beacon);
+
+      sendBeacon(makeBeacon());
+
+      expect(JSON.parse(sendBeaconSpy.mock.calls[0]?.[1] as string)).toEqual(makeBeacon());
+    });
+  });
+
+  describe("beforeSend hooks", () => {
+    let sendBeaconSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      sendBeaconSpy = vi.spyOn(navigator, "sendBeacon").mockReturnValue(true);
+    });
+
+    it("passes the enriched beacon and the original error to hooks", () => {
+      mockGetOptions.mockReturnValue({
+        appName: "my-app",
+        reportBeacon: { endpoint: DEFAULT_ENDPOINT },
+      });
+      const hook = vi.fn();
+      const error = new Error("boom");
+      addBeforeSendHook(hook);
+
+      sendBeacon(makeBeacon(), { error });
+
+      expect(hook).toHaveBeenCalledWith({ ...makeBeacon(), appName: "my-app" }, { error });
+    });
+
+    it("sends the beacon returned by the hook", () => {
+      addBeforeSendHook((beacon) => ({ ...beacon, errorContext: "checkout" }));
+
+      sendBeacon(makeBeacon());
+
+      expect(JSON.parse(sendBeaconSpy.mock.calls[0]?.[1] as string)).toEqual({
+        ...makeBeacon(),
+        errorContext: "checkout",
+      });
+    });
+
+    it("does not send the beacon when a hook drops it", () => {
+      addBeforeSendHook(() => null);
+
+      sendBeacon(makeBeacon());
+
+      expect(sendBeaconSpy).not.toHaveBeenCalled();
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(mockEnqueueBeacon).not.toHaveBeenCalled();
+    });
+
+    it("still sends the beacon when a hook throws", () => {
+      addBeforeSendHook(() => {
+        throw new Error("broken hook");
+      });
+
+      expect(() => sendBeacon(makeBeacon())).not.toThrow();
+      expect(sendBeaconSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not run hooks for ignored beacons", () => {
+      mockShouldIgnoreBeacon.mockReturnValue(true);
+      const hook = vi.fn();
+      addBeforeSendHook(hook);
+
+      sendBeacon(makeBeacon());
+
+      expect(hook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("beacon policy", () => {
+    let sendBeaconSpy: ReturnType<typeof vi.spyOn>;
+
+    const sentBeacons = () =>
+      sendBeaconSpy.mock.calls.map(([, body]) => JSON.parse(body as string) as BeaconSchema);
+
+    const setReportBeacon = (reportBeacon: Record<string, unknown>) => {
+      mockGetOptions.mockReturnValue({
+        reportBeacon: { endpoint: DEFAULT_ENDPOINT, ...reportBeacon },
+      });
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      sendBeaconSpy = vi.spyOn(navigator, "sendBeacon").mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    describe("deduplication", () => {
+      it("sends the first beacon immediately and collapses repeats into one occurrences beacon", () => {
+        for (let i = 0; i < 5; i++) {
+          sendBeacon(makeBeacon());
+        }
+
+        expect(sentBeacons()).toEqual([makeBeacon()]);
+
+        vi.advanceTimersByTime(5000);
+
+        expect(sentBeacons()).toEqual([makeBeacon(), { ...makeBeacon(), occurrences: 4 }]);
+      });
+
+      it("does not send a follow-up beacon when there were no repeats", () => {
+        sendBeacon(makeBeacon());
+
+        vi.advanceTimersByTime(5000);
+
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(1);
+      });
+
+      it("sends the beacon again once the dedupe window has passed", () => {
+        sendBeacon(makeBeacon());
+        vi.advanceTimersByTime(5000);
+        sendBeacon(makeBeacon());
+
+        expect(sentBeacons()).toEqual([makeBeacon(), makeBeacon()]);
+      });
+
+      it("respects a custom dedupeWindow", () => {
+        setReportBeacon({ dedupeWindow: 1000 });
+
+        sendBeacon(makeBeacon());
+        sendBeacon(makeBeacon());
+        vi.advanceTimersByTime(999);
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(1);
+        expect(sentBeacons()[1]?.occurrences).toBe(1);
+      });
+
+      it("does not collapse beacons with different messages", () => {
+        sendBeacon(makeBeacon({ errorMessage: "first" }));
+        sendBeacon(makeBeacon({ errorMessage: "second" }));
+
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(2);
+      });
+
+      it("does not collapse beacons with different top stack frames", () => {
+        const serialize = (frame: string) =>
+          JSON.stringify({
+            message: "boom",
+            stack: `Error: boom\n    at ${frame}\n    at main (app.js:1:1)`,
+          });
+
+        sendBeacon(makeBeacon({ serialized: serialize("render (a.js:10:5)") }));
+        sendBeacon(makeBeacon({ serialized: serialize("render (b.js:20:7)") }));
+        sendBeacon(makeBeacon({ serialized: serialize("render (a.js:10:5)") }));
+
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(2);
+      });
+
+      it("collapses beacons whose stacks differ only below the top frame", () => {
+        const serialize = (caller: string) =>
+          JSON.stringify({ stack: `Error: boom\n    at render (a.js:10:5)\n    at ${caller}` });
+
+        sendBeacon(makeBeacon({ serialized: serialize("one (x.js:1:1)") }));
+        sendBeacon(makeBeacon({ serialized: serialize("two (y.js:2:2)") }));
+
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(1);
+      });
+
+      it("reports the most recent repeat in the occurrences beacon", () => {
+        sendBeacon(makeBeacon({ retryAttempt: 1 }));
+        sendBeacon(makeBeacon({ retryAttempt: 2 }));
+
+        vi.advanceTimersByTime(5000);
+
+        expect(sentBeacons()[1]).toEqual({ ...makeBeacon({ retryAttempt: 2 }), occurrences: 1 });
+      });
+
+      it("sends pending occurrences beacons on pagehide", () => {
+        sendBeacon(makeBeacon());
+        sendBeacon(makeBeacon());
+
+        globalThis.window.dispatchEvent(new Event("pagehide"));
+
+        expect(sentBeacons()[1]?.occurrences).toBe(1);
+
+        vi.advanceTimersByTime(5000);
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(2);
+      });
+
+      it("sends every beacon when dedupeWindow is 0", () => {
+        setReportBeacon({ dedupeWindow: 0 });
+
+        sendBeacon(makeBeacon());
+        sendBeacon(makeBeacon());
+        sendBeacon(makeBeacon());
+
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(3);
+      });
+    });
+
+    describe("rate limiting", () => {
+      it("sends at most 30 beacons per minute by default", () => {
+        for (let i = 0; i < 40; i++) {
+          sendBeacon(makeBeacon({ errorMessage: `error ${i}` }));
+        }
+
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(30);
+      });
+
+      it("respects a custom maxPerMinute", () => {
+        setReportBeacon({ maxPerMinute: 2 });
+
+        for (let i = 0; i < 5; i++) {
+          sendBeacon(makeBeacon({ errorMessage: `error ${i}` }));
+        }
+
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(2);
+      });
+
+      it("allows beacons again once the oldest ones leave the 60-second window", () => {
+        setReportBeacon({ maxPerMinute: 2 });
+
+        sendBeacon(makeBeacon({ errorMessage: "a" }));
+        vi.advanceTimersByTime(30_000);
+        sendBeacon(makeBeacon({ errorMessage: "b" }));
+        sendBeacon(makeBeacon({ errorMessage: "c" }));
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(2);
+
+        vi.advanceTimersByTime(30_000);
+        sendBeacon(makeBeacon({ errorMessage: "d" }));
+
+        expect(sentBeacons().map((beacon) => beacon.errorMessage)).toEqual(["a", "b", "d"]);
+      });
+
+      it("keeps counting after a reload within the same tab", () => {
+        setReportBeacon({ maxPerMinute: 2 });
+
+        sendBeacon(makeBeacon({ errorMessage: "a" }));
+        sendBeacon(makeBeacon({ errorMessage: "b" }));
+        // A retry reload starts with fresh window state but the same sessionStorage
+        (globalThis.window as any)[beaconPolicyStateWindowKey] = undefined;
+        sendBeacon(makeBeacon({ errorMessage: "c" }));
+
+        expect(sentBeacons().map((beacon) => beacon.errorMessage)).toEqual(["a", "b"]);
+      });
+
+      it("counts occurrences beacons against the limit", () => {
+        setReportBeacon({ maxPerMinute: 1 });
+
+        sendBeacon(makeBeacon());
+        sendBeacon(makeBeacon());
+        vi.advanceTimersByTime(5000);
+
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("sampling", () => {
+      it("drops the beacon when the random draw is above sampleRate", () => {
+        setReportBeacon({ sampleRate: 0.25 });
+        vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+        sendBeacon(makeBeacon());
+
+        expect(sendBeaconSpy).not.toHaveBeenCalled();
+      });
+
+      it("sends the beacon when the random draw is below sampleRate", () => {
+        setReportBeacon({ sampleRate: 0.25 });
+        vi.spyOn(Math, "random").mockReturnValue(0.1);
+
+        sendBeacon(makeBeacon());
+
+        expect(sendBeaconSpy).toHaveBeenCalledTimes(1);
+      });
+
+      it("sends nothing when sampleRate is 0", () => {
+        setReportBeacon({ sampleRate: 0 });
+
+        sendBeacon(makeBeacon());
+
+        expect(sendBeaconSpy).not.toHaveBeenCalled();
+      });
+
+      it("drops the occurrences beacon of a sampled-out fingerprint", () => {
+        setReportBeacon({ sampleRate: 0.25 });
+        vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+        sendBeacon(makeBeacon());
+        sendBeacon(makeBeacon());
+        vi.advanceTimersByTime(5000);
+
+        expect(sendBeaconSpy).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("undelivered beacon queueing", () => {
+    let onLineSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      vi.spyOn(navigator, "sendBeacon").mockReturnValue(false);
+      onLineSpy = vi.spyOn(navigator, "onLine", "get").mockReturnValue(true);
+    });
+
+    it("enqueues the beacon without sending when the browser is offline", () => {
+      onLineSpy.mockReturnValue(false);
+      const beacon = makeBeacon();
+
+      sendBeacon(beacon);
+
+      expect(mockEnqueueBeacon).toHaveBeenCalledWith(beacon);
+      expect(navigator.sendBeacon).not.toHaveBeenCalled();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("enqueues the enriched beacon when offline and appName is configured", () => {
+      onLineSpy.mockReturnValue(false);
+      mockGetOptions.mockReturnValue({
+        appName: "my-app",
+        reportBeacon: { endpoint: DEFAULT_ENDPOINT },
+      });
+
+      sendBeacon(makeBeacon());
+
+      expect(mockEnqueueBeacon).toHaveBeenCalledWith({ ...makeBeacon(), appName: "my-app" });
+    });
+
+    it("enqueues the beacon when fetch rejects", async () => {
+      fetchMock.mockRejectedValue(new Error("network offline"));
+      const beacon = makeBeacon();
+
+      sendBeacon(beacon);
+
+      await vi.waitFor(() => {
+        expect(mockEnqueueBeacon).toHaveBeenCalledWith(beacon);
+      });
+    });
+
+    it("enqueues the beacon when the endpoint responds with 5xx", async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 503 });
+
+      sendBeacon(makeBeacon());
+
+      await vi.waitFor(() => {
+        expect(mockEnqueueBeacon).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it("does not enqueue the beacon when the endpoint responds with 4xx", async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 400 });
+
+      sendBeacon(makeBeacon());
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(mockEnqueueBeacon).not.toHaveBeenCalled();
+    });
+
+    it("does not enqueue the beacon when navigator.sendBeacon accepts it", async () => {
+      vi.mocked(navigator.sendBeacon).mockReturnValue(true);
+
+      sendBeacon(makeBeacon());
+      await Promise.resolve();
+
+      expect(mockEnqueueBeacon).not.toHaveBeenCalled();
+    });
+  });
+
   describe("transport fallback and edge cases", () => {
     describe("fetch fallback when sendBeacon unavailable", () => {
       let originalSendBeacon: typeof navigator.sendBeacon;
@@ -631,4 +1153,43 @@ describe("sendBeacon", () => {
       });
     });
   });
+
+  describe("sendUserBeacon", () => {
+    const feedbackBeacon = { eventName: "user-feedback", feedback: { message: "Blank page" } };
+
+    it("sends every submission past sampling, rate limiting and deduplication", async () => {
+      mockGetOptions.mockReturnValue({
+        reportBeacon: { endpoint: DEFAULT_ENDPOINT, maxPerMinute: 1, sampleRate: 0 },
+      });
+      const sendBeaconSpy = vi.spyOn(navigator, "sendBeacon").mockReturnValue(true);
+
+      await expect(sendUserBeacon(feedbackBeacon)).resolves.toBe(true);
+      await expect(sendUserBeacon(feedbackBeacon)).resolves.toBe(true);
+
+      expect(sendBeaconSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it("resolves to true when the beacon was queued", async () => {
+      vi.spyOn(navigator, "sendBeacon").mockReturnValue(false);
+      fetchMock.mockResolvedValue({ ok: false, status: 503 });
+      mockEnqueueBeacon.mockReturnValue(true);
+
+      await expect(sendUserBeacon(feedbackBeacon)).resolves.toBe(true);
+      expect(mockEnqueueBeacon).toHaveBeenCalledWith(feedbackBeacon);
+    });
+
+    it("resolves to false when the beacon was neither sent nor queued", async () => {
+      vi.spyOn(navigator, "sendBeacon").mockReturnValue(false);
+      fetchMock.mockRejectedValue(new Error("network offline"));
+      mockEnqueueBeacon.mockReturnValue(false);
+
+      await expect(sendUserBeacon(feedbackBeacon)).resolves.toBe(false);
+    });
+
+    it("resolves to false without an endpoint", async () => {
+      mockGetOptions.mockReturnValue({ reportBeacon: {} });
+
+      await expect(sendUserBeacon(feedbackBeacon)).resolves.toBe(false);
+    });
+  });
 });
@@ -1,37 +1,102 @@
 import type { BeaconSchema } from "../schema";
+import type { BeforeSendHint } from "./beforeSend";
+import type { Options } from "./options";
 
+import { getBeaconContext } from "./beaconContext";
+import { fitBeaconToLimits } from "./beaconLimits";
+import { applyBeaconPolicy } from "./beaconPolicy";
+import { enqueueBeacon } from "./beaconQueue";
+import { transmitBeacon } from "./beaconTransport";
+import { runBeforeSendHooks } from "./beforeSend";
+import { getBreadcrumbs } from "./breadcrumbs";
 import { getLogger } from "./events/internal";
 import { getOptions } from "./options";
 import { shouldIgnoreBeacon } from "./shouldIgnore";
 
-export const sendBeacon = (beacon: BeaconSchema) => {
+type ReportBeaconOptions = NonNullable<Options["reportBeacon"]>;
+
+/**
+ * Applies `errors.ignore`, the context, breadcrumbs, `beforeSend` hooks and the server limits.
+ * Returns null when the beacon should not be sent.
+ */
+const prepareBeacon = (
+  beacon: BeaconSchema,
+  hint?: BeforeSendHint,
+): null | { beacon: BeaconSchema; endpoint: string; reportBeacon: ReportBeaconOptions } => {
   if (shouldIgnoreBeacon(beacon)) {
-    return;
+    return null;
   }
 
   const options = getOptions();
 
   if (!options.reportBeacon?.endpoint) {
     getLogger()?.noBeaconEndpoint();
-    return;
+    return null;
   }
 
-  const enrichedBeacon = options.appName ? { ...beacon, appName: options.appName } : beacon;
-  const body = JSON.stringify(enrichedBeacon);
+  const breadcrumbs = options.breadcrumbs?.enabled === true ? getBreadcrumbs() : [];
+  const enrichedBeacon: BeaconSchema = {
+    ...beacon,
+    ...(options.appName && { appName: options.appName }),
+    ...getBeaconContext(),
+    ...(breadcrumbs.length > 0 && { breadcrumbs }),
+  };
+  const finalBeacon = runBeforeSendHooks(enrichedBeacon, hint);
 
-  // IMPORTANT: Do not simplify `globalThis.window.navigator` to just `navigator`!
-  // This code can be executed in non-browser environments (e.g., SSR) where window is undefined.
-  const isSendBeaconAvailable = typeof globalThis.window?.navigator?.sendBeacon === "function";
+  if (!finalBeacon) {
+    return null;
+  }
 
-  const isSentBeacon =
-    isSendBeaconAvailable &&
-    globalThis.window.navigator.sendBeacon(options.reportBeacon.endpoint, body);
+  // The server rejects oversized beacons as a whole, and a rejection counts as delivered
+  return {
+    beacon: fitBeaconToLimits(finalBeacon),
+    endpoint: options.reportBeacon.endpoint,
+    reportBeacon: options.reportBeacon,
+  };
+};
 
-  if (!isSentBeacon && typeof fetch === "function") {
-    fetch(options.reportBeacon.endpoint, { body, keepalive: true, method: "POST" }).catch(
-      (error) => {
-        getLogger()?.beaconSendFailed(error);
-      },
-    );
+/**
+ * Resolves to true once the beacon was handed to the browser or queued for a later flush.
+ * A beacon the endpoint rejected is dropped.
+ */
+const deliverBeacon = (endpoint: string, beacon: BeaconSchema): Promise<boolean> => {
+  // Sending while offline is guaranteed to fail — keep the beacon for the next flush instead
+  if (globalThis.window?.navigator?.onLine === false) {
+    return Promise.resolve(enqueueBeacon(beacon));
   }
+
+  return transmitBeacon(endpoint, JSON.stringify(beacon)).then(
+    (result) => result === "delivered" || (result === "failed" && enqueueBeacon(beacon)),
+  );
+};
+
+/**
+ * Reports a beacon to `reportBeacon.endpoint`.
+ * @param hint - Context for `beforeSend` hooks, e.g. the original error
+ */
+export const sendBeacon = (beacon: BeaconSchema, hint?: BeforeSendHint) => {
+  const prepared = prepareBeacon(beacon, hint);
+
+  if (!prepared) {
+    return;
+  }
+
+  applyBeaconPolicy(prepared.beacon, prepared.reportBeacon, (approvedBeacon) => {
+    void deliverBeacon(prepared.endpoint, approvedBeacon);
+  });
+};
+
+/**
+ * Reports a beacon the user asked to send, such as the fallback feedback form.
+ * Skips sampling, rate limiting and deduplication, which are meant for automatic reports.
+ * @returns Whether the beacon was sent or queued for a later flush
+ */
+export const sendUserBeacon = (beacon: BeaconSchema): Promise<boolean> => {
+  const prepared = prepareBeacon(beacon);
+
+  if (!prepared) {
+    return Promise.resolve(false);
+  }
+
+  return deliverBeacon(prepared.endpoint, prepared.beacon);
 };
@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./events/internal", () => ({
+  getLogger: vi.fn(),
+}));
+
+vi.mock("./options", () => ({
+  getOptions: vi.fn(),
+}));
+
+import type { Options } from "./options";
+
+import { getLogger } from "./events/internal";
+import { getOptions } from "./options";
+import {
+  isServiceWorkerRecoveryEnabled,
+  navigateAfterServiceWorkerRefresh,
+  refreshServiceWorker,
+} from "./serviceWorker";
+
+const mockGetLogger = vi.mocked(getLogger);
+const mockGetOptions = vi.mocked(getOptions);
+
+class FakeWorker extends EventTarget {
+  postMessage = vi.fn();
+
+  constructor(public state: ServiceWorkerState) {
+    super();
+  }
+
+  setState(state: ServiceWorkerState) {
+    this.state = state;
+    this.dispatchEvent(new Event("statechange"));
+  }
+}
+
+interface FakeRegistration {
+  installing: FakeWorker | null;
+  update: ReturnType<typeof vi.fn>;
+  waiting: FakeWorker | null;
+}
+
+const createContainer = (registration: FakeRegistration | undefined) => {
+  const container = new EventTarget() as EventTarget & {
+    getRegistration: ReturnType<typeof vi.fn>;
+  };
+  container.getRegistration = vi.fn().mockResolvedValue(registration);
+  Object.defineProperty(navigator, "serviceWorker", {
+    configurable: true,
+    value: container,
+  });
+  return container;
+};
+
+const createRegistration = (overrides: Partial<FakeRegistration> = {}): FakeRegistration => ({
+  installing: null,
+  update: vi.fn().mockResolvedValue(undefined),
+  waiting: null,
+  ...overrides,
+});
+
+/** Activates the waiting worker like a service worker calling skipWaiting() would. */
+const activateOnSkipWaiting = (worker: FakeWorker, container: EventTarget) => {
+  worker.postMessage.mockImplementation(() => {
+    queueMicrotask(() => container.dispatchEvent(new Event("controllerchange")));
+  });
+};
+
+const setOptions = (serviceWorker: Options["serviceWorker"], version?: string) => {
+  mockGetOptions.mockReturnValue({
+    serviceWorker: { enabled: true, ...serviceWorker },
+    ...(version !== undefined && { version }),
+  });
+};
+
+describe("serviceWorker", () => {
+  const warn = vi.fn();
+
+  beforeEach(() => {
+    mockGetLogger.mockReturnValue({ warn } as any);
+    setOptions({});
+  });
+
+  afterEach(() => {
+    delete (navigator as any).serviceWorker;
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  describe("isServiceWorkerRecoveryEnabled", () => {
+    it("is false by default", () => {
+      createContainer(undefined);
+      mockGetOptions.mockReturnValue({});
+
+      expect(isServiceWorkerRecoveryEnabled()).toBe(false);
+    });
+
+    it("is false when the browser has no service worker support", () => {
+      expect(isServiceWorkerRecoveryEnabled()).toBe(false);
+    });
+
+    it("is true when enabled and supported", () => {
+      createContainer(undefined);
+
+      expect(isServiceWorkerRecoveryEnabled()).toBe(true);
+    });
+  });
+
+  describe("refreshServiceWorker", () => {
+    it("does nothing without a registration", async () => {
+      const container = createContainer(undefined);
+
+      await refreshServiceWorker();
+
+      expect(container.getRegistration).toHaveBeenCalledTimes(1);
+    });
+
+    it("updates the registration and activates the waiting worker", async () => {
+      const waiting = new FakeWorker("installed");
+      const registration = createRegistration({ waiting });
+      const container = createContainer(registration);
+      activateOnSkipWaiting(waiting, container);
+
+      await refreshServiceWorker();
+
+      expect(registration.update).toHaveBeenCalledTimes(1);
+      expect(waiting.postMessage).toHaveBeenCalledWith({ type: "SKIP_WAITING" });
+    });
+
+    it("waits for an installing worker before sending SKIP_WAITING", async () => {
+      const worker = new FakeWorker("installing");
+      const registration = createRegistration({ installing: worker });
+      const container = createContainer(registration);
+      activateOnSkipWaiting(worker, container);
+
+      const done = refreshServiceWorker();
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(worker.postMessage).not.toHaveBeenCalled();
+
+      registration.installing = null;
+      registration.waiting = worker;
+      worker.setState("installed");
+      await done;
+
+      expect(worker.postMessage).toHaveBeenCalledWith({ type: "SKIP_WAITING" });
+    });
+
+    it("gives up after the timeout when the worker never takes control", async () => {
+      vi.useFakeTimers();
+      setOptions({ timeout: 500 });
+      const waiting = new FakeWorker("installed");
+      createContainer(createRegistration({ waiting }));
+
+      let settled = false;
+      void refreshServiceWorker().then(() => {
+        settled = true;
+      });
+
+      await vi.advanceTimersByTimeAsync(499);
+      expect(settled).toBe(false);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(settled).toBe(true);
+    });
+
+    it("resolves and logs a warning when update() fails", async () => {
+      const error = new Error("update failed");
+      createContainer(createRegistration({ update: vi.fn().mockRejectedValue(error) }));
+
+      await expect(refreshServiceWorker()).resolves.toBeUndefined();
+
+      expect(warn).toHaveBeenCalledWith("Service worker refresh failed", error);
+    });
+
+    describe("purgeCaches", () => {
+      let cacheStorage: { delete: ReturnType<typeof vi.fn>; keys: ReturnType<typeof vi.fn> };
+
+      beforeEach(() => {
+        createContainer(createRegistration());
+        cacheStorage = {
+          delete: vi.fn().mockResolvedValue(true),
+          keys: vi.fn().mockResolvedValue(["app-1.0.0-assets", "app-2.0.0-assets", "fonts"]),
+        };
+        vi.stubGlobal("caches", cacheStorage);
+      });
+
+      it("keeps caches by default", async () => {
+        await refreshServiceWorker();
+
+        expect(cacheStorage.delete).not.toHaveBeenCalled();
+      });
+
+      it('deletes caches named after the current version with "stale-version"', async () => {
+        setOptions({ purgeCaches: "stale-version" }, "1.0.0");
+
+        await refreshServiceWorker();
+
+        expect(cacheStorage.delete.mock.calls).toEqual([["app-1.0.0-assets"]]);
+      });
+
+      it('deletes nothing with "stale-version" when no version is configured', async () => {
+        setOptions({ purgeCaches: "stale-version" });
+
+        await refreshServiceWorker();
+
+        expect(cacheStorage.delete).not.toHaveBeenCalled();
+      });
+
+      it('deletes every cache with "all"', async () => {
+        setOptions({ purgeCaches: "all" });
+
+        await refreshServiceWorker();
+
+        expect(cacheStorage.delete).toHaveBeenCalledTimes(3);
+      });
+    });
+  });
+
+  describe("navigateAfterServiceWorkerRefresh", () => {
+    it("navigates synchronously when disabled", () => {
+      mockGetOptions.mockReturnValue({});
+      const navigate = vi.fn();
+
+      navigateAfterServiceWorkerRefresh(navigate);
+
+      expect(navigate).toHaveBeenCalledTimes(1);
+    });
+
+    it("navigates after the new worker has taken control", async () => {
+      const waiting = new FakeWorker("installed");
+      const container = createContainer(createRegistration({ waiting }));
+      activateOnSkipWaiting(waiting, container);
+      const navigate = vi.fn();
+
+      navigateAfterServiceWorkerRefresh(navigate);
+
+      expect(navigate).not.toHaveBeenCalled();
+      await vi.waitFor(() => {
+        expect(navigate).toHaveBeenCalledTimes(1);
+      });
+      expect(waiting.postMessage).toHaveBeenCalledWith({ type: "SKIP_WAITING" });
+    });
+  });
+});
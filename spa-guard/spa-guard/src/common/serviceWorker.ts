@@ -0,0 +1,117 @@
+import { SKIP_WAITING_MESSAGE_TYPE } from "./constants";
+import { getLogger } from "./events/internal";
+import { getOptions } from "./options";
+
+const DEFAULT_TIMEOUT = 3000;
+
+const getServiceWorkerContainer = (): ServiceWorkerContainer | undefined => {
+  try {
+    return globalThis.window?.navigator?.serviceWorker;
+  } catch {
+    return undefined;
+  }
+};
+
+export const isServiceWorkerRecoveryEnabled = (): boolean =>
+  getOptions().serviceWorker?.enabled === true && getServiceWorkerContainer() !== undefined;
+
+/** Resolves once `worker` reaches `installed` (or fails to install). */
+const waitForInstalled = (worker: ServiceWorker): Promise<void> =>
+  new Promise((resolve) => {
+    if (worker.state !== "installing") {
+      resolve();
+      return;
+    }
+    const handler = () => {
+      if (worker.state !== "installing") {
+        worker.removeEventListener("statechange", handler);
+        resolve();
+      }
+    };
+    worker.addEventListener("statechange", handler);
+  });
+
+/** Resolves once the page is controlled by a different service worker. */
+const waitForControllerChange = (container: ServiceWorkerContainer): Promise<void> =>
+  new Promise((resolve) => {
+    container.addEventListener("controllerchange", () => resolve(), { once: true });
+  });
+
+const purgeCaches = async (): Promise<void> => {
+  const { serviceWorker, version } = getOptions();
+  const mode = serviceWorker?.purgeCaches ?? "none";
+  if (mode === "none" || typeof caches === "undefined") {
+    return;
+  }
+
+  const names = await caches.keys();
+  const stale =
+    mode === "all" ? names : names.filter((cacheName) => !!version && cacheName.includes(version));
+  await Promise.all(stale.map((cacheName) => caches.delete(cacheName)));
+};
+
+const activateNewWorker = async (container: ServiceWorkerContainer): Promise<void> => {
+  const registration = await container.getRegistration();
+  if (!registration) {
+    return;
+  }
+
+  await registration.update();
+
+  const installing = registration.installing;
+  if (installing) {
+    await waitForInstalled(installing);
+  }
+
+  const waiting = registration.waiting;
+  if (waiting) {
+    const controllerChanged = waitForControllerChange(container);
+    waiting.postMessage({ type: SKIP_WAITING_MESSAGE_TYPE });
+    await controllerChanged;
+  }
+};
+
+/**
+ * Brings the service worker up to date before a recovery reload, so the reload
+ * is not served the stale `index.html` and chunks from CacheStorage:
+ * `registration.update()`, wait for the new worker, post `SKIP_WAITING`,
+ * then purge caches according to `serviceWorker.purgeCaches`.
+ *
+ * Never rejects. Gives up after `serviceWorker.timeout` so a slow or broken
+ * worker cannot block recovery.
+ */
+export const refreshServiceWorker = async (): Promise<void> => {
+  const container = getServiceWorkerContainer();
+  if (!container) {
+    return;
+  }
+
+  const timeout = getOptions().serviceWorker?.timeout ?? DEFAULT_TIMEOUT;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    await Promise.race([
+      activateNewWorker(container),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, timeout);
+      }),
+    ]);
+    await purgeCaches();
+  } catch (error) {
+    getLogger()?.warn("Service worker refresh failed", error);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Runs `navigate` right away, or after {@link refreshServiceWorker} when
+ * service worker recovery is enabled.
+ */
+export const navigateAfterServiceWorkerRefresh = (navigate: () => void): void => {
+  if (!isServiceWorkerRecoveryEnabled()) {
+    navigate();
+    return;
+  }
+  void refreshServiceWorker().then(navigate);
+};
@@ -6,7 +6,12 @@ vi.mock("./options", () => ({
 
 import { ForceRetryError } from "./errors/ForceRetryError";
 import { getOptions } from "./options";
-import { shouldForceRetry, shouldIgnoreBeacon, shouldIgnoreMessages } from "./shouldIgnore";
+import {
+  shouldForceRetry,
+  shouldIgnoreBeacon,
+  shouldIgnoreMessages,
+  validateErrorMatchers,
+} from "./shouldIgnore";
 
 const mockGetOptions = vi.mocked(getOptions);
 
@@ -400,3 +405,191 @@ describe("shouldIgnoreBeacon", () => {
     });
   });
 });
+
+describe("structured matchers", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const ignoreWith = (...ignore: unknown[]) => {
+    mockGetOptions.mockReturnValue({ errors: { ignore } } as ReturnType<typeof getOptions>);
+  };
+
+  describe("regex", () => {
+    it("matches messages against the regular expression", () => {
+      ignoreWith({ regex: "^ResizeObserver loop" });
+      expect(shouldIgnoreMessages(["ResizeObserver loop limit exceeded"])).toBe(true);
+      expect(shouldIgnoreMessages(["Error: ResizeObserver loop"])).toBe(false);
+    });
+
+    it("applies flags", () => {
+      ignoreWith({ flags: "i", regex: "^script error" });
+      expect(shouldIgnoreMessages(["Script error."])).toBe(true);
+    });
+
+    it("is not affected by the global flag between calls", () => {
+      ignoreWith({ flags: "g", regex: "boom" });
+      expect(shouldIgnoreMessages(["boom"])).toBe(true);
+      expect(shouldIgnoreMessages(["boom"])).toBe(true);
+    });
+
+    it("never matches an invalid regular expression", () => {
+      ignoreWith({ regex: "([" });
+      expect(shouldIgnoreMessages(["(["])).toBe(false);
+    });
+  });
+
+  describe("source", () => {
+    it("matches only errors from the given source", () => {
+      ignoreWith({ source: "csp" });
+      expect(shouldIgnoreMessages(["script-src: x"], { source: "csp" })).toBe(true);
+      expect(shouldIgnoreMessages(["script-src: x"], { source: "error" })).toBe(false);
+    });
+
+    it("accepts a list of sources", () => {
+      ignoreWith({ source: ["csp", "unhandledrejection"] });
+      expect(shouldIgnoreMessages(["x"], { source: "unhandledrejection" })).toBe(true);
+    });
+
+    it("does not match when the context has no source", () => {
+      ignoreWith({ source: "csp" });
+      expect(shouldIgnoreMessages(["x"])).toBe(false);
+    });
+  });
+
+  describe("filename", () => {
+    it("matches when ErrorEvent.filename contains the substring", () => {
+      ignoreWith({ filename: "cdn.third-party.com" });
+      expect(
+        shouldIgnoreMessages(["x"], { filename: "https://cdn.third-party.com/widget.js" }),
+      ).toBe(true);
+      expect(shouldIgnoreMessages(["x"], { filename: "https://app.example.com/main.js" })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("errorName", () => {
+    it("matches the name of the captured error", () => {
+      ignoreWith({ errorName: "AbortError" });
+      expect(
+        shouldIgnoreMessages(["aborted"], { error: new DOMException("aborted", "AbortError") }),
+      ).toBe(true);
+      expect(shouldIgnoreMessages(["aborted"], { error: new TypeError("aborted") })).toBe(false);
+    });
+
+    it("reads name from non-Error objects", () => {
+      ignoreWith({ errorName: "ChunkLoadError" });
+      expect(shouldIgnoreMessages(["x"], { error: { name: "ChunkLoadError" } })).toBe(true);
+    });
+  });
+
+  describe("combined fields", () => {
+    it("requires every specified field to match", () => {
+      ignoreWith({ filename: "cdn.third-party.com", regex: "ResizeObserver loop" });
+
+      expect(
+        shouldIgnoreMessages(["ResizeObserver loop limit exceeded"], {
+          filename: "https://cdn.third-party.com/widget.js",
+        }),
+      ).toBe(true);
+      expect(
+        shouldIgnoreMessages(["ResizeObserver loop limit exceeded"], {
+          filename: "https://app.example.com/main.js",
+        }),
+      ).toBe(false);
+    });
+
+    it("never matches an empty matcher object", () => {
+      ignoreWith({});
+      expect(shouldIgnoreMessages(["anything"], { source: "error" })).toBe(false);
+    });
+
+    it("mixes string and structured matchers", () => {
+      ignoreWith("Script error.", { source: "csp" });
+      expect(shouldIgnoreMessages(["Script error."])).toBe(true);
+      expect(shouldIgnoreMessages(["blocked"], { source: "csp" })).toBe(true);
+    });
+  });
+
+  it("supports structured matchers in errors.forceRetry", () => {
+    mockGetOptions.mockReturnValue({
+      errors: { forceRetry: [{ errorName: "StaleDeploymentError", source: "error-boundary" }] },
+    });
+    const error = Object.assign(new Error("stale"), { name: "StaleDeploymentError" });
+
+    expect(shouldForceRetry(["stale"], { error, source: "error-boundary" })).toBe(true);
+    expect(shouldForceRetry(["stale"], { error, source: "error" })).toBe(false);
+  });
+});
+
+describe("validateErrorMatchers", () => {
+  it("accepts undefined and empty options", () => {
+    expect(() => validateErrorMatchers()).not.toThrow();
+    expect(() => validateErrorMatchers({ forceRetry: [], ignore: [] })).not.toThrow();
+  });
+
+  it("accepts strings and valid structured matchers", () => {
+    expect(() =>
+      validateErrorMatchers({
+        forceRetry: [{ errorName: "StaleDeploymentError" }],
+        ignore: [
+          "Script error.",
+          { flags: "i", regex: "^resizeobserver" },
+          { filename: "cdn.example.com", source: ["csp", "error"] },
+        ],
+      }),
+    ).not.toThrow();
+  });
+
+  it("rejects an invalid regular expression with the matcher path", () => {
+    expect(() => validateErrorMatchers({ ignore: ["ok", { regex: "([" }] })).toThrow(
+      /errors\.ignore\[1\]\.regex is not a valid regular expression/,
+    );
+  });
+
+  it("rejects invalid flags", () => {
+    expect(() => validateErrorMatchers({ forceRetry: [{ flags: "zz", regex: "a" }] })).toThrow(
+      /errors\.forceRetry\[0\]\.regex/,
+    );
+  });
+
+  it("rejects flags without regex", () => {
+    expect(() => validateErrorMatchers({ ignore: [{ flags: "i" }] })).toThrow(
+      "errors.ignore[0].flags requires regex",
+    );
+  });
+
+  it("rejects an unknown source", () => {
+    expect(() => validateErrorMatchers({ ignore: [{ source: "console" }] })).toThrow(
+      /errors\.ignore\[0\]\.source must be one of/,
+    );
+  });
+
+  it("rejects unknown fields", () => {
+    expect(() => validateErrorMatchers({ ignore: [{ message: "x" }] })).toThrow(
+      'errors.ignore[0] has unknown field "message"',
+    );
+  });
+
+  it("rejects non-string field values", () => {
+    expect(() => validateErrorMatchers({ ignore: [{ filename: 42 }] })).toThrow(
+      "errors.ignore[0].filename must be a string",
+    );
+  });
+
+  it("rejects empty matcher objects", () => {
+    expect(() => validateErrorMatchers({ ignore: [{}] })).toThrow(
+      "errors.ignore[0] must specify at least one of errorName, filename, regex, source",
+    );
+  });
+
+  it("rejects non-object matchers and non-array lists", () => {
+    expect(() => validateErrorMatchers({ ignore: [null] })).toThrow(
+      "errors.ignore[0] must be a string or a matcher object",
+    );
+    expect(() => validateErrorMatchers({ ignore: "Script error." })).toThrow(
+      "errors.ignore must be an array",
+    );
+  });
+});
@@ -1,40 +1,131 @@
 import type { BeaconSchema } from "../schema";
+import type { ErrorMatcher, ErrorMatcherObject, ErrorSource } from "./options";
 
 import { FORCE_RETRY_MAGIC } from "./errors/ForceRetryError";
 import { getOptions } from "./options";
 
 /**
- * Checks if any of the provided messages should be ignored based on errors.ignore option.
+ * Extra information about a captured error that structured matchers can test.
+ * Matchers that require a field missing from the context do not match.
  */
-export const shouldIgnoreMessages = (messages: (string | undefined)[]): boolean => {
-  const options = getOptions();
-  const ignorePatterns = (options.errors?.ignore ?? []).filter((p) => p !== "");
+export interface ErrorMatchContext {
+  /** The captured error; its `name` is tested by `errorName` matchers. */
+  error?: unknown;
+  filename?: string;
+  source?: ErrorSource;
+}
+
+const getErrorName = (error: unknown): string | undefined => {
+  if (error instanceof Error) {
+    return error.name;
+  }
+  const name = (error as { name?: unknown } | null | undefined)?.name;
+  return typeof name === "string" ? name : undefined;
+};
+
+const regexCache = new Map<string, null | RegExp>();
+
+const compileRegex = (source: string, flags = ""): null | RegExp => {
+  const key = `${flags}/${source}`;
+  if (!regexCache.has(key)) {
+    let compiled: null | RegExp = null;
+    try {
+      compiled = new RegExp(source, flags);
+    } catch {
+      // Invalid patterns are rejected at build time; at runtime they simply never match
+    }
+    regexCache.set(key, compiled);
+  }
+  return regexCache.get(key) ?? null;
+};
+
+const matchesObject = (
+  matcher: ErrorMatcherObject,
+  messages: string[],
+  context: ErrorMatchContext,
+): boolean => {
+  const { errorName, filename, flags, regex, source } = matcher;
+
+  if (
+    errorName === undefined &&
+    filename === undefined &&
+    regex === undefined &&
+    source === undefined
+  ) {
+    return false;
+  }
 
-  if (ignorePatterns.length === 0) {
+  if (source !== undefined) {
+    const sources = Array.isArray(source) ? source : [source];
+    if (context.source === undefined || !sources.includes(context.source)) {
+      return false;
+    }
+  }
+
+  if (errorName !== undefined && getErrorName(context.error) !== errorName) {
     return false;
   }
 
+  if (filename !== undefined && !context.filename?.includes(filename)) {
+    return false;
+  }
+
+  if (regex !== undefined) {
+    const compiled = compileRegex(regex, flags);
+    if (!compiled) {
+      return false;
+    }
+    return messages.some((message) => {
+      compiled.lastIndex = 0;
+      return compiled.test(message);
+    });
+  }
+
+  return true;
+};
+
+const matchesAny = (
+  matchers: ErrorMatcher[],
+  messages: (string | undefined)[],
+  context: ErrorMatchContext,
+): boolean => {
   const validMessages = messages.filter((msg): msg is string => typeof msg === "string");
 
-  return validMessages.some((message) =>
-    ignorePatterns.some((pattern) => message.includes(pattern)),
+  return matchers.some((matcher) =>
+    typeof matcher === "string"
+      ? matcher !== "" && validMessages.some((message) => message.includes(matcher))
+      : matchesObject(matcher, validMessages, context),
   );
 };
 
 /**
- * Checks if any of the provided messages match a forceRetry pattern.
+ * Checks if any of the provided messages should be ignored based on errors.ignore option.
  */
-export const shouldForceRetry = (messages: (string | undefined)[]): boolean => {
+export const shouldIgnoreMessages = (
+  messages: (string | undefined)[],
+  context: ErrorMatchContext = {},
+): boolean => {
   const options = getOptions();
-  const forceRetryPatterns = [...(options.errors?.forceRetry ?? []), FORCE_RETRY_MAGIC].filter(
-    (p) => p !== "",
-  );
+  const ignoreMatchers = options.errors?.ignore ?? [];
 
-  const validMessages = messages.filter((msg): msg is string => typeof msg === "string");
+  if (ignoreMatchers.length === 0) {
+    return false;
+  }
 
-  return validMessages.some((message) =>
-    forceRetryPatterns.some((pattern) => message.includes(pattern)),
-  );
+  return matchesAny(ignoreMatchers, messages, context);
+};
+
+/**
+ * Checks if any of the provided messages match a forceRetry pattern.
+ */
+export const shouldForceRetry = (
+  messages: (string | undefined)[],
+  context: ErrorMatchContext = {},
+): boolean => {
+  const options = getOptions();
+  const forceRetryMatchers = [...(options.errors?.forceRetry ?? []), FORCE_RETRY_MAGIC];
+
+  return matchesAny(forceRetryMatchers, messages, context);
 };
 
 /**
@@ -43,3 +134,92 @@ export const shouldForceRetry = (messages: (string | undefined)[]): boolean => {
 export const shouldIgnoreBeacon = (beacon: BeaconSchema): boolean => {
   return shouldIgnoreMessages([beacon.errorMessage, beacon.eventMessage]);
 };
+
+const MATCHER_FIELDS = new Set(["errorName", "filename", "flags", "regex", "source"]);
+const ERROR_SOURCES = new Set<string>([
+  "csp",
+  "error",
+  "error-boundary",
+  "static-asset",
+  "unhandledrejection",
+  "vite:preloadError",
+]);
+
+/**
+ * Validates `errors.ignore` / `errors.forceRetry` matchers.
+ * Intended for build-time checks (Vite plugin, `buildSpaGuardScript`) so an invalid
+ * regular expression fails the build instead of silently never matching in the browser.
+ * @throws {TypeError} describing the first invalid matcher
+ */
+export const validateErrorMatchers = (errors: { forceRetry?: unknown; ignore?: unknown } = {}) => {
+  for (const key of ["forceRetry", "ignore"] as const) {
+    const matchers = errors[key];
+    if (matchers === undefined) {
+      continue;
+    }
+    if (!Array.isArray(matchers)) {
+      throw new TypeError(`errors.${key} must be an array`);
+    }
+
+    for (const [index, matcher] of matchers.entries()) {
+      const path = `errors.${key}[${index}]`;
+
+      if (typeof matcher === "string") {
+        continue;
+      }
+      if (!matcher || typeof matcher !== "object" || Array.isArray(matcher)) {
+        throw new TypeError(`${path} must be a string or a matcher object`);
+      }
+
+      for (const field of Object.keys(matcher)) {
+        if (!MATCHER_FIELDS.has(field)) {
+          throw new TypeError(`${path} has unknown field "${field}"`);
+        }
+      }
+
+      const { errorName, filename, flags, regex, source } = matcher as Record<string, unknown>;
+
+      for (const [field, value] of Object.entries({ errorName, filename, flags, regex })) {
+        if (value !== undefined && typeof value !== "string") {
+          throw new TypeError(`${path}.${field} must be a string`);
+        }
+      }
+
+      if (flags !== undefined && regex === undefined) {
+        throw new TypeError(`${path}.flags requires regex`);
+      }
+
+      if (regex !== undefined) {
+        try {
+          new RegExp(regex as string, flags as string | undefined);
+        } catch (error) {
+          throw new TypeError(
+            `${path}.regex is not a valid regular expression: ${(error as Error).message}`,
+          );
+        }
+      }
+
+      if (source !== undefined) {
+        const sources = Array.isArray(source) ? source : [source];
+        for (const value of sources) {
+          if (typeof value !== "string" || !ERROR_SOURCES.has(value)) {
+            throw new TypeError(
+              `${path}.source must be one of ${[...ERROR_SOURCES].join(", ")} (got ${JSON.stringify(value)})`,
+            );
+          }
+        }
+      }
+
+      if (
+        errorName === undefined &&
+        filename === undefined &&
+        regex === undefined &&
+        source === undefined
+      ) {
+        throw new TypeError(
+          `${path} must specify at least one of errorName, filename, regex, source`,
+        );
+      }
+    }
+  }
+};
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./options", () => ({
+  getOptions: vi.fn(),
+}));
+
+vi.mock("./serviceWorker", () => ({
+  navigateAfterServiceWorkerRefresh: vi.fn((navigate: () => void) => navigate()),
+}));
+
+import { defaultUpdatePromptHtml } from "./html.generated";
+import { setTranslations } from "./i18n";
+import { getOptions } from "./options";
+import { navigateAfterServiceWorkerRefresh } from "./serviceWorker";
+import {
+  _resetUpdatePromptForTesting,
+  dismissUpdatePrompt,
+  showUpdatePrompt,
+  UPDATE_PROMPT_ID,
+} from "./updatePrompt";
+
+const mockGetOptions = vi.mocked(getOptions);
+
+const getPrompt = () => document.getElementById(UPDATE_PROMPT_ID);
+
+const click = (action: string) => {
+  getPrompt()!.querySelector<HTMLElement>(`[data-spa-guard-action="${action}"]`)!.click();
+};
+
+describe("common/updatePrompt", () => {
+  let mockLocationReload: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockLocationReload = vi.fn();
+    Object.defineProperty(globalThis.location, "reload", {
+      configurable: true,
+      value: mockLocationReload,
+      writable: true,
+    });
+    mockGetOptions.mockReturnValue({
+      checkVersion: { snoozeDuration: 60_000 },
+      html: { updatePrompt: { content: defaultUpdatePromptHtml } },
+    });
+  });
+
+  afterEach(() => {
+    _resetUpdatePromptForTesting();
+    document.head.innerHTML = "";
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("appends the banner to the body", () => {
+    showUpdatePrompt("2.0.0");
+
+    expect(getPrompt()?.parentElement).toBe(document.body);
+    expect(getPrompt()?.textContent).toContain("A new version is available");
+  });
+
+  it("shows a single banner when called repeatedly", () => {
+    showUpdatePrompt("2.0.0");
+    showUpdatePrompt("2.0.1");
+
+    expect(document.querySelectorAll(`#${UPDATE_PROMPT_ID}`)).toHaveLength(1);
+  });
+
+  it("reloads through the service worker refresh on Reload now", () => {
+    showUpdatePrompt("2.0.0");
+
+    click("reload-now");
+
+    expect(navigateAfterServiceWorkerRefresh).toHaveBeenCalledTimes(1);
+    expect(mockLocationReload).toHaveBeenCalledTimes(1);
+    expect(getPrompt()).toBeNull();
+  });
+
+  it("hides the banner on Later and shows it again after the snooze duration", () => {
+    showUpdatePrompt("2.0.0");
+
+    click("later");
+
+    expect(getPrompt()).toBeNull();
+    vi.advanceTimersByTime(59_999);
+    expect(getPrompt()).toBeNull();
+    vi.advanceTimersByTime(1);
+    expect(getPrompt()).not.toBeNull();
+    expect(mockLocationReload).not.toHaveBeenCalled();
+  });
+
+  it("stays hidden while snoozed and shows the latest version afterwards", () => {
+    mockGetOptions.mockReturnValue({
+      checkVersion: { snoozeDuration: 60_000 },
+      html: {
+        updatePrompt: {
+          content:
+            '<div><span data-spa-guard-content="version"></span><button data-spa-guard-action="later"></button></div>',
+        },
+      },
+    });
+    showUpdatePrompt("2.0.0");
+    click("later");
+
+    showUpdatePrompt("3.0.0");
+    expect(getPrompt()).toBeNull();
+
+    vi.advanceTimersByTime(60_000);
+    expect(getPrompt()?.textContent).toBe("3.0.0");
+  });
+
+  it("applies translations from the i18n meta tag", () => {
+    setTranslations({
+      heading: "",
+      later: "Später",
+      loading: "",
+      message: "",
+      reload: "",
+      reloadNow: "Jetzt neu laden",
+      retrying: "",
+      tryAgain: "",
+      updateAvailable: "Eine neue Version ist verfügbar",
+    });
+
+    showUpdatePrompt("2.0.0");
+
+    const text = getPrompt()?.textContent;
+    expect(text).toContain("Eine neue Version ist verfügbar");
+    expect(text).toContain("Jetzt neu laden");
+    expect(text).toContain("Später");
+  });
+
+  it("renders custom banner HTML", () => {
+    mockGetOptions.mockReturnValue({
+      html: { updatePrompt: { content: '<aside class="my-banner">Update!</aside>' } },
+    });
+
+    showUpdatePrompt("2.0.0");
+
+    expect(getPrompt()?.querySelector(".my-banner")?.textContent).toBe("Update!");
+  });
+
+  it("does nothing when no banner HTML is configured", () => {
+    mockGetOptions.mockReturnValue({ html: { updatePrompt: { content: "" } } });
+
+    showUpdatePrompt("2.0.0");
+
+    expect(getPrompt()).toBeNull();
+  });
+
+  it("dismissUpdatePrompt removes the banner", () => {
+    showUpdatePrompt("2.0.0");
+
+    dismissUpdatePrompt();
+
+    expect(getPrompt()).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { updatePromptStateWindowKey } from "./constants";
+import { applyI18n, getI18n } from "./i18n";
+import { getOptions } from "./options";
+import { navigateAfterServiceWorkerRefresh } from "./serviceWorker";
+
+export const UPDATE_PROMPT_ID = "__spa-guard-update-prompt";
+
+interface UpdatePromptState {
+  /** Latest version detected while snoozed, shown when the snooze ends. */
+  snoozedVersion: null | string;
+  snoozeTimeout: null | ReturnType<typeof setTimeout>;
+}
+
+const createInitialState = (): UpdatePromptState => ({
+  snoozedVersion: null,
+  snoozeTimeout: null,
+});
+
+const getState = (): UpdatePromptState => {
+  const w = globalThis.window as any;
+  if (!w) {
+    return createInitialState();
+  }
+  return w[updatePromptStateWindowKey] ?? (w[updatePromptStateWindowKey] = createInitialState());
+};
+
+/**
+ * Removes the update prompt from the DOM, if shown.
+ */
+export const dismissUpdatePrompt = (): void => {
+  if (typeof document === "undefined") {
+    return;
+  }
+  document.getElementById(UPDATE_PROMPT_ID)?.remove();
+};
+
+const snooze = (latestVersion: string): void => {
+  const s = getState();
+  dismissUpdatePrompt();
+  s.snoozedVersion = latestVersion;
+  s.snoozeTimeout = setTimeout(() => {
+    s.snoozeTimeout = null;
+    const version = s.snoozedVersion;
+    s.snoozedVersion = null;
+    if (version) {
+      showUpdatePrompt(version);
+    }
+  }, getOptions().checkVersion?.snoozeDuration ?? 1_800_000);
+};
+
+/**
+ * Shows the "new version available" banner from `html.updatePrompt.content`.
+ * Used by `checkVersion.onUpdate: "prompt"`, and can also be called from a
+ * `spa-guard:version-change` listener.
+ *
+ * While the user has snoozed the prompt with "Later", it is shown again only
+ * once `checkVersion.snoozeDuration` has passed.
+ * Fail-safe: DOM errors are swallowed silently.
+ */
+export const showUpdatePrompt = (latestVersion: string): void => {
+  if (typeof document === "undefined") {
+    return;
+  }
+
+  const s = getState();
+  if (s.snoozeTimeout !== null) {
+    s.snoozedVersion = latestVersion;
+    return;
+  }
+
+  const content = getOptions().html?.updatePrompt?.content;
+  if (!content) {
+    return;
+  }
+
+  try {
+    dismissUpdatePrompt();
+
+    const container = document.createElement("div");
+    container.id = UPDATE_PROMPT_ID;
+    container.innerHTML = content;
+
+    applyI18n(container, getI18n());
+
+    const versionElements = container.querySelectorAll('[data-spa-guard-content="version"]');
+    for (const el of versionElements) {
+      el.textContent = latestVersion;
+    }
+
+    container
+      .querySelector('[data-spa-guard-action="reload-now"]')
+      ?.addEventListener("click", () => {
+        dismissUpdatePrompt();
+        navigateAfterServiceWorkerRefresh(() => globalThis.location.reload());
+      });
+    container
+      .querySelector('[data-spa-guard-action="later"]')
+      ?.addEventListener("click", () => snooze(latestVersion));
+
+    document.body.append(container);
+  } catch {
+    // fail-safe: swallow DOM errors silently
+  }
+};
+
+export const _resetUpdatePromptForTesting = (): void => {
+  const s = getState();
+  if (s.snoozeTimeout !== null) {
+    clearTimeout(s.snoozeTimeout);
+  }
+  s.snoozeTimeout = null;
+  s.snoozedVersion = null;
+  dismissUpdatePrompt();
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { compareVersions, evaluateVersionPolicy, parseRemoteVersionInfo } from "./versionPolicy";
+
+describe("common/versionPolicy", () => {
+  describe("compareVersions", () => {
+    it.each([
+      ["1.2.3", "1.2.4"],
+      ["1.2.9", "1.10.0"],
+      ["1.9.9", "2.0.0"],
+      ["v1.2.3", "1.3.0"],
+      ["1.0.0-alpha", "1.0.0"],
+      ["1.0.0-alpha", "1.0.0-alpha.1"],
+      ["1.0.0-alpha.1", "1.0.0-alpha.beta"],
+      ["1.0.0-beta.2", "1.0.0-beta.11"],
+      ["1.0.0-beta", "1.0.0-rc.1"],
+    ])("orders %s before %s", (older, newer) => {
+      expect(compareVersions(older, newer)).toBeLessThan(0);
+      expect(compareVersions(newer, older)).toBeGreaterThan(0);
+    });
+
+    it("treats versions differing only in build metadata or a v prefix as equal", () => {
+      expect(compareVersions("1.2.3+build.5", "1.2.3+build.6")).toBe(0);
+      expect(compareVersions("v1.2.3", "1.2.3")).toBe(0);
+    });
+
+    it("returns 0 for identical opaque build IDs", () => {
+      expect(compareVersions("a1b2c3d", "a1b2c3d")).toBe(0);
+    });
+
+    it("returns null when either version is an opaque build ID", () => {
+      expect(compareVersions("a1b2c3d", "e4f5a6b")).toBeNull();
+      expect(compareVersions("1.2.3", "e4f5a6b")).toBeNull();
+    });
+  });
+
+  describe("parseRemoteVersionInfo", () => {
+    it("reads version, minVersion and severity", () => {
+      expect(
+        parseRemoteVersionInfo({ minVersion: "1.0.0", severity: "critical", version: "1.2.0" }),
+      ).toEqual({ minVersion: "1.0.0", severity: "critical", version: "1.2.0" });
+    });
+
+    it("ignores unknown severities and non-string minVersion values", () => {
+      expect(
+        parseRemoteVersionInfo({ minVersion: 1, severity: "urgent", version: "1.2.0" }),
+      ).toEqual({ version: "1.2.0" });
+    });
+
+    it("returns null without a string version", () => {
+      expect(parseRemoteVersionInfo({ minVersion: "1.0.0" })).toBeNull();
+      expect(parseRemoteVersionInfo({ version: 2 })).toBeNull();
+      expect(parseRemoteVersionInfo(null)).toBeNull();
+      expect(parseRemoteVersionInfo("1.2.0")).toBeNull();
+    });
+  });
+
+  describe("evaluateVersionPolicy", () => {
+    it("forces a reload for critical deployments", () => {
+      expect(
+        evaluateVersionPolicy("1.2.0", { severity: "critical", version: "1.2.1" }, "event"),
+      ).toEqual({ action: "reload", reason: "critical" });
+    });
+
+    it("forces a reload when the running version is below minVersion", () => {
+      expect(
+        evaluateVersionPolicy("1.2.0", { minVersion: "1.3.0", version: "1.4.0" }, "prompt"),
+      ).toEqual({ action: "reload", reason: "min-version" });
+    });
+
+    it("keeps onUpdate when the running version is at or above minVersion", () => {
+      expect(
+        evaluateVersionPolicy("1.3.0", { minVersion: "1.3.0", version: "1.4.0" }, "prompt"),
+      ).toEqual({ action: "prompt", reason: "on-update" });
+      expect(
+        evaluateVersionPolicy(
+          "1.3.5",
+          { minVersion: "1.3.0", severity: "normal", version: "1.4.0" },
+          "navigate",
+        ),
+      ).toEqual({ action: "navigate", reason: "on-update" });
+    });
+
+    it("ignores minVersion when the versions cannot be ordered", () => {
+      expect(
+        evaluateVersionPolicy("abc123", { minVersion: "fff000", version: "def456" }, "event"),
+      ).toEqual({ action: "event", reason: "on-update" });
+      expect(
+        evaluateVersionPolicy("abc123", { minVersion: "1.3.0", version: "1.4.0" }, "prompt"),
+      ).toEqual({ action: "prompt", reason: "on-update" });
+    });
+
+    it("keeps onUpdate without policy fields", () => {
+      expect(evaluateVersionPolicy("1.0.0", { version: "2.0.0" }, "reload")).toEqual({
+        action: "reload",
+        reason: "on-update",
+      });
+    });
+  });
+});
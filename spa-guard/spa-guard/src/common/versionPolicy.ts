@@ -0,0 +1,140 @@
+import type { Options } from "./options";
+
+/** `"critical"` makes every client on an older version reload right away. */
+export type VersionSeverity = "critical" | "normal";
+
+/** What the JSON endpoint (or an SSE `version` event) reports about the deployed version. */
+export interface RemoteVersionInfo {
+  /** Oldest version that may keep running; older clients reload right away. */
+  minVersion?: string;
+  severity?: VersionSeverity;
+  version: string;
+}
+
+/** Included as `policy` in the `spa-guard:version-change` event detail. */
+export interface VersionPolicyDecision {
+  /** What spa-guard does about the new version. */
+  action: NonNullable<NonNullable<Options["checkVersion"]>["onUpdate"]>;
+  /**
+   * - "critical": the deployment has `severity: "critical"`, reload forced
+   * - "min-version": the running version is below `minVersion`, reload forced
+   * - "on-update": neither applies, `checkVersion.onUpdate` decides
+   */
+  reason: "critical" | "min-version" | "on-update";
+}
+
+const SEMVER_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([\d.A-Za-z-]+))?(?:\+[\d.A-Za-z-]+)?$/;
+
+const parseSemver = (version: string): null | { core: number[]; prerelease: string[] } => {
+  const match = SEMVER_PATTERN.exec(version);
+  if (!match) {
+    return null;
+  }
+  return {
+    core: [Number(match[1]), Number(match[2]), Number(match[3])],
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+};
+
+const compareIdentifiers = (a: string, b: string): number => {
+  const aIsNumber = /^\d+$/.test(a);
+  const bIsNumber = /^\d+$/.test(b);
+  if (aIsNumber && bIsNumber) {
+    return Number(a) - Number(b);
+  }
+  if (aIsNumber !== bIsNumber) {
+    // Numeric identifiers have lower precedence than alphanumeric ones
+    return aIsNumber ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * Compares two versions by semver precedence (a leading "v" and build metadata are ignored).
+ * Returns a negative number when `a` is older than `b`, a positive number when it is newer,
+ * and 0 when they are equal. Returns null when they differ and either one is not semver,
+ * e.g. an opaque build ID, since such versions cannot be ordered.
+ */
+export const compareVersions = (a: string, b: string): null | number => {
+  if (a === b) {
+    return 0;
+  }
+  const parsedA = parseSemver(a);
+  const parsedB = parseSemver(b);
+  if (!parsedA || !parsedB) {
+    return null;
+  }
+
+  for (let i = 0; i < 3; i++) {
+    const diff = parsedA.core[i]! - parsedB.core[i]!;
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+
+  // A version without a prerelease outranks the same version with one
+  if (parsedA.prerelease.length === 0 || parsedB.prerelease.length === 0) {
+    return parsedB.prerelease.length - parsedA.prerelease.length;
+  }
+  const length = Math.max(parsedA.prerelease.length, parsedB.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const identifierA = parsedA.prerelease[i];
+    const identifierB = parsedB.prerelease[i];
+    if (identifierA === undefined || identifierB === undefined) {
+      return identifierA === undefined ? -1 : 1;
+    }
+    const diff = compareIdentifiers(identifierA, identifierB);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Reads `{ version, minVersion?, severity? }`. Unknown `severity` values and
+ * non-string `minVersion` values are ignored.
+ */
+export const parseRemoteVersionInfo = (data: unknown): null | RemoteVersionInfo => {
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+  if (!("version" in data) || typeof data.version !== "string") {
+    return null;
+  }
+  return {
+    ...("minVersion" in data &&
+      typeof data.minVersion === "string" && {
+        minVersion: data.minVersion,
+      }),
+    ...("severity" in data &&
+      (data.severity === "critical" || data.severity === "normal") && {
+        severity: data.severity,
+      }),
+    version: data.version,
+  };
+};
+
+/**
+ * Decides how to react to a new version. A critical deployment, or a running version
+ * below `minVersion`, forces a reload; otherwise `checkVersion.onUpdate` applies.
+ *
+ * `minVersion` needs semver versions: opaque build IDs cannot be ordered, so when either
+ * version is not semver, `minVersion` is ignored and `checkVersion.onUpdate` applies.
+ */
+export const evaluateVersionPolicy = (
+  runningVersion: null | string | undefined,
+  remote: RemoteVersionInfo,
+  onUpdate: VersionPolicyDecision["action"],
+): VersionPolicyDecision => {
+  if (remote.severity === "critical") {
+    return { action: "reload", reason: "critical" };
+  }
+  if (remote.minVersion && runningVersion) {
+    const comparison = compareVersions(runningVersion, remote.minVersion);
+    if (comparison !== null && comparison < 0) {
+      return { action: "reload", reason: "min-version" };
+    }
+  }
+  return { action: onUpdate, reason: "on-update" };
+};
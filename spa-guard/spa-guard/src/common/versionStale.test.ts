@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./serviceWorker", () => ({
+  navigateAfterServiceWorkerRefresh: vi.fn((navigate: () => void) => navigate()),
+}));
+
+import { subscribe } from "./events/internal";
+import { navigateAfterServiceWorkerRefresh } from "./serviceWorker";
+import { _resetVersionStaleForTesting, isVersionStale, markVersionStale } from "./versionStale";
+
+describe("common/versionStale", () => {
+  let mockAssign: ReturnType<typeof vi.fn>;
+  let mockReplace: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    history.replaceState({}, "", "/start");
+    mockAssign = vi.fn();
+    mockReplace = vi.fn();
+    Object.defineProperty(globalThis.location, "assign", {
+      configurable: true,
+      value: mockAssign,
+      writable: true,
+    });
+    Object.defineProperty(globalThis.location, "replace", {
+      configurable: true,
+      value: mockReplace,
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    _resetVersionStaleForTesting();
+    document.body.innerHTML = "";
+    vi.clearAllMocks();
+  });
+
+  it("is not stale until a new version is marked", () => {
+    expect(isVersionStale()).toBe(false);
+
+    markVersionStale("2.0.0");
+
+    expect(isVersionStale()).toBe(true);
+  });
+
+  it("emits version-stale once", () => {
+    const events: string[] = [];
+    const unsubscribe = subscribe((event) => events.push(event.name));
+
+    markVersionStale("2.0.0");
+    markVersionStale("2.0.1");
+    unsubscribe();
+
+    expect(events).toEqual(["version-stale"]);
+  });
+
+  it("leaves navigation alone while the version is current", () => {
+    history.pushState({}, "", "/next");
+
+    expect(globalThis.location.pathname).toBe("/next");
+    expect(mockAssign).not.toHaveBeenCalled();
+  });
+
+  describe("when stale", () => {
+    beforeEach(() => {
+      markVersionStale("2.0.0");
+    });
+
+    it("turns pushState into a document navigation", () => {
+      history.pushState({}, "", "/next?tab=1");
+
+      expect(navigateAfterServiceWorkerRefresh).toHaveBeenCalledTimes(1);
+      expect(mockAssign).toHaveBeenCalledWith(`${globalThis.location.origin}/next?tab=1`);
+      expect(globalThis.location.pathname).toBe("/start");
+    });
+
+    it("turns replaceState to another URL into a location.replace", () => {
+      history.replaceState({}, "", "/other");
+
+      expect(mockReplace).toHaveBeenCalledWith(`${globalThis.location.origin}/other`);
+      expect(mockAssign).not.toHaveBeenCalled();
+    });
+
+    it("keeps same-document history updates client-side", () => {
+      history.replaceState({ scroll: 100 }, "");
+      history.replaceState({ scroll: 200 }, "", "/start");
+      history.pushState({}, "", "#section");
+
+      expect(mockAssign).not.toHaveBeenCalled();
+      expect(mockReplace).not.toHaveBeenCalled();
+      expect(globalThis.location.hash).toBe("#section");
+    });
+
+    it("keeps link clicks away from the router", () => {
+      const routerHandler = vi.fn((event: Event) => event.preventDefault());
+      document.addEventListener("click", routerHandler);
+      const link = document.createElement("a");
+      link.href = "/products";
+      document.body.append(link);
+
+      link.click();
+      document.removeEventListener("click", routerHandler);
+
+      expect(routerHandler).not.toHaveBeenCalled();
+    });
+
+    it("lets the router handle links that open elsewhere", () => {
+      const routerHandler = vi.fn((event: Event) => event.preventDefault());
+      document.addEventListener("click", routerHandler);
+      const link = document.createElement("a");
+      link.href = "/products";
+      link.target = "_blank";
+      document.body.append(link);
+
+      link.click();
+      document.removeEventListener("click", routerHandler);
+
+      expect(routerHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it("restores history methods on reset", () => {
+      _resetVersionStaleForTesting();
+
+      history.pushState({}, "", "/after-reset");
+
+      expect(mockAssign).not.toHaveBeenCalled();
+      expect(isVersionStale()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { versionStaleStateWindowKey } from "./constants";
+import { emitEvent } from "./events/internal";
+import { navigateAfterServiceWorkerRefresh } from "./serviceWorker";
+
+interface VersionStaleState {
+  latestVersion: null | string;
+  uninstall: (() => void)[];
+}
+
+const createInitialState = (): VersionStaleState => ({
+  latestVersion: null,
+  uninstall: [],
+});
+
+const getState = (): VersionStaleState => {
+  const w = globalThis.window as any;
+  if (!w) {
+    return createInitialState();
+  }
+  return w[versionStaleStateWindowKey] ?? (w[versionStaleStateWindowKey] = createInitialState());
+};
+
+/** Resolves `url` against the current page; null when it stays on the current document or leaves the origin. */
+const resolveDocumentUrl = (url: null | string | undefined | URL): null | URL => {
+  if (url === null || url === undefined) {
+    return null;
+  }
+  try {
+    const { location } = globalThis;
+    const target = new URL(String(url), location.href);
+    // Hash-only changes and same-URL replaceState calls (scroll restoration, router state) stay client-side
+    const sameDocument = target.pathname === location.pathname && target.search === location.search;
+    return target.origin === location.origin && !sameDocument ? target : null;
+  } catch {
+    return null;
+  }
+};
+
+const interceptHistory = (state: VersionStaleState): void => {
+  for (const method of ["pushState", "replaceState"] as const) {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History["pushState"]>) {
+      const target = resolveDocumentUrl(args[2]);
+      if (!target) {
+        original.apply(this, args);
+        return;
+      }
+      navigateAfterServiceWorkerRefresh(() =>
+        method === "pushState"
+          ? globalThis.location.assign(target.href)
+          : globalThis.location.replace(target.href),
+      );
+    };
+    state.uninstall.push(() => {
+      history[method] = original;
+    });
+  }
+};
+
+const interceptLinkClicks = (state: VersionStaleState): void => {
+  const onClick = (event: MouseEvent) => {
+    if (
+      event.defaultPrevented ||
+      event.button !== 0 ||
+      event.metaKey ||
+      event.ctrlKey ||
+      event.shiftKey ||
+      event.altKey
+    ) {
+      return;
+    }
+    const anchor = (event.target as Element | null)?.closest?.("a[href]");
+    if (
+      !(anchor instanceof HTMLAnchorElement) ||
+      anchor.hasAttribute("download") ||
+      (anchor.target !== "" && anchor.target !== "_self") ||
+      !resolveDocumentUrl(anchor.href)
+    ) {
+      return;
+    }
+    // Keep the router from handling the click: the browser then performs a regular document navigation
+    event.stopImmediatePropagation();
+  };
+
+  // Capture on window runs before routers' handlers on document or the app root
+  globalThis.window.addEventListener("click", onClick, true);
+  state.uninstall.push(() => globalThis.window.removeEventListener("click", onClick, true));
+};
+
+/**
+ * Returns true once a new version has been detected with `checkVersion.onUpdate: "navigate"`.
+ * From then on, the next client-side navigation loads the new version with a full document navigation.
+ */
+export const isVersionStale = (): boolean => getState().latestVersion !== null;
+
+/**
+ * Marks the running build as stale. The next `history.pushState`/`replaceState` call to
+ * another URL, or click on a same-origin link, becomes a full document navigation.
+ */
+export const markVersionStale = (latestVersion: string): void => {
+  if (globalThis.window === undefined) {
+    return;
+  }
+  const state = getState();
+  const alreadyStale = state.latestVersion !== null;
+  state.latestVersion = latestVersion;
+  if (alreadyStale) {
+    return;
+  }
+
+  interceptHistory(state);
+  interceptLinkClicks(state);
+  emitEvent({ latestVersion, name: "version-stale" });
+};
+
+/** Reset internal state and restore patched globals - exported for testing only */
+export const _resetVersionStaleForTesting = (): void => {
+  const state = getState();
+  for (const uninstall of [...state.uninstall].reverse()) {
+    uninstall();
+  }
+  state.uninstall = [];
+  state.latestVersion = null;
+};
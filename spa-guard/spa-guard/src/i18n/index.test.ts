@@ -2,7 +2,7 @@ import { describe, expect, it } from "vitest";
 
 import type { SpaGuardTranslations } from "./index";
 
-import { matchLang, translations } from "./index";
+import { matchLang, pickTranslations, translations } from "./index";
 
 describe("i18n", () => {
   describe("translations", () => {
@@ -75,16 +75,41 @@ describe("i18n", () => {
       }
     });
 
-    it("all languages have exactly 6 required string keys", () => {
-      const requiredKeys = ["heading", "loading", "message", "reload", "retrying", "tryAgain"];
+    it("all languages have exactly 22 required string keys", () => {
+      const requiredKeys = [
+        "clearCache",
+        "feedbackEmail",
+        "feedbackMessage",
+        "feedbackSent",
+        "feedbackTitle",
+        "heading",
+        "later",
+        "loading",
+        "message",
+        "nextCheck",
+        "offlineHeading",
+        "offlineMessage",
+        "reload",
+        "reloadNow",
+        "retrying",
+        "sendFeedback",
+        "staleDeployHeading",
+        "staleDeployMessage",
+        "staticAssetHeading",
+        "staticAssetMessage",
+        "tryAgain",
+        "updateAvailable",
+      ];
       for (const [, t] of Object.entries(translations)) {
         const keys = Object.keys(t).filter((k) => k !== "rtl");
         expect(keys.sort()).toEqual(requiredKeys.sort());
 
-        // Ensure all values are non-empty strings
+        // Ensure all values are non-empty strings or plural forms with an `other` form
         for (const key of requiredKeys) {
-          expect(typeof t[key as keyof typeof t]).toBe("string");
-          expect((t[key as keyof typeof t] as string).length).toBeGreaterThan(0);
+          const value = t[key as keyof typeof t];
+          const text = typeof value === "object" ? value.other : value;
+          expect(typeof text).toBe("string");
+          expect((text as string).length).toBeGreaterThan(0);
         }
       }
     });
@@ -93,25 +118,57 @@ describe("i18n", () => {
   describe("SpaGuardTranslations type", () => {
     it("has correct shape", () => {
       const t: SpaGuardTranslations = {
+        clearCache: "test",
+        feedbackEmail: "test",
+        feedbackMessage: "test",
+        feedbackSent: "test",
+        feedbackTitle: "test",
         heading: "test",
+        later: "test",
         loading: "test",
         message: "test",
+        nextCheck: "test",
+        offlineHeading: "test",
+        offlineMessage: "test",
         reload: "test",
+        reloadNow: "test",
         retrying: "test",
+        sendFeedback: "test",
+        staleDeployHeading: "test",
+        staleDeployMessage: "test",
+        staticAssetHeading: "test",
+        staticAssetMessage: "test",
         tryAgain: "test",
+        updateAvailable: "test",
       };
       expect(t.heading).toBe("test");
     });
 
     it("allows optional rtl field", () => {
       const t: SpaGuardTranslations = {
+        clearCache: "test",
+        feedbackEmail: "test",
+        feedbackMessage: "test",
+        feedbackSent: "test",
+        feedbackTitle: "test",
         heading: "test",
+        later: "test",
         loading: "test",
         message: "test",
+        nextCheck: "test",
+        offlineHeading: "test",
+        offlineMessage: "test",
         reload: "test",
+        reloadNow: "test",
         retrying: "test",
         rtl: true,
+        sendFeedback: "test",
+        staleDeployHeading: "test",
+        staleDeployMessage: "test",
+        staticAssetHeading: "test",
+        staticAssetMessage: "test",
         tryAgain: "test",
+        updateAvailable: "test",
       };
       expect(t.rtl).toBe(true);
     });
@@ -201,4 +258,19 @@ describe("i18n", () => {
       });
     });
   });
+
+  describe("pickTranslations", () => {
+    it("returns the built-in translations of the listed languages only", () => {
+      expect(pickTranslations(["de", "ja"])).toEqual({
+        de: translations.de,
+        ja: translations.ja,
+      });
+    });
+
+    it("throws for a language without built-in translations", () => {
+      expect(() => pickTranslations(["en", "xx"])).toThrow(
+        'No built-in translations for i18n.languages entry "xx"',
+      );
+    });
+  });
 });
@@ -1,17 +1,86 @@
+import { matchAvailableLang } from "./matchLang";
 import { translations } from "./translations";
 
+/**
+ * Plural variants of a translation, keyed by `Intl.PluralRules` category.
+ * `other` is required and used for categories that are not listed.
+ *
+ * @example { one: "Checking again in {seconds} second", other: "Checking again in {seconds} seconds" }
+ */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * A translation that may contain `{attempt}`, `{total}`, `{seconds}` and `{retryId}` placeholders.
+ * Keys whose text is about a number also accept {@link PluralForms}.
+ */
+export type TranslationValue = PluralForms | string;
+
+/**
+ * Texts of the built-in templates. The optional keys belong to features added later;
+ * without them the template keeps its English text.
+ */
 export interface SpaGuardTranslations {
+  /** Fallback button that clears caches and storage before reloading. */
+  clearCache?: string;
+  /** Placeholder of the email field of the "Report a problem" form (`feedback`). */
+  feedbackEmail?: string;
+  /** Placeholder of the message field of the "Report a problem" form. */
+  feedbackMessage?: string;
+  /** Shown in place of the "Report a problem" form once it was sent. */
+  feedbackSent?: string;
+  feedbackTitle?: string;
   heading: string;
+  /**
+   * Language the plural forms are selected for. Set by `patchHtmlI18n`;
+   * defaults to `<html lang>`.
+   */
+  lang?: string;
+  /** Snooze button of the update prompt. */
+  later?: string;
   loading: string;
   message: string;
+  /**
+   * Countdown of the fallback recovery probe (`fallbackRecovery`), e.g. "Checking again in {seconds}s".
+   * Plural forms are selected by `seconds`.
+   */
+  nextCheck?: TranslationValue;
+  /** Heading for `html.fallback.templates.offline`. */
+  offlineHeading?: string;
+  offlineMessage?: string;
   reload: string;
-  retrying: string;
+  /** Reload button of the update prompt. */
+  reloadNow?: string;
+  /**
+   * Loading UI text during a retry, e.g. "Retry attempt {attempt}". `{total}` is the number of
+   * reload attempts. Plural forms are selected by `attempt`.
+   */
+  retrying: TranslationValue;
   rtl?: boolean;
+  /** Submit button of the "Report a problem" form. */
+  sendFeedback?: string;
+  /** Heading for `html.fallback.templates["stale-deploy"]`. */
+  staleDeployHeading?: string;
+  staleDeployMessage?: string;
+  /** Heading for `html.fallback.templates["static-asset"]`. */
+  staticAssetHeading?: string;
+  staticAssetMessage?: string;
   tryAgain: string;
+  /** Text of the update prompt (`checkVersion.onUpdate: "prompt"`). */
+  updateAvailable?: string;
 }
 
 /**
- * Match a language code or Accept-Language header against available translations.
+ * Translations with extra keys `K` for elements of custom templates, e.g.
+ * `<p data-spa-guard-content="supportHint">` is translated by a `supportHint` key.
+ *
+ * @example setTranslations<"supportHint">({ ...translations.de!, supportHint: "Kontaktieren Sie den Support" })
+ */
+export type ExtendedTranslations<K extends string = never> = Record<K, string> &
+  SpaGuardTranslations;
+
+/**
+ * Match a language code or Accept-Language header against available translations
+ * (the built-in languages by default).
  *
  * - If `input` is undefined, returns `"en"`.
  * - If `input` contains `,` or `;q=`, it's parsed as an Accept-Language header
@@ -24,50 +93,22 @@ export function matchLang(
   input: string | undefined,
   available: string[] = Object.keys(translations),
 ): string {
-  if (input === undefined) {
-    return defaultLang(available);
-  }
-
-  if (input.includes(",") || input.includes(";q=")) {
-    return matchAcceptLanguage(input, available);
-  }
-
-  return matchSingle(input, available) ?? defaultLang(available);
-}
-
-function defaultLang(available: string[]): string {
-  return available.includes("en") ? "en" : (available[0] ?? "en");
-}
-
-function matchAcceptLanguage(header: string, available: string[]): string {
-  const entries = header
-    .split(",")
-    .map((part) => {
-      const [lang = "", ...rest] = part.trim().split(";");
-      const qMatch = rest.join(";").match(/q\s*=\s*([\d.]+)/);
-      const q = qMatch?.[1] ? Number.parseFloat(qMatch[1]) : 1;
-      return { lang: lang.trim(), q };
-    })
-    .sort((a, b) => b.q - a.q);
-
-  for (const { lang } of entries) {
-    const match = matchSingle(lang, available);
-    if (match) {
-      return match;
-    }
-  }
-
-  return defaultLang(available);
+  return matchAvailableLang(input, available);
 }
 
-function matchSingle(code: string, available: string[]): string | undefined {
-  const lower = code.toLowerCase();
-  const prefix = lower.split("-")[0];
-
-  return (
-    available.find((a) => a.toLowerCase() === lower) ??
-    available.find((a) => a.toLowerCase() === prefix) ??
-    available.find((a) => a.toLowerCase().startsWith(prefix + "-"))
+/**
+ * Picks the built-in translations of `languages`, e.g. to embed them as `i18n.translations`.
+ * Throws for a language without built-in translations so that a typo fails the build.
+ */
+export function pickTranslations(languages: string[]): Record<string, SpaGuardTranslations> {
+  return Object.fromEntries(
+    languages.map((lang) => {
+      const t = translations[lang];
+      if (!t) {
+        throw new Error(`No built-in translations for i18n.languages entry "${lang}"`);
+      }
+      return [lang, t];
+    }),
   );
 }
 
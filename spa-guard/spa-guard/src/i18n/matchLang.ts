@@ -0,0 +1,51 @@
+/**
+ * `matchLang` without the default list of built-in languages, so the inline script can
+ * match languages without bundling every translation.
+ */
+export function matchAvailableLang(input: string | undefined, available: string[]): string {
+  if (input === undefined) {
+    return defaultLang(available);
+  }
+
+  if (input.includes(",") || input.includes(";q=")) {
+    return matchAcceptLanguage(input, available);
+  }
+
+  return matchSingle(input, available) ?? defaultLang(available);
+}
+
+function defaultLang(available: string[]): string {
+  return available.includes("en") ? "en" : (available[0] ?? "en");
+}
+
+function matchAcceptLanguage(header: string, available: string[]): string {
+  const entries = header
+    .split(",")
+    .map((part) => {
+      const [lang = "", ...rest] = part.trim().split(";");
+      const qMatch = rest.join(";").match(/q\s*=\s*([\d.]+)/);
+      const q = qMatch?.[1] ? Number.parseFloat(qMatch[1]) : 1;
+      return { lang: lang.trim(), q };
+    })
+    .sort((a, b) => b.q - a.q);
+
+  for (const { lang } of entries) {
+    const match = matchSingle(lang, available);
+    if (match) {
+      return match;
+    }
+  }
+
+  return defaultLang(available);
+}
+
+function matchSingle(code: string, available: string[]): string | undefined {
+  const lower = code.toLowerCase();
+  const prefix = lower.split("-")[0];
+
+  return (
+    available.find((a) => a.toLowerCase() === lower) ??
+    available.find((a) => a.toLowerCase() === prefix) ??
+    available.find((a) => a.toLowerCase().startsWith(prefix + "-"))
+  );
+}
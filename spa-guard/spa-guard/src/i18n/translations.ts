@@ -4,310 +4,926 @@ import type { SpaGuardTranslations } from "./index";
 
 export const translations: Record<string, SpaGuardTranslations> = {
   ar: {
+    clearCache: "مسح ذاكرة التخزين المؤقت وإعادة التحميل",
+    feedbackEmail: "البريد الإلكتروني (اختياري)",
+    feedbackMessage: "ماذا كنت تفعل عندما حدث ذلك؟",
+    feedbackSent: "شكرًا! تم إرسال بلاغك",
+    feedbackTitle: "الإبلاغ عن مشكلة",
     heading: "حدث خطأ ما",
+    later: "لاحقًا",
     loading: "...جارٍ التحميل",
     message: "يرجى تحديث الصفحة للمتابعة",
+    nextCheck: "التحقق مجددًا خلال {seconds}s",
+    offlineHeading: "أنت غير متصل بالإنترنت",
+    offlineMessage: "تحقق من اتصالك بالإنترنت وأعد تحميل الصفحة",
     reload: "إعادة تحميل",
-    retrying: "محاولة إعادة",
+    reloadNow: "إعادة التحميل الآن",
+    retrying: "محاولة إعادة {attempt}",
     rtl: true,
+    sendFeedback: "إرسال البلاغ",
+    staleDeployHeading: "تم تحديث التطبيق",
+    staleDeployMessage: "أعد تحميل الصفحة لتحميل أحدث إصدار",
+    staticAssetHeading: "تعذر تحميل بعض الملفات",
+    staticAssetMessage: "أعد تحميل الصفحة للمحاولة مرة أخرى",
     tryAgain: "حاول مرة أخرى",
+    updateAvailable: "يتوفر إصدار جديد",
   },
   az: {
+    clearCache: "Keşi təmizlə və yenilə",
+    feedbackEmail: "E-poçt (istəyə bağlı)",
+    feedbackMessage: "Bu baş verəndə nə edirdiniz?",
+    feedbackSent: "Təşəkkürlər! Müraciətiniz göndərildi",
+    feedbackTitle: "Problem barədə xəbər ver",
     heading: "Nəsə səhv getdi",
+    later: "Sonra",
     loading: "Yüklənir...",
     message: "Davam etmək üçün səhifəni yeniləyin",
+    nextCheck: "Yenidən yoxlanılır: {seconds}s",
+    offlineHeading: "İnternet bağlantısı yoxdur",
+    offlineMessage: "İnternet bağlantınızı yoxlayın və səhifəni yeniləyin",
     reload: "Səhifəni yenidən yüklə",
-    retrying: "Yenidən cəhd",
+    reloadNow: "İndi yenilə",
+    retrying: "Yenidən cəhd {attempt}",
+    sendFeedback: "Göndər",
+    staleDeployHeading: "Tətbiq yeniləndi",
+    staleDeployMessage: "Son versiyanı yükləmək üçün səhifəni yeniləyin",
+    staticAssetHeading: "Bəzi fayllar yüklənmədi",
+    staticAssetMessage: "Yenidən cəhd etmək üçün səhifəni yeniləyin",
     tryAgain: "Yenidən cərəb edin",
+    updateAvailable: "Yeni versiya mövcuddur",
   },
   ca: {
+    clearCache: "Esborra la memòria cau i recarrega",
+    feedbackEmail: "Correu electrònic (opcional)",
+    feedbackMessage: "Què estaves fent quan ha passat?",
+    feedbackSent: "Gràcies! S'ha enviat el teu informe",
+    feedbackTitle: "Informa d'un problema",
     heading: "Alguna cosa ha anat malament",
+    later: "Més tard",
     loading: "Carregant...",
     message: "Si us plau, actualitzeu la pàgina per continuar",
+    nextCheck: "Es tornarà a comprovar en {seconds}s",
+    offlineHeading: "No tens connexió",
+    offlineMessage: "Comprova la connexió a internet i recarrega la pàgina",
     reload: "Recarrega la pàgina",
-    retrying: "Intent de reintent",
+    reloadNow: "Recarrega ara",
+    retrying: "Intent de reintent {attempt}",
+    sendFeedback: "Envia l'informe",
+    staleDeployHeading: "L'aplicació s'ha actualitzat",
+    staleDeployMessage: "Recarrega la pàgina per carregar la darrera versió",
+    staticAssetHeading: "Alguns fitxers no s'han pogut carregar",
+    staticAssetMessage: "Recarrega la pàgina per tornar-ho a provar",
     tryAgain: "Torna-ho a provar",
+    updateAvailable: "Hi ha una nova versió disponible",
   },
   cs: {
+    clearCache: "Vymazat mezipaměť a znovu načíst",
+    feedbackEmail: "E-mail (nepovinné)",
+    feedbackMessage: "Co jste dělali, když se to stalo?",
+    feedbackSent: "Děkujeme! Vaše hlášení bylo odesláno",
+    feedbackTitle: "Nahlásit problém",
     heading: "Něco se pokazilo",
+    later: "Později",
     loading: "Načítání...",
     message: "Obnovte stránku prosím pro pokračování",
+    nextCheck: "Další kontrola za {seconds}s",
+    offlineHeading: "Jste offline",
+    offlineMessage: "Zkontrolujte připojení k internetu a obnovte stránku",
     reload: "Znovu načíst stránku",
-    retrying: "Pokus o opakování",
+    reloadNow: "Znovu načíst nyní",
+    retrying: "Pokus o opakování {attempt}",
+    sendFeedback: "Odeslat hlášení",
+    staleDeployHeading: "Aplikace byla aktualizována",
+    staleDeployMessage: "Obnovte stránku pro načtení nejnovější verze",
+    staticAssetHeading: "Některé soubory se nepodařilo načíst",
+    staticAssetMessage: "Obnovte stránku a zkuste to znovu",
     tryAgain: "Zkusit znovu",
+    updateAvailable: "Je k dispozici nová verze",
   },
   da: {
+    clearCache: "Ryd cache og genindlæs",
+    feedbackEmail: "E-mail (valgfrit)",
+    feedbackMessage: "Hvad lavede du, da det skete?",
+    feedbackSent: "Tak! Din rapport er sendt",
+    feedbackTitle: "Rapportér et problem",
     heading: "Noget gik galt",
+    later: "Senere",
     loading: "Indlæser...",
     message: "Opdater venligst siden for at fortsætte",
+    nextCheck: "Tjekker igen om {seconds}s",
+    offlineHeading: "Du er offline",
+    offlineMessage: "Tjek din internetforbindelse og genindlæs siden",
     reload: "Genindlæs side",
-    retrying: "Forsøg igen",
+    reloadNow: "Genindlæs nu",
+    retrying: "Forsøg igen {attempt}",
+    sendFeedback: "Send rapport",
+    staleDeployHeading: "Appen er blevet opdateret",
+    staleDeployMessage: "Genindlæs siden for at hente den nyeste version",
+    staticAssetHeading: "Nogle filer kunne ikke indlæses",
+    staticAssetMessage: "Genindlæs siden for at prøve igen",
     tryAgain: "Prøv igen",
+    updateAvailable: "En ny version er tilgængelig",
   },
   de: {
+    clearCache: "Cache leeren und neu laden",
+    feedbackEmail: "E-Mail (optional)",
+    feedbackMessage: "Was haben Sie gerade gemacht, als das passiert ist?",
+    feedbackSent: "Danke! Ihre Meldung wurde gesendet",
+    feedbackTitle: "Problem melden",
     heading: "Etwas ist schief gelaufen",
+    later: "Später",
     loading: "Lädt...",
     message: "Bitte aktualisieren Sie die Seite, um fortzufahren",
+    nextCheck: "Erneute Prüfung in {seconds}s",
+    offlineHeading: "Sie sind offline",
+    offlineMessage: "Überprüfen Sie Ihre Internetverbindung und laden Sie die Seite neu",
     reload: "Seite neu laden",
-    retrying: "Wiederholungsversuch",
+    reloadNow: "Jetzt neu laden",
+    retrying: "Wiederholungsversuch {attempt}",
+    sendFeedback: "Meldung senden",
+    staleDeployHeading: "Die App wurde aktualisiert",
+    staleDeployMessage: "Laden Sie die Seite neu, um die neueste Version zu laden",
+    staticAssetHeading: "Einige Dateien konnten nicht geladen werden",
+    staticAssetMessage: "Laden Sie die Seite neu, um es erneut zu versuchen",
     tryAgain: "Erneut versuchen",
+    updateAvailable: "Eine neue Version ist verfügbar",
   },
   el: {
+    clearCache: "Εκκαθάριση προσωρινής μνήμης και επαναφόρτωση",
+    feedbackEmail: "Email (προαιρετικό)",
+    feedbackMessage: "Τι κάνατε όταν συνέβη αυτό;",
+    feedbackSent: "Ευχαριστούμε! Η αναφορά σας στάλθηκε",
+    feedbackTitle: "Αναφορά προβλήματος",
     heading: "Κάτι πήγε στραβά",
+    later: "Αργότερα",
     loading: "Φόρτωση...",
     message: "Παρακαλώ ανανεώστε τη σελίδα για να συνεχίσετε",
+    nextCheck: "Νέος έλεγχος σε {seconds}s",
+    offlineHeading: "Είστε εκτός σύνδεσης",
+    offlineMessage: "Ελέγξτε τη σύνδεσή σας στο διαδίκτυο και ανανεώστε τη σελίδα",
     reload: "Επαναφόρτωση σελίδας",
-    retrying: "Προσπάθεια επανάληψης",
+    reloadNow: "Επαναφόρτωση τώρα",
+    retrying: "Προσπάθεια επανάληψης {attempt}",
+    sendFeedback: "Αποστολή αναφοράς",
+    staleDeployHeading: "Η εφαρμογή ενημερώθηκε",
+    staleDeployMessage: "Ανανεώστε τη σελίδα για να φορτώσετε την τελευταία έκδοση",
+    staticAssetHeading: "Ορισμένα αρχεία δεν φορτώθηκαν",
+    staticAssetMessage: "Ανανεώστε τη σελίδα για να δοκιμάσετε ξανά",
     tryAgain: "Δοκιμάστε ξανά",
+    updateAvailable: "Υπάρχει διαθέσιμη νέα έκδοση",
   },
   en: {
+    clearCache: "Clear cache and reload",
+    feedbackEmail: "Email (optional)",
+    feedbackMessage: "What were you doing when this happened?",
+    feedbackSent: "Thanks! Your report has been sent",
+    feedbackTitle: "Report a problem",
     heading: "Something went wrong",
+    later: "Later",
     loading: "Loading...",
     message: "Please refresh the page to continue",
+    nextCheck: {
+      one: "Checking again in {seconds} second",
+      other: "Checking again in {seconds} seconds",
+    },
+    offlineHeading: "You are offline",
+    offlineMessage: "Check your internet connection and reload the page",
     reload: "Reload page",
-    retrying: "Retry attempt",
+    reloadNow: "Reload now",
+    retrying: "Retry attempt {attempt}",
+    sendFeedback: "Send report",
+    staleDeployHeading: "The app has been updated",
+    staleDeployMessage: "Reload the page to load the latest version",
+    staticAssetHeading: "Some files failed to load",
+    staticAssetMessage: "Reload the page to try again",
     tryAgain: "Try again",
+    updateAvailable: "A new version is available",
   },
   es: {
+    clearCache: "Borrar caché y recargar",
+    feedbackEmail: "Correo electrónico (opcional)",
+    feedbackMessage: "¿Qué estabas haciendo cuando ocurrió?",
+    feedbackSent: "¡Gracias! Tu informe se ha enviado",
+    feedbackTitle: "Informar de un problema",
     heading: "Algo salió mal",
+    later: "Más tarde",
     loading: "Cargando...",
     message: "Por favor, actualice la página para continuar",
+    nextCheck: "Volviendo a comprobar en {seconds}s",
+    offlineHeading: "Sin conexión",
+    offlineMessage: "Comprueba tu conexión a internet y recarga la página",
     reload: "Recargar página",
-    retrying: "Intento de reintento",
+    reloadNow: "Recargar ahora",
+    retrying: "Intento de reintento {attempt}",
+    sendFeedback: "Enviar informe",
+    staleDeployHeading: "La aplicación se ha actualizado",
+    staleDeployMessage: "Recarga la página para cargar la última versión",
+    staticAssetHeading: "No se pudieron cargar algunos archivos",
+    staticAssetMessage: "Recarga la página para volver a intentarlo",
     tryAgain: "Intentar de nuevo",
+    updateAvailable: "Hay una nueva versión disponible",
   },
   eu: {
+    clearCache: "Garbitu cachea eta kargatu berriro",
+    feedbackEmail: "Posta elektronikoa (aukerakoa)",
+    feedbackMessage: "Zer egiten ari zinen hau gertatu zenean?",
+    feedbackSent: "Eskerrik asko! Zure txostena bidali da",
+    feedbackTitle: "Arazo baten berri eman",
     heading: "Zerbait gaizki joan da",
+    later: "Geroago",
     loading: "Kargatzen...",
     message: "Mesedez, freskatu orria jarraitzeko",
+    nextCheck: "Berriro egiaztatzen: {seconds}s",
+    offlineHeading: "Konexiorik gabe zaude",
+    offlineMessage: "Egiaztatu Interneteko konexioa eta kargatu berriro orria",
     reload: "Orria berritu",
-    retrying: "Saiakera berri",
+    reloadNow: "Birkargatu orain",
+    retrying: "Saiakera berri {attempt}",
+    sendFeedback: "Bidali txostena",
+    staleDeployHeading: "Aplikazioa eguneratu da",
+    staleDeployMessage: "Kargatu berriro orria azken bertsioa lortzeko",
+    staticAssetHeading: "Fitxategi batzuk ezin izan dira kargatu",
+    staticAssetMessage: "Kargatu berriro orria berriro saiatzeko",
     tryAgain: "Saiatu berriro",
+    updateAvailable: "Bertsio berri bat dago eskuragarri",
   },
   fa: {
+    clearCache: "پاک کردن حافظه پنهان و بارگذاری مجدد",
+    feedbackEmail: "ایمیل (اختیاری)",
+    feedbackMessage: "هنگام بروز این مشکل چه کاری انجام می‌دادید؟",
+    feedbackSent: "سپاس! گزارش شما ارسال شد",
+    feedbackTitle: "گزارش مشکل",
     heading: "مشکلی پیش آمد",
+    later: "بعداً",
     loading: "در حال بارگذاری...",
     message: "لطفاً صفحه را برای ادامه تازه کنید",
+    nextCheck: "بررسی دوباره تا {seconds}s",
+    offlineHeading: "شما آفلاین هستید",
+    offlineMessage: "اتصال اینترنت خود را بررسی کنید و صفحه را دوباره بارگذاری کنید",
     reload: "بارگذاری مجدد",
-    retrying: "تلاش دوباره",
+    reloadNow: "بارگذاری مجدد اکنون",
+    retrying: "تلاش دوباره {attempt}",
     rtl: true,
+    sendFeedback: "ارسال گزارش",
+    staleDeployHeading: "برنامه به‌روزرسانی شده است",
+    staleDeployMessage: "برای دریافت آخرین نسخه صفحه را دوباره بارگذاری کنید",
+    staticAssetHeading: "برخی فایل‌ها بارگذاری نشدند",
+    staticAssetMessage: "برای تلاش دوباره صفحه را دوباره بارگذاری کنید",
     tryAgain: "دوباره امتحان کنید",
+    updateAvailable: "نسخه جدیدی در دسترس است",
   },
   fi: {
+    clearCache: "Tyhjennä välimuisti ja lataa uudelleen",
+    feedbackEmail: "Sähköposti (valinnainen)",
+    feedbackMessage: "Mitä olit tekemässä, kun tämä tapahtui?",
+    feedbackSent: "Kiitos! Raporttisi on lähetetty",
+    feedbackTitle: "Ilmoita ongelmasta",
     heading: "Jokin meni pieleen",
+    later: "Myöhemmin",
     loading: "Ladataan...",
     message: "Päivitä sivu jatkaaksesi",
+    nextCheck: "Tarkistetaan uudelleen: {seconds}s",
+    offlineHeading: "Olet offline-tilassa",
+    offlineMessage: "Tarkista internetyhteys ja lataa sivu uudelleen",
     reload: "Lataa sivu uudelleen",
-    retrying: "Uudelleenyritys",
+    reloadNow: "Lataa uudelleen nyt",
+    retrying: "Uudelleenyritys {attempt}",
+    sendFeedback: "Lähetä raportti",
+    staleDeployHeading: "Sovellus on päivitetty",
+    staleDeployMessage: "Lataa sivu uudelleen saadaksesi uusimman version",
+    staticAssetHeading: "Joitakin tiedostoja ei voitu ladata",
+    staticAssetMessage: "Lataa sivu uudelleen yrittääksesi uudestaan",
     tryAgain: "Yritä uudelleen",
+    updateAvailable: "Uusi versio on saatavilla",
   },
   fr: {
+    clearCache: "Vider le cache et recharger",
+    feedbackEmail: "E-mail (facultatif)",
+    feedbackMessage: "Que faisiez-vous lorsque cela s'est produit ?",
+    feedbackSent: "Merci ! Votre signalement a été envoyé",
+    feedbackTitle: "Signaler un problème",
     heading: "Quelque chose s'est mal passé",
+    later: "Plus tard",
     loading: "Chargement...",
     message: "Veuillez actualiser la page pour continuer",
+    nextCheck: "Nouvelle vérification dans {seconds}s",
+    offlineHeading: "Vous êtes hors ligne",
+    offlineMessage: "Vérifiez votre connexion internet et rechargez la page",
     reload: "Recharger la page",
-    retrying: "Tentative de nouvel essai",
+    reloadNow: "Recharger maintenant",
+    retrying: "Tentative de nouvel essai {attempt}",
+    sendFeedback: "Envoyer le signalement",
+    staleDeployHeading: "L'application a été mise à jour",
+    staleDeployMessage: "Rechargez la page pour charger la dernière version",
+    staticAssetHeading: "Certains fichiers n'ont pas pu être chargés",
+    staticAssetMessage: "Rechargez la page pour réessayer",
     tryAgain: "Réessayer",
+    updateAvailable: "Une nouvelle version est disponible",
   },
   he: {
+    clearCache: "ניקוי מטמון וטעינה מחדש",
+    feedbackEmail: "אימייל (לא חובה)",
+    feedbackMessage: "מה עשית כשזה קרה?",
+    feedbackSent: "תודה! הדיווח שלך נשלח",
+    feedbackTitle: "דיווח על בעיה",
     heading: "משהו השתבש",
+    later: "מאוחר יותר",
     loading: "...טוען",
     message: "אנא רענן את הדף כדי להמשיך",
+    nextCheck: "בדיקה חוזרת בעוד {seconds}s",
+    offlineHeading: "אין חיבור לאינטרנט",
+    offlineMessage: "בדקו את החיבור לאינטרנט וטענו מחדש את הדף",
     reload: "טען מחדש",
-    retrying: "ניסיון חוזר",
+    reloadNow: "טען מחדש עכשיו",
+    retrying: "ניסיון חוזר {attempt}",
     rtl: true,
+    sendFeedback: "שליחת דיווח",
+    staleDeployHeading: "האפליקציה עודכנה",
+    staleDeployMessage: "טענו מחדש את הדף כדי לקבל את הגרסה העדכנית",
+    staticAssetHeading: "חלק מהקבצים לא נטענו",
+    staticAssetMessage: "טענו מחדש את הדף כדי לנסות שוב",
     tryAgain: "נסה שוב",
+    updateAvailable: "גרסה חדשה זמינה",
   },
   hr: {
+    clearCache: "Očisti predmemoriju i ponovno učitaj",
+    feedbackEmail: "E-pošta (neobavezno)",
+    feedbackMessage: "Što ste radili kad se to dogodilo?",
+    feedbackSent: "Hvala! Vaša prijava je poslana",
+    feedbackTitle: "Prijavi problem",
     heading: "Nešto je pošlo po zlu",
+    later: "Kasnije",
     loading: "Učitavanje...",
     message: "Molimo osvježite stranicu da biste nastavili",
+    nextCheck: "Ponovna provjera za {seconds}s",
+    offlineHeading: "Niste povezani s internetom",
+    offlineMessage: "Provjerite internetsku vezu i ponovno učitajte stranicu",
     reload: "Ponovno učitaj stranicu",
-    retrying: "Pokušaj ponovnog pokušaja",
+    reloadNow: "Ponovno učitaj sada",
+    retrying: "Pokušaj ponovnog pokušaja {attempt}",
+    sendFeedback: "Pošalji prijavu",
+    staleDeployHeading: "Aplikacija je ažurirana",
+    staleDeployMessage: "Ponovno učitajte stranicu za najnoviju verziju",
+    staticAssetHeading: "Neke datoteke nisu učitane",
+    staticAssetMessage: "Ponovno učitajte stranicu za novi pokušaj",
     tryAgain: "Pokušaj ponovo",
+    updateAvailable: "Dostupna je nova verzija",
   },
   hu: {
+    clearCache: "Gyorsítótár törlése és újratöltés",
+    feedbackEmail: "E-mail (nem kötelező)",
+    feedbackMessage: "Mit csinált, amikor ez történt?",
+    feedbackSent: "Köszönjük! A bejelentését elküldtük",
+    feedbackTitle: "Probléma bejelentése",
     heading: "Valami hiba történt",
+    later: "Később",
     loading: "Betöltés...",
     message: "Kérjük, frissítse az oldalt a folytatáshoz",
+    nextCheck: "Újraellenőrzés: {seconds}s",
+    offlineHeading: "Nincs internetkapcsolat",
+    offlineMessage: "Ellenőrizze az internetkapcsolatot, és töltse újra az oldalt",
     reload: "Oldal újratöltése",
-    retrying: "Újrapróbálkozási kísérlet",
+    reloadNow: "Újratöltés most",
+    retrying: "Újrapróbálkozási kísérlet {attempt}",
+    sendFeedback: "Bejelentés küldése",
+    staleDeployHeading: "Az alkalmazás frissült",
+    staleDeployMessage: "Töltse újra az oldalt a legújabb verzióért",
+    staticAssetHeading: "Néhány fájlt nem sikerült betölteni",
+    staticAssetMessage: "Töltse újra az oldalt az újrapróbálkozáshoz",
     tryAgain: "Próbálja újra",
+    updateAvailable: "Új verzió érhető el",
   },
   id: {
+    clearCache: "Hapus cache dan muat ulang",
+    feedbackEmail: "Email (opsional)",
+    feedbackMessage: "Apa yang sedang Anda lakukan saat ini terjadi?",
+    feedbackSent: "Terima kasih! Laporan Anda telah dikirim",
+    feedbackTitle: "Laporkan masalah",
     heading: "Terjadi kesalahan",
+    later: "Nanti",
     loading: "Memuat...",
     message: "Silakan segarkan halaman untuk melanjutkan",
+    nextCheck: "Memeriksa lagi dalam {seconds}s",
+    offlineHeading: "Anda sedang offline",
+    offlineMessage: "Periksa koneksi internet Anda dan muat ulang halaman",
     reload: "Muat ulang halaman",
-    retrying: "Percobaan ulang",
+    reloadNow: "Muat ulang sekarang",
+    retrying: "Percobaan ulang {attempt}",
+    sendFeedback: "Kirim laporan",
+    staleDeployHeading: "Aplikasi telah diperbarui",
+    staleDeployMessage: "Muat ulang halaman untuk memuat versi terbaru",
+    staticAssetHeading: "Beberapa file gagal dimuat",
+    staticAssetMessage: "Muat ulang halaman untuk mencoba lagi",
     tryAgain: "Coba lagi",
+    updateAvailable: "Versi baru tersedia",
   },
   it: {
+    clearCache: "Svuota la cache e ricarica",
+    feedbackEmail: "Email (facoltativa)",
+    feedbackMessage: "Cosa stavi facendo quando è successo?",
+    feedbackSent: "Grazie! La tua segnalazione è stata inviata",
+    feedbackTitle: "Segnala un problema",
     heading: "Qualcosa è andato storto",
+    later: "Più tardi",
     loading: "Caricamento...",
     message: "Aggiorna la pagina per continuare",
+    nextCheck: "Nuovo controllo tra {seconds}s",
+    offlineHeading: "Sei offline",
+    offlineMessage: "Controlla la connessione a internet e ricarica la pagina",
     reload: "Ricarica pagina",
-    retrying: "Tentativo di ripetizione",
+    reloadNow: "Ricarica ora",
+    retrying: "Tentativo di ripetizione {attempt}",
+    sendFeedback: "Invia segnalazione",
+    staleDeployHeading: "L'app è stata aggiornata",
+    staleDeployMessage: "Ricarica la pagina per caricare l'ultima versione",
+    staticAssetHeading: "Alcuni file non sono stati caricati",
+    staticAssetMessage: "Ricarica la pagina per riprovare",
     tryAgain: "Riprova",
+    updateAvailable: "È disponibile una nuova versione",
   },
   ja: {
+    clearCache: "キャッシュをクリアして再読み込み",
+    feedbackEmail: "メールアドレス（任意）",
+    feedbackMessage: "問題が発生したとき、何をしていましたか？",
+    feedbackSent: "ありがとうございます。報告を送信しました",
+    feedbackTitle: "問題を報告",
     heading: "問題が発生しました",
+    later: "後で",
     loading: "読み込み中...",
     message: "ページを更新してください",
+    nextCheck: "次の確認まで {seconds}s",
+    offlineHeading: "オフラインです",
+    offlineMessage: "インターネット接続を確認してページを再読み込みしてください",
     reload: "再読み込み",
-    retrying: "リトライ",
+    reloadNow: "今すぐ再読み込み",
+    retrying: "リトライ {attempt}",
+    sendFeedback: "報告を送信",
+    staleDeployHeading: "アプリが更新されました",
+    staleDeployMessage: "最新バージョンを読み込むにはページを再読み込みしてください",
+    staticAssetHeading: "一部のファイルを読み込めませんでした",
+    staticAssetMessage: "ページを再読み込みしてもう一度お試しください",
     tryAgain: "もう一度試す",
+    updateAvailable: "新しいバージョンが利用可能です",
   },
   ka: {
+    clearCache: "ქეშის გასუფთავება და განახლება",
+    feedbackEmail: "ელფოსტა (არასავალდებულო)",
+    feedbackMessage: "რას აკეთებდით, როცა ეს მოხდა?",
+    feedbackSent: "გმადლობთ! თქვენი შეტყობინება გაიგზავნა",
+    feedbackTitle: "პრობლემის შეტყობინება",
     heading: "რაღაც არასწორად მოხდა",
+    later: "მოგვიანებით",
     loading: "იტვირთება...",
     message: "გთხოვთ განაახლოთ გვერდი გასაგრძელებლად",
+    nextCheck: "ხელახალი შემოწმება: {seconds}s",
+    offlineHeading: "ინტერნეტთან კავშირი არ არის",
+    offlineMessage: "შეამოწმეთ ინტერნეტთან კავშირი და განაახლეთ გვერდი",
     reload: "გვერდის გადატვირთვა",
-    retrying: "გამეორების მცდელობა",
+    reloadNow: "ახლავე გადატვირთვა",
+    retrying: "გამეორების მცდელობა {attempt}",
+    sendFeedback: "გაგზავნა",
+    staleDeployHeading: "აპლიკაცია განახლდა",
+    staleDeployMessage: "განაახლეთ გვერდი უახლესი ვერსიის ჩასატვირთად",
+    staticAssetHeading: "ზოგიერთი ფაილი ვერ ჩაიტვირთა",
+    staticAssetMessage: "განაახლეთ გვერდი ხელახლა საცდელად",
     tryAgain: "კიდევ სცადეთ",
+    updateAvailable: "ხელმისაწვდომია ახალი ვერსია",
   },
   kk: {
+    clearCache: "Кэшті тазалап, қайта жүктеу",
+    feedbackEmail: "Электрондық пошта (міндетті емес)",
+    feedbackMessage: "Бұл болған кезде не істеп жатыр едіңіз?",
+    feedbackSent: "Рақмет! Хабарламаңыз жіберілді",
+    feedbackTitle: "Мәселе туралы хабарлау",
     heading: "Бірдеңе дұрыс болмады",
+    later: "Кейінірек",
     loading: "Жүктелуде...",
     message: "Жалғастыру үшін бетті жаңартыңыз",
+    nextCheck: "Қайта тексеру: {seconds}s",
+    offlineHeading: "Интернет байланысы жоқ",
+    offlineMessage: "Интернет байланысын тексеріп, бетті қайта жүктеңіз",
     reload: "Бетті қайта жүктеу",
-    retrying: "Қайталау әрекеті",
+    reloadNow: "Қазір қайта жүктеу",
+    retrying: "Қайталау әрекеті {attempt}",
+    sendFeedback: "Жіберу",
+    staleDeployHeading: "Қолданба жаңартылды",
+    staleDeployMessage: "Соңғы нұсқаны жүктеу үшін бетті қайта жүктеңіз",
+    staticAssetHeading: "Кейбір файлдар жүктелмеді",
+    staticAssetMessage: "Қайталап көру үшін бетті қайта жүктеңіз",
     tryAgain: "Қайталап көріңіз",
+    updateAvailable: "Жаңа нұсқа қолжетімді",
   },
   ko: {
+    clearCache: "캐시 지우고 새로고침",
+    feedbackEmail: "이메일 (선택 사항)",
+    feedbackMessage: "문제가 발생했을 때 무엇을 하고 계셨나요?",
+    feedbackSent: "감사합니다! 신고가 전송되었습니다",
+    feedbackTitle: "문제 신고",
     heading: "문제가 발생했습니다",
+    later: "나중에",
     loading: "로딩 중...",
     message: "페이지를 새로고침해 주세요",
+    nextCheck: "다시 확인까지 {seconds}s",
+    offlineHeading: "오프라인 상태입니다",
+    offlineMessage: "인터넷 연결을 확인하고 페이지를 새로고침하세요",
     reload: "새로고침",
-    retrying: "재시도",
+    reloadNow: "지금 새로고침",
+    retrying: "재시도 {attempt}",
+    sendFeedback: "신고 보내기",
+    staleDeployHeading: "앱이 업데이트되었습니다",
+    staleDeployMessage: "최신 버전을 불러오려면 페이지를 새로고침하세요",
+    staticAssetHeading: "일부 파일을 불러오지 못했습니다",
+    staticAssetMessage: "다시 시도하려면 페이지를 새로고침하세요",
     tryAgain: "다시 시도",
+    updateAvailable: "새 버전을 사용할 수 있습니다",
   },
   ky: {
+    clearCache: "Кэшти тазалап, кайра жүктөө",
+    feedbackEmail: "Электрондук почта (милдеттүү эмес)",
+    feedbackMessage: "Бул болгондо эмне кылып жаттыңыз?",
+    feedbackSent: "Рахмат! Билдирүүңүз жөнөтүлдү",
+    feedbackTitle: "Көйгөй жөнүндө билдирүү",
     heading: "Бир нерсе туура эмес болду",
+    later: "Кийинчерээк",
     loading: "Жүктөлүүдө...",
     message: "Улантуу үчүн баракты жаңыртыңыз",
+    nextCheck: "Кайра текшерүү: {seconds}s",
+    offlineHeading: "Интернет байланышы жок",
+    offlineMessage: "Интернет байланышын текшерип, баракты кайра жүктөңүз",
     reload: "Баракты кайра жүктөө",
-    retrying: "Кайталоо аракети",
+    reloadNow: "Азыр кайра жүктөө",
+    retrying: "Кайталоо аракети {attempt}",
+    sendFeedback: "Жөнөтүү",
+    staleDeployHeading: "Колдонмо жаңыртылды",
+    staleDeployMessage: "Акыркы версияны жүктөө үчүн баракты кайра жүктөңүз",
+    staticAssetHeading: "Айрым файлдар жүктөлгөн жок",
+    staticAssetMessage: "Кайра аракет кылуу үчүн баракты кайра жүктөңүз",
     tryAgain: "Кайра аракет кылыңыз",
+    updateAvailable: "Жаңы версия жеткиликтүү",
   },
   lt: {
+    clearCache: "Išvalyti talpyklą ir įkelti iš naujo",
+    feedbackEmail: "El. paštas (neprivaloma)",
+    feedbackMessage: "Ką darėte, kai tai nutiko?",
+    feedbackSent: "Ačiū! Jūsų pranešimas išsiųstas",
+    feedbackTitle: "Pranešti apie problemą",
     heading: "Kažkas nutiko ne taip",
+    later: "Vėliau",
     loading: "Įkeliama...",
     message: "Prašome atnaujinti puslapį, kad tęstumėte",
+    nextCheck: "Tikrinama iš naujo po {seconds}s",
+    offlineHeading: "Esate neprisijungę",
+    offlineMessage: "Patikrinkite interneto ryšį ir iš naujo įkelkite puslapį",
     reload: "Iš naujo įkelti puslapį",
-    retrying: "Pakartotinis bandymas",
+    reloadNow: "Įkelti iš naujo dabar",
+    retrying: "Pakartotinis bandymas {attempt}",
+    sendFeedback: "Siųsti pranešimą",
+    staleDeployHeading: "Programėlė atnaujinta",
+    staleDeployMessage: "Iš naujo įkelkite puslapį, kad gautumėte naujausią versiją",
+    staticAssetHeading: "Kai kurių failų nepavyko įkelti",
+    staticAssetMessage: "Iš naujo įkelkite puslapį ir bandykite dar kartą",
     tryAgain: "Bandyti dar kartą",
+    updateAvailable: "Yra nauja versija",
   },
   lv: {
+    clearCache: "Notīrīt kešatmiņu un pārlādēt",
+    feedbackEmail: "E-pasts (nav obligāts)",
+    feedbackMessage: "Ko jūs darījāt, kad tas notika?",
+    feedbackSent: "Paldies! Jūsu ziņojums ir nosūtīts",
+    feedbackTitle: "Ziņot par problēmu",
     heading: "Kaut kas nogāja greizi",
+    later: "Vēlāk",
     loading: "Ielādē...",
     message: "Lūdzu, atsvaidziniet lapu, lai turpinātu",
+    nextCheck: "Atkārtota pārbaude pēc {seconds}s",
+    offlineHeading: "Jūs esat bezsaistē",
+    offlineMessage: "Pārbaudiet interneta savienojumu un pārlādējiet lapu",
     reload: "Pārlādēt lapu",
-    retrying: "Atkārtots mēģinājums",
+    reloadNow: "Pārlādēt tagad",
+    retrying: "Atkārtots mēģinājums {attempt}",
+    sendFeedback: "Nosūtīt ziņojumu",
+    staleDeployHeading: "Lietotne ir atjaunināta",
+    staleDeployMessage: "Pārlādējiet lapu, lai ielādētu jaunāko versiju",
+    staticAssetHeading: "Dažus failus neizdevās ielādēt",
+    staticAssetMessage: "Pārlādējiet lapu, lai mēģinātu vēlreiz",
     tryAgain: "Mēģiniet vēlreiz",
+    updateAvailable: "Ir pieejama jauna versija",
   },
   nl: {
+    clearCache: "Cache wissen en opnieuw laden",
+    feedbackEmail: "E-mail (optioneel)",
+    feedbackMessage: "Wat was je aan het doen toen dit gebeurde?",
+    feedbackSent: "Bedankt! Je melding is verzonden",
+    feedbackTitle: "Probleem melden",
     heading: "Er is iets misgegaan",
+    later: "Later",
     loading: "Laden...",
     message: "Ververs de pagina om door te gaan",
+    nextCheck: "Opnieuw controleren over {seconds}s",
+    offlineHeading: "Je bent offline",
+    offlineMessage: "Controleer je internetverbinding en laad de pagina opnieuw",
     reload: "Pagina herladen",
-    retrying: "Opnieuw proberen",
+    reloadNow: "Nu herladen",
+    retrying: "Opnieuw proberen {attempt}",
+    sendFeedback: "Melding versturen",
+    staleDeployHeading: "De app is bijgewerkt",
+    staleDeployMessage: "Laad de pagina opnieuw om de nieuwste versie te laden",
+    staticAssetHeading: "Sommige bestanden konden niet worden geladen",
+    staticAssetMessage: "Laad de pagina opnieuw om het nog eens te proberen",
     tryAgain: "Probeer opnieuw",
+    updateAvailable: "Er is een nieuwe versie beschikbaar",
   },
   no: {
+    clearCache: "Tøm hurtigbuffer og last inn på nytt",
+    feedbackEmail: "E-post (valgfritt)",
+    feedbackMessage: "Hva holdt du på med da dette skjedde?",
+    feedbackSent: "Takk! Rapporten din er sendt",
+    feedbackTitle: "Rapporter et problem",
     heading: "Noe gikk galt",
+    later: "Senere",
     loading: "Laster...",
     message: "Vennligst oppdater siden for å fortsette",
+    nextCheck: "Sjekker igjen om {seconds}s",
+    offlineHeading: "Du er frakoblet",
+    offlineMessage: "Sjekk internettforbindelsen og last inn siden på nytt",
     reload: "Last inn siden på nytt",
-    retrying: "Nytt forsøk",
+    reloadNow: "Last inn på nytt nå",
+    retrying: "Nytt forsøk {attempt}",
+    sendFeedback: "Send rapport",
+    staleDeployHeading: "Appen er oppdatert",
+    staleDeployMessage: "Last inn siden på nytt for å hente den nyeste versjonen",
+    staticAssetHeading: "Noen filer kunne ikke lastes inn",
+    staticAssetMessage: "Last inn siden på nytt for å prøve igjen",
     tryAgain: "Prøv igjen",
+    updateAvailable: "En ny versjon er tilgjengelig",
   },
   pl: {
+    clearCache: "Wyczyść pamięć podręczną i odśwież",
+    feedbackEmail: "E-mail (opcjonalnie)",
+    feedbackMessage: "Co robiłeś, gdy to się stało?",
+    feedbackSent: "Dziękujemy! Zgłoszenie zostało wysłane",
+    feedbackTitle: "Zgłoś problem",
     heading: "Coś poszło nie tak",
+    later: "Później",
     loading: "Ładowanie...",
     message: "Odśwież stronę, aby kontynuować",
+    nextCheck: "Ponowne sprawdzenie za {seconds}s",
+    offlineHeading: "Jesteś offline",
+    offlineMessage: "Sprawdź połączenie z internetem i odśwież stronę",
     reload: "Przeładuj stronę",
-    retrying: "Próba ponowienia",
+    reloadNow: "Odśwież teraz",
+    retrying: "Próba ponowienia {attempt}",
+    sendFeedback: "Wyślij zgłoszenie",
+    staleDeployHeading: "Aplikacja została zaktualizowana",
+    staleDeployMessage: "Odśwież stronę, aby załadować najnowszą wersję",
+    staticAssetHeading: "Nie udało się załadować niektórych plików",
+    staticAssetMessage: "Odśwież stronę, aby spróbować ponownie",
     tryAgain: "Spróbuj ponownie",
+    updateAvailable: "Dostępna jest nowa wersja",
   },
   pt: {
+    clearCache: "Limpar cache e recarregar",
+    feedbackEmail: "E-mail (opcional)",
+    feedbackMessage: "O que você estava fazendo quando isso aconteceu?",
+    feedbackSent: "Obrigado! Seu relatório foi enviado",
+    feedbackTitle: "Relatar um problema",
     heading: "Algo deu errado",
+    later: "Mais tarde",
     loading: "Carregando...",
     message: "Por favor, atualize a página para continuar",
+    nextCheck: "Verificando novamente em {seconds}s",
+    offlineHeading: "Você está offline",
+    offlineMessage: "Verifique sua conexão com a internet e recarregue a página",
     reload: "Recarregar página",
-    retrying: "Tentativa de nova tentativa",
+    reloadNow: "Recarregar agora",
+    retrying: "Tentativa de nova tentativa {attempt}",
+    sendFeedback: "Enviar relatório",
+    staleDeployHeading: "O aplicativo foi atualizado",
+    staleDeployMessage: "Recarregue a página para carregar a versão mais recente",
+    staticAssetHeading: "Alguns arquivos não foram carregados",
+    staticAssetMessage: "Recarregue a página para tentar novamente",
     tryAgain: "Tentar novamente",
+    updateAvailable: "Uma nova versão está disponível",
   },
   ro: {
+    clearCache: "Golește memoria cache și reîncarcă",
+    feedbackEmail: "E-mail (opțional)",
+    feedbackMessage: "Ce făceai când s-a întâmplat asta?",
+    feedbackSent: "Mulțumim! Raportul tău a fost trimis",
+    feedbackTitle: "Raportează o problemă",
     heading: "Ceva nu a mers bine",
+    later: "Mai târziu",
     loading: "Se încarcă...",
     message: "Vă rugăm să reîmprospătați pagina pentru a continua",
+    nextCheck: "Se verifică din nou în {seconds}s",
+    offlineHeading: "Sunteți offline",
+    offlineMessage: "Verificați conexiunea la internet și reîncărcați pagina",
     reload: "Reîncarcă pagina",
-    retrying: "Încercare de reîncercare",
+    reloadNow: "Reîncarcă acum",
+    retrying: "Încercare de reîncercare {attempt}",
+    sendFeedback: "Trimite raportul",
+    staleDeployHeading: "Aplicația a fost actualizată",
+    staleDeployMessage: "Reîncărcați pagina pentru a încărca cea mai recentă versiune",
+    staticAssetHeading: "Unele fișiere nu s-au putut încărca",
+    staticAssetMessage: "Reîncărcați pagina pentru a încerca din nou",
     tryAgain: "Încearcă din nou",
+    updateAvailable: "Este disponibilă o versiune nouă",
   },
   ru: {
+    clearCache: "Очистить кэш и перезагрузить",
+    feedbackEmail: "Email (необязательно)",
+    feedbackMessage: "Что вы делали, когда это произошло?",
+    feedbackSent: "Спасибо! Ваше сообщение отправлено",
+    feedbackTitle: "Сообщить о проблеме",
     heading: "Что-то пошло не так",
+    later: "Позже",
     loading: "Загрузка...",
     message: "Пожалуйста, обновите страницу, чтобы продолжить",
+    nextCheck: {
+      few: "Повторная проверка через {seconds} секунды",
+      many: "Повторная проверка через {seconds} секунд",
+      one: "Повторная проверка через {seconds} секунду",
+      other: "Повторная проверка через {seconds} секунды",
+    },
+    offlineHeading: "Нет подключения к интернету",
+    offlineMessage: "Проверьте подключение к интернету и перезагрузите страницу",
     reload: "Перезагрузить страницу",
-    retrying: "Повторная попытка",
+    reloadNow: "Обновить сейчас",
+    retrying: "Повторная попытка {attempt}",
+    sendFeedback: "Отправить",
+    staleDeployHeading: "Приложение обновлено",
+    staleDeployMessage: "Перезагрузите страницу, чтобы загрузить последнюю версию",
+    staticAssetHeading: "Не удалось загрузить некоторые файлы",
+    staticAssetMessage: "Перезагрузите страницу, чтобы попробовать снова",
     tryAgain: "Попробовать снова",
+    updateAvailable: "Доступна новая версия",
   },
   sk: {
+    clearCache: "Vymazať vyrovnávaciu pamäť a znovu načítať",
+    feedbackEmail: "E-mail (nepovinné)",
+    feedbackMessage: "Čo ste robili, keď sa to stalo?",
+    feedbackSent: "Ďakujeme! Vaše hlásenie bolo odoslané",
+    feedbackTitle: "Nahlásiť problém",
     heading: "Niečo sa pokazilo",
+    later: "Neskôr",
     loading: "Načítava sa...",
     message: "Obnovte stránku prosím pre pokračovanie",
+    nextCheck: "Ďalšia kontrola o {seconds}s",
+    offlineHeading: "Ste offline",
+    offlineMessage: "Skontrolujte pripojenie na internet a obnovte stránku",
     reload: "Znovu načítať stránku",
-    retrying: "Pokus o opakovanie",
+    reloadNow: "Znova načítať teraz",
+    retrying: "Pokus o opakovanie {attempt}",
+    sendFeedback: "Odoslať hlásenie",
+    staleDeployHeading: "Aplikácia bola aktualizovaná",
+    staleDeployMessage: "Obnovte stránku a načítajte najnovšiu verziu",
+    staticAssetHeading: "Niektoré súbory sa nepodarilo načítať",
+    staticAssetMessage: "Obnovte stránku a skúste to znova",
     tryAgain: "Skúsiť znova",
+    updateAvailable: "Je k dispozícii nová verzia",
   },
   sl: {
+    clearCache: "Počisti predpomnilnik in znova naloži",
+    feedbackEmail: "E-pošta (neobvezno)",
+    feedbackMessage: "Kaj ste počeli, ko se je to zgodilo?",
+    feedbackSent: "Hvala! Vaša prijava je bila poslana",
+    feedbackTitle: "Prijavi težavo",
     heading: "Nekaj je šlo narobe",
+    later: "Kasneje",
     loading: "Nalaganje...",
     message: "Prosimo, osvežite stran za nadaljevanje",
+    nextCheck: "Ponovno preverjanje čez {seconds}s",
+    offlineHeading: "Niste povezani",
+    offlineMessage: "Preverite internetno povezavo in znova naložite stran",
     reload: "Ponovno naloži stran",
-    retrying: "Poskus ponovnega poskusa",
+    reloadNow: "Znova naloži zdaj",
+    retrying: "Poskus ponovnega poskusa {attempt}",
+    sendFeedback: "Pošlji prijavo",
+    staleDeployHeading: "Aplikacija je bila posodobljena",
+    staleDeployMessage: "Znova naložite stran, da naložite najnovejšo različico",
+    staticAssetHeading: "Nekaterih datotek ni bilo mogoče naložiti",
+    staticAssetMessage: "Znova naložite stran in poskusite ponovno",
     tryAgain: "Poskusi znova",
+    updateAvailable: "Na voljo je nova različica",
   },
   sv: {
+    clearCache: "Rensa cache och ladda om",
+    feedbackEmail: "E-post (valfritt)",
+    feedbackMessage: "Vad gjorde du när det här hände?",
+    feedbackSent: "Tack! Din rapport har skickats",
+    feedbackTitle: "Rapportera ett problem",
     heading: "Något gick fel",
+    later: "Senare",
     loading: "Laddar...",
     message: "Uppdatera sidan för att fortsätta",
+    nextCheck: "Kontrollerar igen om {seconds}s",
+    offlineHeading: "Du är offline",
+    offlineMessage: "Kontrollera din internetanslutning och ladda om sidan",
     reload: "Ladda om sidan",
-    retrying: "Nytt försök",
+    reloadNow: "Ladda om nu",
+    retrying: "Nytt försök {attempt}",
+    sendFeedback: "Skicka rapport",
+    staleDeployHeading: "Appen har uppdaterats",
+    staleDeployMessage: "Ladda om sidan för att hämta den senaste versionen",
+    staticAssetHeading: "Vissa filer kunde inte laddas",
+    staticAssetMessage: "Ladda om sidan för att försöka igen",
     tryAgain: "Försök igen",
+    updateAvailable: "En ny version finns tillgänglig",
   },
   th: {
+    clearCache: "ล้างแคชและโหลดใหม่",
+    feedbackEmail: "อีเมล (ไม่บังคับ)",
+    feedbackMessage: "คุณกำลังทำอะไรอยู่ตอนที่เกิดปัญหานี้?",
+    feedbackSent: "ขอบคุณ! ส่งรายงานของคุณแล้ว",
+    feedbackTitle: "รายงานปัญหา",
     heading: "เกิดข้อผิดพลาด",
+    later: "ภายหลัง",
     loading: "กำลังโหลด...",
     message: "กรุณารีเฟรชหน้าเพื่อดำเนินการต่อ",
+    nextCheck: "ตรวจสอบอีกครั้งใน {seconds}s",
+    offlineHeading: "คุณออฟไลน์อยู่",
+    offlineMessage: "ตรวจสอบการเชื่อมต่ออินเทอร์เน็ตแล้วโหลดหน้านี้ใหม่",
     reload: "โหลดหน้าใหม่",
-    retrying: "ความพยายามลองใหม่",
+    reloadNow: "โหลดใหม่ตอนนี้",
+    retrying: "ความพยายามลองใหม่ {attempt}",
+    sendFeedback: "ส่งรายงาน",
+    staleDeployHeading: "แอปได้รับการอัปเดตแล้ว",
+    staleDeployMessage: "โหลดหน้านี้ใหม่เพื่อใช้เวอร์ชันล่าสุด",
+    staticAssetHeading: "โหลดไฟล์บางไฟล์ไม่สำเร็จ",
+    staticAssetMessage: "โหลดหน้านี้ใหม่เพื่อลองอีกครั้ง",
     tryAgain: "ลองอีกครั้ง",
+    updateAvailable: "มีเวอร์ชันใหม่พร้อมใช้งาน",
   },
   tr: {
+    clearCache: "Önbelleği temizle ve yeniden yükle",
+    feedbackEmail: "E-posta (isteğe bağlı)",
+    feedbackMessage: "Bu olduğunda ne yapıyordunuz?",
+    feedbackSent: "Teşekkürler! Bildiriminiz gönderildi",
+    feedbackTitle: "Sorun bildir",
     heading: "Bir şeyler ters gitti",
+    later: "Daha sonra",
     loading: "Yükleniyor...",
     message: "Devam etmek için lütfen sayfayı yenileyin",
+    nextCheck: "Tekrar kontrol: {seconds}s",
+    offlineHeading: "Çevrimdışısınız",
+    offlineMessage: "İnternet bağlantınızı kontrol edin ve sayfayı yeniden yükleyin",
     reload: "Sayfayı yeniden yükle",
-    retrying: "Yeniden deneme girişimi",
+    reloadNow: "Şimdi yenile",
+    retrying: "Yeniden deneme girişimi {attempt}",
+    sendFeedback: "Bildirimi gönder",
+    staleDeployHeading: "Uygulama güncellendi",
+    staleDeployMessage: "En son sürümü yüklemek için sayfayı yeniden yükleyin",
+    staticAssetHeading: "Bazı dosyalar yüklenemedi",
+    staticAssetMessage: "Tekrar denemek için sayfayı yeniden yükleyin",
     tryAgain: "Tekrar dene",
+    updateAvailable: "Yeni bir sürüm mevcut",
   },
   uk: {
+    clearCache: "Очистити кеш і перезавантажити",
+    feedbackEmail: "Email (необов'язково)",
+    feedbackMessage: "Що ви робили, коли це сталося?",
+    feedbackSent: "Дякуємо! Ваше повідомлення надіслано",
+    feedbackTitle: "Повідомити про проблему",
     heading: "Щось пішло не так",
+    later: "Пізніше",
     loading: "Завантаження...",
     message: "Будь ласка, оновіть сторінку, щоб продовжити",
+    nextCheck: "Повторна перевірка через {seconds}s",
+    offlineHeading: "Немає підключення до інтернету",
+    offlineMessage: "Перевірте підключення до інтернету та перезавантажте сторінку",
     reload: "Перезавантажити сторінку",
-    retrying: "Повторна спроба",
+    reloadNow: "Оновити зараз",
+    retrying: "Повторна спроба {attempt}",
+    sendFeedback: "Надіслати",
+    staleDeployHeading: "Застосунок оновлено",
+    staleDeployMessage: "Перезавантажте сторінку, щоб завантажити останню версію",
+    staticAssetHeading: "Не вдалося завантажити деякі файли",
+    staticAssetMessage: "Перезавантажте сторінку, щоб спробувати знову",
     tryAgain: "Спробувати знову",
+    updateAvailable: "Доступна нова версія",
   },
   zh: {
+    clearCache: "清除缓存并重新加载",
+    feedbackEmail: "电子邮件（可选）",
+    feedbackMessage: "发生此问题时您正在做什么？",
+    feedbackSent: "谢谢！您的报告已发送",
+    feedbackTitle: "报告问题",
     heading: "出了点问题",
+    later: "稍后",
     loading: "加载中...",
     message: "请刷新页面以继续",
+    nextCheck: "下次检查 {seconds}s",
+    offlineHeading: "您已离线",
+    offlineMessage: "请检查网络连接并重新加载页面",
     reload: "重新加载",
-    retrying: "重试次数",
+    reloadNow: "立即重新加载",
+    retrying: "重试次数 {attempt}",
+    sendFeedback: "发送报告",
+    staleDeployHeading: "应用已更新",
+    staleDeployMessage: "请重新加载页面以获取最新版本",
+    staticAssetHeading: "部分文件加载失败",
+    staticAssetMessage: "请重新加载页面重试",
     tryAgain: "重试",
+    updateAvailable: "有新版本可用",
   },
 };
@@ -9,6 +9,7 @@
 
 /* eslint-disable sonarjs/void-use -- All dispatchers intentionally use void Promise.reject() to create unhandled rejections */
 
+import { resolveDelays } from "../../common/backoff";
 import { debugSyncErrorEventType } from "../../common/constants";
 import { ForceRetryError } from "../../common/errors/ForceRetryError";
 import { emitEvent } from "../../common/events/internal";
@@ -76,7 +77,7 @@ export function dispatchNetworkTimeout(delayMs = 3000): void {
  */
 export function dispatchRetryExhausted(): void {
   const options = getOptions();
-  const reloadDelays = options.reloadDelays ?? [];
+  const reloadDelays = resolveDelays(options.reloadDelays ?? []);
 
   // Emit retry-exhausted first (matching production order in retryOrchestrator),
   // then set fallback state and render fallback UI. This ensures state.ts ends
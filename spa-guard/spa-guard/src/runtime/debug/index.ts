@@ -233,14 +233,16 @@ function createStateSection(unsubscribers: (() => void)[]): HTMLDivElement {
   const attempt = createStateRow("debug-state-attempt", "attempt");
   const waiting = createStateRow("debug-state-waiting", "isWaiting");
   const fallback = createStateRow("debug-state-fallback", "isFallbackShown");
+  const offline = createStateRow("debug-state-offline", "isOffline");
 
-  section.append(label, attempt.row, waiting.row, fallback.row);
+  section.append(label, attempt.row, waiting.row, fallback.row, offline.row);
 
   unsubscribers.push(
     subscribeToState((state) => {
       attempt.value.textContent = String(state.currentAttempt);
       waiting.value.textContent = String(state.isWaiting);
       fallback.value.textContent = String(state.isFallbackShown);
+      offline.value.textContent = String(state.isOffline);
     }),
   );
 
@@ -49,6 +49,17 @@ describe("runtime/index exports", () => {
     expect(typeof mod.getSpinnerHtml).toBe("function");
   });
 
+  it("exports showUpdatePrompt and dismissUpdatePrompt functions", async () => {
+    const mod = await import("./index");
+    expect(typeof mod.showUpdatePrompt).toBe("function");
+    expect(typeof mod.dismissUpdatePrompt).toBe("function");
+  });
+
+  it("exports isVersionStale function", async () => {
+    const mod = await import("./index");
+    expect(typeof mod.isVersionStale).toBe("function");
+  });
+
   it("exports setTranslations function", async () => {
     const mod = await import("./index");
     expect(mod.setTranslations).toBeDefined();
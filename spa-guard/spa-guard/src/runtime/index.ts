@@ -2,6 +2,8 @@ export { startVersionCheck, stopVersionCheck } from "../common/checkVersion";
 export { ForceRetryError } from "../common/errors/ForceRetryError";
 export { setTranslations } from "../common/i18n";
 export { dismissSpinner, getSpinnerHtml, showSpinner } from "../common/spinner";
+export { dismissUpdatePrompt, showUpdatePrompt } from "../common/updatePrompt";
+export { isVersionStale } from "../common/versionStale";
 export { recommendedSetup } from "./recommendedSetup";
 export type { RecommendedSetupOptions } from "./recommendedSetup";
 export { getState, subscribeToState } from "./state";
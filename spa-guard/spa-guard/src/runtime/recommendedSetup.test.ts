@@ -115,6 +115,7 @@ describe("recommendedSetup", () => {
       lastSource: undefined,
       lastTriggerTime: undefined,
       phase: "idle",
+      reloadBudget: null,
       retryId: "rid",
     });
 
@@ -134,6 +135,7 @@ describe("recommendedSetup", () => {
       lastSource: "chunk-error",
       lastTriggerTime: Date.now(),
       phase: "scheduled",
+      reloadBudget: null,
       retryId: "rid",
     });
 
@@ -171,6 +173,7 @@ describe("recommendedSetup", () => {
       lastSource: undefined,
       lastTriggerTime: undefined,
       phase: "idle",
+      reloadBudget: null,
       retryId: "rid",
     });
 
@@ -212,6 +215,21 @@ describe("recommendedSetup", () => {
     expect(markRetryHealthyBoot).toHaveBeenCalledOnce();
   });
 
+  it("uses the longest possible delays of a jittered backoff strategy", () => {
+    vi.useFakeTimers();
+    vi.mocked(getRetryAttemptFromUrl).mockReturnValue(1);
+    vi.mocked(getOptions).mockReturnValue({
+      lazyRetry: { retryDelays: [1000, 2000] },
+      reloadDelays: { attempts: 4, base: 1000, jitter: 1, type: "exponential" },
+    } as ReturnType<typeof getOptions>);
+
+    cleanup = recommendedSetup();
+    vi.advanceTimersByTime(8999);
+    expect(markRetryHealthyBoot).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(markRetryHealthyBoot).toHaveBeenCalledOnce();
+  });
+
   it("cleanup cancels pending auto healthy boot timer", () => {
     vi.useFakeTimers();
     vi.mocked(getRetryAttemptFromUrl).mockReturnValue(1);
@@ -1,3 +1,4 @@
+import { resolveDelays } from "../common/backoff";
 import { startVersionCheck, stopVersionCheck } from "../common/checkVersion";
 import { getOptions } from "../common/options";
 import { getRetrySnapshot, markRetryHealthyBoot } from "../common/retryOrchestrator";
@@ -113,8 +114,9 @@ const resolveOptions = (overrides?: RecommendedSetupOptions): ResolvedSetupOptio
 
 const computeAutoHealthyBootGraceMs = (): number => {
   const options = getOptions();
-  const reloadDelays = options.reloadDelays ?? [1000, 2000, 5000];
-  const lazyRetryDelays = options.lazyRetry?.retryDelays ?? [1000, 2000];
+  // Without jitter each delay is at its longest, so the grace period covers every attempt
+  const reloadDelays = resolveDelays(options.reloadDelays ?? [1000, 2000, 5000], false);
+  const lazyRetryDelays = resolveDelays(options.lazyRetry?.retryDelays ?? [1000, 2000], false);
 
   const maxReloadDelay = Math.max(...reloadDelays, 0);
   const lazyRetryTotalDelay = lazyRetryDelays.reduce((acc, delay) => acc + delay, 0);
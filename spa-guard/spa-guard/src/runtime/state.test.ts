@@ -40,6 +40,7 @@ describe("runtime/state", () => {
       expect(getState()).toEqual({
         currentAttempt: 0,
         isFallbackShown: false,
+        isOffline: false,
         isWaiting: false,
         lastResetRetryId: undefined,
         lastRetryResetTime: undefined,
@@ -173,6 +174,7 @@ describe("runtime/state", () => {
       expect(cb).toHaveBeenCalledWith({
         currentAttempt: 0,
         isFallbackShown: false,
+        isOffline: false,
         isWaiting: false,
         lastResetRetryId: undefined,
         lastRetryResetTime: undefined,
@@ -314,6 +316,30 @@ describe("runtime/state", () => {
       expect(state.isFallbackShown).toBe(false);
     });
 
+    it("network-offline event sets isOffline=true while preserving other fields", async () => {
+      const { getState } = await import("./state");
+      const { emitEvent } = await import("../common/events/internal");
+
+      emitEvent({ attempt: 1, delay: 1000, name: "retry-attempt", retryId: "retry-id-789" });
+      emitEvent({ attempt: 1, name: "network-offline", retryId: "retry-id-789" });
+
+      const state = getState();
+      expect(state.isOffline).toBe(true);
+      expect(state.currentAttempt).toBe(1);
+      expect(state.isWaiting).toBe(true);
+    });
+
+    it("network-online event clears isOffline", async () => {
+      const { getState } = await import("./state");
+      const { emitEvent } = await import("../common/events/internal");
+
+      emitEvent({ attempt: 1, name: "network-offline", retryId: "retry-id-789" });
+      expect(getState().isOffline).toBe(true);
+
+      emitEvent({ attempt: 1, name: "network-online", retryId: "retry-id-789" });
+      expect(getState().isOffline).toBe(false);
+    });
+
     it("retry-exhausted event updates currentAttempt to finalAttempt and sets isWaiting=false", async () => {
       const { getState } = await import("./state");
       const { emitEvent } = await import("../common/events/internal");
@@ -7,6 +7,11 @@ import { getRetryAttemptFromUrl, getRetryStateFromUrl } from "../common/retrySta
 export interface SpaGuardState {
   currentAttempt: number;
   isFallbackShown: boolean;
+  /**
+   * True while a scheduled reload is paused because the browser is offline.
+   * Cleared when connectivity returns and the reload resumes.
+   */
+  isOffline: boolean;
   isWaiting: boolean;
   /**
    * ID of the previous retry cycle before reset.
@@ -36,6 +41,7 @@ const getInitialStateFromUrl = (): SpaGuardState => {
     return {
       currentAttempt: 0,
       isFallbackShown: false,
+      isOffline: false,
       isWaiting: false,
       ...resetInfoSpread,
     };
@@ -50,6 +56,7 @@ const getInitialStateFromUrl = (): SpaGuardState => {
       return {
         currentAttempt: attempt,
         isFallbackShown: false,
+        isOffline: false,
         isWaiting: false,
         ...resetInfoSpread,
       };
@@ -57,6 +64,7 @@ const getInitialStateFromUrl = (): SpaGuardState => {
     return {
       currentAttempt: 0,
       isFallbackShown: false,
+      isOffline: false,
       isWaiting: false,
       ...resetInfoSpread,
     };
@@ -64,6 +72,7 @@ const getInitialStateFromUrl = (): SpaGuardState => {
   return {
     currentAttempt: retryState.retryAttempt,
     isFallbackShown: false,
+    isOffline: false,
     isWaiting: false,
     ...resetInfoSpread,
   };
@@ -94,6 +103,22 @@ subscribe((event) => {
 
       break;
     }
+    case "network-offline": {
+      updateState({
+        ...currentState,
+        isOffline: true,
+      });
+
+      break;
+    }
+    case "network-online": {
+      updateState({
+        ...currentState,
+        isOffline: false,
+      });
+
+      break;
+    }
     case "retry-attempt": {
       updateState({
         ...currentState,
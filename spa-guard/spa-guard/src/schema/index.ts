@@ -1,13 +1,53 @@
+/** A single entry of the activity trail recorded before a beacon was sent. */
+export interface Breadcrumb {
+  /** What produced the breadcrumb, e.g. "navigation", "click", "fetch", "console", "spa-guard". */
+  category: string;
+  level?: "error" | "info" | "warning";
+  message: string;
+  /** Milliseconds since epoch. */
+  timestamp: number;
+}
+
+/** What the user wrote in the fallback's "Report a problem" form. */
+export interface BeaconFeedback {
+  /** Contact address, when the user left one. */
+  email?: string;
+  message: string;
+}
+
+/** The user the beacon was reported for, as set with `setUser()`. */
+export interface BeaconUser {
+  email?: string;
+  id?: string;
+  username?: string;
+}
+
 export interface BeaconSchema {
   appName?: string;
+  /** Recent user and app activity, oldest first. */
+  breadcrumbs?: Breadcrumb[];
+  /** Named structured contexts set with `setContext()`, e.g. `{ tenant: { plan: "pro" } }`. */
+  context?: Record<string, Record<string, unknown>>;
   errorContext?: string;
   errorMessage?: string;
   errorType?: string;
   eventMessage?: string;
   eventName?: string;
+  /** Present on `user-feedback` beacons. */
+  feedback?: BeaconFeedback;
   httpStatus?: number;
+  /**
+   * Number of identical beacons collapsed into this one by client-side dedup.
+   * Absent for a beacon that represents a single occurrence.
+   */
+  occurrences?: number;
   retryAttempt?: number;
   retryId?: string;
   serialized?: string;
+  /** Random ID shared by all beacons from one browser tab session. */
+  sessionId?: string;
+  /** Flat key/value tags set with `setTags()`, e.g. feature flags. */
+  tags?: Record<string, string>;
   url?: string;
+  user?: BeaconUser;
 }
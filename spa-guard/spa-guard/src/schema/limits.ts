@@ -0,0 +1,27 @@
+// Shared by parseBeacon on the server and the client, which fits beacons
+// into these limits before sending so they are not rejected.
+
+export const BEACON_STRING_FIELDS = [
+  "appName",
+  "errorContext",
+  "errorMessage",
+  "errorType",
+  "eventMessage",
+  "eventName",
+  "retryId",
+  "serialized",
+  "sessionId",
+  "url",
+] as const;
+
+export const MAX_STRING_FIELD_LENGTH = 500;
+export const MAX_SERIALIZED_LENGTH = 10_000;
+export const MAX_BREADCRUMBS = 100;
+export const MAX_BREADCRUMB_CATEGORY_LENGTH = 50;
+export const MAX_KEY_LENGTH = 50;
+export const MAX_TAGS = 50;
+export const MAX_TAG_VALUE_LENGTH = 200;
+export const MAX_CONTEXTS = 20;
+export const MAX_FEEDBACK_MESSAGE_LENGTH = 2000;
+export const MAX_FEEDBACK_EMAIL_LENGTH = 254;
+export const BEACON_USER_FIELDS = ["email", "id", "username"] as const;
@@ -58,6 +58,11 @@ describe("parseBeacon", () => {
       const result = parseBeacon({ retryAttempt: 0 });
       expect(result.retryAttempt).toBe(0);
     });
+
+    it("preserves numeric occurrences value", () => {
+      const result = parseBeacon({ eventName: "chunk-error", occurrences: 12 });
+      expect(result.occurrences).toBe(12);
+    });
   });
 
   describe("invalid beacon rejection (missing required fields, wrong types)", () => {
@@ -89,6 +94,10 @@ describe("parseBeacon", () => {
       expect(() => parseBeacon({ retryAttempt: Infinity })).toThrow("Beacon validation failed");
     });
 
+    it("throws when occurrences is a string instead of number", () => {
+      expect(() => parseBeacon({ occurrences: "3" })).toThrow("Beacon validation failed");
+    });
+
     it("throws when httpStatus is NaN", () => {
       expect(() => parseBeacon({ httpStatus: NaN })).toThrow("Beacon validation failed");
     });
@@ -347,4 +356,159 @@ describe("parseBeacon", () => {
       expect(result.retryAttempt).toBe(-1);
     });
   });
+
+  describe("breadcrumbs", () => {
+    const crumb = { category: "click", message: "button#pay", timestamp: 1_700_000_000_000 };
+
+    it("parses a valid breadcrumbs array", () => {
+      const result = parseBeacon({
+        breadcrumbs: [crumb, { ...crumb, category: "fetch", level: "error" }],
+      });
+      expect(result.breadcrumbs).toEqual([crumb, { ...crumb, category: "fetch", level: "error" }]);
+    });
+
+    it("strips unknown breadcrumb fields", () => {
+      const result = parseBeacon({ breadcrumbs: [{ ...crumb, extra: "x" }] });
+      expect(result.breadcrumbs).toEqual([crumb]);
+    });
+
+    it("throws when breadcrumbs is not an array", () => {
+      expect(() => parseBeacon({ breadcrumbs: crumb })).toThrow("Beacon validation failed");
+    });
+
+    it("throws when there are more than 100 breadcrumbs", () => {
+      expect(() => parseBeacon({ breadcrumbs: Array.from({ length: 101 }, () => crumb) })).toThrow(
+        "breadcrumbs exceeds maximum length",
+      );
+    });
+
+    it("throws when a breadcrumb message exceeds the maximum length", () => {
+      expect(() => parseBeacon({ breadcrumbs: [{ ...crumb, message: "x".repeat(501) }] })).toThrow(
+        "breadcrumb message is invalid",
+      );
+    });
+
+    it("throws when a breadcrumb is missing its timestamp", () => {
+      expect(() =>
+        parseBeacon({ breadcrumbs: [{ category: "click", message: "button" }] }),
+      ).toThrow("breadcrumb timestamp must be a finite number");
+    });
+
+    it("throws when a breadcrumb has an unknown level", () => {
+      expect(() => parseBeacon({ breadcrumbs: [{ ...crumb, level: "fatal" }] })).toThrow(
+        "breadcrumb level is invalid",
+      );
+    });
+
+    it("throws when a breadcrumb is not an object", () => {
+      expect(() => parseBeacon({ breadcrumbs: ["click"] })).toThrow("breadcrumb must be an object");
+    });
+  });
+
+  describe("user, session and tags", () => {
+    it("parses sessionId, user, tags and context", () => {
+      const input = {
+        context: { tenant: { id: "acme", seats: 12 } },
+        sessionId: "session-1",
+        tags: { "flag.checkout": "on", release: "2024.1" },
+        user: { email: "jane@example.com", id: "42", username: "jane" },
+      };
+
+      expect(parseBeacon(input)).toEqual(input);
+    });
+
+    it("strips unknown user fields", () => {
+      const result = parseBeacon({ user: { id: "42", password: "secret" } });
+      expect(result.user).toEqual({ id: "42" });
+    });
+
+    it("throws when a user field is not a string", () => {
+      expect(() => parseBeacon({ user: { id: 42 } })).toThrow("user.id is invalid");
+    });
+
+    it("throws when user is not an object", () => {
+      expect(() => parseBeacon({ user: "42" })).toThrow("user must be an object");
+    });
+
+    it("throws when a tag value is not a string", () => {
+      expect(() => parseBeacon({ tags: { beta: true } })).toThrow("tag beta is invalid");
+    });
+
+    it("throws when a tag value exceeds 200 characters", () => {
+      expect(() => parseBeacon({ tags: { release: "x".repeat(201) } })).toThrow(
+        "tag release is invalid",
+      );
+    });
+
+    it("throws when there are more than 50 tags", () => {
+      const tags = Object.fromEntries(Array.from({ length: 51 }, (_, i) => [`tag${i}`, "x"]));
+      expect(() => parseBeacon({ tags })).toThrow("tags exceeds maximum size");
+    });
+
+    it("throws when tags is an array", () => {
+      expect(() => parseBeacon({ tags: ["beta"] })).toThrow("tags must be an object");
+    });
+
+    it("throws when a context value is not an object", () => {
+      expect(() => parseBeacon({ context: { tenant: "acme" } })).toThrow(
+        "context tenant must be an object",
+      );
+    });
+
+    it("throws when the serialized context exceeds 10000 characters", () => {
+      expect(() => parseBeacon({ context: { big: { data: "x".repeat(10_000) } } })).toThrow(
+        "context exceeds maximum length",
+      );
+    });
+
+    it("throws when there are more than 20 contexts", () => {
+      const context = Object.fromEntries(Array.from({ length: 21 }, (_, i) => [`ctx${i}`, {}]));
+      expect(() => parseBeacon({ context })).toThrow("context exceeds maximum size");
+    });
+
+    it("throws when sessionId exceeds 500 characters", () => {
+      expect(() => parseBeacon({ sessionId: "x".repeat(501) })).toThrow(
+        "sessionId exceeds maximum length",
+      );
+    });
+  });
+
+  describe("feedback", () => {
+    it("parses the feedback message and email", () => {
+      const input = {
+        eventName: "user-feedback",
+        feedback: { email: "jane@example.com", message: "The page stayed blank" },
+        retryId: "abc-123",
+      };
+
+      expect(parseBeacon(input)).toEqual(input);
+    });
+
+    it("allows feedback without an email and strips unknown fields", () => {
+      const result = parseBeacon({ feedback: { message: "Blank page", phone: "555" } });
+      expect(result.feedback).toEqual({ message: "Blank page" });
+    });
+
+    it("throws when the feedback message is missing", () => {
+      expect(() => parseBeacon({ feedback: { email: "jane@example.com" } })).toThrow(
+        "feedback.message is invalid",
+      );
+    });
+
+    it("throws when the feedback message exceeds 2000 characters", () => {
+      expect(() => parseBeacon({ feedback: { message: "x".repeat(2001) } })).toThrow(
+        "feedback.message is invalid",
+      );
+    });
+
+    it("throws when the feedback email exceeds 254 characters", () => {
+      expect(() =>
+        parseBeacon({ feedback: { email: "x".repeat(255), message: "Blank page" } }),
+      ).toThrow("feedback.email is invalid");
+    });
+
+    it("throws when feedback is not an object", () => {
+      expect(() => parseBeacon({ feedback: "Blank page" })).toThrow("feedback must be an object");
+    });
+  });
 });
@@ -1,19 +1,149 @@
-import type { BeaconSchema } from ".";
-
-const STRING_FIELDS = [
-  "appName",
-  "errorContext",
-  "errorMessage",
-  "errorType",
-  "eventMessage",
-  "eventName",
-  "retryId",
-  "serialized",
-  "url",
-] as const;
-
-const MAX_STRING_FIELD_LENGTH = 500;
-const MAX_SERIALIZED_LENGTH = 10_000;
+import type { BeaconFeedback, BeaconSchema, BeaconUser, Breadcrumb } from ".";
+
+import {
+  BEACON_STRING_FIELDS,
+  BEACON_USER_FIELDS,
+  MAX_BREADCRUMB_CATEGORY_LENGTH,
+  MAX_BREADCRUMBS,
+  MAX_CONTEXTS,
+  MAX_FEEDBACK_EMAIL_LENGTH,
+  MAX_FEEDBACK_MESSAGE_LENGTH,
+  MAX_KEY_LENGTH,
+  MAX_SERIALIZED_LENGTH,
+  MAX_STRING_FIELD_LENGTH,
+  MAX_TAG_VALUE_LENGTH,
+  MAX_TAGS,
+} from "./limits";
+
+const BREADCRUMB_LEVELS = new Set(["error", "info", "warning"]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+function parseBreadcrumbs(value: unknown): Breadcrumb[] {
+  if (!Array.isArray(value)) {
+    throw new TypeError("Beacon validation failed: breadcrumbs must be an array");
+  }
+  if (value.length > MAX_BREADCRUMBS) {
+    throw new TypeError("Beacon validation failed: breadcrumbs exceeds maximum length");
+  }
+
+  return value.map((item: unknown) => {
+    if (!isPlainObject(item)) {
+      throw new TypeError("Beacon validation failed: breadcrumb must be an object");
+    }
+    const { category, level, message, timestamp } = item;
+
+    if (typeof category !== "string" || category.length > MAX_BREADCRUMB_CATEGORY_LENGTH) {
+      throw new TypeError("Beacon validation failed: breadcrumb category is invalid");
+    }
+    if (typeof message !== "string" || message.length > MAX_STRING_FIELD_LENGTH) {
+      throw new TypeError("Beacon validation failed: breadcrumb message is invalid");
+    }
+    if (typeof timestamp !== "number" || !Number.isFinite(timestamp)) {
+      throw new TypeError("Beacon validation failed: breadcrumb timestamp must be a finite number");
+    }
+    if (level !== undefined && !BREADCRUMB_LEVELS.has(level as string)) {
+      throw new TypeError("Beacon validation failed: breadcrumb level is invalid");
+    }
+
+    return {
+      category,
+      ...(level !== undefined && { level: level as NonNullable<Breadcrumb["level"]> }),
+      message,
+      timestamp,
+    };
+  });
+}
+
+function parseFeedback(value: unknown): BeaconFeedback {
+  if (!isPlainObject(value)) {
+    throw new TypeError("Beacon validation failed: feedback must be an object");
+  }
+  const { email, message } = value;
+
+  if (typeof message !== "string" || message.length > MAX_FEEDBACK_MESSAGE_LENGTH) {
+    throw new TypeError("Beacon validation failed: feedback.message is invalid");
+  }
+  if (
+    email !== undefined &&
+    (typeof email !== "string" || email.length > MAX_FEEDBACK_EMAIL_LENGTH)
+  ) {
+    throw new TypeError("Beacon validation failed: feedback.email is invalid");
+  }
+
+  return { ...(email !== undefined && { email }), message };
+}
+
+function parseTags(value: unknown): Record<string, string> {
+  if (!isPlainObject(value)) {
+    throw new TypeError("Beacon validation failed: tags must be an object");
+  }
+  const entries = Object.entries(value);
+  if (entries.length > MAX_TAGS) {
+    throw new TypeError("Beacon validation failed: tags exceeds maximum size");
+  }
+
+  const tags: Record<string, string> = {};
+  for (const [key, tagValue] of entries) {
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new TypeError("Beacon validation failed: tag key exceeds maximum length");
+    }
+    if (typeof tagValue !== "string" || tagValue.length > MAX_TAG_VALUE_LENGTH) {
+      throw new TypeError(`Beacon validation failed: tag ${key} is invalid`);
+    }
+    tags[key] = tagValue;
+  }
+  return tags;
+}
+
+function parseUser(value: unknown): BeaconUser {
+  if (!isPlainObject(value)) {
+    throw new TypeError("Beacon validation failed: user must be an object");
+  }
+
+  const user: BeaconUser = {};
+  for (const field of BEACON_USER_FIELDS) {
+    if (field in value) {
+      const fieldValue = value[field];
+      if (typeof fieldValue !== "string" || fieldValue.length > MAX_STRING_FIELD_LENGTH) {
+        throw new TypeError(`Beacon validation failed: user.${field} is invalid`);
+      }
+      user[field] = fieldValue;
+    }
+  }
+  return user;
+}
+
+function parseContext(value: unknown): Record<string, Record<string, unknown>> {
+  if (!isPlainObject(value)) {
+    throw new TypeError("Beacon validation failed: context must be an object");
+  }
+  const entries = Object.entries(value);
+  if (entries.length > MAX_CONTEXTS) {
+    throw new TypeError("Beacon validation failed: context exceeds maximum size");
+  }
+  for (const [name, contextValue] of entries) {
+    if (name.length > MAX_KEY_LENGTH) {
+      throw new TypeError("Beacon validation failed: context name exceeds maximum length");
+    }
+    if (!isPlainObject(contextValue)) {
+      throw new TypeError(`Beacon validation failed: context ${name} must be an object`);
+    }
+  }
+
+  let serialized: string;
+  try {
+    serialized = JSON.stringify(value);
+  } catch {
+    throw new TypeError("Beacon validation failed: context must be JSON-serializable");
+  }
+  if (serialized.length > MAX_SERIALIZED_LENGTH) {
+    throw new TypeError("Beacon validation failed: context exceeds maximum length");
+  }
+  // Round-trip to drop anything JSON cannot represent (functions, undefined, prototypes)
+  return JSON.parse(serialized) as Record<string, Record<string, unknown>>;
+}
 
 export function parseBeacon(data: unknown): BeaconSchema {
   if (!data || typeof data !== "object" || Array.isArray(data)) {
@@ -22,7 +152,7 @@ export function parseBeacon(data: unknown): BeaconSchema {
   const d = data as Record<string, unknown>;
   const result: BeaconSchema = {};
 
-  for (const field of STRING_FIELDS) {
+  for (const field of BEACON_STRING_FIELDS) {
     if (field in d) {
       if (typeof d[field] !== "string") {
         throw new TypeError(`Beacon validation failed: ${field} must be a string`);
@@ -35,7 +165,7 @@ export function parseBeacon(data: unknown): BeaconSchema {
     }
   }
 
-  for (const field of ["retryAttempt", "httpStatus"] as const) {
+  for (const field of ["retryAttempt", "httpStatus", "occurrences"] as const) {
     if (field in d) {
       if (typeof d[field] !== "number" || !Number.isFinite(d[field] as number)) {
         throw new TypeError(`Beacon validation failed: ${field} must be a finite number`);
@@ -44,5 +174,25 @@ export function parseBeacon(data: unknown): BeaconSchema {
     }
   }
 
+  if ("breadcrumbs" in d) {
+    result.breadcrumbs = parseBreadcrumbs(d.breadcrumbs);
+  }
+
+  if ("context" in d) {
+    result.context = parseContext(d.context);
+  }
+
+  if ("feedback" in d) {
+    result.feedback = parseFeedback(d.feedback);
+  }
+
+  if ("tags" in d) {
+    result.tags = parseTags(d.tags);
+  }
+
+  if ("user" in d) {
+    result.user = parseUser(d.user);
+  }
+
   return result;
 }
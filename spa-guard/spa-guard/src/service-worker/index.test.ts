@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { handleSpaGuardMessages, SKIP_WAITING_MESSAGE_TYPE } from "./index";
+
+const createScope = () => {
+  const target = new EventTarget();
+  const scope = {
+    addEventListener: vi.fn((type: string, listener: (event: any) => void) =>
+      target.addEventListener(type, listener as EventListener),
+    ),
+    removeEventListener: vi.fn((type: string, listener: (event: any) => void) =>
+      target.removeEventListener(type, listener as EventListener),
+    ),
+    skipWaiting: vi.fn().mockResolvedValue(undefined),
+  };
+  const postMessage = (data: unknown) => {
+    const event = Object.assign(new Event("message"), { data, waitUntil: vi.fn() });
+    target.dispatchEvent(event);
+    return event;
+  };
+  return { postMessage, scope };
+};
+
+describe("service-worker", () => {
+  it("uses the SKIP_WAITING message type", () => {
+    expect(SKIP_WAITING_MESSAGE_TYPE).toBe("SKIP_WAITING");
+  });
+
+  it("calls skipWaiting() when the page posts SKIP_WAITING", () => {
+    const { postMessage, scope } = createScope();
+    handleSpaGuardMessages(scope);
+
+    const event = postMessage({ type: "SKIP_WAITING" });
+
+    expect(scope.skipWaiting).toHaveBeenCalledTimes(1);
+    expect(event.waitUntil).toHaveBeenCalledWith(expect.any(Promise));
+  });
+
+  it("ignores other messages", () => {
+    const { postMessage, scope } = createScope();
+    handleSpaGuardMessages(scope);
+
+    postMessage({ type: "CACHE_URLS" });
+    postMessage("SKIP_WAITING");
+    postMessage(null);
+
+    expect(scope.skipWaiting).not.toHaveBeenCalled();
+  });
+
+  it("returns a function that removes the listener", () => {
+    const { postMessage, scope } = createScope();
+    const unsubscribe = handleSpaGuardMessages(scope);
+
+    unsubscribe();
+    postMessage({ type: "SKIP_WAITING" });
+
+    expect(scope.skipWaiting).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,46 @@
+import type { UnsubscribeFn } from "../common/events/types";
+
+import { SKIP_WAITING_MESSAGE_TYPE } from "../common/constants";
+
+export { SKIP_WAITING_MESSAGE_TYPE } from "../common/constants";
+
+interface ExtendableMessageEventLike {
+  data: unknown;
+  waitUntil?(promise: Promise<unknown>): void;
+}
+
+/** The parts of `ServiceWorkerGlobalScope` used here, so pages need no `webworker` lib. */
+export interface ServiceWorkerScopeLike {
+  addEventListener(type: "message", listener: (event: ExtendableMessageEventLike) => void): void;
+  removeEventListener(type: "message", listener: (event: ExtendableMessageEventLike) => void): void;
+  skipWaiting(): Promise<void>;
+}
+
+/**
+ * Service worker side of spa-guard's `serviceWorker` recovery option.
+ * Activates the waiting worker when the page posts `{ type: "SKIP_WAITING" }`,
+ * so the recovery reload is served by the new deployment.
+ *
+ * Call it from your service worker script:
+ *
+ * @example
+ * // sw.ts
+ * import { handleSpaGuardMessages } from "@ovineko/spa-guard/service-worker";
+ *
+ * handleSpaGuardMessages(self);
+ *
+ * @returns Function that removes the message listener
+ */
+export const handleSpaGuardMessages = (scope: ServiceWorkerScopeLike): UnsubscribeFn => {
+  const listener = (event: ExtendableMessageEventLike) => {
+    const data = event.data as null | undefined | { type?: unknown };
+    if (data?.type !== SKIP_WAITING_MESSAGE_TYPE) {
+      return;
+    }
+    const activation = scope.skipWaiting();
+    event.waitUntil?.(activation);
+  };
+
+  scope.addEventListener("message", listener);
+  return () => scope.removeEventListener("message", listener);
+};
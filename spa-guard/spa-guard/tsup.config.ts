@@ -13,6 +13,7 @@ export default tsup.defineConfig({
     "src/schema/index.ts",
     "src/schema/parse.ts",
     "src/i18n/index.ts",
+    "src/service-worker/index.ts",
     "src/_internal.ts",
   ],
   format: "esm",
@@ -1,6 +1,7 @@
 import type { Plugin } from "vite";
 
 import { optionsWindowKey } from "@ovineko/spa-guard/_internal";
+import { translations } from "@ovineko/spa-guard/i18n";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import type { VitePluginOptions } from "./index";
@@ -148,6 +149,13 @@ describe("vite-plugin/spaGuardVitePlugin", () => {
       expect(parsed.publicPath).toBeUndefined();
     });
 
+    it("removes translations from the serialized options", async () => {
+      const result = await invokeTransform({ translations: { en: { heading: "Oops" } } });
+      const parsed = parseOptionsFromScript(result.tags[0].children as string);
+
+      expect(parsed.translations).toBeUndefined();
+    });
+
     it("escapes < characters to prevent HTML injection", async () => {
       const result = await invokeTransform({
         html: { fallback: { content: "<script>alert('xss')</script>" } },
@@ -159,6 +167,119 @@ describe("vite-plugin/spaGuardVitePlugin", () => {
     });
   });
 
+  describe("error matcher validation", () => {
+    it("throws when the plugin is created with an invalid regex matcher", async () => {
+      const spaGuardVitePlugin = await importPlugin();
+
+      expect(() => spaGuardVitePlugin({ errors: { ignore: ["ok", { regex: "([" }] } })).toThrow(
+        "errors.ignore[1].regex is not a valid regular expression",
+      );
+    });
+
+    it("throws when a matcher uses an unknown source", async () => {
+      const spaGuardVitePlugin = await importPlugin();
+
+      expect(() =>
+        spaGuardVitePlugin({ errors: { forceRetry: [{ source: "console" as never }] } }),
+      ).toThrow("errors.forceRetry[0].source must be one of");
+    });
+
+    it("serializes valid structured matchers into the script content", async () => {
+      const ignore = [{ filename: "cdn.example.com", regex: "ResizeObserver loop" }];
+      const result = await invokeTransform({ errors: { ignore } });
+      const parsed = parseOptionsFromScript(result.tags[0].children as string);
+
+      expect(parsed.errors.ignore).toEqual(ignore);
+    });
+  });
+
+  describe("embedded translations", () => {
+    it("embeds the built-in translations of i18n.languages only", async () => {
+      const result = await invokeTransform({ i18n: { languages: ["en", "ko"] } });
+      const parsed = parseOptionsFromScript(result.tags[0].children as string);
+
+      expect(Object.keys(parsed.i18n.translations)).toEqual(["en", "ko"]);
+      expect(parsed.i18n.translations.ko.heading).toBe("문제가 발생했습니다");
+      expect(parsed.i18n.languages).toBeUndefined();
+    });
+
+    it("keeps explicitly passed translations over the built-in ones", async () => {
+      const result = await invokeTransform({
+        i18n: { languages: ["de"], translations: { fr: { ...translations.fr!, heading: "Oups" } } },
+      });
+      const parsed = parseOptionsFromScript(result.tags[0].children as string);
+
+      expect(Object.keys(parsed.i18n.translations)).toEqual(["de", "fr"]);
+      expect(parsed.i18n.translations.fr.heading).toBe("Oups");
+    });
+
+    it("throws when the plugin is created with an unknown language", async () => {
+      const spaGuardVitePlugin = await importPlugin();
+
+      expect(() => spaGuardVitePlugin({ i18n: { languages: ["xx"] } })).toThrow(
+        'No built-in translations for i18n.languages entry "xx"',
+      );
+    });
+  });
+
+  describe("template translation keys", () => {
+    const resolveWithLogger = (plugin: Plugin) => {
+      const warn = vi.fn();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (plugin.configResolved as (config: any) => void)({ build: {}, logger: { warn } });
+      return warn;
+    };
+
+    it("warns about template keys without a translation", async () => {
+      const spaGuardVitePlugin = await importPlugin();
+      const plugin = spaGuardVitePlugin({
+        html: {
+          fallback: {
+            content:
+              '<h1 data-spa-guard-content="heading"></h1><p data-spa-guard-content="supportHint"></p><button data-spa-guard-action="open-chat"></button>',
+            templates: { offline: '<p data-spa-guard-content="offlineHint"></p>' },
+          },
+        },
+      });
+
+      const warn = resolveWithLogger(plugin);
+
+      expect(warn).toHaveBeenCalledWith(
+        "[spa-guard] html.fallback.content uses translation keys without a translation: supportHint, openChat",
+      );
+      expect(warn).toHaveBeenCalledWith(
+        "[spa-guard] html.fallback.templates.offline uses translation keys without a translation: offlineHint",
+      );
+    });
+
+    it("accepts keys defined in any language of the custom translations", async () => {
+      const spaGuardVitePlugin = await importPlugin();
+      const plugin = spaGuardVitePlugin<"supportHint">({
+        html: {
+          loading: { content: '<p data-spa-guard-content="supportHint"></p>' },
+        },
+        translations: { de: { supportHint: "Kontaktieren Sie den Support" } },
+      });
+
+      expect(resolveWithLogger(plugin)).not.toHaveBeenCalled();
+    });
+
+    it("ignores elements spa-guard fills itself", async () => {
+      const spaGuardVitePlugin = await importPlugin();
+      const plugin = spaGuardVitePlugin({
+        html: {
+          loading: {
+            content:
+              '<span data-spa-guard-content="retrying"></span><span data-spa-guard-content="attempt"></span>',
+          },
+          updatePrompt: { content: '<span data-spa-guard-content="version"></span>' },
+        },
+      });
+
+      expect(resolveWithLogger(plugin)).not.toHaveBeenCalled();
+    });
+  });
+
   describe("fallback HTML minification", () => {
     it("minifies fallback HTML when provided", async () => {
       const { minify } = await import("html-minifier-terser");
@@ -174,6 +295,24 @@ describe("vite-plugin/spaGuardVitePlugin", () => {
       );
     });
 
+    it("minifies every category template", async () => {
+      const { minify } = await import("html-minifier-terser");
+      const result = await invokeTransform({
+        html: {
+          fallback: {
+            templates: { offline: "<p> offline </p>", "stale-deploy": "<p> stale </p>" },
+          },
+        },
+      });
+      const parsed = parseOptionsFromScript(result.tags[0].children as string);
+
+      expect(minify).toHaveBeenCalledTimes(2);
+      expect(parsed.html.fallback.templates).toEqual({
+        offline: "minified:<p> offline </p>",
+        "stale-deploy": "minified:<p> stale </p>",
+      });
+    });
+
     it("does not minify when no fallback html is provided", async () => {
       const { minify } = await import("html-minifier-terser");
       await invokeTransform();
@@ -182,6 +321,31 @@ describe("vite-plugin/spaGuardVitePlugin", () => {
     });
   });
 
+  describe("optional default templates", () => {
+    it("leaves the update prompt and the fallback sections out by default", async () => {
+      const result = await invokeTransform();
+      const parsed = parseOptionsFromScript(result.tags[0].children as string);
+
+      expect(parsed.html.updatePrompt).toBeUndefined();
+      expect(parsed.html.fallback).toBeUndefined();
+    });
+
+    it("inlines the default update prompt for onUpdate: 'prompt'", async () => {
+      const result = await invokeTransform({ checkVersion: { onUpdate: "prompt" } });
+      const parsed = parseOptionsFromScript(result.tags[0].children as string);
+
+      expect(parsed.html.updatePrompt.content).toContain("spa-guard-update-prompt");
+    });
+
+    it("inlines the default fallback with the feedback form when enabled", async () => {
+      const result = await invokeTransform({ feedback: { enabled: true } });
+      const parsed = parseOptionsFromScript(result.tags[0].children as string);
+
+      expect(parsed.html.fallback.content).toContain('data-spa-guard-section="feedback"');
+      expect(parsed.html.fallback.content).not.toContain('data-spa-guard-section="recovery"');
+    });
+  });
+
   describe("version auto-generation", () => {
     it("auto-generates a UUID version when no version is provided", async () => {
       const result = await invokeTransform();
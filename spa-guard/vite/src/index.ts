@@ -1,7 +1,16 @@
+import type { ExtendedTranslations } from "@ovineko/spa-guard/i18n";
 import type { HtmlTagDescriptor, Plugin, ViteDevServer } from "vite";
 
 import { type Options, optionsWindowKey } from "@ovineko/spa-guard/_internal";
-import { defaultSpinnerSvg, sanitizeCssValue, SPINNER_ID } from "@ovineko/spa-guard/_internal";
+import {
+  defaultSpinnerSvg,
+  getTemplateTranslationKeys,
+  sanitizeCssValue,
+  SPINNER_ID,
+  validateErrorMatchers,
+  withOptionalDefaultTemplates,
+} from "@ovineko/spa-guard/_internal";
+import { translations as builtInTranslations, pickTranslations } from "@ovineko/spa-guard/i18n";
 import { minify } from "html-minifier-terser";
 import crypto from "node:crypto";
 import fsPromise from "node:fs/promises";
@@ -10,7 +19,7 @@ import { fileURLToPath } from "node:url";
 
 import { name } from "../package.json";
 
-export interface VitePluginOptions extends Options {
+export interface VitePluginOptions<K extends string = never> extends Options {
   /** Directory to write the external script file (defaults to vite's build.outDir). */
   externalScriptDir?: string;
   /** Script injection mode. 'inline' (default) embeds the script; 'external' writes a content-hashed file. */
@@ -18,6 +27,11 @@ export interface VitePluginOptions extends Options {
   /** Public URL prefix for the external script (defaults to '/'). */
   publicPath?: string;
   trace?: boolean;
+  /**
+   * The custom translations given to `createHtmlCache`, `patchHtmlI18n` or `setTranslations`.
+   * Not embedded in the script: the build warns about template keys missing from them.
+   */
+  translations?: Record<string, Partial<ExtendedTranslations<K>>>;
 }
 
 const minifyHtml = async (html: string): Promise<string> => {
@@ -33,6 +47,66 @@ const minifyHtml = async (html: string): Promise<string> => {
   });
 };
 
+type FallbackHtmlOptions = NonNullable<NonNullable<Options["html"]>["fallback"]>;
+
+/** Minifies `content` and every category template of `html.fallback`. */
+const minifyFallbackHtml = async (fallback: FallbackHtmlOptions): Promise<FallbackHtmlOptions> => {
+  const templates = fallback.templates
+    ? Object.fromEntries(
+        await Promise.all(
+          Object.entries(fallback.templates).map(async ([category, html]) => [
+            category,
+            html ? await minifyHtml(html) : html,
+          ]),
+        ),
+      )
+    : undefined;
+
+  return {
+    ...fallback,
+    ...(fallback.content && { content: await minifyHtml(fallback.content) }),
+    ...(templates && { templates }),
+  };
+};
+
+/**
+ * Warnings for translation keys used by the HTML templates in `options` that have
+ * neither a built-in nor a custom translation.
+ */
+const getMissingTranslationWarnings = (options: VitePluginOptions<string>): string[] => {
+  const knownKeys = new Set([
+    ...Object.keys(builtInTranslations.en ?? {}),
+    ...Object.values(options.translations ?? {}).flatMap((t) => Object.keys(t)),
+  ]);
+  const templates: [string, string | undefined][] = [
+    ["html.fallback.content", options.html?.fallback?.content],
+    ...Object.entries(options.html?.fallback?.templates ?? {}).map(
+      ([category, html]): [string, string | undefined] => [
+        `html.fallback.templates.${category}`,
+        html,
+      ],
+    ),
+    ["html.loading.content", options.html?.loading?.content],
+    ["html.updatePrompt.content", options.html?.updatePrompt?.content],
+  ];
+
+  return templates.flatMap(([option, html]) => {
+    const missing = html ? getTemplateTranslationKeys(html).filter((k) => !knownKeys.has(k)) : [];
+    return missing.length > 0
+      ? [`[spa-guard] ${option} uses translation keys without a translation: ${missing.join(", ")}`]
+      : [];
+  });
+};
+
+/** Replaces `i18n.languages` with the built-in translations of those languages. */
+const embedTranslations = (i18n: Options["i18n"]): Options["i18n"] => {
+  if (!i18n?.languages) {
+    return i18n;
+  }
+  const { languages, ...rest } = i18n;
+  return { ...rest, translations: { ...pickTranslations(languages), ...rest.translations } };
+};
+
 const getInlineScript = async (options: VitePluginOptions) => {
   const buildDir = options.trace ? "dist-inline-trace" : "dist-inline";
 
@@ -49,15 +123,13 @@ const getInlineScript = async (options: VitePluginOptions) => {
     mode: undefined,
     publicPath: undefined,
     trace: undefined,
+    translations: undefined,
   };
 
-  if (processedOptions.html?.fallback?.content) {
+  if (processedOptions.html?.fallback) {
     processedOptions.html = {
       ...processedOptions.html,
-      fallback: {
-        ...processedOptions.html.fallback,
-        content: await minifyHtml(processedOptions.html.fallback.content),
-      },
+      fallback: await minifyFallbackHtml(processedOptions.html.fallback),
     };
   }
 
@@ -67,7 +139,15 @@ const getInlineScript = async (options: VitePluginOptions) => {
   return `window.__SPA_GUARD_VERSION__=${safeVersion};window.${optionsWindowKey}=${escapedJson};${script}`;
 };
 
-export const spaGuardVitePlugin = (options: VitePluginOptions = {}): Plugin => {
+export const spaGuardVitePlugin = <K extends string = never>(
+  options: VitePluginOptions<NoInfer<K>> = {},
+): Plugin => {
+  // Fail the build early instead of shipping matchers that never match
+  validateErrorMatchers(options.errors);
+  const translationWarnings = getMissingTranslationWarnings(options);
+  // Throws for unknown languages, failing the build like invalid matchers
+  const i18n = embedTranslations(options.i18n);
+
   const autoVersion = crypto.randomUUID();
   const { mode = "inline" } = options;
 
@@ -80,6 +160,9 @@ export const spaGuardVitePlugin = (options: VitePluginOptions = {}): Plugin => {
 
   return {
     configResolved(config) {
+      for (const warning of translationWarnings) {
+        config.logger.warn(warning);
+      }
       resolvedBase = config.base ?? null;
       if (mode === "external") {
         resolvedOutDir = options.externalScriptDir ?? config.build.outDir;
@@ -106,7 +189,8 @@ export const spaGuardVitePlugin = (options: VitePluginOptions = {}): Plugin => {
     transformIndexHtml: {
       handler: async (html) => {
         const finalOptions: VitePluginOptions = {
-          ...options,
+          ...withOptionalDefaultTemplates(options),
+          ...(i18n && { i18n }),
           version: options.version ?? autoVersion,
         };
 